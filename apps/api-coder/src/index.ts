@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -39,6 +43,9 @@ const LLM_MODEL = process.env.LLM_MODEL || "anthropic/claude-sonnet-4-20250514";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -606,6 +613,7 @@ app.get("/readyz", (c) => c.json({ status: "ok" }));
 app.get("/dapr/subscribe", (c): Response => {
   const subscriptions: DaprSubscription[] = [
     { pubsubname: DAPR_PUBSUB_NAME, topic: `tasks.${AGENT_ID}`, route: "/tasks" },
+    { pubsubname: DAPR_PUBSUB_NAME, topic: taskControlTopic(AGENT_ID), route: "/control" },
   ];
   return c.json(subscriptions);
 });
@@ -663,6 +671,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request: APICoderRequest = {
       action: (task.payload.action as APICoderRequest["action"]) || "generate-code",
@@ -670,7 +681,7 @@ app.post("/tasks", async (c) => {
       preferences: task.payload.preferences as APICoderRequest["preferences"],
     };
 
-    const result = await handleCodeRequest(request);
+    const result = await handleCodeRequest(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -681,9 +692,16 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task failed:`, error);
 
     const failResult: TaskResult = {
@@ -697,11 +715,24 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
   }
 });
 
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
+  }
+  return c.json({ status: "SUCCESS" });
+});
+
 // --- Core Handler ---
-async function handleCodeRequest(request: APICoderRequest): Promise<APIDesign | CodeGeneration | CodeReview | string> {
+async function handleCodeRequest(request: APICoderRequest, token?: CancelToken): Promise<APIDesign | CodeGeneration | CodeReview | string> {
   let enhancedPrompt = SYSTEM_PROMPT;
 
   // Add memory context
@@ -747,12 +778,13 @@ async function handleCodeRequest(request: APICoderRequest): Promise<APIDesign |
   switch (request.action) {
     case "design-api": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Design a RESTful API based on these requirements.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Design a RESTful API based on these requirements.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: APIDesignSchema,
         system: enhancedPrompt,
         prompt: `Create a structured API design based on this analysis:\n\n${analysis}`,
@@ -763,12 +795,13 @@ async function handleCodeRequest(request: APICoderRequest): Promise<APIDesign |
 
     case "generate-code": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Generate backend API code for these requirements.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Generate backend API code for these requirements.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: CodeGenerationSchema,
         system: enhancedPrompt,
         prompt: `Generate structured code output:\n\n${analysis}`,
@@ -779,12 +812,13 @@ async function handleCodeRequest(request: APICoderRequest): Promise<APIDesign |
 
     case "review-code": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Review this code for quality, security, and best practices.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Review this code for quality, security, and best practices.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: CodeReviewSchema,
         system: enhancedPrompt,
         prompt: `Create a structured code review:\n\n${analysis}`,
@@ -795,13 +829,15 @@ async function handleCodeRequest(request: APICoderRequest): Promise<APIDesign |
 
     default: {
       const { text } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `${request.action}:${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `${request.action}:${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
       result = text;
     }
   }
 
+  token?.throwIfCancelled();
+
   // Store in memory
   if (memory) {
     try {
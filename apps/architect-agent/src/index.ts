@@ -13,6 +13,10 @@ import {
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
   ARCHITECT_ACTOR_TYPE,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -46,6 +50,9 @@ const GRAFANA_API_KEY = process.env.GRAFANA_API_KEY || "";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -346,6 +353,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -430,6 +442,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} - ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request: ConsultRequest = {
       question: typeof task.payload.query === "string"
@@ -442,7 +457,7 @@ app.post("/tasks", async (c) => {
       requireStructured: task.payload.requireStructured !== false,
     };
 
-    const result = await handleConsultation(request);
+    const result = await handleConsultation(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -453,11 +468,18 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     console.log(`[${AGENT_ID}] Task ${task.id} completed`);
 
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -471,12 +493,26 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" }); // ACK to Dapr even on failure
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // --- Core Consultation Handler ---
 async function handleConsultation(
-  request: ConsultRequest
+  request: ConsultRequest,
+  token?: CancelToken
 ): Promise<ArchitectureRecommendation | string> {
   const { question, context, userId, requireStructured } = request;
   const userIdResolved = userId || "architect";
@@ -517,6 +553,7 @@ async function handleConsultation(
       {
         model: LLM_MODEL,
         system: enhancedPrompt,
+        signal: token?.signal,
         prompt: `Analyze this architectural question and gather any relevant information using available tools. Then provide your analysis.
 
 Question: ${question}`,
@@ -528,6 +565,7 @@ Question: ${question}`,
     const { object } = await chatCompletionWithSchema({
       model: LLM_MODEL,
       schema: ArchitectureRecommendationSchema,
+      signal: token?.signal,
       system: enhancedPrompt,
       prompt: `Based on the following analysis, provide a structured architectural recommendation.
 
@@ -545,6 +583,7 @@ ${question}`,
       {
         model: LLM_MODEL,
         system: enhancedPrompt,
+        signal: token?.signal,
         prompt: question,
       },
       traceCtx
@@ -553,6 +592,8 @@ ${question}`,
     recommendation = text;
   }
 
+  token?.throwIfCancelled();
+
   // Store the decision in memory for future reference
   if (memory) {
     try {
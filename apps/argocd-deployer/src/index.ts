@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -44,6 +48,9 @@ const ARGOCD_INSECURE = process.env.ARGOCD_INSECURE === "true";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -239,7 +246,8 @@ const SYSTEM_PROMPT = `You are the ArgoCD Deployer Agent for the mesh-six agent
 async function argocdRequest(
   endpoint: string,
   method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
-  body?: unknown
+  body?: unknown,
+  signal?: AbortSignal
 ): Promise<unknown> {
   if (!ARGOCD_TOKEN) {
     throw new Error("ArgoCD token not configured");
@@ -254,6 +262,7 @@ async function argocdRequest(
   const options: RequestInit = {
     method,
     headers,
+    signal,
   };
 
   if (body) {
@@ -283,11 +292,11 @@ const tools = {
       application: z.string().describe("Application name"),
       namespace: z.string().default("argocd"),
     }),
-    execute: async ({ application, namespace }) => {
+    execute: async ({ application, namespace }, { signal }) => {
       console.log(`[${AGENT_ID}] Getting status for ${application}`);
 
       try {
-        const result = await argocdRequest(`/applications/${application}?appNamespace=${namespace}`);
+        const result = await argocdRequest(`/applications/${application}?appNamespace=${namespace}`, "GET", undefined, signal);
         const app = result as Record<string, unknown>;
         const status = app.status as Record<string, unknown>;
         const spec = app.spec as Record<string, unknown>;
@@ -315,7 +324,7 @@ const tools = {
       dryRun: z.boolean().default(false),
       revision: z.string().optional(),
     }),
-    execute: async ({ application, namespace, prune, dryRun, revision }) => {
+    execute: async ({ application, namespace, prune, dryRun, revision }, { signal }) => {
       console.log(`[${AGENT_ID}] Syncing ${application} (prune=${prune}, dryRun=${dryRun})`);
 
       try {
@@ -331,7 +340,8 @@ const tools = {
         const result = await argocdRequest(
           `/applications/${application}/sync?appNamespace=${namespace}`,
           "POST",
-          syncRequest
+          syncRequest,
+          signal
         );
 
         return {
@@ -361,7 +371,7 @@ const tools = {
       prune: z.boolean().default(false),
       selfHeal: z.boolean().default(false),
     }),
-    execute: async ({ name, namespace, project, repoUrl, path, targetRevision, destServer, destNamespace, autoSync, prune, selfHeal }) => {
+    execute: async ({ name, namespace, project, repoUrl, path, targetRevision, destServer, destNamespace, autoSync, prune, selfHeal }, { signal }) => {
       console.log(`[${AGENT_ID}] Creating application ${name}`);
 
       const applicationSpec: Record<string, unknown> = {
@@ -393,7 +403,7 @@ const tools = {
       }
 
       try {
-        const result = await argocdRequest("/applications", "POST", applicationSpec);
+        const result = await argocdRequest("/applications", "POST", applicationSpec, signal);
         return {
           success: true,
           application: name,
@@ -413,12 +423,12 @@ const tools = {
       namespace: z.string().default("argocd"),
       revision: z.string().describe("Target revision ID to rollback to"),
     }),
-    execute: async ({ application, namespace, revision }) => {
+    execute: async ({ application, namespace, revision }, { signal }) => {
       console.log(`[${AGENT_ID}] Rolling back ${application} to ${revision}`);
 
       try {
         // First, get current status
-        const currentStatus = await argocdRequest(`/applications/${application}?appNamespace=${namespace}`);
+        const currentStatus = await argocdRequest(`/applications/${application}?appNamespace=${namespace}`, "GET", undefined, signal);
         const currentApp = currentStatus as Record<string, unknown>;
         const currentRevision = ((currentApp.status as Record<string, unknown>)?.sync as Record<string, unknown>)?.revision;
 
@@ -426,7 +436,8 @@ const tools = {
         const result = await argocdRequest(
           `/applications/${application}/sync?appNamespace=${namespace}`,
           "POST",
-          { revision }
+          { revision },
+          signal
         );
 
         return {
@@ -449,7 +460,7 @@ const tools = {
       project: z.string().optional(),
       namespace: z.string().default("argocd"),
     }),
-    execute: async ({ project, namespace }) => {
+    execute: async ({ project, namespace }, { signal }) => {
       console.log(`[${AGENT_ID}] Listing applications`);
 
       try {
@@ -458,7 +469,7 @@ const tools = {
           endpoint += `&project=${project}`;
         }
 
-        const result = await argocdRequest(endpoint);
+        const result = await argocdRequest(endpoint, "GET", undefined, signal);
         const items = (result as Record<string, unknown>).items as Array<Record<string, unknown>> || [];
 
         return {
@@ -483,13 +494,15 @@ const tools = {
       namespace: z.string().default("argocd"),
       cascade: z.boolean().default(true).describe("Delete resources managed by the application"),
     }),
-    execute: async ({ application, namespace, cascade }) => {
+    execute: async ({ application, namespace, cascade }, { signal }) => {
       console.log(`[${AGENT_ID}] Deleting application ${application} (cascade=${cascade})`);
 
       try {
         await argocdRequest(
           `/applications/${application}?appNamespace=${namespace}&cascade=${cascade}`,
-          "DELETE"
+          "DELETE",
+          undefined,
+          signal
         );
 
         return {
@@ -554,6 +567,7 @@ app.get("/readyz", (c) => c.json({ status: "ok" }));
 app.get("/dapr/subscribe", (c): Response => {
   const subscriptions: DaprSubscription[] = [
     { pubsubname: DAPR_PUBSUB_NAME, topic: `tasks.${AGENT_ID}`, route: "/tasks" },
+    { pubsubname: DAPR_PUBSUB_NAME, topic: taskControlTopic(AGENT_ID), route: "/control" },
   ];
   return c.json(subscriptions);
 });
@@ -616,9 +630,12 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request = DeployRequestSchema.parse(task.payload);
-    const result = await handleDeployRequest(request);
+    const result = await handleDeployRequest(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -629,9 +646,16 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task failed:`, error);
 
     const failResult: TaskResult = {
@@ -645,11 +669,24 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
   }
 });
 
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
+  }
+  return c.json({ status: "SUCCESS" });
+});
+
 // --- Core Handler ---
-async function handleDeployRequest(request: DeployRequest): Promise<DeploymentResult | DeploymentPlan | ApplicationStatus | unknown> {
+async function handleDeployRequest(request: DeployRequest, token?: CancelToken): Promise<DeploymentResult | DeploymentPlan | ApplicationStatus | unknown> {
   let enhancedPrompt = SYSTEM_PROMPT;
 
   // Add memory context
@@ -676,7 +713,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
       const status = await tools.argocd_get_status.execute({
         application: request.application,
         namespace: request.namespace,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = status;
       break;
     }
@@ -689,7 +726,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
         prune: request.syncOptions?.prune ?? false,
         dryRun: request.syncOptions?.dryRun ?? false,
         revision: request.revision,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = syncResult;
       break;
     }
@@ -701,7 +738,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
         application: request.application,
         namespace: request.namespace,
         revision: request.revision,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = rollbackResult;
       break;
     }
@@ -723,7 +760,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
         autoSync: false,
         prune: false,
         selfHeal: false,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = createResult;
       break;
     }
@@ -734,7 +771,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
         application: request.application,
         namespace: request.namespace,
         cascade: true,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = deleteResult;
       break;
     }
@@ -743,7 +780,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
       const listResult = await tools.argocd_list_applications.execute({
         project: request.project !== "default" ? request.project : undefined,
         namespace: request.namespace,
-      }, { toolCallId: "direct", messages: [] });
+      }, { toolCallId: "direct", messages: [], signal: token?.signal });
       result = listResult;
       break;
     }
@@ -758,6 +795,7 @@ async function handleDeployRequest(request: DeployRequest): Promise<DeploymentRe
         {
           model: LLM_MODEL,
           system: enhancedPrompt,
+          signal: token?.signal,
           prompt: `Plan a deployment for:
 Application: ${request.application || "new-app"}
 Source: ${request.source.repoUrl} / ${request.source.path} @ ${request.source.targetRevision}
@@ -771,6 +809,7 @@ Analyze risks and create a deployment plan.`,
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
         schema: DeploymentPlanSchema,
+        signal: token?.signal,
         system: enhancedPrompt,
         prompt: `Create a structured deployment plan:\n\n${analysis}`,
       });
@@ -779,6 +818,8 @@ Analyze risks and create a deployment plan.`,
     }
   }
 
+  token?.throwIfCancelled();
+
   // Store in memory
   if (memory && request.application) {
     try {
@@ -18,4 +18,17 @@ export const REFRESH_CHECK_INTERVAL_MS =
 export const CREDENTIAL_REFRESH_THRESHOLD_MS =
   Number(process.env.CREDENTIAL_REFRESH_THRESHOLD_MS) || 60 * 60_000; // 60 minutes
 
+// Master keys wrapping the per-project data keys (see vault.ts): one
+// `keyId=base64key` per line or comma, the first being the active key.
+// Read from the file when it exists, else from the env var.
+export const AUTH_MASTER_KEY_FILE =
+  process.env.AUTH_MASTER_KEY_FILE || "/etc/mesh-six/auth-keys/master-keys";
+export const AUTH_MASTER_KEYS = process.env.AUTH_MASTER_KEYS || "";
+
+// Credential pool cooldowns when a consumer reports a problem without a retry-after
+export const POOL_RATE_LIMIT_COOLDOWN_MS =
+  Number(process.env.POOL_RATE_LIMIT_COOLDOWN_MS) || 15 * 60_000; // 15 minutes
+export const POOL_AUTH_FAILURE_COOLDOWN_MS =
+  Number(process.env.POOL_AUTH_FAILURE_COOLDOWN_MS) || 30 * 60_000; // 30 minutes
+
 export const DAPR_PUBSUB_NAME = CORE_PUBSUB_NAME;
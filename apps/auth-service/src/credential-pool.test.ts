@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test";
+import {
+  selectPoolMember,
+  poolRetryAfterMs,
+  poolMemberLabel,
+  tierWeight,
+  type PoolMember,
+} from "./credential-pool.js";
+
+const now = new Date("2026-10-19T12:00:00Z");
+const minutesAgo = (m: number) => new Date(now.getTime() - m * 60_000);
+const minutesAhead = (m: number) => new Date(now.getTime() + m * 60_000);
+
+function member(id: string, overrides: Partial<PoolMember> = {}): PoolMember {
+  return {
+    id,
+    label: id,
+    enabled: true,
+    cooldownUntil: null,
+    lastRateLimitedAt: null,
+    lastAuthFailureAt: null,
+    lastSelectedAt: null,
+    selectionCount: 0,
+    credentialId: `cred-${id}`,
+    expiresAt: minutesAhead(120),
+    ...overrides,
+  };
+}
+
+describe("tierWeight", () => {
+  it("parses the multiplier from the tier name", () => {
+    expect(tierWeight("default_claude_max_20x")).toBe(20);
+    expect(tierWeight("default_claude_max_5x")).toBe(5);
+    expect(tierWeight("default_claude_pro")).toBe(1);
+    expect(tierWeight(undefined)).toBe(1);
+  });
+});
+
+describe("selectPoolMember", () => {
+  it("skips disabled, cooling-down and credential-less members", () => {
+    const members = [
+      member("disabled", { enabled: false }),
+      member("cooling", { cooldownUntil: minutesAhead(5) }),
+      member("no-cred", { credentialId: undefined, expiresAt: undefined }),
+      member("expired", { expiresAt: minutesAgo(1) }),
+      member("ok", { lastSelectedAt: minutesAgo(1) }),
+    ];
+    expect(selectPoolMember(members, "round_robin", now)?.id).toBe("ok");
+  });
+
+  it("treats an elapsed cooldown as available", () => {
+    const members = [member("a", { cooldownUntil: minutesAgo(1) })];
+    expect(selectPoolMember(members, "round_robin", now)?.id).toBe("a");
+  });
+
+  it("returns null when no member is available", () => {
+    expect(selectPoolMember([member("a", { cooldownUntil: minutesAhead(5) })], "round_robin", now)).toBeNull();
+    expect(selectPoolMember([], "tier_aware", now)).toBeNull();
+  });
+
+  it("round_robin picks the least recently selected, never-selected first", () => {
+    const members = [
+      member("a", { lastSelectedAt: minutesAgo(1) }),
+      member("b", { lastSelectedAt: minutesAgo(10) }),
+      member("c"),
+    ];
+    expect(selectPoolMember(members, "round_robin", now)?.id).toBe("c");
+    expect(selectPoolMember(members.slice(0, 2), "round_robin", now)?.id).toBe("b");
+  });
+
+  it("least_recently_rate_limited prefers never limited, then the oldest limit", () => {
+    const members = [
+      member("recent", { lastRateLimitedAt: minutesAgo(20) }),
+      member("old", { lastRateLimitedAt: minutesAgo(300) }),
+      member("never", { lastSelectedAt: minutesAgo(1) }),
+    ];
+    expect(selectPoolMember(members, "least_recently_rate_limited", now)?.id).toBe("never");
+    expect(selectPoolMember(members.slice(0, 2), "least_recently_rate_limited", now)?.id).toBe("old");
+  });
+
+  it("tier_aware weighs idle time by tier capacity", () => {
+    const members = [
+      member("pro", { lastSelectedAt: minutesAgo(10) }),
+      member("max20", { lastSelectedAt: minutesAgo(1), rateLimitTier: "default_claude_max_20x" }),
+    ];
+    // 10min × 1 < 1min × 20
+    expect(selectPoolMember(members, "tier_aware", now)?.id).toBe("max20");
+  });
+
+  it("tier_aware serves never-selected members first, highest tier first", () => {
+    const members = [
+      member("pro"),
+      member("max5", { rateLimitTier: "default_claude_max_5x" }),
+      member("busy", { lastSelectedAt: minutesAgo(1000), rateLimitTier: "default_claude_max_20x" }),
+    ];
+    expect(selectPoolMember(members, "tier_aware", now)?.id).toBe("max5");
+  });
+});
+
+describe("poolRetryAfterMs", () => {
+  it("returns the time until the first cooldown ends", () => {
+    const members = [
+      member("a", { cooldownUntil: minutesAhead(10) }),
+      member("b", { cooldownUntil: minutesAhead(3) }),
+      member("disabled", { enabled: false, cooldownUntil: minutesAhead(1) }),
+    ];
+    expect(poolRetryAfterMs(members, now)).toBe(3 * 60_000);
+  });
+
+  it("is undefined when nothing is cooling down", () => {
+    expect(poolRetryAfterMs([member("a", { credentialId: undefined })], now)).toBeUndefined();
+  });
+});
+
+describe("poolMemberLabel", () => {
+  it("prefers the explicit label, then the account", () => {
+    const base = { accessToken: "t", expiresAt: now.toISOString() };
+    expect(poolMemberLabel({ ...base, poolMember: "team-a", accountUuid: "acct" })).toBe("team-a");
+    expect(poolMemberLabel({ ...base, accountUuid: "acct", emailAddress: "a@b.c" })).toBe("acct");
+    expect(poolMemberLabel({ ...base, emailAddress: "a@b.c" })).toBe("a@b.c");
+    expect(poolMemberLabel(base)).toBe("default");
+  });
+});
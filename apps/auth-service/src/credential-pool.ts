@@ -0,0 +1,297 @@
+/**
+ * Credential pools — several Claude accounts behind one auth project.
+ *
+ * Each pool member owns its own credential chain (push → refresh) and bundles.
+ * Provisioning picks a member that is enabled, has a valid credential and is
+ * not cooling down after a consumer-reported 429 or auth failure, using the
+ * project's pool policy:
+ *  - round_robin: least recently selected
+ *  - least_recently_rate_limited: never rate limited first, then longest since
+ *    its last 429; ties fall back to round robin
+ *  - tier_aware: round robin weighted by the rate-limit tier's multiplier, so a
+ *    `default_claude_max_20x` member is picked about 4× as often as a `_5x` one
+ *
+ * Selection locks the chosen member row until the caller has provisioned from
+ * it, so replicas provisioning at the same time pick different members.
+ */
+import type { Pool, PoolClient } from "pg";
+import type { CredentialPoolPolicy, CredentialPushRequest, PoolMemberRef } from "@mesh-six/core";
+import { POOL_RATE_LIMIT_COOLDOWN_MS, POOL_AUTH_FAILURE_COOLDOWN_MS } from "./config.js";
+
+export type CredentialProblem = "rate_limited" | "auth_failure";
+
+export interface PoolMember {
+  id: string;
+  label: string;
+  enabled: boolean;
+  cooldownUntil: Date | null;
+  lastRateLimitedAt: Date | null;
+  lastAuthFailureAt: Date | null;
+  lastSelectedAt: Date | null;
+  selectionCount: number;
+  /** The member's latest valid credential, if any */
+  credentialId?: string;
+  expiresAt?: Date;
+  rateLimitTier?: string;
+}
+
+interface PoolMemberRow {
+  id: string;
+  label: string;
+  enabled: boolean;
+  cooldown_until: Date | null;
+  last_rate_limited_at: Date | null;
+  last_auth_failure_at: Date | null;
+  last_selected_at: Date | null;
+  selection_count: string | number;
+  credential_id: string | null;
+  expires_at: Date | null;
+  rate_limit_tier: string | null;
+}
+
+function rowToPoolMember(row: PoolMemberRow): PoolMember {
+  return {
+    id: row.id,
+    label: row.label,
+    enabled: row.enabled,
+    cooldownUntil: row.cooldown_until,
+    lastRateLimitedAt: row.last_rate_limited_at,
+    lastAuthFailureAt: row.last_auth_failure_at,
+    lastSelectedAt: row.last_selected_at,
+    selectionCount: Number(row.selection_count),
+    credentialId: row.credential_id ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    rateLimitTier: row.rate_limit_tier ?? undefined,
+  };
+}
+
+// -------------------------------------------------------------------------
+// Selection (pure)
+// -------------------------------------------------------------------------
+
+/** Relative capacity of a rate-limit tier: the `Nx` multiplier in its name, else 1. */
+export function tierWeight(rateLimitTier?: string): number {
+  const match = rateLimitTier?.match(/(\d+)x\b/i);
+  const weight = match ? Number(match[1]) : 1;
+  return weight > 0 ? weight : 1;
+}
+
+export function isCoolingDown(member: PoolMember, now = new Date()): boolean {
+  return member.cooldownUntil !== null && member.cooldownUntil > now;
+}
+
+/** Enabled members with an unexpired credential, whether or not cooling down. */
+function withValidCredential(members: PoolMember[], now: Date): PoolMember[] {
+  return members.filter((m) => m.enabled && m.credentialId && m.expiresAt && m.expiresAt > now);
+}
+
+/** Ascending comparison that treats equal infinities as ties. */
+function compare(a: number, b: number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function time(date: Date | null): number {
+  return date ? date.getTime() : -Infinity;
+}
+
+/** Order by least recently selected; never-selected members first, then input order. */
+function byLeastRecentlySelected(a: PoolMember, b: PoolMember): number {
+  return compare(time(a.lastSelectedAt), time(b.lastSelectedAt));
+}
+
+/**
+ * Pick the pool member to provision from, or null if none is available.
+ * `members` should be in creation order so ties resolve deterministically.
+ */
+export function selectPoolMember(
+  members: PoolMember[],
+  policy: CredentialPoolPolicy,
+  now = new Date()
+): PoolMember | null {
+  const available = withValidCredential(members, now).filter((m) => !isCoolingDown(m, now));
+  if (available.length === 0) return null;
+
+  switch (policy) {
+    case "round_robin":
+      return [...available].sort(byLeastRecentlySelected)[0];
+
+    case "least_recently_rate_limited":
+      return [...available].sort(
+        (a, b) => compare(time(a.lastRateLimitedAt), time(b.lastRateLimitedAt)) || byLeastRecentlySelected(a, b)
+      )[0];
+
+    case "tier_aware": {
+      // Idle time scaled by capacity: a 20x member is due again 4× sooner than a 5x one
+      const score = (m: PoolMember) =>
+        m.lastSelectedAt ? (now.getTime() - m.lastSelectedAt.getTime()) * tierWeight(m.rateLimitTier) : Infinity;
+      return [...available].sort(
+        (a, b) => compare(score(b), score(a)) || compare(tierWeight(b.rateLimitTier), tierWeight(a.rateLimitTier))
+      )[0];
+    }
+  }
+}
+
+/**
+ * When every member with a valid credential is cooling down: milliseconds until
+ * the first one becomes available. Undefined if none is cooling down.
+ */
+export function poolRetryAfterMs(members: PoolMember[], now = new Date()): number | undefined {
+  const cooling = withValidCredential(members, now).filter((m) => isCoolingDown(m, now));
+  if (cooling.length === 0) return undefined;
+  return Math.min(...cooling.map((m) => m.cooldownUntil!.getTime() - now.getTime()));
+}
+
+export function toPoolMemberRef(member: PoolMember): PoolMemberRef {
+  return { id: member.id, label: member.label, rateLimitTier: member.rateLimitTier };
+}
+
+/** Pool member a pushed credential belongs to: explicit label, else the account. */
+export function poolMemberLabel(req: CredentialPushRequest): string {
+  return req.poolMember ?? req.accountUuid ?? req.emailAddress ?? "default";
+}
+
+// -------------------------------------------------------------------------
+// Persistence
+// -------------------------------------------------------------------------
+
+/** All members of a project's pool, in creation order, with their latest valid credential. */
+export async function listPoolMembers(pool: Pool | PoolClient, projectId: string): Promise<PoolMember[]> {
+  const result = await pool.query<PoolMemberRow>(
+    `SELECT m.*, c.id AS credential_id, c.expires_at, c.rate_limit_tier
+     FROM auth_pool_members m
+     LEFT JOIN LATERAL (
+       SELECT id, expires_at, rate_limit_tier FROM auth_credentials
+       WHERE member_id = m.id AND invalidated_at IS NULL AND expires_at > NOW()
+       ORDER BY created_at DESC
+       LIMIT 1
+     ) c ON TRUE
+     WHERE m.project_id = $1
+     ORDER BY m.created_at, m.label`,
+    [projectId]
+  );
+  return result.rows.map(rowToPoolMember);
+}
+
+/**
+ * Find or create a pool member by label and return its ID. A pushed credential
+ * replaces one that failed auth, so an auth-failure cooldown is lifted; a
+ * rate-limit cooldown stays, since the limit belongs to the account.
+ */
+export async function ensurePoolMember(pool: Pool, projectId: string, label: string): Promise<string> {
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO auth_pool_members (project_id, label)
+     VALUES ($1, $2)
+     ON CONFLICT (project_id, label) DO UPDATE SET
+       cooldown_until = CASE
+         WHEN auth_pool_members.last_auth_failure_at IS NOT NULL
+          AND (auth_pool_members.last_rate_limited_at IS NULL
+               OR auth_pool_members.last_auth_failure_at > auth_pool_members.last_rate_limited_at)
+         THEN NULL
+         ELSE auth_pool_members.cooldown_until
+       END
+     RETURNING id`,
+    [projectId, label]
+  );
+  return result.rows[0].id;
+}
+
+export async function recordPoolSelection(pool: Pool | PoolClient, memberId: string): Promise<void> {
+  await pool.query(
+    `UPDATE auth_pool_members
+     SET last_selected_at = NOW(), selection_count = selection_count + 1
+     WHERE id = $1`,
+    [memberId]
+  );
+}
+
+export interface PoolSelection {
+  /** Selected member, or null if none is available */
+  member: PoolMember | null;
+  /** Every member of the pool, for retry-after when none is available */
+  members: PoolMember[];
+  /** Transaction holding the member's row lock; provision through it */
+  client: PoolClient;
+}
+
+/**
+ * Select a pool member, record the selection and run `use` in one transaction.
+ *
+ * The project's member rows are locked `FOR UPDATE SKIP LOCKED`, and only the
+ * rows this call locked are candidates. A provision running at the same time
+ * on another replica therefore chooses among the other members. When every
+ * usable member is locked elsewhere, the call waits for those locks instead of
+ * reporting no credentials. If `use` throws, the selection is rolled back.
+ */
+export async function withPoolSelection<T>(
+  pool: Pool,
+  projectId: string,
+  policy: CredentialPoolPolicy,
+  use: (selection: PoolSelection) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    let selection = await lockAndSelect(client, projectId, policy, true);
+    if (!selection.member && selectPoolMember(selection.members, policy)) {
+      await client.query("ROLLBACK");
+      selection = await lockAndSelect(client, projectId, policy, false);
+    }
+    if (selection.member) await recordPoolSelection(client, selection.member.id);
+
+    const result = await use(selection);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function lockAndSelect(
+  client: PoolClient,
+  projectId: string,
+  policy: CredentialPoolPolicy,
+  skipLocked: boolean
+): Promise<PoolSelection> {
+  await client.query("BEGIN");
+  const locked = await client.query<{ id: string }>(
+    `SELECT id FROM auth_pool_members
+     WHERE project_id = $1
+     ORDER BY id
+     FOR UPDATE${skipLocked ? " SKIP LOCKED" : ""}`,
+    [projectId]
+  );
+  const lockedIds = new Set(locked.rows.map((r) => r.id));
+  const members = await listPoolMembers(client, projectId);
+  const member = selectPoolMember(members.filter((m) => lockedIds.has(m.id)), policy);
+  return { member, members, client };
+}
+
+/**
+ * Take a member out of selection after a consumer-reported problem. Without a
+ * retry-after the configured default cooldown for the problem applies; an
+ * existing longer cooldown is never shortened.
+ */
+export async function applyPoolCooldown(
+  pool: Pool,
+  memberId: string,
+  problem: CredentialProblem,
+  retryAfterMs?: number
+): Promise<Date | null> {
+  // Whole milliseconds for the bigint cast
+  const cooldownMs = Math.ceil(
+    retryAfterMs ?? (problem === "rate_limited" ? POOL_RATE_LIMIT_COOLDOWN_MS : POOL_AUTH_FAILURE_COOLDOWN_MS)
+  );
+
+  const result = await pool.query<{ cooldown_until: Date }>(
+    `UPDATE auth_pool_members SET
+       cooldown_until = GREATEST(COALESCE(cooldown_until, NOW()), NOW() + $2::bigint * INTERVAL '1 millisecond'),
+       last_rate_limited_at = CASE WHEN $3::text = 'rate_limited' THEN NOW() ELSE last_rate_limited_at END,
+       last_auth_failure_at = CASE WHEN $3::text = 'auth_failure' THEN NOW() ELSE last_auth_failure_at END
+     WHERE id = $1
+     RETURNING cooldown_until`,
+    [memberId, cooldownMs, problem]
+  );
+  return result.rows.length > 0 ? result.rows[0].cooldown_until : null;
+}
@@ -5,11 +5,19 @@ import {
   DAPR_PUBSUB_NAME,
   type DaprSubscription,
 } from "@mesh-six/core";
-import { APP_PORT, DAPR_HOST, DAPR_HTTP_PORT } from "./config.js";
+import {
+  APP_PORT,
+  DAPR_HOST,
+  DAPR_HTTP_PORT,
+  AUTH_MASTER_KEY_FILE,
+  AUTH_MASTER_KEYS,
+} from "./config.js";
 import { pool, checkDb } from "./db.js";
+import { CredentialVault, PgVaultStore, loadMasterKeys } from "./vault.js";
 import { createProjectsRouter } from "./routes/projects.js";
 import { createCredentialsRouter } from "./routes/credentials.js";
 import { createProvisionRouter } from "./routes/provision.js";
+import { createPoolRouter } from "./routes/pool.js";
 import { startRefreshTimer } from "./refresh-timer.js";
 
 // -------------------------------------------------------------------------
@@ -21,6 +29,15 @@ const daprClient = new DaprClient({
   daprPort: String(DAPR_HTTP_PORT),
 });
 
+// -------------------------------------------------------------------------
+// Credential encryption (fails startup when no master key is configured)
+// -------------------------------------------------------------------------
+
+const vault = new CredentialVault(
+  new PgVaultStore(pool),
+  loadMasterKeys(AUTH_MASTER_KEY_FILE, AUTH_MASTER_KEYS)
+);
+
 // -------------------------------------------------------------------------
 // HTTP server
 // -------------------------------------------------------------------------
@@ -50,12 +67,14 @@ app.get("/dapr/subscribe", (c): Response => {
 
 // Mount routes
 const projectsRouter = createProjectsRouter(pool, daprClient);
-const credentialsRouter = createCredentialsRouter(pool, daprClient);
-const provisionRouter = createProvisionRouter(pool);
+const credentialsRouter = createCredentialsRouter(pool, daprClient, vault);
+const provisionRouter = createProvisionRouter(pool, vault);
+const poolRouter = createPoolRouter(pool);
 
 app.route("/projects", projectsRouter);
 app.route("/projects", credentialsRouter);
 app.route("/projects", provisionRouter);
+app.route("/projects", poolRouter);
 
 // -------------------------------------------------------------------------
 // Lifecycle
@@ -69,7 +88,7 @@ async function start(): Promise<void> {
   console.log("[auth-service] DB connection verified");
 
   // Start background credential refresh timer
-  stopRefreshTimer = startRefreshTimer(pool, daprClient);
+  stopRefreshTimer = startRefreshTimer(pool, daprClient, vault);
 
   // Start HTTP server
   Bun.serve({ port: APP_PORT, fetch: app.fetch });
@@ -2,7 +2,8 @@
  * Background OAuth credential refresh timer.
  *
  * Runs every REFRESH_CHECK_INTERVAL_MS (default 30min).
- * For each project, refreshes credentials expiring within CREDENTIAL_REFRESH_THRESHOLD_MS.
+ * For each credential pool member of each project, refreshes credentials
+ * expiring within CREDENTIAL_REFRESH_THRESHOLD_MS.
  */
 import { randomUUID } from "crypto";
 import type { Pool } from "pg";
@@ -17,10 +18,11 @@ import {
   CLAUDE_OAUTH_TOKEN_URL,
   CLAUDE_OAUTH_CLIENT_ID,
 } from "./config.js";
+import type { CredentialVault } from "./vault.js";
 
-export function startRefreshTimer(pool: Pool, dapr: DaprClient): () => void {
+export function startRefreshTimer(pool: Pool, dapr: DaprClient, vault: CredentialVault): () => void {
   const timer = setInterval(
-    () => refreshAllCredentials(pool, dapr).catch((err) => {
+    () => refreshAllCredentials(pool, dapr, vault).catch((err) => {
       console.error("[auth-service] refreshAllCredentials error:", err);
     }),
     REFRESH_CHECK_INTERVAL_MS
@@ -31,19 +33,29 @@ export function startRefreshTimer(pool: Pool, dapr: DaprClient): () => void {
   return () => clearInterval(timer);
 }
 
-async function refreshAllCredentials(pool: Pool, dapr: DaprClient): Promise<void> {
-  const projects = await pool.query<{ id: string }>("SELECT id FROM auth_projects");
+async function refreshAllCredentials(pool: Pool, dapr: DaprClient, vault: CredentialVault): Promise<void> {
+  const members = await pool.query<{ id: string; project_id: string; label: string }>(
+    "SELECT id, project_id, label FROM auth_pool_members WHERE enabled ORDER BY project_id, created_at"
+  );
 
-  for (const { id: projectId } of projects.rows) {
+  for (const member of members.rows) {
+    const name = `${member.project_id}/${member.label}`;
     try {
-      await maybeRefreshProject(pool, dapr, projectId);
+      await maybeRefreshMember(pool, dapr, vault, member.project_id, member.id, name);
     } catch (err) {
-      console.error(`[auth-service] refresh error for ${projectId}:`, err);
+      console.error(`[auth-service] refresh error for ${name}:`, err);
     }
   }
 }
 
-async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: string): Promise<void> {
+async function maybeRefreshMember(
+  pool: Pool,
+  dapr: DaprClient,
+  vault: CredentialVault,
+  projectId: string,
+  memberId: string,
+  name: string
+): Promise<void> {
   // Check if active credential is expiring soon
   const credResult = await pool.query<{
     id: string;
@@ -59,12 +71,12 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
     rate_limit_tier: string | null;
   }>(
     `SELECT * FROM auth_credentials
-     WHERE project_id = $1
+     WHERE member_id = $1
        AND invalidated_at IS NULL
        AND expires_at > NOW()
      ORDER BY created_at DESC
      LIMIT 1`,
-    [projectId]
+    [memberId]
   );
 
   const activeCred = credResult.rows.length > 0 ? credResult.rows[0] : null;
@@ -80,6 +92,8 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
   // Find any credential with a refresh token (even expired)
   const refreshResult = await pool.query<{
     id: string;
+    project_id: string;
+    access_token: string;
     refresh_token: string;
     account_uuid: string | null;
     email_address: string | null;
@@ -91,21 +105,21 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
     rate_limit_tier: string | null;
   }>(
     `SELECT * FROM auth_credentials
-     WHERE project_id = $1 AND refresh_token IS NOT NULL
+     WHERE member_id = $1 AND refresh_token IS NOT NULL
      ORDER BY created_at DESC
      LIMIT 1`,
-    [projectId]
+    [memberId]
   );
 
   if (refreshResult.rows.length === 0) {
     if (!activeCred) {
-      console.log(`[auth-service] No credentials or refresh token for ${projectId}`);
+      console.log(`[auth-service] No credentials or refresh token for ${name}`);
     }
     return;
   }
 
-  const oldCred = refreshResult.rows[0];
-  console.log(`[auth-service] Proactive refresh for ${projectId} (expires in ${Math.round(timeUntilExpiry / 60000)}min)`);
+  const oldCred = await vault.decryptCredential(refreshResult.rows[0], { purpose: "refresh", actor: "refresh-timer" });
+  console.log(`[auth-service] Proactive refresh for ${name} (expires in ${Math.round(timeUntilExpiry / 60000)}min)`);
 
   // Perform OAuth refresh
   let tokenData: { access_token: string; refresh_token?: string; expires_in: number };
@@ -122,13 +136,13 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
 
     if (!response.ok) {
       const body = await response.text();
-      console.error(`[auth-service] OAuth refresh failed for ${projectId}: ${response.status} ${body}`);
+      console.error(`[auth-service] OAuth refresh failed for ${name}: ${response.status} ${body}`);
       return;
     }
 
     tokenData = await response.json() as typeof tokenData;
   } catch (err) {
-    console.error(`[auth-service] OAuth refresh network error for ${projectId}:`, err);
+    console.error(`[auth-service] OAuth refresh network error for ${name}:`, err);
     return;
   }
 
@@ -138,27 +152,34 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
     [oldCred.id]
   );
 
-  // Invalidate active bundles
+  // Invalidate the member's active bundles
   await pool.query(
-    "UPDATE auth_bundles SET expired_at = NOW() WHERE project_id = $1 AND expired_at IS NULL",
-    [projectId]
+    "UPDATE auth_bundles SET expired_at = NOW() WHERE member_id = $1 AND expired_at IS NULL",
+    [memberId]
   );
 
   const newId = randomUUID();
   const expiresAt = new Date(Date.now() + tokenData.expires_in * 1000).toISOString();
+  const accessToken = await vault.encryptText(projectId, "access_token", newId, tokenData.access_token);
+  const refreshToken = await vault.encryptText(
+    projectId,
+    "refresh_token",
+    newId,
+    tokenData.refresh_token ?? oldCred.refresh_token
+  );
 
   await pool.query(
     `INSERT INTO auth_credentials
        (id, project_id, access_token, refresh_token, expires_at,
         account_uuid, email_address, organization_uuid,
         billing_type, display_name, scopes, subscription_type,
-        rate_limit_tier, source)
-     VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'refresh')`,
+        rate_limit_tier, source, member_id)
+     VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'refresh', $14)`,
     [
       newId,
       projectId,
-      tokenData.access_token,
-      tokenData.refresh_token ?? oldCred.refresh_token,
+      accessToken,
+      refreshToken,
       expiresAt,
       oldCred.account_uuid,
       oldCred.email_address,
@@ -168,6 +189,7 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
       oldCred.scopes ? JSON.stringify(oldCred.scopes) : null,
       oldCred.subscription_type,
       oldCred.rate_limit_tier,
+      memberId,
     ]
   );
 
@@ -182,5 +204,5 @@ async function maybeRefreshProject(pool: Pool, dapr: DaprClient, projectId: stri
     // Non-fatal
   }
 
-  console.log(`[auth-service] Refreshed credential for ${projectId} (expires ${expiresAt})`);
+  console.log(`[auth-service] Refreshed credential for ${name} (expires ${expiresAt})`);
 }
@@ -0,0 +1,139 @@
+/**
+ * Key rotation for credential encryption.
+ *
+ *   bun run rotate-keys [--data-keys] [--project <id>]
+ *
+ * Always re-wraps data keys held under an older master key with the active
+ * one (the first entry in the master key file), then re-encrypts every
+ * credential and bundle row not yet on its project's active data key —
+ * including rows written before encryption existed. With --data-keys each
+ * project first gets a new data key version. Data key versions no longer
+ * used by any row are retired; they stay in `auth_data_keys` for restoring
+ * older backups.
+ */
+import type { Pool } from "pg";
+import { AUTH_MASTER_KEY_FILE, AUTH_MASTER_KEYS } from "./config.js";
+import { CredentialVault, PgVaultStore, loadMasterKeys, type VaultStore } from "./vault.js";
+
+export interface RotateKeysOptions {
+  /** Create a new data key version per project before re-encrypting */
+  dataKeys?: boolean;
+  /** Limit to one project */
+  projectId?: string;
+  /** Recorded in the decrypt audit trail */
+  actor?: string;
+}
+
+export interface RotateKeysSummary {
+  rewrappedKeys: number;
+  credentials: number;
+  bundles: number;
+  retiredKeys: number;
+  failedProjects: string[];
+}
+
+export async function rotateKeys(
+  pool: Pool,
+  vault: CredentialVault,
+  store: VaultStore,
+  opts: RotateKeysOptions = {}
+): Promise<RotateKeysSummary> {
+  const summary: RotateKeysSummary = {
+    rewrappedKeys: await vault.rewrapDataKeys(),
+    credentials: 0,
+    bundles: 0,
+    retiredKeys: 0,
+    failedProjects: [],
+  };
+  const ctx = { purpose: "key_rotation" as const, actor: opts.actor };
+
+  const projects = opts.projectId
+    ? [opts.projectId]
+    : (await pool.query<{ id: string }>("SELECT id FROM auth_projects ORDER BY id")).rows.map((r) => r.id);
+
+  for (const projectId of projects) {
+    try {
+      const target = opts.dataKeys
+        ? await vault.rotateDataKey(projectId)
+        : await vault.activeVersion(projectId);
+
+      const credentials = await pool.query<{
+        id: string;
+        project_id: string;
+        access_token: string;
+        refresh_token: string | null;
+      }>(
+        "SELECT id, project_id, access_token, refresh_token FROM auth_credentials WHERE project_id = $1",
+        [projectId]
+      );
+      for (const row of credentials.rows) {
+        const current =
+          CredentialVault.keyVersionOf(row.access_token) === target &&
+          (row.refresh_token === null || CredentialVault.keyVersionOf(row.refresh_token) === target);
+        if (current) continue;
+
+        const plain = await vault.decryptCredential(row, ctx);
+        await pool.query(
+          "UPDATE auth_credentials SET access_token = $2, refresh_token = $3 WHERE id = $1",
+          [
+            row.id,
+            await vault.encryptText(projectId, "access_token", row.id, plain.access_token),
+            plain.refresh_token === null
+              ? null
+              : await vault.encryptText(projectId, "refresh_token", row.id, plain.refresh_token),
+          ]
+        );
+        summary.credentials++;
+      }
+
+      const bundles = await pool.query<{ id: string; bundle_data: Buffer }>(
+        "SELECT id, bundle_data FROM auth_bundles WHERE project_id = $1",
+        [projectId]
+      );
+      for (const row of bundles.rows) {
+        if (CredentialVault.keyVersionOf(row.bundle_data) === target) continue;
+        const plain = await vault.decryptBundle(projectId, row.id, row.bundle_data, ctx);
+        await pool.query("UPDATE auth_bundles SET bundle_data = $2 WHERE id = $1", [
+          row.id,
+          await vault.encryptBytes(projectId, "bundle_data", row.id, plain),
+        ]);
+        summary.bundles++;
+      }
+
+      for (const key of await store.listDataKeys()) {
+        if (key.projectId !== projectId || key.version >= target || key.retiredAt) continue;
+        await store.retireDataKey(projectId, key.version);
+        summary.retiredKeys++;
+      }
+    } catch (err) {
+      console.error(`[auth-service] Key rotation failed for ${projectId}:`, err);
+      summary.failedProjects.push(projectId);
+    }
+  }
+
+  return summary;
+}
+
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const projectFlag = args.indexOf("--project");
+  const { pool } = await import("./db.js");
+  const store = new PgVaultStore(pool);
+  const vault = new CredentialVault(store, loadMasterKeys(AUTH_MASTER_KEY_FILE, AUTH_MASTER_KEYS));
+
+  const summary = await rotateKeys(pool, vault, store, {
+    dataKeys: args.includes("--data-keys"),
+    projectId: projectFlag >= 0 ? args[projectFlag + 1] : undefined,
+    actor: `rotate-keys:${process.env.USER ?? "unknown"}`,
+  });
+  console.log(
+    `[auth-service] Key rotation done: ${summary.rewrappedKeys} data key(s) re-wrapped, ` +
+      `${summary.credentials} credential(s) and ${summary.bundles} bundle(s) re-encrypted, ` +
+      `${summary.retiredKeys} data key version(s) retired`
+  );
+  await pool.end();
+  if (summary.failedProjects.length > 0) {
+    console.error(`[auth-service] Failed projects: ${summary.failedProjects.join(", ")}`);
+    process.exit(1);
+  }
+}
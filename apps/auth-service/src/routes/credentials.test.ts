@@ -1,6 +1,11 @@
 import { describe, it, expect, mock } from "bun:test";
 import { Hono } from "hono";
 import type { Pool } from "pg";
+import { randomBytes } from "crypto";
+import { CredentialVault, InMemoryVaultStore, parseMasterKeys } from "../vault.js";
+
+const vaultStore = new InMemoryVaultStore();
+const vault = new CredentialVault(vaultStore, parseMasterKeys(`test=${randomBytes(32).toString("base64")}`));
 
 const mockDapr = {
   pubsub: { publish: mock(() => Promise.resolve()) },
@@ -41,6 +46,7 @@ const credRow = {
   rate_limit_tier: null,
   source: "push",
   pushed_by: null,
+  member_id: "member-1",
   created_at: now,
   invalidated_at: null,
 };
@@ -50,7 +56,7 @@ describe("POST /:id/credentials", () => {
     const pool = makePool(async () => ({ rows: [] }));
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "POST", "/unknown/credentials", {
       accessToken: "sk-ant-test",
@@ -66,30 +72,50 @@ describe("POST /:id/credentials", () => {
     });
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "POST", "/proj-1/credentials", { bad: "data" });
     expect(res.status).toBe(400);
   });
 
   it("creates credential and returns 201", async () => {
-    const pool = makePool(async (sql: string) => {
+    let storedToken: unknown;
+    let memberLabel: unknown;
+    const invalidated: string[] = [];
+    const pool = makePool(async (sql: string, params?: unknown[]) => {
       if (sql.includes("SELECT id FROM auth_projects")) return { rows: [{ id: "proj-1" }] };
-      if (sql.includes("INSERT INTO auth_credentials")) return { rows: [credRow] };
+      if (sql.includes("INSERT INTO auth_pool_members")) {
+        memberLabel = params![1];
+        return { rows: [{ id: "member-1" }] };
+      }
+      if (sql.startsWith("UPDATE auth_credentials") || sql.startsWith("UPDATE auth_bundles")) {
+        invalidated.push(sql);
+        expect(params).toEqual(["member-1"]);
+      }
+      if (sql.includes("INSERT INTO auth_credentials")) {
+        storedToken = params![2];
+        expect(params![14]).toBe("member-1");
+        return { rows: [{ ...credRow, access_token: params![2] }] };
+      }
       return { rows: [] };
     });
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "POST", "/proj-1/credentials", {
       accessToken: "sk-ant-test",
       expiresAt: future.toISOString(),
+      accountUuid: "acct-a",
     });
     expect(res.status).toBe(201);
     const body = await res.json() as Record<string, unknown>;
     expect(body.id).toBe("cred-1");
+    expect(body.poolMemberId).toBe("member-1");
+    expect(memberLabel).toBe("acct-a");
+    expect(invalidated).toHaveLength(2);
     expect(body.accessToken).toBe("sk-ant-test");
+    expect(CredentialVault.isEncryptedText(storedToken as string)).toBe(true);
   });
 });
 
@@ -98,7 +124,7 @@ describe("GET /:id/health", () => {
     const pool = makePool(async () => ({ rows: [] }));
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "GET", "/unknown/health");
     expect(res.status).toBe(404);
@@ -106,7 +132,24 @@ describe("GET /:id/health", () => {
 
   it("returns health with hasValidCredential=true", async () => {
     const pool = makePool(async (sql: string) => {
-      if (sql.includes("SELECT id FROM auth_projects")) return { rows: [{ id: "proj-1" }] };
+      if (sql.includes("FROM auth_projects")) return { rows: [{ id: "proj-1", pool_policy: "tier_aware" }] };
+      if (sql.includes("FROM auth_pool_members")) {
+        return {
+          rows: [{
+            id: "member-1",
+            label: "acct-a",
+            enabled: true,
+            cooldown_until: null,
+            last_rate_limited_at: null,
+            last_auth_failure_at: null,
+            last_selected_at: null,
+            selection_count: "0",
+            credential_id: "cred-1",
+            expires_at: future,
+            rate_limit_tier: "default_claude_max_5x",
+          }],
+        };
+      }
       if (sql.includes("SELECT * FROM auth_credentials")) return { rows: [credRow] };
       if (sql.includes("SELECT 1 FROM auth_credentials")) return { rows: [{ "1": 1 }] };
       if (sql.includes("MAX(created_at)")) return { rows: [{ last: null }] };
@@ -115,7 +158,7 @@ describe("GET /:id/health", () => {
     });
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "GET", "/proj-1/health");
     expect(res.status).toBe(200);
@@ -123,6 +166,17 @@ describe("GET /:id/health", () => {
     expect(body.hasValidCredential).toBe(true);
     expect(body.hasRefreshToken).toBe(true);
     expect(body.activeBundleId).toBe("bundle-1");
+    expect(body.poolPolicy).toBe("tier_aware");
+    expect(body.poolMembers).toEqual([
+      {
+        id: "member-1",
+        label: "acct-a",
+        rateLimitTier: "default_claude_max_5x",
+        enabled: true,
+        hasValidCredential: true,
+        expiresAt: future.toISOString(),
+      },
+    ]);
   });
 });
 
@@ -134,7 +188,7 @@ describe("POST /:id/refresh", () => {
     });
     const { createCredentialsRouter } = await import("./credentials.js");
     const app = new Hono();
-    app.route("/", createCredentialsRouter(pool, mockDapr));
+    app.route("/", createCredentialsRouter(pool, mockDapr, vault));
 
     const res = await request(app, "POST", "/proj-1/refresh");
     expect(res.status).toBe(422);
@@ -15,6 +15,8 @@ import {
   CLAUDE_OAUTH_TOKEN_URL,
   CLAUDE_OAUTH_CLIENT_ID,
 } from "../config.js";
+import type { CredentialVault } from "../vault.js";
+import { ensurePoolMember, listPoolMembers, poolMemberLabel, toPoolMemberRef } from "../credential-pool.js";
 
 // -------------------------------------------------------------------------
 // Row → API response mapper
@@ -36,6 +38,7 @@ interface CredentialRow {
   rate_limit_tier: string | null;
   source: "push" | "refresh" | "import";
   pushed_by: string | null;
+  member_id: string | null;
   created_at: Date;
   invalidated_at: Date | null;
 }
@@ -55,6 +58,7 @@ function rowToCredential(row: CredentialRow): ProjectCredential {
     scopes: row.scopes ?? undefined,
     subscriptionType: row.subscription_type ?? undefined,
     rateLimitTier: row.rate_limit_tier ?? undefined,
+    poolMemberId: row.member_id ?? undefined,
     source: row.source,
     pushedBy: row.pushed_by ?? undefined,
     createdAt: row.created_at.toISOString(),
@@ -66,7 +70,7 @@ function rowToCredential(row: CredentialRow): ProjectCredential {
 // Route factory
 // -------------------------------------------------------------------------
 
-export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
+export function createCredentialsRouter(pool: Pool, dapr: DaprClient, vault: CredentialVault): Hono {
   const app = new Hono();
 
   // POST /:id/credentials — push new credentials
@@ -96,34 +100,40 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
     }
 
     const req = parsed.data;
+    const memberLabel = poolMemberLabel(req);
+    const memberId = await ensurePoolMember(pool, projectId, memberLabel);
 
-    // Invalidate existing active credentials
+    // Invalidate the pool member's active credentials; other members keep theirs
     await pool.query(
-      "UPDATE auth_credentials SET invalidated_at = NOW() WHERE project_id = $1 AND invalidated_at IS NULL",
-      [projectId]
+      "UPDATE auth_credentials SET invalidated_at = NOW() WHERE member_id = $1 AND invalidated_at IS NULL",
+      [memberId]
     );
 
-    // Invalidate active bundles
+    // Invalidate the member's active bundles
     await pool.query(
-      "UPDATE auth_bundles SET expired_at = NOW() WHERE project_id = $1 AND expired_at IS NULL",
-      [projectId]
+      "UPDATE auth_bundles SET expired_at = NOW() WHERE member_id = $1 AND expired_at IS NULL",
+      [memberId]
     );
 
     const id = randomUUID();
+    const accessToken = await vault.encryptText(projectId, "access_token", id, req.accessToken);
+    const refreshToken = req.refreshToken
+      ? await vault.encryptText(projectId, "refresh_token", id, req.refreshToken)
+      : null;
 
     const result: QueryResult<CredentialRow> = await pool.query(
       `INSERT INTO auth_credentials
          (id, project_id, access_token, refresh_token, expires_at,
           account_uuid, email_address, organization_uuid,
           billing_type, display_name, scopes, subscription_type,
-          rate_limit_tier, source, pushed_by)
-       VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'push', $14)
+          rate_limit_tier, source, pushed_by, member_id)
+       VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'push', $14, $15)
        RETURNING *`,
       [
         id,
         projectId,
-        req.accessToken,
-        req.refreshToken ?? null,
+        accessToken,
+        refreshToken,
         req.expiresAt,
         req.accountUuid ?? null,
         req.emailAddress ?? null,
@@ -134,6 +144,7 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
         req.subscriptionType ?? null,
         req.rateLimitTier ?? null,
         pushedBy ?? null,
+        memberId,
       ]
     );
 
@@ -155,7 +166,12 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
       );
     }
 
-    const credential = rowToCredential(result.rows[0]);
+    // Respond with the tokens as pushed rather than decrypting what was just stored
+    const credential = rowToCredential({
+      ...result.rows[0],
+      access_token: req.accessToken,
+      refresh_token: req.refreshToken ?? null,
+    });
 
     // Publish credential-refreshed event
     try {
@@ -168,7 +184,9 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
       // Non-fatal
     }
 
-    console.log(`[auth-service] Credential pushed for project ${projectId} (expires ${req.expiresAt})`);
+    console.log(
+      `[auth-service] Credential pushed for ${projectId}/${memberLabel} (expires ${req.expiresAt})`
+    );
     return c.json(credential, 201);
   });
 
@@ -177,8 +195,8 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
     const projectId = c.req.param("id");
 
     // Verify project exists
-    const projResult = await pool.query(
-      "SELECT id FROM auth_projects WHERE id = $1",
+    const projResult = await pool.query<{ id: string; pool_policy?: string }>(
+      "SELECT id, pool_policy FROM auth_projects WHERE id = $1",
       [projectId]
     );
     if (projResult.rows.length === 0) {
@@ -196,9 +214,8 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
       [projectId]
     );
 
-    const activeCred = credResult.rows.length > 0
-      ? rowToCredential(credResult.rows[0])
-      : null;
+    // Only the expiry is needed, so the tokens stay encrypted
+    const activeCred = credResult.rows.length > 0 ? credResult.rows[0] : null;
 
     // Check if any credential has a refresh token
     const refreshResult = await pool.query(
@@ -231,24 +248,36 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
       ? bundleResult.rows[0].id
       : undefined;
 
+    const members = await listPoolMembers(pool, projectId);
+
     const health: CredentialHealth = CredentialHealthSchema.parse({
       projectId,
       hasValidCredential: activeCred !== null,
-      expiresAt: activeCred?.expiresAt,
+      expiresAt: activeCred?.expires_at.toISOString(),
       expiresInMs: activeCred
-        ? new Date(activeCred.expiresAt).getTime() - Date.now()
+        ? activeCred.expires_at.getTime() - Date.now()
         : undefined,
       hasRefreshToken,
       lastRefreshAt,
       activeBundleId,
+      poolPolicy: projResult.rows[0].pool_policy,
+      poolMembers: members.map((m) => ({
+        ...toPoolMemberRef(m),
+        enabled: m.enabled,
+        hasValidCredential: m.credentialId !== undefined,
+        expiresAt: m.expiresAt?.toISOString(),
+        cooldownUntil: m.cooldownUntil && m.cooldownUntil > new Date() ? m.cooldownUntil.toISOString() : undefined,
+        lastRateLimitedAt: m.lastRateLimitedAt?.toISOString(),
+      })),
     });
 
     return c.json(health);
   });
 
-  // POST /:id/refresh — force OAuth token refresh
+  // POST /:id/refresh?memberId= — force OAuth token refresh (of one pool member, or the latest credential)
   app.post("/:id/refresh", async (c) => {
     const projectId = c.req.param("id");
+    const memberId = c.req.query("memberId") ?? null;
 
     // Verify project exists
     const projResult = await pool.query(
@@ -263,16 +292,22 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
     const credResult: QueryResult<CredentialRow> = await pool.query(
       `SELECT * FROM auth_credentials
        WHERE project_id = $1 AND refresh_token IS NOT NULL
+         AND ($2::text IS NULL OR member_id = $2)
        ORDER BY created_at DESC
        LIMIT 1`,
-      [projectId]
+      [projectId, memberId]
     );
 
     if (credResult.rows.length === 0) {
       return c.json({ error: "No refresh token available for this project" }, 422);
     }
 
-    const oldCred = rowToCredential(credResult.rows[0]);
+    const oldCred = rowToCredential(
+      await vault.decryptCredential(credResult.rows[0], {
+        purpose: "refresh",
+        actor: c.req.header("dapr-caller-app-id"),
+      })
+    );
     if (!oldCred.refreshToken) {
       return c.json({ error: "No refresh token available for this project" }, 422);
     }
@@ -308,28 +343,29 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
       [oldCred.id]
     );
 
-    // Invalidate active bundles
+    // Invalidate the member's active bundles
     await pool.query(
-      "UPDATE auth_bundles SET expired_at = NOW() WHERE project_id = $1 AND expired_at IS NULL",
-      [projectId]
+      "UPDATE auth_bundles SET expired_at = NOW() WHERE member_id = $1 AND expired_at IS NULL",
+      [oldCred.poolMemberId ?? null]
     );
 
     const newId = randomUUID();
     const expiresAt = new Date(Date.now() + tokenData.expires_in * 1000).toISOString();
+    const newRefreshToken = tokenData.refresh_token ?? oldCred.refreshToken;
 
     const newCredResult: QueryResult<CredentialRow> = await pool.query(
       `INSERT INTO auth_credentials
          (id, project_id, access_token, refresh_token, expires_at,
           account_uuid, email_address, organization_uuid,
           billing_type, display_name, scopes, subscription_type,
-          rate_limit_tier, source)
-       VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'refresh')
+          rate_limit_tier, source, member_id)
+       VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8, $9, $10, $11, $12, $13, 'refresh', $14)
        RETURNING *`,
       [
         newId,
         projectId,
-        tokenData.access_token,
-        tokenData.refresh_token ?? oldCred.refreshToken,
+        await vault.encryptText(projectId, "access_token", newId, tokenData.access_token),
+        await vault.encryptText(projectId, "refresh_token", newId, newRefreshToken),
         expiresAt,
         oldCred.accountUuid ?? null,
         oldCred.emailAddress ?? null,
@@ -339,10 +375,15 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
         oldCred.scopes ? JSON.stringify(oldCred.scopes) : null,
         oldCred.subscriptionType ?? null,
         oldCred.rateLimitTier ?? null,
+        oldCred.poolMemberId ?? null,
       ]
     );
 
-    const newCred = rowToCredential(newCredResult.rows[0]);
+    const newCred = rowToCredential({
+      ...newCredResult.rows[0],
+      access_token: tokenData.access_token,
+      refresh_token: newRefreshToken,
+    });
 
     // Publish credential-refreshed event
     try {
@@ -359,5 +400,40 @@ export function createCredentialsRouter(pool: Pool, dapr: DaprClient): Hono {
     return c.json(newCred);
   });
 
+  // GET /:id/decrypt-audit — who decrypted this project's credentials and bundles
+  app.get("/:id/decrypt-audit", async (c) => {
+    const projectId = c.req.param("id");
+    const limit = Math.min(Number(c.req.query("limit")) || 100, 1000);
+
+    const result = await pool.query<{
+      id: string;
+      record_type: string;
+      record_id: string;
+      purpose: string;
+      actor: string | null;
+      key_version: number | null;
+      created_at: Date;
+    }>(
+      `SELECT * FROM auth_decrypt_audit
+       WHERE project_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [projectId, limit]
+    );
+
+    return c.json({
+      projectId,
+      entries: result.rows.map((row) => ({
+        id: Number(row.id),
+        recordType: row.record_type,
+        recordId: row.record_id,
+        purpose: row.purpose,
+        actor: row.actor ?? undefined,
+        keyVersion: row.key_version ?? undefined,
+        createdAt: row.created_at.toISOString(),
+      })),
+    });
+  });
+
   return app;
 }
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "bun:test";
+import { Hono } from "hono";
+import type { Pool } from "pg";
+
+function makePool(queryFn: (sql: string, params?: unknown[]) => Promise<{ rows: unknown[] }>): Pool {
+  return { query: queryFn } as unknown as Pool;
+}
+
+async function request(app: Hono, method: string, path: string, body?: unknown) {
+  const req = new Request(`http://localhost${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return app.fetch(req);
+}
+
+async function poolApp(pool: Pool): Promise<Hono> {
+  const { createPoolRouter } = await import("./pool.js");
+  const app = new Hono();
+  app.route("/", createPoolRouter(pool));
+  return app;
+}
+
+describe("GET /:id/pool", () => {
+  it("returns 404 for unknown project", async () => {
+    const app = await poolApp(makePool(async () => ({ rows: [] })));
+    const res = await request(app, "GET", "/unknown/pool");
+    expect(res.status).toBe(404);
+  });
+
+  it("lists members with their cooldown state", async () => {
+    const cooldown = new Date(Date.now() + 600_000);
+    const app = await poolApp(
+      makePool(async (sql: string) => {
+        if (sql.includes("auth_projects")) return { rows: [{ pool_policy: "least_recently_rate_limited" }] };
+        return {
+          rows: [{
+            id: "member-1",
+            label: "acct-a",
+            enabled: true,
+            cooldown_until: cooldown,
+            last_rate_limited_at: new Date(),
+            last_auth_failure_at: null,
+            last_selected_at: null,
+            selection_count: "4",
+            credential_id: null,
+            expires_at: null,
+            rate_limit_tier: null,
+          }],
+        };
+      })
+    );
+
+    const res = await request(app, "GET", "/proj-1/pool");
+    expect(res.status).toBe(200);
+    const body = await res.json() as { policy: string; members: Record<string, unknown>[] };
+    expect(body.policy).toBe("least_recently_rate_limited");
+    expect(body.members[0]).toMatchObject({
+      id: "member-1",
+      coolingDown: true,
+      cooldownUntil: cooldown.toISOString(),
+      hasValidCredential: false,
+      selectionCount: 4,
+    });
+  });
+});
+
+describe("PUT /:id/pool", () => {
+  it("rejects an unknown policy", async () => {
+    const app = await poolApp(makePool(async () => ({ rows: [{ id: "proj-1" }] })));
+    const res = await request(app, "PUT", "/proj-1/pool", { policy: "random" });
+    expect(res.status).toBe(400);
+  });
+
+  it("updates the policy", async () => {
+    let params: unknown[] | undefined;
+    const app = await poolApp(
+      makePool(async (_sql: string, p?: unknown[]) => {
+        params = p;
+        return { rows: [{ id: "proj-1" }] };
+      })
+    );
+    const res = await request(app, "PUT", "/proj-1/pool", { policy: "tier_aware" });
+    expect(res.status).toBe(200);
+    expect(params).toEqual(["proj-1", "tier_aware"]);
+  });
+});
+
+describe("POST /:id/pool/report", () => {
+  it("returns 404 for a bundle outside the project", async () => {
+    const app = await poolApp(makePool(async () => ({ rows: [] })));
+    const res = await request(app, "POST", "/proj-1/pool/report", { bundleId: "b-1", problem: "rate_limited" });
+    expect(res.status).toBe(404);
+  });
+
+  it("cools down the bundle's member", async () => {
+    const cooldown = new Date(Date.now() + 120_000);
+    let cooldownParams: unknown[] | undefined;
+    const app = await poolApp(
+      makePool(async (sql: string, params?: unknown[]) => {
+        if (sql.includes("FROM auth_bundles")) return { rows: [{ member_id: "member-1" }] };
+        if (sql.includes("UPDATE auth_pool_members")) {
+          cooldownParams = params;
+          return { rows: [{ cooldown_until: cooldown }] };
+        }
+        return { rows: [] };
+      })
+    );
+
+    const res = await request(app, "POST", "/proj-1/pool/report", {
+      bundleId: "b-1",
+      problem: "rate_limited",
+      retryAfterMs: 120_000,
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json() as Record<string, unknown>;
+    expect(body).toMatchObject({ memberId: "member-1", cooldownUntil: cooldown.toISOString() });
+    expect(cooldownParams).toEqual(["member-1", 120_000, "rate_limited"]);
+  });
+
+  it("falls back to the default cooldown without retryAfterMs", async () => {
+    const { POOL_AUTH_FAILURE_COOLDOWN_MS } = await import("../config.js");
+    let cooldownParams: unknown[] | undefined;
+    const app = await poolApp(
+      makePool(async (sql: string, params?: unknown[]) => {
+        if (sql.includes("FROM auth_bundles")) return { rows: [{ member_id: "member-1" }] };
+        if (sql.includes("UPDATE auth_pool_members")) {
+          cooldownParams = params;
+          return { rows: [{ cooldown_until: new Date() }] };
+        }
+        return { rows: [] };
+      })
+    );
+
+    await request(app, "POST", "/proj-1/pool/report", { bundleId: "b-1", problem: "auth_failure" });
+    expect(cooldownParams).toEqual(["member-1", POOL_AUTH_FAILURE_COOLDOWN_MS, "auth_failure"]);
+  });
+
+  it("rejects a fractional retryAfterMs instead of failing the bigint cast", async () => {
+    const app = await poolApp(makePool(async () => ({ rows: [{ member_id: "member-1" }] })));
+
+    const res = await request(app, "POST", "/proj-1/pool/report", {
+      bundleId: "b-1",
+      problem: "rate_limited",
+      retryAfterMs: 1500.5,
+    });
+    expect(res.status).toBe(400);
+  });
+});
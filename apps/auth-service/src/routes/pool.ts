@@ -0,0 +1,172 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Pool } from "pg";
+import { CredentialPoolPolicySchema, CredentialProblemReportSchema } from "@mesh-six/core";
+import {
+  listPoolMembers,
+  applyPoolCooldown,
+  isCoolingDown,
+  type PoolMember,
+} from "../credential-pool.js";
+
+// -------------------------------------------------------------------------
+// Request schemas
+// -------------------------------------------------------------------------
+
+const UpdatePoolSchema = z.object({
+  policy: CredentialPoolPolicySchema,
+});
+
+const UpdatePoolMemberSchema = z.object({
+  enabled: z.boolean().optional(),
+  clearCooldown: z.boolean().optional(),
+});
+
+function memberToJson(member: PoolMember, now = new Date()) {
+  return {
+    id: member.id,
+    label: member.label,
+    enabled: member.enabled,
+    rateLimitTier: member.rateLimitTier,
+    hasValidCredential: member.credentialId !== undefined,
+    expiresAt: member.expiresAt?.toISOString(),
+    coolingDown: isCoolingDown(member, now),
+    cooldownUntil: member.cooldownUntil?.toISOString(),
+    lastRateLimitedAt: member.lastRateLimitedAt?.toISOString(),
+    lastAuthFailureAt: member.lastAuthFailureAt?.toISOString(),
+    lastSelectedAt: member.lastSelectedAt?.toISOString(),
+    selectionCount: member.selectionCount,
+  };
+}
+
+// -------------------------------------------------------------------------
+// Route factory
+// -------------------------------------------------------------------------
+
+export function createPoolRouter(pool: Pool): Hono {
+  const app = new Hono();
+
+  // GET /:id/pool — selection policy and members
+  app.get("/:id/pool", async (c) => {
+    const projectId = c.req.param("id");
+
+    const projResult = await pool.query<{ pool_policy: string }>(
+      "SELECT pool_policy FROM auth_projects WHERE id = $1",
+      [projectId]
+    );
+    if (projResult.rows.length === 0) {
+      return c.json({ error: `Project '${projectId}' not found` }, 404);
+    }
+
+    const members = await listPoolMembers(pool, projectId);
+    return c.json({
+      projectId,
+      policy: projResult.rows[0].pool_policy,
+      members: members.map((m) => memberToJson(m)),
+    });
+  });
+
+  // PUT /:id/pool — change the selection policy
+  app.put("/:id/pool", async (c) => {
+    const projectId = c.req.param("id");
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON" }, 400);
+    }
+
+    const parsed = UpdatePoolSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: "Validation error", details: parsed.error.issues }, 400);
+    }
+
+    const result = await pool.query(
+      "UPDATE auth_projects SET pool_policy = $2, updated_at = NOW() WHERE id = $1 RETURNING id",
+      [projectId, parsed.data.policy]
+    );
+    if (result.rows.length === 0) {
+      return c.json({ error: `Project '${projectId}' not found` }, 404);
+    }
+
+    console.log(`[auth-service] Pool policy for ${projectId} set to ${parsed.data.policy}`);
+    return c.json({ projectId, policy: parsed.data.policy });
+  });
+
+  // PATCH /:id/pool/members/:memberId — enable/disable a member or lift its cooldown
+  app.patch("/:id/pool/members/:memberId", async (c) => {
+    const projectId = c.req.param("id");
+    const memberId = c.req.param("memberId");
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON" }, 400);
+    }
+
+    const parsed = UpdatePoolMemberSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: "Validation error", details: parsed.error.issues }, 400);
+    }
+
+    const result = await pool.query(
+      `UPDATE auth_pool_members SET
+         enabled = COALESCE($3, enabled),
+         cooldown_until = CASE WHEN $4 THEN NULL ELSE cooldown_until END
+       WHERE id = $1 AND project_id = $2
+       RETURNING id`,
+      [memberId, projectId, parsed.data.enabled ?? null, parsed.data.clearCooldown ?? false]
+    );
+    if (result.rows.length === 0) {
+      return c.json({ error: `Pool member '${memberId}' not found` }, 404);
+    }
+
+    const member = (await listPoolMembers(pool, projectId)).find((m) => m.id === memberId);
+    return c.json(member ? memberToJson(member) : { id: memberId });
+  });
+
+  // POST /:id/pool/report — a consumer hit a 429 or auth failure with a bundle
+  app.post("/:id/pool/report", async (c) => {
+    const projectId = c.req.param("id");
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON" }, 400);
+    }
+
+    const parsed = CredentialProblemReportSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: "Validation error", details: parsed.error.issues }, 400);
+    }
+
+    const report = parsed.data;
+    const bundleResult = await pool.query<{ member_id: string | null }>(
+      "SELECT member_id FROM auth_bundles WHERE id = $1 AND project_id = $2",
+      [report.bundleId, projectId]
+    );
+    const memberId = bundleResult.rows[0]?.member_id;
+    if (!memberId) {
+      return c.json({ error: `Bundle '${report.bundleId}' not found` }, 404);
+    }
+
+    const cooldownUntil = await applyPoolCooldown(pool, memberId, report.problem, report.retryAfterMs);
+    const reporter = report.reportedBy ?? c.req.header("dapr-caller-app-id") ?? "unknown";
+    console.log(
+      `[auth-service] ${report.problem} reported for ${projectId} member ${memberId} by ${reporter}` +
+        (cooldownUntil ? ` (cooling down until ${cooldownUntil.toISOString()})` : "")
+    );
+
+    return c.json({
+      projectId,
+      memberId,
+      problem: report.problem,
+      cooldownUntil: cooldownUntil?.toISOString(),
+    });
+  });
+
+  return app;
+}
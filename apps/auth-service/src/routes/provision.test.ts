@@ -1,9 +1,15 @@
 import { describe, it, expect } from "bun:test";
 import { Hono } from "hono";
 import type { Pool } from "pg";
+import { randomBytes } from "crypto";
+import { CredentialVault, InMemoryVaultStore, parseMasterKeys } from "../vault.js";
+
+const vaultStore = new InMemoryVaultStore();
+const vault = new CredentialVault(vaultStore, parseMasterKeys(`test=${randomBytes(32).toString("base64")}`));
 
 function makePool(queryFn: (sql: string, params?: unknown[]) => Promise<{ rows: unknown[] }>): Pool {
-  return { query: queryFn } as unknown as Pool;
+  // Pool selection runs in a transaction on a checked-out client
+  return { query: queryFn, connect: async () => ({ query: queryFn, release: () => {} }) } as unknown as Pool;
 }
 
 async function request(app: Hono, method: string, path: string, body?: unknown) {
@@ -48,16 +54,34 @@ const credRow = {
   rate_limit_tier: null,
   source: "push",
   pushed_by: null,
+  member_id: "member-a",
   created_at: now,
   invalidated_at: null,
 };
 
+function memberRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    label: id,
+    enabled: true,
+    cooldown_until: null,
+    last_rate_limited_at: null,
+    last_auth_failure_at: null,
+    last_selected_at: null,
+    selection_count: "0",
+    credential_id: `cred-${id}`,
+    expires_at: future,
+    rate_limit_tier: null,
+    ...overrides,
+  };
+}
+
 describe("POST /:id/provision", () => {
   it("returns no_credentials when project not found", async () => {
     const pool = makePool(async () => ({ rows: [] }));
     const { createProvisionRouter } = await import("./provision.js");
     const app = new Hono();
-    app.route("/", createProvisionRouter(pool));
+    app.route("/", createProvisionRouter(pool, vault));
 
     const res = await request(app, "POST", "/unknown/provision", { podName: "pod-1" });
     expect(res.status).toBe(200);
@@ -72,7 +96,7 @@ describe("POST /:id/provision", () => {
     });
     const { createProvisionRouter } = await import("./provision.js");
     const app = new Hono();
-    app.route("/", createProvisionRouter(pool));
+    app.route("/", createProvisionRouter(pool, vault));
 
     const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
     expect(res.status).toBe(200);
@@ -81,12 +105,22 @@ describe("POST /:id/provision", () => {
   });
 
   it("generates bundle and returns provisioned status", async () => {
-    let insertedBundle = false;
-    const pool = makePool(async (sql: string) => {
+    let insertedBundle: Buffer | null = null;
+    let insertedMember: unknown;
+    const selected: unknown[] = [];
+    const pool = makePool(async (sql: string, params?: unknown[]) => {
       if (sql.includes("auth_projects")) return { rows: [projectRow] };
+      if (sql.includes("FROM auth_pool_members")) {
+        return { rows: [memberRow("member-a", { credential_id: "cred-1" })] };
+      }
+      if (sql.includes("UPDATE auth_pool_members")) {
+        selected.push(params![0]);
+        return { rows: [] };
+      }
       if (sql.includes("MAX(version)")) return { rows: [{ max_version: null }] };
       if (sql.includes("INSERT INTO auth_bundles")) {
-        insertedBundle = true;
+        insertedBundle = params![4] as Buffer;
+        insertedMember = params![7];
         return { rows: [] };
       }
       if (sql.includes("auth_bundles")) return { rows: [] };
@@ -95,14 +129,155 @@ describe("POST /:id/provision", () => {
     });
     const { createProvisionRouter } = await import("./provision.js");
     const app = new Hono();
-    app.route("/", createProvisionRouter(pool));
+    app.route("/", createProvisionRouter(pool, vault));
 
     const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
     expect(res.status).toBe(200);
     const body = await res.json() as Record<string, unknown>;
     expect(body.status).toBe("provisioned");
     expect(typeof body.bundleId).toBe("string");
-    expect(insertedBundle).toBe(true);
+    expect(body.poolMember).toEqual({ id: "member-a", label: "member-a" });
+    expect(insertedMember).toBe("member-a");
+    expect(selected).toEqual(["member-a"]);
+    expect(insertedBundle).not.toBeNull();
+    expect(CredentialVault.isEncryptedBytes(insertedBundle!)).toBe(true);
+    expect(vaultStore.audits.at(-1)).toMatchObject({ recordType: "credential", recordId: "cred-1", purpose: "provision" });
+  });
+});
+
+describe("POST /:id/provision — credential pool", () => {
+  function poolApp(members: unknown[], bundles: Record<string, unknown> = {}) {
+    const pool = makePool(async (sql: string, params?: unknown[]) => {
+      if (sql.includes("auth_projects")) return { rows: [{ ...projectRow, pool_policy: "round_robin" }] };
+      if (sql.includes("FROM auth_pool_members")) return { rows: members };
+      if (sql.includes("SELECT * FROM auth_bundles")) {
+        const bundle = bundles[params![0] as string];
+        return { rows: bundle ? [bundle] : [] };
+      }
+      if (sql.includes("MAX(version)")) return { rows: [{ max_version: 3 }] };
+      if (sql.includes("SELECT * FROM auth_credentials")) {
+        return { rows: [{ ...credRow, id: params![0], member_id: (params![0] as string).slice(5) }] };
+      }
+      return { rows: [] };
+    });
+    return import("./provision.js").then(({ createProvisionRouter }) => {
+      const app = new Hono();
+      app.route("/", createProvisionRouter(pool, vault));
+      return app;
+    });
+  }
+
+  it("skips members that are cooling down", async () => {
+    const app = await poolApp([
+      memberRow("member-a", { cooldown_until: future, last_rate_limited_at: now }),
+      memberRow("member-b", { last_selected_at: now }),
+    ]);
+
+    const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
+    const body = await res.json() as Record<string, unknown>;
+    expect(body.status).toBe("provisioned");
+    expect((body.poolMember as { id: string }).id).toBe("member-b");
+  });
+
+  it("moves a caller off its bundle once that member is cooling down", async () => {
+    const { computeConfigHash } = await import("../bundle.js");
+    const { ProjectConfigSchema } = await import("@mesh-six/core");
+    const project = ProjectConfigSchema.parse({
+      id: "proj-1",
+      displayName: "Test",
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    const bundle = {
+      id: "bundle-a",
+      project_id: "proj-1",
+      credential_id: "cred-member-a",
+      member_id: "member-a",
+      version: 1,
+      config_hash: computeConfigHash(project, "cred-member-a"),
+      credential_expires_at: future,
+      created_at: now,
+      expired_at: null,
+    };
+
+    const healthy = await poolApp([memberRow("member-a"), memberRow("member-b")], { "bundle-a": bundle });
+    const current = await request(healthy, "POST", "/proj-1/provision", { podName: "pod-1", currentBundleId: "bundle-a" });
+    expect(await current.json()).toMatchObject({ status: "current", bundleId: "bundle-a", poolMember: { id: "member-a" } });
+
+    const limited = await poolApp(
+      [memberRow("member-a", { cooldown_until: future }), memberRow("member-b")],
+      { "bundle-a": bundle }
+    );
+    const moved = await request(limited, "POST", "/proj-1/provision", { podName: "pod-1", currentBundleId: "bundle-a" });
+    const body = await moved.json() as Record<string, unknown>;
+    expect(body.status).toBe("provisioned");
+    expect((body.poolMember as { id: string }).id).toBe("member-b");
+  });
+
+  it("only selects members whose row lock it took", async () => {
+    const members = [memberRow("member-a"), memberRow("member-b", { last_selected_at: now })];
+    const pool = makePool(async (sql: string, params?: unknown[]) => {
+      if (sql.includes("auth_projects")) return { rows: [projectRow] };
+      // member-a is held by a provision on another replica
+      if (sql.includes("SKIP LOCKED")) return { rows: [{ id: "member-b" }] };
+      if (sql.includes("FROM auth_pool_members")) return { rows: members };
+      if (sql.includes("MAX(version)")) return { rows: [{ max_version: 3 }] };
+      if (sql.includes("SELECT * FROM auth_credentials")) {
+        return { rows: [{ ...credRow, id: params![0], member_id: (params![0] as string).slice(5) }] };
+      }
+      return { rows: [] };
+    });
+    const { createProvisionRouter } = await import("./provision.js");
+    const app = new Hono();
+    app.route("/", createProvisionRouter(pool, vault));
+
+    const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
+    const body = await res.json() as Record<string, unknown>;
+    expect((body.poolMember as { id: string }).id).toBe("member-b");
+  });
+
+  it("waits for the lock when every usable member is held elsewhere", async () => {
+    const statements: string[] = [];
+    const pool = makePool(async (sql: string, params?: unknown[]) => {
+      statements.push(sql.includes("FOR UPDATE") ? (sql.includes("SKIP LOCKED") ? "LOCK SKIP" : "LOCK WAIT") : sql);
+      if (sql.includes("auth_projects")) return { rows: [projectRow] };
+      if (sql.includes("SKIP LOCKED")) return { rows: [] };
+      if (sql.includes("FROM auth_pool_members")) return { rows: [memberRow("member-a")] };
+      if (sql.includes("MAX(version)")) return { rows: [{ max_version: 3 }] };
+      if (sql.includes("SELECT * FROM auth_credentials")) {
+        return { rows: [{ ...credRow, id: params![0], member_id: "member-a" }] };
+      }
+      return { rows: [] };
+    });
+    const { createProvisionRouter } = await import("./provision.js");
+    const app = new Hono();
+    app.route("/", createProvisionRouter(pool, vault));
+
+    const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
+    const body = await res.json() as Record<string, unknown>;
+    expect(body.status).toBe("provisioned");
+    expect(statements.filter((s) => ["BEGIN", "ROLLBACK", "COMMIT"].includes(s) || s.startsWith("LOCK"))).toEqual([
+      "BEGIN",
+      "LOCK SKIP",
+      "ROLLBACK",
+      "BEGIN",
+      "LOCK WAIT",
+      "COMMIT",
+    ]);
+  });
+
+  it("returns retryAfterMs when every member is cooling down", async () => {
+    const soon = new Date(Date.now() + 60_000);
+    const app = await poolApp([
+      memberRow("member-a", { cooldown_until: future }),
+      memberRow("member-b", { cooldown_until: soon }),
+    ]);
+
+    const res = await request(app, "POST", "/proj-1/provision", { podName: "pod-1" });
+    const body = await res.json() as Record<string, unknown>;
+    expect(body.status).toBe("no_credentials");
+    expect(body.retryAfterMs as number).toBeGreaterThan(0);
+    expect(body.retryAfterMs as number).toBeLessThanOrEqual(60_000);
   });
 });
 
@@ -111,9 +286,31 @@ describe("GET /:id/provision/:bundleId", () => {
     const pool = makePool(async () => ({ rows: [] }));
     const { createProvisionRouter } = await import("./provision.js");
     const app = new Hono();
-    app.route("/", createProvisionRouter(pool));
+    app.route("/", createProvisionRouter(pool, vault));
 
     const res = await request(app, "GET", "/proj-1/provision/no-such-bundle");
     expect(res.status).toBe(404);
   });
+
+  it("decrypts the stored bundle and records the download", async () => {
+    const tarGz = Buffer.from("fake tar.gz");
+    const stored = await vault.encryptBytes("proj-1", "bundle_data", "bundle-1", tarGz);
+    const pool = makePool(async () => ({ rows: [{ bundle_data: stored, project_id: "proj-1" }] }));
+    const { createProvisionRouter } = await import("./provision.js");
+    const app = new Hono();
+    app.route("/", createProvisionRouter(pool, vault));
+
+    const res = await app.fetch(
+      new Request("http://localhost/proj-1/provision/bundle-1", { headers: { "dapr-caller-app-id": "implementer" } })
+    );
+    expect(res.status).toBe(200);
+    expect(Buffer.from(await res.arrayBuffer()).equals(tarGz)).toBe(true);
+    expect(vaultStore.audits.at(-1)).toMatchObject({
+      recordType: "bundle",
+      recordId: "bundle-1",
+      purpose: "bundle_download",
+      actor: "implementer",
+      keyVersion: 1,
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import { randomUUID } from "crypto";
-import type { Pool, QueryResult } from "pg";
+import type { Pool, PoolClient, QueryResult } from "pg";
 import {
   ProvisionRequestSchema,
   ProvisionResponseSchema,
@@ -9,8 +9,18 @@ import {
   type ProjectConfig,
   type ProjectCredential,
   type ProvisionResponse,
+  type CredentialPoolPolicy,
 } from "@mesh-six/core";
 import { generateBundle, computeConfigHash } from "../bundle.js";
+import type { CredentialVault } from "../vault.js";
+import {
+  listPoolMembers,
+  withPoolSelection,
+  poolRetryAfterMs,
+  isCoolingDown,
+  toPoolMemberRef,
+  type PoolMember,
+} from "../credential-pool.js";
 
 // -------------------------------------------------------------------------
 // Row mappers
@@ -26,6 +36,7 @@ interface ProjectRow {
   claude_json: string | null;
   mcp_json: string | null;
   claude_md: string | null;
+  pool_policy?: CredentialPoolPolicy;
   created_at: Date;
   updated_at: Date;
 }
@@ -46,6 +57,7 @@ interface CredentialRow {
   rate_limit_tier: string | null;
   source: "push" | "refresh" | "import";
   pushed_by: string | null;
+  member_id: string | null;
   created_at: Date;
   invalidated_at: Date | null;
 }
@@ -54,6 +66,7 @@ interface BundleRow {
   id: string;
   project_id: string;
   credential_id: string;
+  member_id: string | null;
   version: number;
   config_hash: string;
   credential_expires_at: Date;
@@ -92,6 +105,7 @@ function rowToCredential(row: CredentialRow): ProjectCredential {
     scopes: row.scopes ?? undefined,
     subscriptionType: row.subscription_type ?? undefined,
     rateLimitTier: row.rate_limit_tier ?? undefined,
+    poolMemberId: row.member_id ?? undefined,
     source: row.source,
     pushedBy: row.pushed_by ?? undefined,
     createdAt: row.created_at.toISOString(),
@@ -99,14 +113,11 @@ function rowToCredential(row: CredentialRow): ProjectCredential {
   });
 }
 
-// Per-project generation locks to prevent concurrent bundle creation
-const generationLocks = new Map<string, Promise<ProvisionResponse>>();
-
 // -------------------------------------------------------------------------
 // Route factory
 // -------------------------------------------------------------------------
 
-export function createProvisionRouter(pool: Pool): Hono {
+export function createProvisionRouter(pool: Pool, vault: CredentialVault): Hono {
   const app = new Hono();
 
   // POST /:id/provision — provision or return current bundle
@@ -141,22 +152,10 @@ export function createProvisionRouter(pool: Pool): Hono {
     const req = parsed.data;
     const project = rowToProject(projResult.rows[0]);
 
-    // Per-project mutex
-    const existing = generationLocks.get(projectId);
-    if (existing) {
-      console.log(`[auth-service] Awaiting in-flight provision for ${projectId}`);
-      const resp = await existing;
-      return c.json(resp);
-    }
-
-    const promise = doProvision(pool, project, req.currentBundleId);
-    generationLocks.set(projectId, promise);
-    try {
-      const resp = await promise;
-      return c.json(resp);
-    } finally {
-      generationLocks.delete(projectId);
-    }
+    const policy = projResult.rows[0].pool_policy ?? "round_robin";
+    const actor = c.req.header("dapr-caller-app-id");
+    const resp = await doProvision(pool, vault, project, policy, req.currentBundleId, actor);
+    return c.json(resp);
   });
 
   // GET /:id/provision/:bundleId — download bundle tar.gz
@@ -178,7 +177,12 @@ export function createProvisionRouter(pool: Pool): Hono {
       return c.json({ error: `Bundle '${bundleId}' not found` }, 404);
     }
 
-    return new Response(row.bundle_data.buffer as ArrayBuffer, {
+    const bundle = await vault.decryptBundle(projectId, bundleId, row.bundle_data, {
+      purpose: "bundle_download",
+      actor: c.req.header("dapr-caller-app-id"),
+    });
+
+    return new Response(new Uint8Array(bundle), {
       status: 200,
       headers: {
         "Content-Type": "application/octet-stream",
@@ -196,98 +200,145 @@ export function createProvisionRouter(pool: Pool): Hono {
 
 async function doProvision(
   pool: Pool,
+  vault: CredentialVault,
   project: ProjectConfig,
-  currentBundleId?: string
+  policy: CredentialPoolPolicy,
+  currentBundleId?: string,
+  actor?: string
 ): Promise<ProvisionResponse> {
-  // Check active bundle
-  const bundleResult: QueryResult<BundleRow> = await pool.query(
-    `SELECT * FROM auth_bundles
-     WHERE project_id = $1 AND expired_at IS NULL
-     ORDER BY created_at DESC
-     LIMIT 1`,
-    [project.id]
+  // Keep the caller's bundle while its member is still usable and its credential current
+  if (currentBundleId) {
+    const members = await listPoolMembers(pool, project.id);
+    const now = new Date();
+    const currentResult: QueryResult<BundleRow> = await pool.query(
+      `SELECT * FROM auth_bundles
+       WHERE id = $1 AND project_id = $2 AND expired_at IS NULL`,
+      [currentBundleId, project.id]
+    );
+    const current = currentResult.rows[0];
+    const member = current && members.find((m) => m.id === current.member_id);
+    if (
+      member &&
+      member.enabled &&
+      !isCoolingDown(member, now) &&
+      member.credentialId === current.credential_id &&
+      isBundleCurrent(project, current, now)
+    ) {
+      return ProvisionResponseSchema.parse({
+        status: "current",
+        bundleId: current.id,
+        credentialExpiresAt: current.credential_expires_at.toISOString(),
+        poolMember: toPoolMemberRef(member),
+      });
+    }
+  }
+
+  // The member stays locked while its bundle is generated (see withPoolSelection)
+  return withPoolSelection(pool, project.id, policy, async ({ member, members, client }) => {
+    const now = new Date();
+    if (!member) {
+      const retryAfterMs = poolRetryAfterMs(members, now);
+      return ProvisionResponseSchema.parse({
+        status: "no_credentials",
+        retryAfterMs,
+        message: retryAfterMs !== undefined
+          ? "All credential pool members are cooling down"
+          : "No valid credentials available",
+      });
+    }
+    // Vault reads and the decrypt audit share the transaction's connection
+    return provisionMember(client, vault.onClient(client), project, member, now, actor);
+  });
+}
+
+function isBundleCurrent(project: ProjectConfig, bundle: BundleRow, now: Date): boolean {
+  return (
+    computeConfigHash(project, bundle.credential_id) === bundle.config_hash &&
+    bundle.credential_expires_at > now
   );
+}
 
-  const activeBundle = bundleResult.rows.length > 0 ? bundleResult.rows[0] : null;
+/** Reuse the member's active bundle if it is current, else generate a new one. */
+async function provisionMember(
+  client: PoolClient,
+  vault: CredentialVault,
+  project: ProjectConfig,
+  member: PoolMember,
+  now: Date,
+  actor?: string
+): Promise<ProvisionResponse> {
+  const poolMember = toPoolMemberRef(member);
 
-  // Get active credential
-  const credResult: QueryResult<CredentialRow> = await pool.query(
-    `SELECT * FROM auth_credentials
-     WHERE project_id = $1
-       AND invalidated_at IS NULL
-       AND expires_at > NOW()
+  const bundleResult: QueryResult<BundleRow> = await client.query(
+    `SELECT * FROM auth_bundles
+     WHERE member_id = $1 AND expired_at IS NULL
      ORDER BY created_at DESC
      LIMIT 1`,
-    [project.id]
+    [member.id]
   );
+  const activeBundle = bundleResult.rows.length > 0 ? bundleResult.rows[0] : null;
 
-  const activeCred = credResult.rows.length > 0
-    ? rowToCredential(credResult.rows[0])
-    : null;
-
-  if (!activeCred) {
+  if (activeBundle && activeBundle.credential_id === member.credentialId && isBundleCurrent(project, activeBundle, now)) {
     return ProvisionResponseSchema.parse({
-      status: "no_credentials",
-      message: "No valid credentials available",
+      status: "provisioned",
+      bundleId: activeBundle.id,
+      credentialExpiresAt: activeBundle.credential_expires_at.toISOString(),
+      poolMember,
     });
   }
 
-  // Check if current bundle is still valid
-  if (activeBundle && currentBundleId === activeBundle.id) {
-    const configHash = computeConfigHash(project, activeBundle.credential_id);
-    if (
-      configHash === activeBundle.config_hash &&
-      activeBundle.credential_expires_at > new Date()
-    ) {
-      return ProvisionResponseSchema.parse({
-        status: "current",
-        bundleId: activeBundle.id,
-        credentialExpiresAt: activeBundle.credential_expires_at.toISOString(),
-      });
-    }
-  }
+  const credResult: QueryResult<CredentialRow> = await client.query(
+    "SELECT * FROM auth_credentials WHERE id = $1",
+    [member.credentialId]
+  );
+
+  // Only decrypt the tokens when a new bundle is needed
+  const activeCred = rowToCredential(await vault.decryptCredential(credResult.rows[0], { purpose: "provision", actor }));
 
   // Generate new bundle (synchronous — pure Buffer/zlib, no I/O)
   const bundleData = generateBundle({ project, credential: activeCred });
   const configHash = computeConfigHash(project, activeCred.id);
 
   // Get next version number
-  const versionResult = await pool.query<{ max_version: number | null }>(
+  const versionResult = await client.query<{ max_version: number | null }>(
     "SELECT MAX(version) AS max_version FROM auth_bundles WHERE project_id = $1",
     [project.id]
   );
   const version = (versionResult.rows[0].max_version ?? 0) + 1;
 
-  // Invalidate previous active bundles
-  await pool.query(
-    "UPDATE auth_bundles SET expired_at = NOW() WHERE project_id = $1 AND expired_at IS NULL",
-    [project.id]
+  // Invalidate the member's previous active bundles; other members' stay in use
+  await client.query(
+    "UPDATE auth_bundles SET expired_at = NOW() WHERE member_id = $1 AND expired_at IS NULL",
+    [member.id]
   );
 
   // Insert new bundle record
   const bundleId = randomUUID();
-  await pool.query(
+  const encryptedBundle = await vault.encryptBytes(project.id, "bundle_data", bundleId, bundleData);
+  await client.query(
     `INSERT INTO auth_bundles
-       (id, project_id, credential_id, version, bundle_data, config_hash, credential_expires_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7::timestamptz)`,
+       (id, project_id, credential_id, version, bundle_data, config_hash, credential_expires_at, member_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::timestamptz, $8)`,
     [
       bundleId,
       project.id,
       activeCred.id,
       version,
-      bundleData,
+      encryptedBundle,
       configHash,
       activeCred.expiresAt,
+      member.id,
     ]
   );
 
   console.log(
-    `[auth-service] Generated bundle v${version} for ${project.id} (${bundleData.length} bytes)`
+    `[auth-service] Generated bundle v${version} for ${project.id}/${member.label} (${bundleData.length} bytes)`
   );
 
   return ProvisionResponseSchema.parse({
     status: "provisioned",
     bundleId,
     credentialExpiresAt: activeCred.expiresAt,
+    poolMember,
   });
 }
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "bun:test";
+import { randomBytes } from "crypto";
+import type { PoolClient } from "pg";
+import { CredentialVault, InMemoryVaultStore, VaultError, parseMasterKeys } from "./vault.js";
+
+const keyA = randomBytes(32).toString("base64");
+const keyB = randomBytes(32).toString("base64");
+
+function makeVault(spec = `a=${keyA}`, store = new InMemoryVaultStore()) {
+  return { store, vault: new CredentialVault(store, parseMasterKeys(spec)) };
+}
+
+describe("parseMasterKeys", () => {
+  it("uses the first key as the active key", () => {
+    expect(parseMasterKeys(`# current first\nb=${keyB}\na=${keyA}`).activeKeyId).toBe("b");
+    expect(parseMasterKeys(`a=${keyA},b=${keyB}`).activeKeyId).toBe("a");
+  });
+
+  it("rejects malformed entries and short keys", () => {
+    expect(() => parseMasterKeys("")).toThrow(VaultError);
+    expect(() => parseMasterKeys(keyA)).toThrow(VaultError);
+    expect(() => parseMasterKeys(`a=${randomBytes(16).toString("base64")}`)).toThrow("must be 32 bytes");
+  });
+});
+
+describe("CredentialVault", () => {
+  it("round-trips text and bytes under a per-project data key", async () => {
+    const { store, vault } = makeVault();
+
+    const token = await vault.encryptText("proj-1", "access_token", "cred-1", "sk-ant-secret");
+    expect(token).toStartWith("enc:v1:1:");
+    expect(token).not.toContain("sk-ant-secret");
+    expect(await vault.decryptText("proj-1", "access_token", "cred-1", token)).toBe("sk-ant-secret");
+
+    const bundle = await vault.encryptBytes("proj-1", "bundle_data", "bundle-1", Buffer.from("tar.gz"));
+    expect(CredentialVault.keyVersionOf(bundle)).toBe(1);
+    expect((await vault.decryptBytes("proj-1", "bundle_data", "bundle-1", bundle)).toString()).toBe("tar.gz");
+
+    expect(store.keys).toHaveLength(1);
+    expect(store.keys[0]).toMatchObject({ projectId: "proj-1", version: 1, masterKeyId: "a" });
+  });
+
+  it("binds ciphertext to its project, column and row", async () => {
+    const { vault } = makeVault();
+    const token = await vault.encryptText("proj-1", "access_token", "cred-1", "sk-ant-secret");
+
+    await expect(vault.decryptText("proj-1", "refresh_token", "cred-1", token)).rejects.toThrow(VaultError);
+    await expect(vault.decryptText("proj-1", "access_token", "cred-2", token)).rejects.toThrow(VaultError);
+  });
+
+  it("passes legacy plaintext through", async () => {
+    const { vault } = makeVault();
+    expect(await vault.decryptText("proj-1", "access_token", "cred-1", "sk-ant-legacy")).toBe("sk-ant-legacy");
+    const gzip = Buffer.from([0x1f, 0x8b, 0x08, 0x00]);
+    expect(await vault.decryptBytes("proj-1", "bundle_data", "bundle-1", gzip)).toBe(gzip);
+  });
+
+  it("audits credential decrypts once per record", async () => {
+    const { store, vault } = makeVault();
+    const row = {
+      id: "cred-1",
+      project_id: "proj-1",
+      access_token: await vault.encryptText("proj-1", "access_token", "cred-1", "sk-ant-access"),
+      refresh_token: await vault.encryptText("proj-1", "refresh_token", "cred-1", "sk-ant-refresh"),
+    };
+
+    const plain = await vault.decryptCredential(row, { purpose: "refresh", actor: "refresh-timer" });
+    expect(plain).toMatchObject({ access_token: "sk-ant-access", refresh_token: "sk-ant-refresh" });
+    expect(store.audits).toEqual([
+      {
+        purpose: "refresh",
+        actor: "refresh-timer",
+        projectId: "proj-1",
+        recordType: "credential",
+        recordId: "cred-1",
+        keyVersion: 1,
+      },
+    ]);
+  });
+
+  it("keeps old data key versions readable after rotation", async () => {
+    const { vault } = makeVault();
+    const before = await vault.encryptText("proj-1", "access_token", "cred-1", "old");
+
+    expect(await vault.rotateDataKey("proj-1")).toBe(2);
+    const after = await vault.encryptText("proj-1", "access_token", "cred-2", "new");
+
+    expect(CredentialVault.keyVersionOf(after)).toBe(2);
+    expect(await vault.decryptText("proj-1", "access_token", "cred-1", before)).toBe("old");
+  });
+
+  it("re-wraps data keys when the master key changes", async () => {
+    const { store, vault } = makeVault(`a=${keyA}`);
+    const token = await vault.encryptText("proj-1", "access_token", "cred-1", "sk-ant-secret");
+
+    const rotated = new CredentialVault(store, parseMasterKeys(`b=${keyB}\na=${keyA}`));
+    expect(await rotated.rewrapDataKeys()).toBe(1);
+    expect(store.keys[0]!.masterKeyId).toBe("b");
+
+    // The old master key is no longer needed
+    const onlyNew = new CredentialVault(store, parseMasterKeys(`b=${keyB}`));
+    expect(await onlyNew.decryptText("proj-1", "access_token", "cred-1", token)).toBe("sk-ant-secret");
+  });
+
+  it("stops encrypting with a version another replica retired", async () => {
+    const { store, vault } = makeVault();
+    await vault.encryptText("proj-1", "access_token", "cred-1", "old");
+
+    // rotate-keys runs in its own process: new version, then the old one retired
+    const rotator = new CredentialVault(store, parseMasterKeys(`a=${keyA}`));
+    await rotator.rotateDataKey("proj-1");
+    await store.retireDataKey("proj-1", 1);
+
+    const token = await vault.encryptText("proj-1", "access_token", "cred-2", "new");
+    expect(CredentialVault.keyVersionOf(token)).toBe(2);
+  });
+
+  it("bounds the unwrapped key cache", async () => {
+    const keyring = parseMasterKeys(`a=${keyA}`);
+    let unwraps = 0;
+    const counting = {
+      activeKeyId: keyring.activeKeyId,
+      wrap: (key: Buffer) => keyring.wrap(key),
+      unwrap: (wrapped: Buffer, id: string) => {
+        unwraps++;
+        return keyring.unwrap(wrapped, id);
+      },
+    };
+    const vault = new CredentialVault(new InMemoryVaultStore(), counting, { maxCachedKeys: 1 });
+
+    const first = await vault.encryptText("proj-1", "access_token", "cred-1", "one");
+    await vault.encryptText("proj-2", "access_token", "cred-2", "two");
+    expect(unwraps).toBe(2);
+
+    // proj-1's key was evicted by proj-2's
+    expect(await vault.decryptText("proj-1", "access_token", "cred-1", first)).toBe("one");
+    expect(unwraps).toBe(3);
+    await vault.decryptText("proj-1", "access_token", "cred-1", first);
+    expect(unwraps).toBe(3);
+  });
+
+  it("runs store queries on a client's store and shares unwrapped keys", async () => {
+    const clientStore = new InMemoryVaultStore();
+    const store = new InMemoryVaultStore();
+    Object.assign(store, { onClient: () => clientStore });
+    const { vault } = makeVault(`a=${keyA}`, store);
+    const client = {} as PoolClient;
+
+    const token = await vault.onClient(client).encryptText("proj-1", "access_token", "cred-1", "sk-ant-secret");
+    expect(clientStore.keys).toHaveLength(1);
+    expect(store.keys).toHaveLength(0);
+
+    // The key unwrapped through the client is cached; the vault's own store never saw it
+    await vault.decryptCredential(
+      { id: "cred-1", project_id: "proj-1", access_token: token, refresh_token: null },
+      { purpose: "provision" },
+    );
+    expect(store.audits).toHaveLength(1);
+    expect(clientStore.audits).toHaveLength(0);
+  });
+
+  it("returns itself when the store has no client form", () => {
+    const { vault } = makeVault();
+    expect(vault.onClient({} as PoolClient)).toBe(vault);
+  });
+});
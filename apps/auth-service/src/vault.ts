@@ -0,0 +1,486 @@
+/**
+ * Envelope encryption for credentials and bundles at rest.
+ *
+ * Each project has a data key (AES-256-GCM) that encrypts its
+ * `auth_credentials` tokens and `auth_bundles.bundle_data`. Data keys are
+ * stored in `auth_data_keys` wrapped by a master key, which never touches the
+ * database. Ciphertexts carry the data key version, and are bound to their
+ * project, column and row, so they cannot be swapped between records.
+ *
+ * Values written before encryption existed (no `enc:` prefix / bundle magic)
+ * are read as plaintext until `rotate-keys` re-encrypts them. Every decrypt of
+ * a credential or bundle is recorded in `auth_decrypt_audit`.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import type { Pool, PoolClient } from "pg";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** Prefix of encrypted text columns: `enc:v1:<dataKeyVersion>:<base64 iv|tag|ciphertext>` */
+const TEXT_PREFIX = "enc:v1:";
+/** Header of encrypted bytea columns, followed by a uint32 data key version and iv|tag|ciphertext */
+const BYTES_MAGIC = Buffer.from("MS6\x01", "latin1");
+
+/** Unwrapped data keys kept in memory (least recently used evicted first) */
+const DEFAULT_MAX_CACHED_KEYS = 256;
+
+export type EncryptedField = "access_token" | "refresh_token" | "bundle_data";
+
+export type DecryptPurpose = "provision" | "bundle_download" | "refresh" | "key_rotation";
+
+export interface DecryptContext {
+  purpose: DecryptPurpose;
+  /** Calling app or operator, when known */
+  actor?: string;
+}
+
+export interface DecryptAuditEntry extends DecryptContext {
+  projectId: string;
+  recordType: "credential" | "bundle";
+  recordId: string;
+  /** Data key version the record was encrypted with; null for legacy plaintext */
+  keyVersion: number | null;
+}
+
+export interface DataKeyRecord {
+  projectId: string;
+  version: number;
+  wrappedKey: Buffer;
+  masterKeyId: string;
+  createdAt?: string;
+  retiredAt?: string;
+}
+
+/** Storage for wrapped data keys and the decrypt audit trail */
+export interface VaultStore {
+  activeDataKey(projectId: string): Promise<DataKeyRecord | null>;
+  getDataKey(projectId: string, version: number): Promise<DataKeyRecord | null>;
+  listDataKeys(): Promise<DataKeyRecord[]>;
+  /** Insert a data key; returns the active key afterwards (another writer may have won) */
+  insertDataKey(record: DataKeyRecord): Promise<DataKeyRecord>;
+  rewrapDataKey(projectId: string, version: number, wrappedKey: Buffer, masterKeyId: string): Promise<void>;
+  retireDataKey(projectId: string, version: number): Promise<void>;
+  recordDecrypt(entry: DecryptAuditEntry): Promise<void>;
+  /** The same store with its queries run on `client`; stores without a database omit it */
+  onClient?(client: PoolClient): VaultStore;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+// -------------------------------------------------------------------------
+// Master keys
+// -------------------------------------------------------------------------
+
+/** KMS-style master key provider: wraps and unwraps data keys */
+export interface MasterKeyProvider {
+  /** ID of the key new data keys are wrapped with */
+  readonly activeKeyId: string;
+  wrap(dataKey: Buffer): Promise<{ wrappedKey: Buffer; masterKeyId: string }>;
+  unwrap(wrappedKey: Buffer, masterKeyId: string): Promise<Buffer>;
+}
+
+/** Master keys held in process memory, loaded from a mounted secret or env. */
+export class LocalKeyring implements MasterKeyProvider {
+  readonly activeKeyId: string;
+
+  constructor(private keys: Map<string, Buffer>) {
+    const first = keys.keys().next();
+    if (first.done) throw new VaultError("No master keys configured");
+    this.activeKeyId = first.value;
+  }
+
+  async wrap(dataKey: Buffer): Promise<{ wrappedKey: Buffer; masterKeyId: string }> {
+    return { wrappedKey: seal(this.keys.get(this.activeKeyId)!, dataKey, this.activeKeyId), masterKeyId: this.activeKeyId };
+  }
+
+  async unwrap(wrappedKey: Buffer, masterKeyId: string): Promise<Buffer> {
+    const key = this.keys.get(masterKeyId);
+    if (!key) throw new VaultError(`Master key '${masterKeyId}' is not configured`);
+    return open(key, wrappedKey, masterKeyId);
+  }
+}
+
+/** Parse `keyId=base64key` entries (newline or comma separated); the first is active. */
+export function parseMasterKeys(spec: string): LocalKeyring {
+  const keys = new Map<string, Buffer>();
+  for (const entry of spec.split(/[\n,]/)) {
+    const trimmed = entry.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const eq = trimmed.indexOf("=");
+    if (eq <= 0) throw new VaultError("Master key entries must be keyId=base64key");
+    const id = trimmed.slice(0, eq).trim();
+    const key = Buffer.from(trimmed.slice(eq + 1).trim(), "base64");
+    if (key.length !== KEY_BYTES) throw new VaultError(`Master key '${id}' must be ${KEY_BYTES} bytes`);
+    keys.set(id, key);
+  }
+  return new LocalKeyring(keys);
+}
+
+/** Load master keys from `file` if it exists, else from `env`. */
+export function loadMasterKeys(file: string, env: string): LocalKeyring {
+  if (existsSync(file)) return parseMasterKeys(readFileSync(file, "utf8"));
+  if (env) return parseMasterKeys(env);
+  throw new VaultError(`No master keys: neither ${file} nor AUTH_MASTER_KEYS is set`);
+}
+
+// -------------------------------------------------------------------------
+// Vault
+// -------------------------------------------------------------------------
+
+export interface CredentialVaultOptions {
+  /** Unwrapped data keys kept in memory (default 256) */
+  maxCachedKeys?: number;
+}
+
+export class CredentialVault {
+  private dataKeys = new Map<string, Buffer>();
+  private maxCachedKeys: number;
+
+  constructor(
+    private store: VaultStore,
+    private masterKeys: MasterKeyProvider,
+    opts: CredentialVaultOptions = {},
+  ) {
+    this.maxCachedKeys = opts.maxCachedKeys ?? DEFAULT_MAX_CACHED_KEYS;
+  }
+
+  static isEncryptedText(value: string): boolean {
+    return value.startsWith(TEXT_PREFIX);
+  }
+
+  static isEncryptedBytes(value: Buffer): boolean {
+    return value.length >= BYTES_MAGIC.length && value.subarray(0, BYTES_MAGIC.length).equals(BYTES_MAGIC);
+  }
+
+  /** Data key version a stored value was encrypted with, or null for plaintext. */
+  static keyVersionOf(value: string | Buffer): number | null {
+    if (typeof value === "string") {
+      return CredentialVault.isEncryptedText(value) ? Number(value.slice(TEXT_PREFIX.length).split(":")[0]) : null;
+    }
+    return CredentialVault.isEncryptedBytes(value) ? value.readUInt32BE(BYTES_MAGIC.length) : null;
+  }
+
+  async encryptText(projectId: string, field: EncryptedField, recordId: string, plaintext: string): Promise<string> {
+    const { version, key } = await this.activeKey(projectId);
+    const sealed = seal(key, Buffer.from(plaintext, "utf8"), aad(projectId, field, recordId));
+    return `${TEXT_PREFIX}${version}:${sealed.toString("base64")}`;
+  }
+
+  async decryptText(projectId: string, field: EncryptedField, recordId: string, value: string): Promise<string> {
+    if (!CredentialVault.isEncryptedText(value)) return value;
+    const [version, payload] = value.slice(TEXT_PREFIX.length).split(":");
+    const key = await this.dataKey(projectId, Number(version));
+    return open(key, Buffer.from(payload ?? "", "base64"), aad(projectId, field, recordId)).toString("utf8");
+  }
+
+  async encryptBytes(projectId: string, field: EncryptedField, recordId: string, plaintext: Buffer): Promise<Buffer> {
+    const { version, key } = await this.activeKey(projectId);
+    const header = Buffer.alloc(BYTES_MAGIC.length + 4);
+    BYTES_MAGIC.copy(header);
+    header.writeUInt32BE(version, BYTES_MAGIC.length);
+    return Buffer.concat([header, seal(key, plaintext, aad(projectId, field, recordId))]);
+  }
+
+  async decryptBytes(projectId: string, field: EncryptedField, recordId: string, value: Buffer): Promise<Buffer> {
+    if (!CredentialVault.isEncryptedBytes(value)) return value;
+    const key = await this.dataKey(projectId, value.readUInt32BE(BYTES_MAGIC.length));
+    return open(key, value.subarray(BYTES_MAGIC.length + 4), aad(projectId, field, recordId));
+  }
+
+  /** Decrypt a credential row's tokens and record the access. */
+  async decryptCredential<T extends { id: string; project_id: string; access_token: string; refresh_token: string | null }>(
+    row: T,
+    ctx: DecryptContext,
+  ): Promise<T> {
+    const decrypted = {
+      ...row,
+      access_token: await this.decryptText(row.project_id, "access_token", row.id, row.access_token),
+      refresh_token: row.refresh_token === null
+        ? null
+        : await this.decryptText(row.project_id, "refresh_token", row.id, row.refresh_token),
+    };
+    await this.audit({
+      ...ctx,
+      projectId: row.project_id,
+      recordType: "credential",
+      recordId: row.id,
+      keyVersion: CredentialVault.keyVersionOf(row.access_token),
+    });
+    return decrypted;
+  }
+
+  /** Decrypt a bundle's tar.gz and record the access. */
+  async decryptBundle(projectId: string, bundleId: string, data: Buffer, ctx: DecryptContext): Promise<Buffer> {
+    const plaintext = await this.decryptBytes(projectId, "bundle_data", bundleId, data);
+    await this.audit({
+      ...ctx,
+      projectId,
+      recordType: "bundle",
+      recordId: bundleId,
+      keyVersion: CredentialVault.keyVersionOf(data),
+    });
+    return plaintext;
+  }
+
+  /**
+   * This vault with its store queries run on `client`, for callers that hold
+   * a pooled connection in a transaction. Taking a second connection there
+   * can deadlock once every connection is held that way. The unwrapped key
+   * cache is shared.
+   */
+  onClient(client: PoolClient): CredentialVault {
+    const store = this.store.onClient?.(client);
+    if (!store) return this;
+    const bound = new CredentialVault(store, this.masterKeys, { maxCachedKeys: this.maxCachedKeys });
+    bound.dataKeys = this.dataKeys;
+    return bound;
+  }
+
+  /** Version of the project's active data key, creating the first one if needed. */
+  async activeVersion(projectId: string): Promise<number> {
+    return (await this.activeKey(projectId)).version;
+  }
+
+  /** Create a new data key version for a project; new writes use it. */
+  async rotateDataKey(projectId: string): Promise<number> {
+    const current = await this.store.activeDataKey(projectId);
+    const record = await this.createDataKey(projectId, (current?.version ?? 0) + 1);
+    return record.version;
+  }
+
+  /**
+   * Re-wrap data keys held under an older master key with the active one.
+   * Returns how many were re-wrapped.
+   */
+  async rewrapDataKeys(): Promise<number> {
+    let rewrapped = 0;
+    for (const record of await this.store.listDataKeys()) {
+      if (record.masterKeyId === this.masterKeys.activeKeyId) continue;
+      const dataKey = await this.masterKeys.unwrap(record.wrappedKey, record.masterKeyId);
+      const { wrappedKey, masterKeyId } = await this.masterKeys.wrap(dataKey);
+      await this.store.rewrapDataKey(record.projectId, record.version, wrappedKey, masterKeyId);
+      rewrapped++;
+    }
+    return rewrapped;
+  }
+
+  private async audit(entry: DecryptAuditEntry): Promise<void> {
+    try {
+      await this.store.recordDecrypt(entry);
+    } catch (err) {
+      console.error(`[auth-service] Failed to record decrypt audit for ${entry.recordType} ${entry.recordId}:`, err);
+    }
+  }
+
+  /**
+   * The active version is read from the store on every encrypt: rotate-keys
+   * retires versions from another process, and nothing may be written with a
+   * retired version afterwards. Only the unwrapped key material is cached.
+   */
+  private async activeKey(projectId: string): Promise<{ version: number; key: Buffer }> {
+    const record = (await this.store.activeDataKey(projectId)) ?? (await this.createDataKey(projectId, 1));
+    return { version: record.version, key: await this.unwrapRecord(record) };
+  }
+
+  private async dataKey(projectId: string, version: number): Promise<Buffer> {
+    const cached = this.cachedKey(`${projectId}:${version}`);
+    if (cached) return cached;
+    const record = await this.store.getDataKey(projectId, version);
+    if (!record) throw new VaultError(`Data key v${version} for project '${projectId}' not found`);
+    return this.unwrapRecord(record);
+  }
+
+  private async unwrapRecord(record: DataKeyRecord): Promise<Buffer> {
+    const cacheKey = `${record.projectId}:${record.version}`;
+    let key = this.cachedKey(cacheKey);
+    if (!key) {
+      key = await this.masterKeys.unwrap(record.wrappedKey, record.masterKeyId);
+      this.dataKeys.set(cacheKey, key);
+      while (this.dataKeys.size > this.maxCachedKeys) {
+        this.dataKeys.delete(this.dataKeys.keys().next().value!);
+      }
+    }
+    return key;
+  }
+
+  /** Cache lookup that marks the entry most recently used */
+  private cachedKey(cacheKey: string): Buffer | undefined {
+    const key = this.dataKeys.get(cacheKey);
+    if (key) {
+      this.dataKeys.delete(cacheKey);
+      this.dataKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  private async createDataKey(projectId: string, version: number): Promise<DataKeyRecord> {
+    const { wrappedKey, masterKeyId } = await this.masterKeys.wrap(randomBytes(KEY_BYTES));
+    return this.store.insertDataKey({ projectId, version, wrappedKey, masterKeyId });
+  }
+}
+
+// -------------------------------------------------------------------------
+// Stores
+// -------------------------------------------------------------------------
+
+/** Postgres store (`auth_data_keys`, `auth_decrypt_audit`) */
+export class PgVaultStore implements VaultStore {
+  constructor(private pool: Pool | PoolClient) {}
+
+  onClient(client: PoolClient): VaultStore {
+    return new PgVaultStore(client);
+  }
+
+  async activeDataKey(projectId: string): Promise<DataKeyRecord | null> {
+    const { rows } = await this.pool.query<DataKeyRow>(
+      `SELECT * FROM auth_data_keys
+       WHERE project_id = $1 AND retired_at IS NULL
+       ORDER BY version DESC
+       LIMIT 1`,
+      [projectId]
+    );
+    return rows[0] ? mapDataKeyRow(rows[0]) : null;
+  }
+
+  async getDataKey(projectId: string, version: number): Promise<DataKeyRecord | null> {
+    const { rows } = await this.pool.query<DataKeyRow>(
+      "SELECT * FROM auth_data_keys WHERE project_id = $1 AND version = $2",
+      [projectId, version]
+    );
+    return rows[0] ? mapDataKeyRow(rows[0]) : null;
+  }
+
+  async listDataKeys(): Promise<DataKeyRecord[]> {
+    const { rows } = await this.pool.query<DataKeyRow>("SELECT * FROM auth_data_keys ORDER BY project_id, version");
+    return rows.map(mapDataKeyRow);
+  }
+
+  async insertDataKey(record: DataKeyRecord): Promise<DataKeyRecord> {
+    await this.pool.query(
+      `INSERT INTO auth_data_keys (project_id, version, wrapped_key, master_key_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (project_id, version) DO NOTHING`,
+      [record.projectId, record.version, record.wrappedKey, record.masterKeyId]
+    );
+    return (await this.activeDataKey(record.projectId)) ?? record;
+  }
+
+  async rewrapDataKey(projectId: string, version: number, wrappedKey: Buffer, masterKeyId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE auth_data_keys SET wrapped_key = $3, master_key_id = $4, rewrapped_at = NOW()
+       WHERE project_id = $1 AND version = $2`,
+      [projectId, version, wrappedKey, masterKeyId]
+    );
+  }
+
+  async retireDataKey(projectId: string, version: number): Promise<void> {
+    await this.pool.query(
+      "UPDATE auth_data_keys SET retired_at = NOW() WHERE project_id = $1 AND version = $2 AND retired_at IS NULL",
+      [projectId, version]
+    );
+  }
+
+  async recordDecrypt(entry: DecryptAuditEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO auth_decrypt_audit (project_id, record_type, record_id, purpose, actor, key_version)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [entry.projectId, entry.recordType, entry.recordId, entry.purpose, entry.actor ?? null, entry.keyVersion]
+    );
+  }
+}
+
+/** Process-local store, for tests */
+export class InMemoryVaultStore implements VaultStore {
+  readonly keys: DataKeyRecord[] = [];
+  readonly audits: DecryptAuditEntry[] = [];
+
+  async activeDataKey(projectId: string): Promise<DataKeyRecord | null> {
+    const active = this.keys.filter((k) => k.projectId === projectId && !k.retiredAt);
+    return active.sort((a, b) => b.version - a.version)[0] ?? null;
+  }
+
+  async getDataKey(projectId: string, version: number): Promise<DataKeyRecord | null> {
+    return this.keys.find((k) => k.projectId === projectId && k.version === version) ?? null;
+  }
+
+  async listDataKeys(): Promise<DataKeyRecord[]> {
+    return [...this.keys];
+  }
+
+  async insertDataKey(record: DataKeyRecord): Promise<DataKeyRecord> {
+    if (!(await this.getDataKey(record.projectId, record.version))) this.keys.push({ ...record });
+    return (await this.activeDataKey(record.projectId))!;
+  }
+
+  async rewrapDataKey(projectId: string, version: number, wrappedKey: Buffer, masterKeyId: string): Promise<void> {
+    const record = await this.getDataKey(projectId, version);
+    if (record) Object.assign(record, { wrappedKey, masterKeyId });
+  }
+
+  async retireDataKey(projectId: string, version: number): Promise<void> {
+    const record = await this.getDataKey(projectId, version);
+    if (record) record.retiredAt = new Date().toISOString();
+  }
+
+  async recordDecrypt(entry: DecryptAuditEntry): Promise<void> {
+    this.audits.push(entry);
+  }
+}
+
+// -------------------------------------------------------------------------
+// Helpers
+// -------------------------------------------------------------------------
+
+function aad(projectId: string, field: EncryptedField, recordId: string): string {
+  return `${projectId}:${field}:${recordId}`;
+}
+
+/** AES-256-GCM encrypt to iv|tag|ciphertext */
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, associatedData: string): Buffer {
+  if (sealed.length < IV_BYTES + TAG_BYTES) throw new VaultError("Ciphertext is truncated");
+  const decipher = createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(associatedData, "utf8"));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new VaultError("Decryption failed: wrong key or tampered ciphertext");
+  }
+}
+
+interface DataKeyRow {
+  project_id: string;
+  version: number;
+  wrapped_key: Buffer;
+  master_key_id: string;
+  created_at: Date;
+  retired_at: Date | null;
+}
+
+function mapDataKeyRow(row: DataKeyRow): DataKeyRecord {
+  return {
+    projectId: row.project_id,
+    version: row.version,
+    wrappedKey: row.wrapped_key,
+    masterKeyId: row.master_key_id,
+    createdAt: row.created_at.toISOString(),
+    retiredAt: row.retired_at ? new Date(row.retired_at).toISOString() : undefined,
+  };
+}
@@ -11,8 +11,14 @@ import {
   chatCompletionWithSchema,
   tool,
   DAPR_PUBSUB_NAME,
+  DAPR_LLM_SERVICE_APP_ID,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
+  type LLMUsageSummary,
   type TaskRequest,
   type TaskResult,
   type DaprPubSubMessage,
@@ -40,6 +46,9 @@ const PROMETHEUS_URL = process.env.PROMETHEUS_URL || "http://mimir.monitoring:90
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -65,7 +74,7 @@ const REGISTRATION: AgentRegistration = {
   lastHeartbeat: new Date().toISOString(),
   metadata: {
     specialization: "cost-analysis",
-    services: ["litellm", "prometheus"],
+    services: ["litellm", "llm-service", "prometheus"],
   },
 };
 
@@ -74,11 +83,13 @@ const SYSTEM_PROMPT = `You are the Cost Tracker Agent for the mesh-six platform.
 
 ## Cost Sources
 - LLM API spend via LiteLLM gateway (tracks per-model, per-user spend)
+- Claude CLI spend via llm-service (real token counts and cost per actor, credential, caller and model)
 - Cluster resource usage (CPU, memory, storage) via Prometheus
 - Energy consumption estimates based on node utilization
 
 ## Your Capabilities
 - Query LiteLLM spend data by model, user, date range
+- Query Claude CLI spend from llm-service by actor, credential, caller, model or day
 - List available models and their pricing
 - Query cluster resource utilization
 - Generate comprehensive cost reports
@@ -118,6 +129,28 @@ async function litellmRequest(endpoint: string, method: string = "GET", body?: u
   return response.json();
 }
 
+// --- Helper: llm-service usage (Claude CLI spend) via Dapr service invocation ---
+async function llmServiceUsage(params: {
+  from?: string;
+  to?: string;
+  groupBy?: string;
+}): Promise<LLMUsageSummary> {
+  const query = new URLSearchParams();
+  if (params.from) query.set("from", params.from);
+  if (params.to) query.set("to", params.to);
+  if (params.groupBy) query.set("groupBy", params.groupBy);
+
+  const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${DAPR_LLM_SERVICE_APP_ID}/method/v1/usage?${query.toString()}`;
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`llm-service usage ${response.status}: ${text}`);
+  }
+
+  return (await response.json()) as LLMUsageSummary;
+}
+
 // --- Tool Definitions ---
 const tools = {
   query_litellm_spend: tool({
@@ -163,6 +196,24 @@ const tools = {
     },
   }),
 
+  query_claude_cli_spend: tool({
+    description: "Query Claude CLI spend from llm-service: real input/output/cache token counts and cost, optionally grouped by actor, credential, caller, model or day.",
+    parameters: z.object({
+      startDate: z.string().optional().describe("Start date (YYYY-MM-DD format), default 24h ago"),
+      endDate: z.string().optional().describe("End date (YYYY-MM-DD format, exclusive), default now"),
+      groupBy: z.enum(["actor", "credential", "caller", "model", "day"]).optional().describe("Breakdown dimension"),
+    }),
+    execute: async ({ startDate, endDate, groupBy }) => {
+      console.log(`[${AGENT_ID}] Querying Claude CLI spend: ${startDate || "24h"} to ${endDate || "now"}`);
+      try {
+        const usage = await llmServiceUsage({ from: startDate, to: endDate, groupBy });
+        return { ...usage, timestamp: new Date().toISOString() };
+      } catch (error) {
+        return { error: `Claude CLI spend query failed: ${error}` };
+      }
+    },
+  }),
+
   query_litellm_models: tool({
     description: "List available models in LiteLLM with their configuration and pricing info.",
     parameters: z.object({
@@ -297,6 +348,14 @@ const tools = {
           llmSpend = { error: `Failed to get LLM spend: ${error}` };
         }
 
+        // Collect Claude CLI spend (llm-service)
+        let claudeCliSpend: unknown = null;
+        try {
+          claudeCliSpend = await llmServiceUsage({ from: startDate, to: now.toISOString(), groupBy: "model" });
+        } catch (error) {
+          claudeCliSpend = { error: `Failed to get Claude CLI spend: ${error}` };
+        }
+
         // Collect cluster resource usage
         const resourceResults: Record<string, unknown> = {};
         const resourceQueries = {
@@ -324,6 +383,7 @@ const tools = {
           startDate,
           endDate,
           llmSpend,
+          claudeCliSpend,
           clusterResources: resourceResults,
           includeRecommendations,
           generatedAt: new Date().toISOString(),
@@ -364,6 +424,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -375,12 +440,22 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} - ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
-    const result = await handleTask(task);
+    const result = await handleTask(task, token);
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, result);
     console.log(`[${AGENT_ID}] Task ${task.id} completed in ${result.durationMs}ms`);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -394,7 +469,20 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // Direct invocation endpoint
@@ -405,7 +493,7 @@ app.post("/invoke", async (c) => {
 });
 
 // --- Core Task Handler ---
-async function handleTask(task: TaskRequest): Promise<TaskResult> {
+async function handleTask(task: TaskRequest, token?: CancelToken): Promise<TaskResult> {
   const startTime = Date.now();
 
   const query =
@@ -437,9 +525,10 @@ async function handleTask(task: TaskRequest): Promise<TaskResult> {
   // Generate response with tool use
   const traceId = crypto.randomUUID();
   const { text } = await tracedChatCompletion(
-    { model: LLM_MODEL, system: systemPrompt, prompt: query },
+    { model: LLM_MODEL, system: systemPrompt, prompt: query, signal: token?.signal },
     eventLog ? { eventLog, traceId, agentId: AGENT_ID, taskId: task.id } : null
   );
+  token?.throwIfCancelled();
 
   // Store in memory
   if (memory) {
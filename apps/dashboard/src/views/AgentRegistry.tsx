@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import type { AgentRegistration } from "@mesh-six/core";
+import type { AgentRegistration, RegistryChangeEvent } from "@mesh-six/core";
 import { useMqttSubscription } from "../hooks/useMqtt";
 import { StatusBadge } from "../components/StatusBadge";
 import { RelativeTime } from "../components/RelativeTime";
@@ -10,14 +10,17 @@ export function AgentRegistryView() {
 
   const handleMessage = useCallback((_topic: string, payload: string) => {
     try {
-      const data = JSON.parse(payload) as AgentRegistration;
-      if (data.appId) {
-        setAgents((prev) => {
-          const next = new Map(prev);
-          next.set(data.appId, data);
-          return next;
-        });
-      }
+      const data = JSON.parse(payload) as AgentRegistration | RegistryChangeEvent;
+      if (!data.appId) return;
+
+      // Registry change feed events wrap the registration; removals carry none
+      const agent = "type" in data ? data.agent : data;
+      setAgents((prev) => {
+        const next = new Map(prev);
+        if (agent) next.set(data.appId, agent);
+        else next.delete(data.appId);
+        return next;
+      });
     } catch {
       // ignore malformed messages
     }
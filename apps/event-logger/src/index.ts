@@ -1,8 +1,23 @@
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { upgradeWebSocket, websocket } from "hono/bun";
 import { Pool } from "pg";
-import { EventLog, DAPR_PUBSUB_NAME } from "@mesh-six/core";
+import {
+  EventLog,
+  ProjectionRunner,
+  builtinProjections,
+  DAPR_PUBSUB_NAME,
+  type EmitResult,
+} from "@mesh-six/core";
+import { EventTail, parseStreamFilter } from "./stream";
 
 const APP_PORT = Number(process.env.APP_PORT) || 3000;
+const PROJECTION_POLL_INTERVAL_MS = Number(process.env.PROJECTION_POLL_INTERVAL_MS) || 2000;
+const STREAM_POLL_INTERVAL_MS = Number(process.env.STREAM_POLL_INTERVAL_MS) || 1000;
+const STREAM_HEARTBEAT_MS = Number(process.env.STREAM_HEARTBEAT_MS) || 15_000;
+// Readers hold back events this recent so a late-committing lower seq is not skipped
+const PROJECTION_SETTLE_MS = Number(process.env.PROJECTION_SETTLE_MS) || 5000;
+const STREAM_SETTLE_MS = Number(process.env.STREAM_SETTLE_MS) || 1000;
 const DATABASE_URL =
   process.env.DATABASE_URL ||
   process.env.PG_PRIMARY_URL ||
@@ -10,6 +25,15 @@ const DATABASE_URL =
 
 const pool = new Pool({ connectionString: DATABASE_URL });
 const eventLog = new EventLog(pool);
+const projections = new ProjectionRunner(pool, eventLog, {
+  pollIntervalMs: PROJECTION_POLL_INTERVAL_MS,
+  settleMs: PROJECTION_SETTLE_MS,
+});
+for (const projection of builtinProjections) projections.register(projection);
+const tail = new EventTail(pool, eventLog, {
+  pollIntervalMs: STREAM_POLL_INTERVAL_MS,
+  settleMs: STREAM_SETTLE_MS,
+});
 
 const app = new Hono();
 
@@ -25,16 +49,32 @@ const SUBSCRIPTIONS = [
 
 app.get("/dapr/subscribe", (c) => c.json(SUBSCRIPTIONS));
 
+/**
+ * Dapr redelivers a CloudEvent with the same `id`, so topic + id identifies a
+ * delivery. Raw (non-CloudEvent) bodies carry no id and are not deduplicated.
+ */
+function idempotencyKeyFor(topic: string, envelope: { id?: unknown; data?: unknown }): string | undefined {
+  if (envelope.data === undefined || typeof envelope.id !== "string" || !envelope.id) return undefined;
+  return `${topic}:${envelope.id}`;
+}
+
+function logDuplicate(topic: string, result: EmitResult): void {
+  if (result.status === "duplicate") {
+    console.log(`[event-logger] Ignored redelivered ${topic} event ${result.idempotencyKey}`);
+  }
+}
+
 // Handle task-results events
 app.post("/events/task-results", async (c) => {
   try {
     const envelope = await c.req.json();
     const data = envelope.data ?? envelope;
 
-    await eventLog.emit({
+    const result = await eventLog.emit({
       traceId: data.traceId ?? data.taskId ?? crypto.randomUUID(),
       taskId: data.taskId,
       agentId: data.agentId ?? "unknown",
+      idempotencyKey: idempotencyKeyFor("task-results", envelope),
       eventType: data.success ? "task.result" : "task.result.failure",
       payload: {
         success: data.success,
@@ -44,6 +84,7 @@ app.post("/events/task-results", async (c) => {
         result: data.result ?? null,
       },
     });
+    logDuplicate("task-results", result);
   } catch (err) {
     console.error("[event-logger] Failed to process task-result:", err);
   }
@@ -56,17 +97,21 @@ app.post("/events/task-progress", async (c) => {
   try {
     const envelope = await c.req.json();
     const data = envelope.data ?? envelope;
+    // Lease-renewal heartbeats repeat the last status; only the first beat is logged
+    if (data.heartbeat) return c.json({ status: "SUCCESS" });
 
-    await eventLog.emit({
+    const result = await eventLog.emit({
       traceId: data.traceId ?? data.taskId ?? crypto.randomUUID(),
       taskId: data.taskId,
       agentId: data.agentId ?? "unknown",
+      idempotencyKey: idempotencyKeyFor("task-progress", envelope),
       eventType: "task.progress",
       payload: {
         status: data.status,
         details: data.details ?? null,
       },
     });
+    logDuplicate("task-progress", result);
   } catch (err) {
     console.error("[event-logger] Failed to process task-progress:", err);
   }
@@ -74,6 +119,121 @@ app.post("/events/task-progress", async (c) => {
   return c.json({ status: "SUCCESS" });
 });
 
+// --- Live Event Stream ---
+/** Resume point: Last-Event-ID header (sent by EventSource on reconnect) or ?lastEventId= */
+function resumeSeq(header: string | undefined, query: string | undefined): number | undefined {
+  const raw = header ?? query;
+  if (raw === undefined || raw === "") return undefined;
+  const seq = Number(raw);
+  return Number.isFinite(seq) && seq >= 0 ? seq : undefined;
+}
+
+app.get("/events/stream", (c) => {
+  const filter = parseStreamFilter(c.req.query());
+  const afterSeq = resumeSeq(c.req.header("Last-Event-ID"), c.req.query("lastEventId"));
+
+  return streamSSE(c, async (stream) => {
+    const unsubscribe = await tail.subscribe(
+      {
+        filter,
+        send: (event) => {
+          stream
+            .writeSSE({ id: String(event.seq), event: "mesh-event", data: JSON.stringify(event) })
+            .catch(() => stream.abort());
+        },
+      },
+      afterSeq
+    );
+    stream.onAbort(unsubscribe);
+
+    while (!stream.aborted) {
+      await stream.sleep(STREAM_HEARTBEAT_MS);
+      if (!stream.aborted) await stream.write(": heartbeat\n\n");
+    }
+    unsubscribe();
+  });
+});
+
+app.get(
+  "/events/ws",
+  upgradeWebSocket((c) => {
+    const filter = parseStreamFilter(c.req.query());
+    const afterSeq = resumeSeq(c.req.header("Last-Event-ID"), c.req.query("lastEventId"));
+    let unsubscribe: Promise<() => void> | null = null;
+
+    return {
+      onOpen(_evt, ws) {
+        unsubscribe = tail.subscribe({ filter, send: (event) => ws.send(JSON.stringify(event)) }, afterSeq);
+        unsubscribe.catch((err) => {
+          console.warn("[event-logger] WebSocket subscribe failed:", err);
+          ws.close(1011, "subscribe failed");
+        });
+      },
+      onClose() {
+        unsubscribe?.then((fn) => fn()).catch(() => {});
+      },
+    };
+  })
+);
+
+app.get("/events/stream/stats", (c) => c.json({ subscribers: tail.size }));
+
+// --- Projections ---
+app.get("/projections", async (c) => c.json({ projections: await projections.status() }));
+
+app.get("/projections/:name", async (c) => {
+  const name = c.req.param("name");
+  if (!projections.has(name)) return c.json({ error: "Unknown projection", name }, 404);
+
+  const limit = Math.min(Number(c.req.query("limit")) || 100, 1000);
+  const offset = Number(c.req.query("offset")) || 0;
+  return c.json({ projection: name, items: await projections.list(name, { limit, offset }) });
+});
+
+app.get("/projections/:name/:key", async (c) => {
+  const name = c.req.param("name");
+  const key = c.req.param("key");
+  if (!projections.has(name)) return c.json({ error: "Unknown projection", name }, 404);
+
+  // ?asOf=<seq> folds the log up to that point instead of reading stored state
+  const asOf = c.req.query("asOf");
+  if (asOf !== undefined) {
+    const states = await projections.replay(name, { toSeq: Number(asOf), key });
+    const state = states.get(key);
+    if (state === undefined) return c.json({ error: "Not found", name, key }, 404);
+    return c.json({ projection: name, key, asOf: Number(asOf), state });
+  }
+
+  const doc = await projections.get(name, key);
+  if (!doc) return c.json({ error: "Not found", name, key }, 404);
+  return c.json({ projection: name, key, ...doc });
+});
+
+app.post("/admin/projections/:name/rebuild", async (c) => {
+  const name = c.req.param("name");
+  if (!projections.has(name)) return c.json({ error: "Unknown projection", name }, 404);
+
+  if (projections.isRunning(name)) {
+    return c.json({ error: `Projection ${name} is busy; try again shortly` }, 409);
+  }
+
+  // Replaying the whole log can take minutes; progress shows on GET /projections
+  projections
+    .rebuild(name)
+    .then((applied) => console.log(`[event-logger] Rebuilt ${name}: ${applied} events applied`))
+    .catch((err) => console.error(`[event-logger] Rebuild of ${name} failed:`, err));
+  return c.json({ projection: name, rebuilding: true }, 202);
+});
+
 // Start
+await projections.start().catch((err) => console.error("[event-logger] Failed to start projections:", err));
+
+process.on("SIGTERM", () => {
+  projections.stop();
+  tail.stop();
+  process.exit(0);
+});
+
 console.log(`[event-logger] Starting on port ${APP_PORT}`);
-Bun.serve({ port: APP_PORT, fetch: app.fetch });
+// Idle timeout above the SSE heartbeat so open streams are not cut off
+Bun.serve({ port: APP_PORT, fetch: app.fetch, websocket, idleTimeout: 60 });
@@ -0,0 +1,158 @@
+import { describe, it, expect, mock } from "bun:test";
+import type { EventLog, StoredEvent } from "@mesh-six/core";
+import { EventTail, matchesFilter, parseStreamFilter } from "./stream";
+
+function makeEvent(seq: number, overrides: Partial<StoredEvent> = {}): StoredEvent {
+  return {
+    seq,
+    timestamp: "2026-10-19T00:00:00.000Z",
+    traceId: "trace-1",
+    agentId: "agent-1",
+    eventType: "task.progress",
+    payload: {},
+    ...overrides,
+  };
+}
+
+function createTail(log: StoredEvent[]) {
+  const notifyHandlers: Array<() => void> = [];
+  const client = {
+    query: mock(async () => ({ rows: [] })),
+    on: (event: string, fn: () => void) => {
+      if (event === "notification") notifyHandlers.push(fn);
+    },
+    removeAllListeners: () => {},
+    release: mock(() => {}),
+  };
+  const pool = {
+    query: mock(async () => ({ rows: [{ head: log.length ? log[log.length - 1].seq : null }] })),
+    connect: async () => client,
+  } as any;
+  const eventLog = {
+    readAfter: mock(async (afterSeq: number, opts: { limit?: number; eventTypes?: string[] } = {}) =>
+      log
+        .filter((e) => e.seq > afterSeq)
+        .filter((e) => !opts.eventTypes || opts.eventTypes.includes(e.eventType))
+        .slice(0, opts.limit ?? 500)
+    ),
+  } as unknown as EventLog;
+
+  // Long poll interval: tests drive reads via wake()/notifications
+  const tail = new EventTail(pool, eventLog, { pollIntervalMs: 60_000, batchSize: 2 });
+  return { tail, client, eventLog, notify: () => notifyHandlers.forEach((fn) => fn()) };
+}
+
+describe("stream filters", () => {
+  it("parses and matches EventQueryOpts-style filters", () => {
+    const filter = parseStreamFilter({ traceId: "trace-1", eventType: "task.result,task.progress", other: "x" });
+    expect(filter).toEqual({ traceId: "trace-1", eventType: "task.result,task.progress" });
+    expect(matchesFilter(makeEvent(1), filter)).toBe(true);
+    expect(matchesFilter(makeEvent(1, { eventType: "llm.call" }), filter)).toBe(false);
+    expect(matchesFilter(makeEvent(1, { traceId: "other" }), filter)).toBe(false);
+  });
+});
+
+describe("EventTail", () => {
+  it("delivers only events appended after subscribing", async () => {
+    const log = [makeEvent(1), makeEvent(2)];
+    const { tail, notify } = createTail(log);
+    const received: number[] = [];
+
+    const unsubscribe = await tail.subscribe({ filter: {}, send: (e) => received.push(e.seq) });
+    log.push(makeEvent(3), makeEvent(4), makeEvent(5));
+    notify();
+    await tail.wake();
+
+    expect(received).toEqual([3, 4, 5]);
+    unsubscribe();
+  });
+
+  it("starts one cursor for concurrent subscribers", async () => {
+    const { tail, client } = createTail([makeEvent(1)]);
+
+    const [a, b] = await Promise.all([
+      tail.subscribe({ filter: {}, send: () => {} }),
+      tail.subscribe({ filter: {}, send: () => {} }),
+    ]);
+
+    // One LISTEN connection
+    expect(client.query).toHaveBeenCalledTimes(1);
+    a();
+    b();
+  });
+
+  it("reads the live feed with the settle window", async () => {
+    const log = [makeEvent(1)];
+    const { tail, eventLog } = createTail(log);
+    const unsubscribe = await tail.subscribe({ filter: {}, send: () => {} });
+
+    await tail.wake();
+    expect((eventLog.readAfter as any).mock.calls[0][1]).toMatchObject({ settleMs: 1000 });
+    unsubscribe();
+  });
+
+  it("backfills from a resume point without duplicating live events", async () => {
+    const log = [makeEvent(1), makeEvent(2), makeEvent(3)];
+    const { tail } = createTail(log);
+    const received: number[] = [];
+
+    const unsubscribe = await tail.subscribe({ filter: {}, send: (e) => received.push(e.seq) }, 1);
+    log.push(makeEvent(4));
+    await tail.wake();
+
+    expect(received).toEqual([2, 3, 4]);
+    unsubscribe();
+  });
+
+  it("applies per-subscriber filters", async () => {
+    const log: StoredEvent[] = [];
+    const { tail } = createTail(log);
+    const results: string[] = [];
+
+    const unsubscribe = await tail.subscribe({
+      filter: { eventType: "task.result" },
+      send: (e) => results.push(e.eventType),
+    });
+    log.push(makeEvent(1), makeEvent(2, { eventType: "task.result" }));
+    await tail.wake();
+
+    expect(results).toEqual(["task.result"]);
+    unsubscribe();
+  });
+
+  it("drops subscribers whose send fails and stops when none remain", async () => {
+    const log: StoredEvent[] = [];
+    const { tail, client } = createTail(log);
+
+    await tail.subscribe({
+      filter: {},
+      send: () => {
+        throw new Error("socket closed");
+      },
+    });
+    log.push(makeEvent(1));
+    await tail.wake();
+    expect(tail.size).toBe(0);
+
+    tail.stop();
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("releases the connection when LISTEN fails and keeps polling", async () => {
+    const log = [makeEvent(1)];
+    const { tail, client } = createTail(log);
+    const listenError = new Error("permission denied");
+    client.query.mockImplementation(async () => {
+      throw listenError;
+    });
+    const received: number[] = [];
+
+    const unsubscribe = await tail.subscribe({ filter: {}, send: (e) => received.push(e.seq) });
+    expect(client.release).toHaveBeenCalledWith(listenError);
+
+    log.push(makeEvent(2));
+    await tail.wake();
+    expect(received).toEqual([2]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Live tail of mesh_six_events for SSE and WebSocket subscribers.
+ *
+ * One shared cursor reads new events (woken by LISTEN/NOTIFY, with a polling
+ * fallback) and fans them out to subscribers. A subscriber resuming from a
+ * Last-Event-ID is backfilled from the log before it joins the live feed.
+ */
+import type { Pool, PoolClient } from "pg";
+import type { EventLog, StoredEvent } from "@mesh-six/core";
+
+export const NOTIFY_CHANNEL = "mesh_six_events";
+
+/** Same filters as EventQueryOpts; eventType accepts a comma-separated list */
+export interface StreamFilter {
+  traceId?: string;
+  taskId?: string;
+  agentId?: string;
+  eventType?: string;
+}
+
+export interface StreamSubscriber {
+  filter: StreamFilter;
+  send(event: StoredEvent): void;
+}
+
+interface Subscription extends StreamSubscriber {
+  lastSeq: number;
+  /** Live events buffered while the backfill is still running */
+  pending: StoredEvent[] | null;
+}
+
+export function parseStreamFilter(query: Record<string, string | undefined>): StreamFilter {
+  const filter: StreamFilter = {};
+  if (query.traceId) filter.traceId = query.traceId;
+  if (query.taskId) filter.taskId = query.taskId;
+  if (query.agentId) filter.agentId = query.agentId;
+  if (query.eventType) filter.eventType = query.eventType;
+  return filter;
+}
+
+export function matchesFilter(event: StoredEvent, filter: StreamFilter): boolean {
+  if (filter.traceId && event.traceId !== filter.traceId) return false;
+  if (filter.taskId && event.taskId !== filter.taskId) return false;
+  if (filter.agentId && event.agentId !== filter.agentId) return false;
+  if (filter.eventType && !filter.eventType.split(",").includes(event.eventType)) return false;
+  return true;
+}
+
+export interface EventTailOptions {
+  /** Fallback poll interval when no NOTIFY arrives (default 1s) */
+  pollIntervalMs?: number;
+  /** Events read per query (default 500) */
+  batchSize?: number;
+  /**
+   * Events appended within this window are held back (default 1s), so the
+   * cursor does not pass a lower seq whose transaction has not committed yet
+   */
+  settleMs?: number;
+}
+
+export class EventTail {
+  private subscribers = new Set<Subscription>();
+  private headSeq: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listener: PoolClient | null = null;
+  private listening: Promise<void> | null = null;
+  private reading: Promise<void> | null = null;
+  private starting: Promise<void> | null = null;
+  private wakeAgain = false;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private settleMs: number;
+
+  constructor(
+    private pool: Pool,
+    private eventLog: EventLog,
+    opts: EventTailOptions = {}
+  ) {
+    this.pollIntervalMs = opts.pollIntervalMs ?? 1000;
+    this.batchSize = opts.batchSize ?? 500;
+    this.settleMs = opts.settleMs ?? 1000;
+  }
+
+  get size(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Add a subscriber. Events after `afterSeq` are replayed first when given;
+   * otherwise only events appended from now on are delivered. Returns an
+   * unsubscribe function.
+   */
+  async subscribe(subscriber: StreamSubscriber, afterSeq?: number): Promise<() => void> {
+    await this.ensureRunning();
+
+    const sub: Subscription = {
+      ...subscriber,
+      lastSeq: afterSeq ?? this.headSeq ?? 0,
+      pending: afterSeq !== undefined ? [] : null,
+    };
+    this.subscribers.add(sub);
+
+    if (sub.pending) {
+      try {
+        await this.backfill(sub);
+      } finally {
+        const buffered = sub.pending;
+        sub.pending = null;
+        for (const event of buffered) this.deliver(sub, event);
+      }
+    }
+
+    return () => {
+      this.subscribers.delete(sub);
+      if (this.subscribers.size === 0) this.stop();
+    };
+  }
+
+  /**
+   * Read and fan out everything past the shared cursor. A wake during a read
+   * schedules one more pass and resolves when the in-progress read finishes.
+   */
+  wake(): Promise<void> {
+    if (this.reading) {
+      this.wakeAgain = true;
+      return this.reading;
+    }
+    if (this.headSeq === null) return Promise.resolve();
+
+    this.reading = this.readToHead().finally(() => {
+      this.reading = null;
+    });
+    return this.reading;
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.headSeq = null;
+    this.releaseListener();
+  }
+
+  // --- internals ---
+
+  private async readToHead(): Promise<void> {
+    do {
+      this.wakeAgain = false;
+      for (;;) {
+        // stop() may have run while a read was in flight
+        if (this.headSeq === null) return;
+        const events = await this.eventLog.readAfter(this.headSeq, {
+          limit: this.batchSize,
+          settleMs: this.settleMs,
+        });
+        for (const event of events) {
+          for (const sub of this.subscribers) {
+            if (sub.pending) sub.pending.push(event);
+            else this.deliver(sub, event);
+          }
+        }
+        const last = events[events.length - 1];
+        if (last && this.headSeq !== null) this.headSeq = last.seq;
+        if (events.length < this.batchSize) break;
+      }
+    } while (this.wakeAgain);
+  }
+
+  private deliver(sub: Subscription, event: StoredEvent): void {
+    if (event.seq <= sub.lastSeq) return;
+    sub.lastSeq = event.seq;
+    if (!matchesFilter(event, sub.filter)) return;
+    try {
+      sub.send(event);
+    } catch (err) {
+      console.warn("[event-logger] Dropping stream subscriber after send failure:", err);
+      this.subscribers.delete(sub);
+    }
+  }
+
+  private async backfill(sub: Subscription): Promise<void> {
+    const types = sub.filter.eventType?.split(",");
+    let cursor = sub.lastSeq;
+    for (;;) {
+      const events = await this.eventLog.readAfter(cursor, {
+        limit: this.batchSize,
+        eventTypes: types,
+        settleMs: this.settleMs,
+      });
+      for (const event of events) this.deliver(sub, event);
+      const last = events[events.length - 1];
+      if (!last || events.length < this.batchSize) break;
+      cursor = last.seq;
+    }
+  }
+
+  /** Start the shared cursor once; concurrent subscribers share the same start. */
+  private ensureRunning(): Promise<void> {
+    if (this.headSeq !== null) return Promise.resolve();
+    this.starting ??= this.start().finally(() => {
+      this.starting = null;
+    });
+    return this.starting;
+  }
+
+  private async start(): Promise<void> {
+    // The head is the last settled event, matching what readAfter will return
+    const { rows } = await this.pool.query<{ head: string | number | null }>(
+      `SELECT COALESCE(
+         (SELECT MIN(seq) - 1 FROM mesh_six_events WHERE timestamp > NOW() - $1 * INTERVAL '1 millisecond'),
+         (SELECT MAX(seq) FROM mesh_six_events)
+       ) AS head`,
+      [this.settleMs]
+    );
+    const head = rows[0]?.head;
+    this.headSeq = head != null ? Number(head) : 0;
+
+    await this.listen();
+    this.timer = setInterval(() => {
+      if (!this.listener) this.listen();
+      this.wake().catch((err) => console.warn("[event-logger] Stream tail read failed:", err));
+    }, this.pollIntervalMs);
+  }
+
+  /** Open the LISTEN connection; overlapping calls share one attempt. */
+  private listen(): Promise<void> {
+    this.listening ??= this.connectListener().finally(() => {
+      this.listening = null;
+    });
+    return this.listening;
+  }
+
+  private async connectListener(): Promise<void> {
+    let client: PoolClient | null = null;
+    try {
+      client = await this.pool.connect();
+      client.on("notification", () => {
+        this.wake().catch((err) => console.warn("[event-logger] Stream tail read failed:", err));
+      });
+      client.on("error", (err) => {
+        console.warn("[event-logger] LISTEN connection lost, polling until it is restored:", err.message);
+        this.releaseListener(err);
+      });
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      this.listener = client;
+      // stop() ran while the connection was being set up
+      if (this.headSeq === null) this.releaseListener();
+    } catch (err) {
+      console.warn("[event-logger] LISTEN unavailable, falling back to polling:", err);
+      if (client && client !== this.listener) {
+        client.removeAllListeners("notification");
+        client.release(err instanceof Error ? err : true);
+      }
+    }
+  }
+
+  private releaseListener(err?: Error): void {
+    if (!this.listener) return;
+    const client = this.listener;
+    this.listener = null;
+    client.removeAllListeners("notification");
+    client.release(err);
+  }
+}
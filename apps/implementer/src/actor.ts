@@ -13,6 +13,7 @@ import { DaprClient } from "@dapr/dapr";
 import {
   type ImplementationSession,
   type ProvisionResponse,
+  type CredentialProblemReport,
   AUTH_SERVICE_APP_ID,
   createWorktree,
   removeWorktree,
@@ -23,8 +24,14 @@ import {
   DAPR_HTTP_PORT,
   WORKTREE_BASE_DIR,
   CLAUDE_SESSION_DIR,
+  HOOK_SCRIPT_PATH,
   AGENT_ID,
+  APP_PORT,
 } from "./config.js";
+import { installSessionHooks } from "./hook-events.js";
+import { admission } from "./admission.js";
+import { takeovers } from "./takeover.js";
+import { dialogRules, analyzeDialog } from "./dialog-rules.js";
 import { startPaneStream, stopPaneStream, takeSnapshot } from "./terminal-relay.js";
 import {
   createSession,
@@ -39,13 +46,29 @@ import {
   insertActivityLog,
   updateClaudeSessionId,
 } from "./session-db.js";
-import { createCheckpoint, restoreFromCheckpoint } from "./checkpoint.js";
+import {
+  createCheckpoint,
+  buildRollbackPrompt,
+  type CheckpointRow,
+  type CheckpointType,
+} from "./checkpoint.js";
 import { recoverInterruptedSessions } from "./recovery.js";
-import { matchKnownDialog, looksNormal, getStatus, getDiff } from "@mesh-six/core";
+import {
+  looksNormal,
+  getStatus,
+  getDiff,
+  snapshotWorktree,
+  restoreWorktreeSnapshot,
+  deleteRefs,
+  type WorktreeSnapshot,
+} from "@mesh-six/core";
 import pg from "pg";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}][actor] ${msg}`);
 
+/** Git refs holding a session's checkpoint snapshots */
+const checkpointRefPrefix = (sessionId: string) => `refs/mesh-six/checkpoints/${sessionId}/`;
+
 const DIALOG_DISMISS_DELAY_MS = 500;
 const DIALOG_POST_WAIT_MS = 1000;
 
@@ -94,7 +117,10 @@ export class ImplementerActor {
 
   /**
    * Called when the actor is first activated for an issue.
-   * Provisions credentials from auth-service, clones repo, creates worktree.
+   * Claims a session slot from the pod's admission controller (waiting in its
+   * queue if needed, unless `queue` is false), then provisions credentials
+   * from auth-service, clones repo, creates worktree. Rejections are
+   * `retryable` with a retry hint.
    */
   async onActivate(params: {
     sessionId: string;
@@ -104,9 +130,31 @@ export class ImplementerActor {
     branch: string;
     workflowId?: string;
     authProjectId?: string;
-  }): Promise<{ ok: boolean; error?: string }> {
+    /** False when the caller is probing for a pod with a free slot */
+    queue?: boolean;
+  }): Promise<{ ok: boolean; error?: string; retryable?: boolean; retryAfterMs?: number }> {
     log(`Activating actor ${this.actorId} for issue #${params.issueNumber}`);
 
+    // A re-activation for a new session hands back the previous session's slot
+    if (this.state && this.state.sessionId !== params.sessionId) {
+      admission.release(this.state.sessionId);
+    }
+
+    const admitted = await admission.acquire(params.sessionId, { queue: params.queue });
+    if (!admitted.admitted) {
+      await insertActivityLog({
+        sessionId: params.sessionId,
+        eventType: "admission_rejected",
+        detailsJson: { actorId: this.actorId, reason: admitted.reason, message: admitted.message },
+      }).catch(() => {});
+      return {
+        ok: false,
+        error: `Implementer at capacity (${admitted.reason}): ${admitted.message}`,
+        retryable: true,
+        retryAfterMs: admitted.retryAfterMs,
+      };
+    }
+
     const tmuxSessionName = `impl-${params.repoOwner}-${params.repoName}-${params.issueNumber}`;
     const worktreeDir = join(WORKTREE_BASE_DIR, `${params.repoOwner}-${params.repoName}`, `issue-${params.issueNumber}`);
 
@@ -117,6 +165,7 @@ export class ImplementerActor {
       bundleId = await this.provisionCredentials(authProjectId);
     } catch (err) {
       log(`Credential provisioning failed: ${err}`);
+      admission.release(params.sessionId);
       return { ok: false, error: `Credential provisioning failed: ${err}` };
     }
 
@@ -125,6 +174,7 @@ export class ImplementerActor {
       await this.setupWorktree(params.repoOwner, params.repoName, params.branch, worktreeDir);
     } catch (err) {
       log(`Worktree setup failed: ${err}`);
+      admission.release(params.sessionId);
       return { ok: false, error: `Worktree setup failed: ${err}` };
     }
 
@@ -144,7 +194,7 @@ export class ImplementerActor {
     await insertActivityLog({
       sessionId: params.sessionId,
       eventType: "actor_activated",
-      detailsJson: { actorId: this.actorId, bundleId, worktreeDir },
+      detailsJson: { actorId: this.actorId, bundleId, worktreeDir, admissionWaitMs: admitted.waitedMs },
     });
 
     log(`Actor ${this.actorId} activated — worktree: ${worktreeDir}`);
@@ -183,6 +233,7 @@ export class ImplementerActor {
 
     // Create a fresh tmux session
     await createSession(tmuxSessionName);
+    admission.attach(sessionId, { tmuxSessionName, worktreeDir });
 
     // Navigate to worktree
     await sendCommand(tmuxSessionName, `cd ${worktreeDir}`);
@@ -192,6 +243,19 @@ export class ImplementerActor {
     await sendCommand(tmuxSessionName, `export CLAUDE_CONFIG_DIR=${CLAUDE_SESSION_DIR}`);
     await Bun.sleep(100);
 
+    // Hook events drive the SessionMonitor; the hook script reads the session ID from env
+    try {
+      installSessionHooks(CLAUDE_SESSION_DIR, HOOK_SCRIPT_PATH);
+    } catch (err) {
+      log(`Failed to install session hooks (monitor will use pane detection): ${err}`);
+    }
+    await sendCommand(tmuxSessionName, `export MESH_SIX_SESSION_ID=${sessionId}`);
+    // Hook events go straight to this pod, which is the one monitoring the session
+    await sendCommand(tmuxSessionName, `export MESH_SIX_HOOK_URL=http://localhost:${APP_PORT}/sessions/${sessionId}/hook-events`);
+    // The hook asks for a pre_commit checkpoint here before `git commit` runs
+    await sendCommand(tmuxSessionName, `export MESH_SIX_CHECKPOINT_URL=http://localhost:${APP_PORT}/sessions/${sessionId}/checkpoints`);
+    await Bun.sleep(100);
+
     // Build the claude command — use --resume if we have a prior session ID
     const escapedPrompt = params.implementationPrompt.replace(/'/g, "'\\''");
     let claudeCmd: string;
@@ -252,6 +316,10 @@ export class ImplementerActor {
     if (!this.state) return { ok: false, error: "Actor not activated" };
 
     const { tmuxSessionName, sessionId } = this.state;
+    const takeover = takeovers.get(sessionId);
+    if (takeover) {
+      return { ok: false, error: `Session is under operator takeover by ${takeover.operator}` };
+    }
     const escapedAnswer = params.answerText.replace(/'/g, "'\\''");
 
     try {
@@ -280,19 +348,21 @@ export class ImplementerActor {
 
   /**
    * Create a pre-action checkpoint capturing git state and tmux pane output.
-   * Should be called before commit or PR creation to enable recovery.
+   * The full working tree is snapshotted to a git ref so the session can later
+   * be rolled back to this point. Should be called before commit or PR creation.
    */
   async createPreActionCheckpoint(
-    type: "pre_commit" | "pre_pr" | "pre_merge" | "periodic" | "manual",
+    type: CheckpointType,
     summary: string,
     pool: pg.Pool
-  ): Promise<void> {
-    if (!this.state) return;
+  ): Promise<CheckpointRow | null> {
+    if (!this.state) return null;
 
     const { sessionId, worktreeDir, tmuxSessionName } = this.state;
 
     let gitStatusText: string | undefined;
     let gitDiffStat: string | undefined;
+    let gitSnapshot: WorktreeSnapshot | undefined;
     let tmuxCapture: string | undefined;
 
     try {
@@ -313,30 +383,100 @@ export class ImplementerActor {
       // Non-fatal
     }
 
+    try {
+      gitSnapshot = await snapshotWorktree(
+        worktreeDir,
+        `${checkpointRefPrefix(sessionId)}${Date.now()}`,
+        `mesh-six checkpoint (${type}): ${summary}`
+      );
+    } catch (err) {
+      // Non-fatal — the checkpoint is still useful as resume context
+      log(`Failed to snapshot worktree for checkpoint: ${err}`);
+    }
+
     try {
       tmuxCapture = await capturePane(tmuxSessionName, 50);
     } catch {
       // Non-fatal
     }
 
-    await createCheckpoint(pool, sessionId, type, {
+    const checkpoint = await createCheckpoint(pool, sessionId, type, {
       summary,
       gitStatus: gitStatusText,
       gitDiffStat,
       tmuxCapture,
-    }).catch((err) => log(`Failed to create checkpoint: ${err}`));
+      gitSnapshot,
+    }).catch((err) => {
+      log(`Failed to create checkpoint: ${err}`);
+      return null;
+    });
 
     log(`Checkpoint (${type}) created for session ${sessionId}`);
+    return checkpoint;
+  }
+
+  /**
+   * Reset the worktree to a checkpoint's git snapshot and restart the Claude
+   * session with resume context. The current state is checkpointed first
+   * (as `manual`) so the rollback itself can be undone.
+   */
+  async rollbackToCheckpoint(
+    checkpoint: CheckpointRow,
+    params: { guidance?: string },
+    pool: pg.Pool
+  ): Promise<{ ok: boolean; error?: string; safetyCheckpointId?: number }> {
+    if (!this.state) return { ok: false, error: "Actor not activated" };
+    if (!checkpoint.gitHead || !checkpoint.gitSnapshot) {
+      return { ok: false, error: `Checkpoint ${checkpoint.id} has no git snapshot` };
+    }
+
+    const { sessionId, worktreeDir, tmuxSessionName } = this.state;
+    log(`Rolling back session ${sessionId} to checkpoint ${checkpoint.id} (${checkpoint.checkpointType})`);
+
+    const safety = await this.createPreActionCheckpoint(
+      "manual",
+      `Before rollback to checkpoint ${checkpoint.id}`,
+      pool
+    );
+
+    // Stop the running CLI before touching its worktree
+    await stopPaneStream(sessionId, pool).catch((err) => log(`Failed to stop pane stream: ${err}`));
+    if (await sessionExists(tmuxSessionName)) {
+      await killSession(tmuxSessionName);
+    }
+
+    try {
+      await restoreWorktreeSnapshot(worktreeDir, { head: checkpoint.gitHead, commit: checkpoint.gitSnapshot });
+    } catch (err) {
+      log(`Worktree restore failed: ${err}`);
+      return { ok: false, error: `Worktree restore failed: ${err}`, safetyCheckpointId: safety?.id };
+    }
+
+    await insertActivityLog({
+      sessionId,
+      eventType: "session_rolled_back",
+      detailsJson: {
+        checkpointId: checkpoint.id,
+        checkpointType: checkpoint.checkpointType,
+        gitHead: checkpoint.gitHead,
+        safetyCheckpointId: safety?.id,
+      },
+    }).catch(() => {});
+
+    const started = await this.startSession({
+      implementationPrompt: buildRollbackPrompt(checkpoint, params.guidance),
+    });
+    return { ...started, safetyCheckpointId: safety?.id };
   }
 
   /**
    * Called when the actor is deactivated (idle timeout or explicit shutdown).
-   * Cleans up the tmux session.
+   * Cleans up the tmux session and the session's checkpoint snapshot refs.
    */
   async onDeactivate(): Promise<void> {
     if (!this.state) return;
 
-    const { tmuxSessionName, sessionId } = this.state;
+    const { tmuxSessionName, sessionId, worktreeDir } = this.state;
 
     // Stop terminal streaming before killing session
     if (this.pool) {
@@ -348,6 +488,17 @@ export class ImplementerActor {
     if (await sessionExists(tmuxSessionName)) {
       await killSession(tmuxSessionName);
     }
+    admission.release(sessionId);
+
+    // Rollback needs a live actor, so the snapshots are dead weight from here on
+    if (existsSync(worktreeDir)) {
+      try {
+        const pruned = await deleteRefs(worktreeDir, checkpointRefPrefix(sessionId));
+        if (pruned > 0) log(`Pruned ${pruned} checkpoint ref(s) for session ${sessionId}`);
+      } catch (err) {
+        log(`Failed to prune checkpoint refs: ${err}`);
+      }
+    }
 
     await insertActivityLog({
       sessionId,
@@ -367,13 +518,13 @@ export class ImplementerActor {
    * Provision credentials from auth-service via Dapr service invocation.
    * Returns the bundle ID on success.
    */
-  private async provisionCredentials(authProjectId: string): Promise<string | undefined> {
+  private async provisionCredentials(authProjectId: string, currentBundleId?: string): Promise<string | undefined> {
     const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${AUTH_SERVICE_APP_ID}/method/projects/${authProjectId}/provision`;
 
     const response = await fetch(url, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ podName: this.actorId }),
+      body: JSON.stringify({ podName: this.actorId, currentBundleId }),
     });
 
     if (!response.ok) {
@@ -383,7 +534,8 @@ export class ImplementerActor {
     const result = (await response.json()) as ProvisionResponse;
 
     if (result.status === "no_credentials") {
-      throw new Error(`auth-service has no credentials: ${result.message ?? "no credentials available"}`);
+      const retry = result.retryAfterMs ? ` (retry in ${Math.ceil(result.retryAfterMs / 60_000)}m)` : "";
+      throw new Error(`auth-service has no credentials: ${result.message ?? "no credentials available"}${retry}`);
     }
 
     // Extract bundle to CLAUDE_SESSION_DIR if provisioned
@@ -391,10 +543,56 @@ export class ImplementerActor {
       await this.extractBundle(result.bundleId, authProjectId);
     }
 
-    log(`Credentials provisioned — status: ${result.status}, bundle: ${result.bundleId ?? "current"}`);
+    const member = result.poolMember ? `, pool member: ${result.poolMember.label}` : "";
+    log(`Credentials provisioned — status: ${result.status}, bundle: ${result.bundleId ?? "current"}${member}`);
     return result.bundleId;
   }
 
+  /**
+   * Report a rate limit or auth failure on the session's credential bundle so
+   * auth-service cools down its pool member, then provision from another member.
+   * Called by SessionMonitor. Returns false if no replacement could be provisioned.
+   */
+  async reprovisionCredentials(problem: CredentialProblemReport["problem"]): Promise<boolean> {
+    if (!this.state) return false;
+    const { authProjectId, credentialBundleId, sessionId } = this.state;
+
+    if (credentialBundleId) {
+      await this.reportCredentialProblem(authProjectId, { bundleId: credentialBundleId, problem, reportedBy: this.actorId });
+    }
+
+    try {
+      const bundleId = await this.provisionCredentials(authProjectId, credentialBundleId);
+      this.state.credentialBundleId = bundleId;
+      await insertActivityLog({
+        sessionId,
+        eventType: "credentials_reprovisioned",
+        detailsJson: { problem, previousBundleId: credentialBundleId, bundleId },
+      });
+      return true;
+    } catch (err) {
+      log(`Re-provision after ${problem} failed: ${err}`);
+      return false;
+    }
+  }
+
+  private async reportCredentialProblem(authProjectId: string, report: CredentialProblemReport): Promise<void> {
+    const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${AUTH_SERVICE_APP_ID}/method/projects/${authProjectId}/pool/report`;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(report),
+      });
+      if (!response.ok) {
+        log(`Credential problem report failed: ${response.status} ${response.statusText}`);
+      }
+    } catch (err) {
+      // Non-fatal — provisioning still runs, possibly returning the same member
+      log(`Credential problem report failed: ${err}`);
+    }
+  }
+
   /**
    * Download and extract a credential bundle from auth-service.
    * Uses GET /projects/{authProjectId}/provision/{bundleId} which returns a raw tar.gz blob,
@@ -499,7 +697,8 @@ export class ImplementerActor {
 
   /**
    * Handle startup dialogs that may appear when Claude CLI first runs.
-   * Uses known-dialog fast path before falling back to tmux pane analysis.
+   * Uses the dialog rule registry before falling back to LLM analysis of the
+   * pane; a dialog the LLM dismisses is proposed as a candidate rule.
    */
   private async handleStartupDialogs(tmuxSessionName: string): Promise<void> {
     const MAX_ATTEMPTS = 3;
@@ -518,23 +717,51 @@ export class ImplementerActor {
         return;
       }
 
-      const knownMatch = matchKnownDialog(paneText);
-      if (knownMatch) {
-        log(`Dismissing known dialog: ${knownMatch.reason}`);
-        for (const key of knownMatch.keys) {
-          const proc = Bun.spawn(
-            ["tmux", "send-keys", "-t", tmuxSessionName, key],
-            { stdout: "pipe", stderr: "pipe" }
-          );
-          await proc.exited;
-          await Bun.sleep(DIALOG_DISMISS_DELAY_MS);
-        }
+      const ruleMatch = dialogRules.match(paneText);
+      if (ruleMatch) {
+        log(`Dismissing known dialog (${ruleMatch.ruleId}): ${ruleMatch.reason}`);
+        await this.sendDialogKeys(tmuxSessionName, ruleMatch.keys);
+        continue;
+      }
+
+      let analysis;
+      try {
+        analysis = await analyzeDialog(paneText);
+      } catch (err) {
+        log(`Dialog analysis failed: ${err}`);
         await Bun.sleep(DIALOG_POST_WAIT_MS);
-      } else {
+        continue;
+      }
+      if (!analysis.blocked || analysis.keys.length === 0) {
         await Bun.sleep(DIALOG_POST_WAIT_MS);
+        continue;
+      }
+
+      log(`Dismissing unrecognized dialog via LLM analysis: ${analysis.reason}`);
+      await this.sendDialogKeys(tmuxSessionName, analysis.keys);
+
+      const paneAfter = await capturePane(tmuxSessionName, 30).catch(() => null);
+      if (paneAfter !== null) {
+        const candidate = await dialogRules.proposeCandidate(paneText, paneAfter, analysis).catch((err) => {
+          log(`Failed to propose dialog rule: ${err}`);
+          return null;
+        });
+        if (candidate) log(`Proposed candidate dialog rule ${candidate.id} (/${candidate.pattern}/)`);
       }
     }
   }
+
+  private async sendDialogKeys(tmuxSessionName: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      const proc = Bun.spawn(
+        ["tmux", "send-keys", "-t", tmuxSessionName, key],
+        { stdout: "pipe", stderr: "pipe" }
+      );
+      await proc.exited;
+      await Bun.sleep(DIALOG_DISMISS_DELAY_MS);
+    }
+    await Bun.sleep(DIALOG_POST_WAIT_MS);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,105 @@
+import { describe, test, expect } from "bun:test";
+import { AdmissionController, type AdmissionOptions } from "./admission.js";
+import { sumProcessTree } from "./resources.js";
+
+const GiB = 1024 ** 3;
+
+function controller(overrides: Partial<AdmissionOptions> = {}, freeDisk = 50 * GiB) {
+  const disk = { free: freeDisk };
+  const ctl = new AdmissionController(
+    {
+      maxSessions: 2,
+      maxQueued: 1,
+      queueTimeoutMs: 1_000,
+      minFreeDiskBytes: 5 * GiB,
+      retryAfterMs: 60_000,
+      ...overrides,
+    },
+    async () => disk.free,
+    "implementer-0",
+  );
+  return { ctl, disk };
+}
+
+describe("AdmissionController", () => {
+  test("admits up to maxSessions, then queues, then rejects", async () => {
+    const { ctl } = controller();
+
+    expect((await ctl.acquire("a")).admitted).toBe(true);
+    expect((await ctl.acquire("b")).admitted).toBe(true);
+
+    const queued = ctl.acquire("c");
+    await Bun.sleep(0);
+    expect(ctl.snapshot()).toMatchObject({ activeSessions: 2, queuedActivations: 1, acceptingWork: false });
+
+    const rejected = await ctl.acquire("d");
+    expect(rejected).toMatchObject({ admitted: false, reason: "queue_full", retryAfterMs: 60_000 });
+
+    ctl.release("a");
+    expect((await queued).admitted).toBe(true);
+    expect(ctl.sessions().map((s) => s.sessionId)).toEqual(["b", "c"]);
+  });
+
+  test("rejects instead of queueing when queueing is off", async () => {
+    const { ctl } = controller({ maxSessions: 1 });
+
+    expect((await ctl.acquire("a", { queue: false })).admitted).toBe(true);
+    expect(await ctl.acquire("b", { queue: false })).toMatchObject({ admitted: false, reason: "slots_full" });
+    expect(ctl.snapshot()).toMatchObject({ activeSessions: 1, queuedActivations: 0 });
+  });
+
+  test("treats re-acquiring an admitted session as a no-op", async () => {
+    const { ctl } = controller({ maxSessions: 1 });
+
+    await ctl.acquire("a");
+    expect((await ctl.acquire("a")).admitted).toBe(true);
+    expect(ctl.snapshot().activeSessions).toBe(1);
+  });
+
+  test("rejects queued activations that wait too long", async () => {
+    const { ctl } = controller({ maxSessions: 1, queueTimeoutMs: 20 });
+
+    await ctl.acquire("a");
+    const result = await ctl.acquire("b");
+
+    expect(result).toMatchObject({ admitted: false, reason: "queue_timeout" });
+    expect(ctl.snapshot().queuedActivations).toBe(0);
+  });
+
+  test("rejects work when disk headroom is low", async () => {
+    const { ctl, disk } = controller({}, 2 * GiB);
+
+    expect(await ctl.acquire("a")).toMatchObject({ admitted: false, reason: "disk_low" });
+    expect(ctl.snapshot()).toMatchObject({ diskLow: true, acceptingWork: false, freeDiskBytes: 2 * GiB });
+
+    disk.free = 10 * GiB;
+    expect((await ctl.acquire("a")).admitted).toBe(true);
+  });
+
+  test("ignores releases for sessions it never admitted", async () => {
+    const { ctl } = controller({ maxSessions: 1 });
+    await ctl.acquire("a");
+
+    ctl.release("unknown");
+
+    expect(ctl.snapshot().activeSessions).toBe(1);
+  });
+});
+
+describe("sumProcessTree", () => {
+  test("sums the root process and its descendants only", () => {
+    const ps = [
+      "  100     1  2048  1.0", // tmux pane shell
+      "  200   100 40960 25.5", // claude
+      "  300   200  1024  0.5", // child of claude
+      "  400     1 99999 90.0", // unrelated
+    ].join("\n");
+
+    expect(sumProcessTree(ps, 100)).toEqual({
+      rssBytes: (2048 + 40960 + 1024) * 1024,
+      cpuPercent: 27,
+      processCount: 3,
+    });
+    expect(sumProcessTree(ps, 999).processCount).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Per-pod admission control for implementation sessions.
+ *
+ * Each admitted session holds a slot until it completes or its actor is
+ * deactivated. Activations beyond MAX_CONCURRENT_SESSIONS wait in a FIFO
+ * queue (bounded in length and wait time); activations are rejected with a
+ * retry hint when the queue is full or disk headroom under WORKTREE_BASE_DIR
+ * is below MIN_FREE_DISK_GB. The capacity snapshot is reported in /healthz
+ * and as the pod's registry instance report.
+ */
+import type { ImplementerCapacity } from "@mesh-six/core";
+import {
+  AGENT_ID,
+  POD_NAME,
+  WORKTREE_BASE_DIR,
+  MAX_CONCURRENT_SESSIONS,
+  ADMISSION_QUEUE_MAX,
+  ADMISSION_QUEUE_TIMEOUT_MS,
+  ADMISSION_RETRY_AFTER_MS,
+  MIN_FREE_DISK_BYTES,
+} from "./config.js";
+import { freeDiskBytes, sampleSessionUsage, type SessionResourceUsage } from "./resources.js";
+
+const log = (msg: string) => console.log(`[${AGENT_ID}][admission] ${msg}`);
+
+export interface AdmissionOptions {
+  maxSessions: number;
+  maxQueued: number;
+  queueTimeoutMs: number;
+  minFreeDiskBytes: number;
+  /** Retry hint returned with rejections */
+  retryAfterMs: number;
+}
+
+export type AdmissionRejectReason = "disk_low" | "slots_full" | "queue_full" | "queue_timeout";
+
+export interface AcquireOptions {
+  /** Wait in the queue when every slot is taken (default true); false rejects with "slots_full" */
+  queue?: boolean;
+}
+
+export type AdmissionResult =
+  | { admitted: true; waitedMs: number }
+  | { admitted: false; reason: AdmissionRejectReason; message: string; retryAfterMs: number };
+
+export interface AdmittedSession {
+  sessionId: string;
+  admittedAt: string;
+  tmuxSessionName?: string;
+  worktreeDir?: string;
+  usage?: SessionResourceUsage;
+}
+
+interface Waiter {
+  sessionId: string;
+  enqueuedAt: number;
+  resolve: (result: AdmissionResult) => void;
+  timer: Timer;
+}
+
+export class AdmissionController {
+  private active = new Map<string, AdmittedSession>();
+  private waiters: Waiter[] = [];
+  private freeDisk = Number.POSITIVE_INFINITY;
+
+  constructor(
+    private opts: AdmissionOptions,
+    private probeDisk: () => Promise<number>,
+    private podName: string,
+  ) {}
+
+  /**
+   * Claim a slot for `sessionId`, waiting in the queue if every slot is taken.
+   * Re-acquiring an already admitted session succeeds immediately.
+   */
+  async acquire(sessionId: string, opts: AcquireOptions = {}): Promise<AdmissionResult> {
+    if (this.active.has(sessionId)) return { admitted: true, waitedMs: 0 };
+
+    await this.refreshDisk();
+    if (this.diskLow) {
+      return this.reject("disk_low", `Free disk ${formatGiB(this.freeDisk)} is below the ${formatGiB(this.opts.minFreeDiskBytes)} headroom`);
+    }
+
+    if (this.active.size < this.opts.maxSessions && this.waiters.length === 0) {
+      this.admit(sessionId);
+      return { admitted: true, waitedMs: 0 };
+    }
+
+    if (opts.queue === false) {
+      return this.reject("slots_full", `All ${this.opts.maxSessions} session slots busy`);
+    }
+
+    if (this.waiters.length >= this.opts.maxQueued) {
+      return this.reject("queue_full", `All ${this.opts.maxSessions} session slots busy and ${this.waiters.length} activations queued`);
+    }
+
+    log(`Queueing session ${sessionId} (${this.active.size}/${this.opts.maxSessions} slots busy)`);
+    return new Promise<AdmissionResult>((resolve) => {
+      const waiter: Waiter = {
+        sessionId,
+        enqueuedAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          resolve(this.reject("queue_timeout", `No session slot freed within ${this.opts.queueTimeoutMs}ms`));
+        }, this.opts.queueTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Free a session's slot and admit the next queued activation. No-op if not admitted. */
+  release(sessionId: string): void {
+    if (!this.active.delete(sessionId)) return;
+    log(`Released slot for session ${sessionId} (${this.active.size}/${this.opts.maxSessions} busy)`);
+    this.pump();
+  }
+
+  /** Record where an admitted session runs so its resources can be sampled. */
+  attach(sessionId: string, info: { tmuxSessionName: string; worktreeDir: string }): void {
+    const session = this.active.get(sessionId);
+    if (session) Object.assign(session, info);
+  }
+
+  /** Refresh free disk and per-session usage (called on the heartbeat interval). */
+  async sample(): Promise<void> {
+    await this.refreshDisk();
+    for (const session of this.active.values()) {
+      if (!session.tmuxSessionName || !session.worktreeDir) continue;
+      session.usage = await sampleSessionUsage(session.tmuxSessionName, session.worktreeDir).catch(
+        () => session.usage,
+      );
+    }
+  }
+
+  get diskLow(): boolean {
+    return this.freeDisk < this.opts.minFreeDiskBytes;
+  }
+
+  snapshot(): ImplementerCapacity {
+    return {
+      podName: this.podName,
+      maxSessions: this.opts.maxSessions,
+      activeSessions: this.active.size,
+      queuedActivations: this.waiters.length,
+      maxQueued: this.opts.maxQueued,
+      freeDiskBytes: Number.isFinite(this.freeDisk) ? this.freeDisk : 0,
+      minFreeDiskBytes: this.opts.minFreeDiskBytes,
+      diskLow: this.diskLow,
+      acceptingWork: !this.diskLow && this.waiters.length < this.opts.maxQueued,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  sessions(): AdmittedSession[] {
+    return [...this.active.values()];
+  }
+
+  private admit(sessionId: string): void {
+    this.active.set(sessionId, { sessionId, admittedAt: new Date().toISOString() });
+  }
+
+  private pump(): void {
+    while (this.active.size < this.opts.maxSessions && this.waiters.length > 0) {
+      const waiter = this.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      if (this.diskLow) {
+        waiter.resolve(this.reject("disk_low", `Free disk ${formatGiB(this.freeDisk)} is below the headroom`));
+        continue;
+      }
+      this.admit(waiter.sessionId);
+      waiter.resolve({ admitted: true, waitedMs: Date.now() - waiter.enqueuedAt });
+    }
+  }
+
+  private async refreshDisk(): Promise<void> {
+    try {
+      this.freeDisk = await this.probeDisk();
+    } catch (err) {
+      // Keep the last reading; a missing volume shouldn't block all work
+      log(`Disk probe failed: ${err}`);
+    }
+  }
+
+  private reject(reason: AdmissionRejectReason, message: string): AdmissionResult {
+    log(`Rejecting activation (${reason}): ${message}`);
+    return { admitted: false, reason, message, retryAfterMs: this.opts.retryAfterMs };
+  }
+}
+
+function formatGiB(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(1)}GiB`;
+}
+
+/** The pod's admission controller, shared by all actors */
+export const admission = new AdmissionController(
+  {
+    maxSessions: MAX_CONCURRENT_SESSIONS,
+    maxQueued: ADMISSION_QUEUE_MAX,
+    queueTimeoutMs: ADMISSION_QUEUE_TIMEOUT_MS,
+    minFreeDiskBytes: MIN_FREE_DISK_BYTES,
+    retryAfterMs: ADMISSION_RETRY_AFTER_MS,
+  },
+  () => freeDiskBytes(WORKTREE_BASE_DIR),
+  POD_NAME,
+);
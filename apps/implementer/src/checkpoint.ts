@@ -1,9 +1,11 @@
 /**
  * Checkpoint support for implementation sessions.
  * Captures pre-action state snapshots (git status, tmux output, pending actions)
- * into session_checkpoints for recovery after interruption.
+ * into session_checkpoints for recovery after interruption. Checkpoints with a
+ * git snapshot (migration 024) can also be rolled back to.
  */
 import pg from "pg";
+import type { WorktreeSnapshot } from "@mesh-six/core";
 
 export interface CheckpointOpts {
   summary: string;
@@ -11,8 +13,13 @@ export interface CheckpointOpts {
   gitDiffStat?: string;
   tmuxCapture?: string;
   pendingActions?: unknown[];
+  /** From snapshotWorktree — enables rollback to this checkpoint */
+  gitSnapshot?: WorktreeSnapshot;
 }
 
+export const CHECKPOINT_TYPES = ["pre_commit", "pre_pr", "pre_merge", "periodic", "manual"] as const;
+export type CheckpointType = (typeof CHECKPOINT_TYPES)[number];
+
 export interface CheckpointRow {
   id: number;
   sessionId: string;
@@ -22,9 +29,26 @@ export interface CheckpointRow {
   gitDiffStat?: string | null;
   tmuxCapture?: string | null;
   pendingActions: unknown[];
+  gitHead?: string | null;
+  gitSnapshot?: string | null;
+  gitRef?: string | null;
   createdAt: string;
 }
 
+const CHECKPOINT_COLUMNS = `
+       id,
+       session_id      AS "sessionId",
+       checkpoint_type AS "checkpointType",
+       summary,
+       git_status      AS "gitStatus",
+       git_diff_stat   AS "gitDiffStat",
+       tmux_capture    AS "tmuxCapture",
+       pending_actions AS "pendingActions",
+       git_head        AS "gitHead",
+       git_snapshot    AS "gitSnapshot",
+       git_ref         AS "gitRef",
+       created_at      AS "createdAt"`;
+
 /**
  * Insert a checkpoint snapshot into session_checkpoints.
  * type must be one of: pre_commit, pre_pr, pre_merge, periodic, manual
@@ -32,23 +56,15 @@ export interface CheckpointRow {
 export async function createCheckpoint(
   pool: pg.Pool,
   sessionId: string,
-  type: "pre_commit" | "pre_pr" | "pre_merge" | "periodic" | "manual",
+  type: CheckpointType,
   opts: CheckpointOpts
 ): Promise<CheckpointRow> {
   const { rows } = await pool.query<CheckpointRow>(
     `INSERT INTO session_checkpoints
-       (session_id, checkpoint_type, summary, git_status, git_diff_stat, tmux_capture, pending_actions)
-     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
-     RETURNING
-       id,
-       session_id      AS "sessionId",
-       checkpoint_type AS "checkpointType",
-       summary,
-       git_status      AS "gitStatus",
-       git_diff_stat   AS "gitDiffStat",
-       tmux_capture    AS "tmuxCapture",
-       pending_actions AS "pendingActions",
-       created_at      AS "createdAt"`,
+       (session_id, checkpoint_type, summary, git_status, git_diff_stat, tmux_capture, pending_actions,
+        git_head, git_snapshot, git_ref)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10)
+     RETURNING ${CHECKPOINT_COLUMNS}`,
     [
       sessionId,
       type,
@@ -57,6 +73,9 @@ export async function createCheckpoint(
       opts.gitDiffStat ?? null,
       opts.tmuxCapture ?? null,
       JSON.stringify(opts.pendingActions ?? []),
+      opts.gitSnapshot?.head ?? null,
+      opts.gitSnapshot?.commit ?? null,
+      opts.gitSnapshot?.ref ?? null,
     ]
   );
 
@@ -78,16 +97,7 @@ export async function getLatestCheckpoint(
   sessionId: string
 ): Promise<CheckpointRow | null> {
   const { rows } = await pool.query<CheckpointRow>(
-    `SELECT
-       id,
-       session_id      AS "sessionId",
-       checkpoint_type AS "checkpointType",
-       summary,
-       git_status      AS "gitStatus",
-       git_diff_stat   AS "gitDiffStat",
-       tmux_capture    AS "tmuxCapture",
-       pending_actions AS "pendingActions",
-       created_at      AS "createdAt"
+    `SELECT ${CHECKPOINT_COLUMNS}
      FROM session_checkpoints
      WHERE session_id = $1
      ORDER BY created_at DESC
@@ -97,6 +107,45 @@ export async function getLatestCheckpoint(
   return rows[0] ?? null;
 }
 
+/**
+ * Retrieve a checkpoint by ID, scoped to its session.
+ */
+export async function getCheckpoint(
+  pool: pg.Pool,
+  sessionId: string,
+  checkpointId: number
+): Promise<CheckpointRow | null> {
+  const { rows } = await pool.query<CheckpointRow>(
+    `SELECT ${CHECKPOINT_COLUMNS}
+     FROM session_checkpoints
+     WHERE session_id = $1 AND id = $2`,
+    [sessionId, checkpointId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Retrieve the most recent checkpoint that has a git snapshot to roll back to,
+ * optionally of a given type.
+ */
+export async function getLatestRestorableCheckpoint(
+  pool: pg.Pool,
+  sessionId: string,
+  type?: CheckpointType
+): Promise<CheckpointRow | null> {
+  const { rows } = await pool.query<CheckpointRow>(
+    `SELECT ${CHECKPOINT_COLUMNS}
+     FROM session_checkpoints
+     WHERE session_id = $1
+       AND git_snapshot IS NOT NULL
+       AND ($2::text IS NULL OR checkpoint_type = $2)
+     ORDER BY created_at DESC, id DESC
+     LIMIT 1`,
+    [sessionId, type ?? null]
+  );
+  return rows[0] ?? null;
+}
+
 /**
  * Build a context string from the latest checkpoint that can be prepended
  * to a Claude resume prompt. Returns an empty string if no checkpoint found.
@@ -107,7 +156,13 @@ export async function restoreFromCheckpoint(
 ): Promise<string> {
   const checkpoint = await getLatestCheckpoint(pool, sessionId);
   if (!checkpoint) return "";
+  return formatCheckpointContext(checkpoint);
+}
 
+/**
+ * Render a checkpoint as resume context (summary, git state, terminal output).
+ */
+export function formatCheckpointContext(checkpoint: CheckpointRow): string {
   const parts: string[] = [
     `## Resuming from checkpoint (${checkpoint.checkpointType}) at ${checkpoint.createdAt}`,
     `**Summary:** ${checkpoint.summary}`,
@@ -132,3 +187,22 @@ export async function restoreFromCheckpoint(
 
   return parts.join("\n\n");
 }
+
+/**
+ * Build the prompt for a session restarted after rolling its worktree back to
+ * `checkpoint`, with optional operator guidance on what to do differently.
+ */
+export function buildRollbackPrompt(checkpoint: CheckpointRow, guidance?: string): string {
+  const parts = [
+    formatCheckpointContext(checkpoint),
+    `## Worktree rolled back\n` +
+      `The worktree has been reset to this checkpoint (HEAD ${checkpoint.gitHead?.slice(0, 12)}). ` +
+      `Commits and file changes made after it have been discarded, so any later work in this ` +
+      `conversation is no longer present on disk. Check \`git status\` and \`git log\` before continuing.`,
+  ];
+  if (guidance?.trim()) {
+    parts.push(`## Guidance\n${guidance.trim()}`);
+  }
+  parts.push("Continue the task from this point.");
+  return parts.join("\n\n");
+}
@@ -13,6 +13,40 @@ export const WORKTREE_BASE_DIR = process.env.WORKTREE_BASE_DIR || "/worktrees";
 // Claude CLI session directory (10Gi PVC mounted here in k8s — persistent ~/.claude)
 export const CLAUDE_SESSION_DIR = process.env.CLAUDE_SESSION_DIR || "/home/bun/.claude";
 
+// Claude CLI hook script that publishes session hook events (baked into Docker image)
+export const HOOK_SCRIPT_PATH = process.env.HOOK_SCRIPT_PATH || "/app/apps/implementer/src/hooks/session-hook.ts";
+
+// Per-pod admission control: concurrent sessions, queued activations, and the
+// free disk under WORKTREE_BASE_DIR required to start another worktree
+export const MAX_CONCURRENT_SESSIONS = Number(process.env.MAX_CONCURRENT_SESSIONS) || 3;
+export const ADMISSION_QUEUE_MAX = Number(process.env.ADMISSION_QUEUE_MAX) || 5;
+// Kept below the Dapr actor call timeout so queued activations still get an answer
+export const ADMISSION_QUEUE_TIMEOUT_MS = Number(process.env.ADMISSION_QUEUE_TIMEOUT_MS) || 45_000;
+export const ADMISSION_RETRY_AFTER_MS = Number(process.env.ADMISSION_RETRY_AFTER_MS) || 120_000;
+export const MIN_FREE_DISK_BYTES = (Number(process.env.MIN_FREE_DISK_GB) || 3) * 1024 ** 3;
+
+// Hook-driven sessions with neither hook events nor pane changes for this long
+// are failed, so a lost Stop/SessionEnd event cannot hold an admission slot forever
+export const SESSION_IDLE_TIMEOUT_MS = Number(process.env.SESSION_IDLE_TIMEOUT_MS) || 30 * 60_000;
+
+// Sessions outlive the task timeout, so the task lease is renewed for up to this
+// long; past it the orchestrator times the task out
+export const SESSION_MAX_RUNTIME_MS = Number(process.env.SESSION_MAX_RUNTIME_MS) || 4 * 60 * 60_000;
+
+// Interactive terminal takeover: comma-separated operator=token pairs (from a
+// secret) and how long a takeover may sit without input before it is released
+export const TAKEOVER_TOKENS = process.env.TAKEOVER_TOKENS || "";
+export const TAKEOVER_IDLE_TIMEOUT_MS = Number(process.env.TAKEOVER_IDLE_TIMEOUT_MS) || 15 * 60_000;
+
+// Startup dialog rules: extra rules as a JSON array (see parseDialogRules), how
+// often stored rules are reloaded, and the model used when no rule matches
+export const DIALOG_RULES = process.env.DIALOG_RULES || "";
+export const DIALOG_RULES_RELOAD_MS = Number(process.env.DIALOG_RULES_RELOAD_MS) || 60_000;
+export const DIALOG_ANALYSIS_MODEL = process.env.DIALOG_ANALYSIS_MODEL || process.env.LLM_MODEL || "anthropic/claude-sonnet-4-20250514";
+
+// StatefulSet pod name (capacity is reported per pod)
+export const POD_NAME = process.env.POD_NAME || process.env.HOSTNAME || "implementer-0";
+
 // Agent identity
 export const AGENT_ID = "implementer";
 export const AGENT_NAME = "Implementer";
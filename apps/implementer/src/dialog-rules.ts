@@ -0,0 +1,35 @@
+/**
+ * Startup dialog rules for Claude CLI sessions on this pod.
+ *
+ * Wraps the core DialogRuleRegistry with the implementer's config and a
+ * Postgres store, and provides the LLM fallback used when no rule matches.
+ */
+import pg from "pg";
+import {
+  DialogRuleRegistry,
+  PgDialogRuleStore,
+  parseDialogRules,
+  parseDialogResponse,
+  chatCompletion,
+  DIALOG_ANALYSIS_PROMPT,
+  type DialogResponse,
+} from "@mesh-six/core";
+import { DATABASE_URL, DIALOG_RULES, DIALOG_ANALYSIS_MODEL } from "./config.js";
+
+/** The pod's dialog rules (built-in, DIALOG_RULES and `dialog_rules`) */
+export const dialogRules = new DialogRuleRegistry(
+  new PgDialogRuleStore(new pg.Pool({ connectionString: DATABASE_URL, max: 2 })),
+  parseDialogRules(DIALOG_RULES)
+);
+
+/** Ask the LLM whether the pane shows a blocking dialog and which keys dismiss it. */
+export async function analyzeDialog(paneText: string): Promise<DialogResponse> {
+  const { text } = await chatCompletion({
+    model: DIALOG_ANALYSIS_MODEL,
+    system: DIALOG_ANALYSIS_PROMPT,
+    prompt: paneText,
+    temperature: 0,
+    maxTokens: 200,
+  });
+  return parseDialogResponse(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+}
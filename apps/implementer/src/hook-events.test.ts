@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test";
+import type { SessionHookEvent } from "@mesh-six/core";
+import { classifyHookEvent, mergeHookSettings, SESSION_HOOK_EVENTS } from "./hook-events.js";
+
+const event = (overrides: Partial<SessionHookEvent>): SessionHookEvent => ({
+  sessionId: "s1",
+  hookEvent: "Stop",
+  timestamp: "2026-10-19T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("mergeHookSettings", () => {
+  const command = "bun /app/apps/implementer/src/hooks/session-hook.ts";
+
+  test("registers the hook for every event, with a matcher for tool events", () => {
+    const merged = mergeHookSettings({ theme: "dark" }, command) as any;
+
+    expect(merged.theme).toBe("dark");
+    expect(Object.keys(merged.hooks)).toEqual([...SESSION_HOOK_EVENTS]);
+    expect(merged.hooks.PreToolUse).toEqual([{ matcher: "*", hooks: [{ type: "command", command }] }]);
+    expect(merged.hooks.Stop).toEqual([{ hooks: [{ type: "command", command }] }]);
+  });
+
+  test("keeps other hooks and is idempotent", () => {
+    const other = { hooks: [{ type: "command", command: "echo stop" }] };
+    const once = mergeHookSettings({ hooks: { Stop: [other] } }, command);
+    const twice = mergeHookSettings(once, command);
+
+    expect(twice).toEqual(once);
+    expect((twice as any).hooks.Stop).toHaveLength(2);
+    expect((twice as any).hooks.Stop[0]).toEqual(other);
+  });
+});
+
+describe("classifyHookEvent", () => {
+  test("reports the CLI session ID from any event", () => {
+    expect(classifyHookEvent(event({ hookEvent: "SessionStart", claudeSessionId: "abc-123" }))).toEqual([
+      { type: "claude_session", claudeSessionId: "abc-123" },
+    ]);
+  });
+
+  test("treats a Stop ending in a question as a question", () => {
+    const transitions = classifyHookEvent(
+      event({ lastAssistantMessage: "I found two config loaders.\n\nShould I merge them or keep both?" }),
+    );
+    expect(transitions).toEqual([
+      { type: "question", questionText: "Should I merge them or keep both?", source: "stop" },
+    ]);
+  });
+
+  test("treats any other Stop as completion, regardless of wording", () => {
+    expect(classifyHookEvent(event({ lastAssistantMessage: "Opened PR #42." }))).toEqual([
+      { type: "completed", summary: "Opened PR #42." },
+    ]);
+    expect(classifyHookEvent(event({}))).toEqual([{ type: "completed", summary: undefined }]);
+  });
+
+  test("treats a rate limit or auth failure API error as a credential problem", () => {
+    const limit = "Claude AI usage limit reached|1767225600";
+    expect(classifyHookEvent(event({ lastAssistantMessage: limit, apiError: true }))).toEqual([
+      { type: "credential_problem", problem: "rate_limited", message: limit },
+    ]);
+    // The model's own reply may mention rate limits (e.g. tool output it summarised)
+    expect(classifyHookEvent(event({ lastAssistantMessage: "Handled 429 Too Many Requests with a retry." }))).toEqual([
+      { type: "completed", summary: "Handled 429 Too Many Requests with a retry." },
+    ]);
+  });
+
+  test("only blocking notifications become questions", () => {
+    const permission = event({
+      hookEvent: "Notification",
+      notification: { message: "Claude needs your permission to use Bash", type: "permission_prompt" },
+    });
+    const info = event({ hookEvent: "Notification", notification: { message: "Auth ok", type: "auth_success" } });
+
+    expect(classifyHookEvent(permission)).toEqual([
+      { type: "question", questionText: "Claude needs your permission to use Bash", source: "notification" },
+    ]);
+    expect(classifyHookEvent(info)).toEqual([]);
+  });
+
+  test("maps tool events and unexpected exits", () => {
+    expect(classifyHookEvent(event({ hookEvent: "PreToolUse", toolName: "Edit", toolUseId: "t1" }))).toEqual([
+      { type: "tool_started", toolName: "Edit", toolUseId: "t1" },
+    ]);
+    expect(classifyHookEvent(event({ hookEvent: "SessionEnd", reason: "other" }))[0].type).toBe("failed");
+    expect(classifyHookEvent(event({ hookEvent: "SessionEnd", reason: "logout" }))).toEqual([]);
+  });
+});
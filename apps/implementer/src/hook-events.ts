@@ -0,0 +1,168 @@
+/**
+ * Claude CLI hook integration — installs the session hook into the CLI's
+ * settings.json and turns published hook events into session transitions
+ * for SessionMonitor.
+ */
+import { join } from "path";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import {
+  detectAuthFailure,
+  detectRateLimit,
+  type CredentialProblemReport,
+  type SessionHookEvent,
+} from "@mesh-six/core";
+import { AGENT_ID } from "./config.js";
+
+const log = (msg: string) => console.log(`[${AGENT_ID}][hooks] ${msg}`);
+
+/** Hook events the session hook is registered for */
+export const SESSION_HOOK_EVENTS = [
+  "SessionStart",
+  "PreToolUse",
+  "PostToolUse",
+  "Notification",
+  "Stop",
+  "SessionEnd",
+] as const;
+
+/** Tool events need a matcher; "*" matches every tool */
+const TOOL_HOOK_EVENTS = new Set(["PreToolUse", "PostToolUse"]);
+
+/** Notification types that mean the CLI is waiting on a human */
+const BLOCKING_NOTIFICATIONS = new Set(["permission_prompt", "idle_prompt", "elicitation_dialog"]);
+
+// ---------------------------------------------------------------------------
+// Installation
+// ---------------------------------------------------------------------------
+
+type HookEntry = { matcher?: string; hooks: Array<{ type: string; command: string }> };
+
+/**
+ * Return `settings` with the session hook registered for every
+ * SESSION_HOOK_EVENTS entry. Existing hooks are kept; a previous
+ * registration of the same command is replaced, so this is idempotent.
+ */
+export function mergeHookSettings(
+  settings: Record<string, unknown>,
+  command: string,
+): Record<string, unknown> {
+  const hooks = { ...((settings.hooks as Record<string, HookEntry[]> | undefined) ?? {}) };
+
+  for (const event of SESSION_HOOK_EVENTS) {
+    const others = (hooks[event] ?? []).filter(
+      (entry) => !entry.hooks?.some((h) => h.command === command),
+    );
+    const ours: HookEntry = {
+      ...(TOOL_HOOK_EVENTS.has(event) ? { matcher: "*" } : {}),
+      hooks: [{ type: "command", command }],
+    };
+    hooks[event] = [...others, ours];
+  }
+
+  return { ...settings, hooks };
+}
+
+/** Register the session hook script in `<configDir>/settings.json`. */
+export function installSessionHooks(configDir: string, scriptPath: string): void {
+  const settingsPath = join(configDir, "settings.json");
+  let existing: Record<string, unknown> = {};
+  if (existsSync(settingsPath)) {
+    try {
+      existing = JSON.parse(readFileSync(settingsPath, "utf-8"));
+    } catch {
+      log(`Failed to parse ${settingsPath}, rewriting hooks only`);
+    }
+  }
+
+  const merged = mergeHookSettings(existing, `bun ${scriptPath}`);
+  if (JSON.stringify(merged) === JSON.stringify(existing)) return;
+
+  mkdirSync(configDir, { recursive: true });
+  writeFileSync(settingsPath, JSON.stringify(merged, null, 2), { mode: 0o600 });
+  log(`Installed session hooks in ${settingsPath}`);
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+export type HookTransition =
+  | { type: "claude_session"; claudeSessionId: string }
+  | { type: "tool_started"; toolName: string; toolUseId?: string }
+  | { type: "tool_finished"; toolName: string; toolUseId?: string; input?: unknown; output?: unknown }
+  | { type: "question"; questionText: string; source: "notification" | "stop" }
+  | { type: "completed"; summary?: string }
+  | { type: "failed"; error: string }
+  | { type: "credential_problem"; problem: CredentialProblemReport["problem"]; message: string };
+
+/**
+ * Map a hook event to the session transitions it implies.
+ *
+ * - Any event carrying a CLI session ID reports it (resume token).
+ * - Pre/PostToolUse: the session is working (and is no longer blocked).
+ * - Notification: permission/idle prompts mean the CLI is waiting on a human.
+ * - Stop: the CLI finished its turn. An API error reporting a rate limit or
+ *   auth failure is a credential problem. Otherwise a final message ending
+ *   in a question is a question, and anything else is completion of the
+ *   `-p` run.
+ * - SessionEnd: the CLI exited. Reached without a Stop only when the run
+ *   was cut short, so it counts as a failure unless the user ended it.
+ */
+export function classifyHookEvent(event: SessionHookEvent): HookTransition[] {
+  const transitions: HookTransition[] = [];
+  if (event.claudeSessionId) {
+    transitions.push({ type: "claude_session", claudeSessionId: event.claudeSessionId });
+  }
+
+  switch (event.hookEvent) {
+    case "PreToolUse":
+      transitions.push({ type: "tool_started", toolName: event.toolName ?? "unknown", toolUseId: event.toolUseId });
+      break;
+    case "PostToolUse":
+      transitions.push({
+        type: "tool_finished",
+        toolName: event.toolName ?? "unknown",
+        toolUseId: event.toolUseId,
+        input: event.toolInput,
+        output: event.toolResponse,
+      });
+      break;
+    case "Notification":
+      if (event.notification && BLOCKING_NOTIFICATIONS.has(event.notification.type ?? "")) {
+        transitions.push({ type: "question", questionText: event.notification.message, source: "notification" });
+      }
+      break;
+    case "Stop": {
+      const message = event.lastAssistantMessage?.trim();
+      const problem = message && event.apiError ? credentialProblem(message) : null;
+      if (message && problem) {
+        transitions.push({ type: "credential_problem", problem, message });
+      } else if (message && /\?\s*$/.test(message)) {
+        transitions.push({ type: "question", questionText: lastParagraph(message), source: "stop" });
+      } else {
+        transitions.push({ type: "completed", summary: message });
+      }
+      break;
+    }
+    case "SessionEnd":
+      if (event.reason !== "clear" && event.reason !== "logout") {
+        transitions.push({ type: "failed", error: `Claude CLI exited before finishing (${event.reason ?? "unknown"})` });
+      }
+      break;
+  }
+
+  return transitions;
+}
+
+/**
+ * Rate limit or auth failure named in CLI output. Rate limits are checked
+ * first: usage-limit text matches both.
+ */
+export function credentialProblem(text: string): CredentialProblemReport["problem"] | null {
+  return detectRateLimit(text) ? "rate_limited" : detectAuthFailure(text) ? "auth_failure" : null;
+}
+
+function lastParagraph(text: string): string {
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  return paragraphs[paragraphs.length - 1] ?? text;
+}
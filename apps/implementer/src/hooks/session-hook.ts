@@ -0,0 +1,161 @@
+#!/usr/bin/env bun
+/**
+ * Session Hook Publisher
+ *
+ * Bun script run by the Claude CLI for each hook event (SessionStart,
+ * PreToolUse, PostToolUse, Notification, Stop, SessionEnd) in an implementer
+ * tmux session. It posts a SessionHookEvent to the implementer pod that runs
+ * the session, so its SessionMonitor can drive session state from structured
+ * events instead of scraping the pane. Pub/sub would hand each event to any
+ * one replica, which may not be the one monitoring the session.
+ *
+ * Before a Bash `git commit`, it also asks the implementer for a pre_commit
+ * checkpoint and waits for it. The CLI holds the tool call until the hook
+ * exits, so the snapshot is taken before the commit runs.
+ *
+ * Installed into the CLI's settings.json by `installSessionHooks()`.
+ * Mirrors llm-service's hooks/event-publisher.ts: no workspace imports, and
+ * every error is swallowed so the CLI is never blocked.
+ *
+ * Environment Variables:
+ *   MESH_SIX_SESSION_ID  - Implementation session ID (exported in the tmux session)
+ *   MESH_SIX_HOOK_URL    - Implementer hook-event endpoint for this session
+ *                          (exported in the tmux session)
+ *   MESH_SIX_CHECKPOINT_URL - Implementer checkpoint endpoint for this session
+ *                          (exported in the tmux session)
+ */
+
+import { readFileSync } from "fs";
+
+const SESSION_ID = process.env.MESH_SIX_SESSION_ID || "";
+const HOOK_URL = process.env.MESH_SIX_HOOK_URL || "";
+const CHECKPOINT_URL = process.env.MESH_SIX_CHECKPOINT_URL || "";
+
+const CHECKPOINT_TIMEOUT_MS = 15_000;
+
+// `git commit`, allowing global options such as `-C <dir>` before the subcommand
+const GIT_COMMIT_PATTERN = /\bgit(?:\s+-\S+(?:\s+[^-\s]\S*)?)*\s+commit\b/;
+
+const MAX_MESSAGE_CHARS = 4000;
+
+interface HookInput {
+  session_id?: string;
+  transcript_path?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_use_id?: string;
+  tool_input?: Record<string, unknown>;
+  tool_response?: unknown;
+  message?: string;
+  title?: string;
+  notification_type?: string;
+  reason?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Last assistant text in a CLI transcript (JSONL). API errors (rate limits,
+ * auth failures) are written as assistant entries flagged `isApiErrorMessage`.
+ */
+function lastAssistantMessage(transcriptPath: string): { text: string; apiError: boolean } | undefined {
+  const lines = readFileSync(transcriptPath, "utf-8").trimEnd().split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const entry = JSON.parse(lines[i]) as {
+        type?: string;
+        isApiErrorMessage?: boolean;
+        message?: { content?: string | Array<{ type: string; text?: string }> };
+      };
+      if (entry.type !== "assistant") continue;
+      const content = entry.message?.content;
+      const text =
+        typeof content === "string"
+          ? content
+          : content?.filter((b) => b.type === "text").map((b) => b.text ?? "").join("\n");
+      if (text?.trim()) return { text: text.trim().slice(-MAX_MESSAGE_CHARS), apiError: entry.isApiErrorMessage === true };
+    } catch {
+      // Partial line while the CLI is writing — keep looking
+    }
+  }
+  return undefined;
+}
+
+async function main(): Promise<void> {
+  try {
+    // Sessions not started by the implementer have nothing to report to
+    if (!SESSION_ID || !HOOK_URL) process.exit(0);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of Bun.stdin.stream()) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const raw = Buffer.concat(chunks).toString("utf-8").trim();
+    if (!raw) process.exit(0);
+
+    let input: HookInput;
+    try {
+      input = JSON.parse(raw);
+    } catch {
+      process.exit(0);
+    }
+
+    const hookEvent = input.hook_event_name || "unknown";
+    let lastMessage: { text: string; apiError: boolean } | undefined;
+    if (hookEvent === "Stop" && input.transcript_path) {
+      try {
+        lastMessage = lastAssistantMessage(input.transcript_path);
+      } catch {
+        // Transcript unreadable — the monitor treats the stop as a completion
+      }
+    }
+
+    const command = input.tool_input?.command;
+    if (
+      hookEvent === "PreToolUse" &&
+      input.tool_name === "Bash" &&
+      CHECKPOINT_URL &&
+      typeof command === "string" &&
+      GIT_COMMIT_PATTERN.test(command)
+    ) {
+      try {
+        await fetch(CHECKPOINT_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: "pre_commit", summary: `Before: ${command.slice(0, 200)}` }),
+          signal: AbortSignal.timeout(CHECKPOINT_TIMEOUT_MS),
+        });
+      } catch {
+        // No checkpoint this time — let the commit go ahead
+      }
+    }
+
+    const event = {
+      sessionId: SESSION_ID,
+      claudeSessionId: input.session_id,
+      hookEvent,
+      timestamp: new Date().toISOString(),
+      toolName: input.tool_name,
+      toolUseId: input.tool_use_id,
+      toolInput: input.tool_input,
+      toolResponse: input.tool_response,
+      notification: input.message
+        ? { message: input.message, title: input.title, type: input.notification_type }
+        : undefined,
+      lastAssistantMessage: lastMessage?.text,
+      apiError: lastMessage?.apiError || undefined,
+      reason: input.reason,
+    };
+
+    await fetch(HOOK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+    });
+  } catch {
+    // Never block the CLI — swallow all errors
+  }
+
+  process.exit(0);
+}
+
+main();
@@ -1,18 +1,26 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { upgradeWebSocket, websocket } from "hono/bun";
+import type { WSContext } from "hono/ws";
 import { DaprClient } from "@dapr/dapr";
 import pg from "pg";
+import { z } from "zod";
 import {
   AgentRegistry,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  SessionHookEventSchema,
+  DialogRuleError,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type DialogRuleEdits,
+  type DialogRuleStatus,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
   type DaprPubSubMessage,
   type DaprSubscription,
-  createMinioClient,
   getMinioPresignedUrl,
-  type MinioConfig,
 } from "@mesh-six/core";
 import {
   APP_PORT,
@@ -21,8 +29,17 @@ import {
   AGENT_ID,
   AGENT_NAME,
   DATABASE_URL,
+  POD_NAME,
+  DIALOG_RULES_RELOAD_MS,
+  SESSION_MAX_RUNTIME_MS,
 } from "./config.js";
-import { getOrCreateActor, podStartupRecovery } from "./actor.js";
+import { getOrCreateActor, podStartupRecovery, type ImplementerActor } from "./actor.js";
+import {
+  CHECKPOINT_TYPES,
+  getCheckpoint,
+  getLatestRestorableCheckpoint,
+} from "./checkpoint.js";
+import { admission } from "./admission.js";
 import { SessionMonitor } from "./monitor.js";
 import {
   insertSession,
@@ -33,8 +50,33 @@ import {
   getSessionSnapshots,
   getSessionRecordings,
   getRecordingById,
+  getSessionActivity,
+  getSessionToolCalls,
+  insertActivityLog,
 } from "./session-db.js";
-import { shutdownAllStreams } from "./terminal-relay.js";
+import { isStreamActive, onPaneOutput, shutdownAllStreams, startPaneStream } from "./terminal-relay.js";
+import { capturePane, sendCommand, sendLiteral } from "./tmux.js";
+import { dialogRules } from "./dialog-rules.js";
+import {
+  authenticateOperator,
+  bearerToken,
+  operatorTokens,
+  takeovers,
+  type TakeoverLock,
+} from "./takeover.js";
+import {
+  buildSessionTimeline,
+  extractClip,
+  keyframeAt,
+  searchRecordingBounded,
+  RecordingSearchTimeoutError,
+} from "./recording-index.js";
+import {
+  loadRecordingCast,
+  loadRecordingIndex,
+  recordingMinioClient,
+  recordingMinioConfig,
+} from "./recordings.js";
 
 const { Pool } = pg;
 const pool = new Pool({ connectionString: DATABASE_URL });
@@ -59,6 +101,11 @@ const REGISTRATION: AgentRegistration = {
 // --- Active session monitors (sessionId → monitor) ---
 const activeMonitors = new Map<string, SessionMonitor>();
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+// Stops a session's task-progress heartbeat and drops its cancel token (sessionId → finisher)
+const taskFinishers = new Map<string, () => void>();
+
 // --- HTTP Server ---
 const app = new Hono();
 
@@ -68,6 +115,8 @@ app.get("/healthz", (c) =>
     agent: AGENT_ID,
     capabilities: REGISTRATION.capabilities.map((cap) => cap.name),
     activeSessions: activeMonitors.size,
+    slots: admission.snapshot(),
+    sessions: admission.sessions(),
   })
 );
 
@@ -81,6 +130,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -100,6 +154,38 @@ app.post("/tasks", async (c) => {
   return c.json({ status: "SUCCESS" });
 });
 
+// Control handler — cancellations from the orchestrator end the task's session
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
+    for (const [sessionId, monitor] of activeMonitors) {
+      if (monitor.taskId === cancel.taskId) await cancelSession(sessionId, monitor, cancel.reason);
+    }
+  }
+  return c.json({ status: "SUCCESS" });
+});
+
+// Claude CLI hook events from this pod's sessions (posted by hooks/session-hook.ts)
+app.post("/sessions/:id/hook-events", async (c) => {
+  const sessionId = c.req.param("id");
+  const parsed = SessionHookEventSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success || parsed.data.sessionId !== sessionId) {
+    console.warn(`[${AGENT_ID}] Dropping malformed hook event for ${sessionId}`);
+    return c.json({ error: "Invalid hook event" }, 400);
+  }
+
+  // Events for sessions this pod is not monitoring (finished, or pre-restart) are ignored
+  const monitor = activeMonitors.get(sessionId);
+  if (!monitor) return c.json({ error: "Session is not monitored on this pod" }, 404);
+
+  await monitor.handleHookEvent(parsed.data).catch((err) => {
+    console.error(`[${AGENT_ID}] Hook event ${parsed.data.hookEvent} failed for ${sessionId}:`, err);
+  });
+  return c.json({ status: "ok" });
+});
+
 // Terminal streaming REST endpoints
 app.get("/sessions/:id/snapshots", async (c) => {
   const sessionId = c.req.param("id");
@@ -117,17 +203,92 @@ app.get("/recordings/:id/url", async (c) => {
   const id = Number(c.req.param("id"));
   const recording = await getRecordingById(id);
   if (!recording) return c.json({ error: "Recording not found" }, 404);
-  const minioConfig: MinioConfig = {
-    endpoint: process.env.MINIO_ENDPOINT || "http://minio.default.svc.cluster.local:9000",
-    accessKeyId: process.env.MINIO_ACCESS_KEY || "",
-    secretAccessKey: process.env.MINIO_SECRET_KEY || "",
-    bucket: process.env.MINIO_BUCKET || "mesh-six-recordings",
-  };
-  const client = createMinioClient(minioConfig);
-  const url = await getMinioPresignedUrl(client, minioConfig.bucket, recording.s3Key);
+  const url = await getMinioPresignedUrl(recordingMinioClient(), recordingMinioConfig().bucket, recording.s3Key);
   return c.json({ url });
 });
 
+// Session replay API — keyframes, search and clips over recordings
+app.get("/recordings/:id/index", async (c) => {
+  const recording = await getRecordingById(Number(c.req.param("id")));
+  if (!recording) return c.json({ error: "Recording not found" }, 404);
+  const { lines, ...index } = await loadRecordingIndex(recording);
+  return c.json({ recordingId: recording.id, sessionId: recording.sessionId, lineCount: lines.length, ...index });
+});
+
+const RecordingSearchQuerySchema = z.object({
+  q: z.string().min(1, "q is required"),
+  regex: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+app.get("/recordings/:id/search", async (c) => {
+  const parsed = RecordingSearchQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues.map((i) => `${i.path.join(".") || "query"}: ${i.message}`).join("; ") }, 400);
+  }
+  const { q: query, regex, limit } = parsed.data;
+  const recording = await getRecordingById(Number(c.req.param("id")));
+  if (!recording) return c.json({ error: "Recording not found" }, 404);
+
+  const index = await loadRecordingIndex(recording);
+  let matches;
+  try {
+    matches = await searchRecordingBounded(index, query, { regex: regex === "true", limit });
+  } catch (err) {
+    if (err instanceof RecordingSearchTimeoutError) return c.json({ error: err.message }, 422);
+    return c.json({ error: `Invalid pattern: ${err instanceof Error ? err.message : String(err)}` }, 400);
+  }
+
+  const startedAt = recording.startedAt ?? index.startedAt;
+  return c.json({
+    recordingId: recording.id,
+    query,
+    matches: matches.map((m) => ({
+      ...m,
+      at: startedAt ? new Date(new Date(startedAt).getTime() + m.t * 1000).toISOString() : undefined,
+      keyframe: keyframeAt(index, m.t),
+    })),
+  });
+});
+
+app.get("/recordings/:id/clip", async (c) => {
+  const from = Number(c.req.query("from") ?? 0);
+  const to = Number(c.req.query("to"));
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from < 0 || to <= from) {
+    return c.json({ error: "from and to must be seconds with 0 <= from < to" }, 400);
+  }
+  const recording = await getRecordingById(Number(c.req.param("id")));
+  if (!recording) return c.json({ error: "Recording not found" }, 404);
+
+  const clip = extractClip(await loadRecordingCast(recording), from, to);
+  return c.body(clip, 200, {
+    "Content-Type": "application/x-asciicast",
+    "Content-Disposition": `attachment; filename="recording-${recording.id}-${from}-${to}.cast"`,
+  });
+});
+
+app.get("/sessions/:id/timeline", async (c) => {
+  const sessionId = c.req.param("id");
+  const [recordings, activity, toolCalls, questions] = await Promise.all([
+    getSessionRecordings(sessionId),
+    getSessionActivity(sessionId),
+    getSessionToolCalls(sessionId),
+    getSessionQuestions(sessionId),
+  ]);
+  const timeline = buildSessionTimeline({
+    recordings: recordings.map((r) => ({
+      id: r.id,
+      // Pre-023 rows without started_at: recordings upload when the stream stops
+      startedAt: r.startedAt ?? new Date(new Date(r.uploadedAt).getTime() - r.durationMs),
+      durationMs: r.durationMs,
+    })),
+    activity,
+    toolCalls,
+    questions,
+  });
+  return c.json({ sessionId, entries: timeline });
+});
+
 // Session REST API — mobile app / dashboard consumption
 app.get("/sessions", async (c) => {
   const status = c.req.query("status") as
@@ -161,11 +322,251 @@ app.post("/sessions/:id/answer", async (c) => {
   if (!session) return c.json({ error: "Session not found" }, 404);
   if (!session.actorId) return c.json({ error: "Session has no actor" }, 400);
 
+  // Typing into the pane would interleave with the operator's input
+  const lock = takeovers.get(sessionId);
+  if (lock) return c.json({ error: `Session is taken over by ${lock.operator}`, since: lock.acquiredAt }, 409);
+
   const actor = getOrCreateActor(session.actorId);
   const result = await actor.injectAnswer({ answerText: body.answerText });
   return c.json(result, result.ok ? 200 : 400);
 });
 
+const CreateCheckpointBodySchema = z.object({
+  type: z.enum(CHECKPOINT_TYPES).default("manual"),
+  summary: z.string().min(1).max(500).optional(),
+});
+
+// Snapshot a live session's worktree (the session hook calls this before `git commit`)
+app.post("/sessions/:id/checkpoints", async (c) => {
+  const sessionId = c.req.param("id");
+  const parsed = CreateCheckpointBodySchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") }, 400);
+  }
+
+  const session = await getSession(sessionId);
+  if (!session) return c.json({ error: "Session not found" }, 404);
+  if (!session.actorId) return c.json({ error: "Session has no actor" }, 400);
+
+  const actor = getOrCreateActor(session.actorId);
+  if (actor.getStatus().state?.sessionId !== sessionId) {
+    return c.json({ error: "Session is not active on this pod" }, 409);
+  }
+
+  const { type, summary } = parsed.data;
+  const checkpoint = await actor.createPreActionCheckpoint(type, summary ?? `${type} checkpoint`, pool);
+  if (!checkpoint) return c.json({ error: "Failed to create checkpoint" }, 500);
+  return c.json({ checkpoint }, 201);
+});
+
+const RollbackBodySchema = z.object({
+  checkpointId: z.number().int().positive().optional(),
+  checkpointType: z.enum(CHECKPOINT_TYPES).optional(),
+  guidance: z.string().optional(),
+});
+
+// Rewind a session's worktree to a checkpoint and restart Claude from there
+app.post("/sessions/:id/rollback", async (c) => {
+  const sessionId = c.req.param("id");
+  const parsed = RollbackBodySchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") }, 400);
+  }
+  const body = parsed.data;
+
+  const session = await getSession(sessionId);
+  if (!session) return c.json({ error: "Session not found" }, 404);
+  if (!session.actorId) return c.json({ error: "Session has no actor" }, 400);
+
+  const actor = getOrCreateActor(session.actorId);
+  if (actor.getStatus().state?.sessionId !== sessionId) {
+    return c.json({ error: "Session is not active on this pod" }, 409);
+  }
+
+  const checkpoint = body.checkpointId !== undefined
+    ? await getCheckpoint(pool, sessionId, body.checkpointId)
+    : await getLatestRestorableCheckpoint(pool, sessionId, body.checkpointType);
+  if (!checkpoint) return c.json({ error: "Checkpoint not found" }, 404);
+  if (!checkpoint.gitSnapshot) {
+    return c.json({ error: `Checkpoint ${checkpoint.id} has no git snapshot to roll back to` }, 400);
+  }
+
+  // A restart would run an unpaused monitor under the operator's pane
+  const lock = takeovers.get(sessionId);
+  if (lock) return c.json({ error: `Session is taken over by ${lock.operator}`, since: lock.acquiredAt }, 409);
+
+  // A session that already finished gave its slot back; it needs one to restart
+  const admitted = await admission.acquire(sessionId);
+  if (!admitted.admitted) {
+    c.header("Retry-After", String(Math.ceil(admitted.retryAfterMs / 1000)));
+    return c.json({ error: admitted.message, reason: admitted.reason }, 503);
+  }
+
+  const previous = activeMonitors.get(sessionId);
+  previous?.stop();
+  activeMonitors.delete(sessionId);
+
+  const result = await actor.rollbackToCheckpoint(checkpoint, { guidance: body.guidance }, pool);
+  if (!result.ok) {
+    admission.release(sessionId);
+    return c.json(result, 500);
+  }
+
+  // A finished session's task already has its result, so the restarted run reports none
+  startMonitor(sessionId, previous?.taskId, actor);
+  return c.json({ ...result, checkpointId: checkpoint.id });
+});
+
+// Startup dialog rules — list with hit counts, approve learned candidates,
+// retire stale rules (see DialogRuleRegistry in @mesh-six/core). An active
+// rule's keys are typed into every session, so changes need an operator token.
+app.get("/dialog-rules", (c) => {
+  const status = c.req.query("status") as DialogRuleStatus | undefined;
+  return c.json({ rules: dialogRules.list(status) });
+});
+
+async function setDialogRuleStatus(c: Context, status: DialogRuleStatus, edits: DialogRuleEdits = {}) {
+  const operator = authenticateOperator(bearerToken(c.req.header("Authorization")), operatorTokens);
+  if (!operator) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const rule = await dialogRules.setStatus(c.req.param("id")!, status, edits);
+    console.log(`[${AGENT_ID}] Dialog rule ${rule.id} is now ${status} (by ${operator})`);
+    return c.json({ rule });
+  } catch (err) {
+    if (err instanceof DialogRuleError) {
+      return c.json({ error: err.message }, err.message.startsWith("Unknown") ? 404 : 400);
+    }
+    throw err;
+  }
+}
+
+app.post("/dialog-rules/:id/approve", async (c) => {
+  const body = await c.req.json().catch(() => ({})) as DialogRuleEdits;
+  return setDialogRuleStatus(c, "active", {
+    pattern: body.pattern,
+    flags: body.flags,
+    keys: body.keys,
+    reason: body.reason,
+  });
+});
+
+app.post("/dialog-rules/:id/retire", (c) => setDialogRuleStatus(c, "retired"));
+
+// Interactive takeover — an operator drives the tmux pane over a WebSocket
+// while the session monitor is paused (see takeover.ts)
+app.get("/sessions/:id/takeover", (c) => {
+  const lock = takeovers.get(c.req.param("id"));
+  if (!lock) return c.json({ active: false });
+  return c.json({ active: true, operator: lock.operator, acquiredAt: lock.acquiredAt, lastInputAt: new Date(lock.lastInputAt).toISOString() });
+});
+
+app.post("/sessions/:id/takeover", async (c) => {
+  const sessionId = c.req.param("id");
+  const operator = authenticateOperator(bearerToken(c.req.header("Authorization")), operatorTokens);
+  if (!operator) return c.json({ error: "Unauthorized" }, 401);
+
+  const session = await getSession(sessionId);
+  if (!session) return c.json({ error: "Session not found" }, 404);
+  const state = session.actorId ? getOrCreateActor(session.actorId).getStatus().state : null;
+  if (state?.sessionId !== sessionId) return c.json({ error: "Session is not active on this pod" }, 409);
+
+  const result = takeovers.acquire(sessionId, operator, state.tmuxSessionName);
+  if (!result.ok) {
+    return c.json({ error: `Session is already taken over by ${result.heldBy}`, since: result.since }, 409);
+  }
+
+  activeMonitors.get(sessionId)?.pause();
+  await insertActivityLog({
+    sessionId,
+    eventType: "takeover_started",
+    detailsJson: { operator },
+  }).catch((err) => console.error(`[${AGENT_ID}] Failed to log takeover for ${sessionId}:`, err));
+
+  // Output for the socket comes from the pane stream
+  if (!isStreamActive(sessionId)) {
+    await startPaneStream(sessionId, state.tmuxSessionName, daprClient, pool).catch((err) =>
+      console.error(`[${AGENT_ID}] Failed to start pane stream for takeover of ${sessionId}:`, err)
+    );
+  }
+
+  return c.json({
+    sessionId,
+    operator,
+    token: result.lock.token,
+    acquiredAt: result.lock.acquiredAt,
+    websocketPath: `/sessions/${sessionId}/takeover/ws`,
+  });
+});
+
+app.get(
+  "/sessions/:id/takeover/ws",
+  async (c, next) => {
+    // Browsers cannot set headers on WebSocket requests, so the lock token may come as ?token=
+    const token = bearerToken(c.req.header("Authorization")) ?? c.req.query("token");
+    if (!takeovers.verify(c.req.param("id"), token)) return c.json({ error: "Unauthorized" }, 401);
+    await next();
+  },
+  upgradeWebSocket((c) => {
+    const sessionId = c.req.param("id")!;
+    let unsubscribe: (() => void) | null = null;
+    let socket: WSContext | null = null;
+
+    return {
+      onOpen(_evt, ws) {
+        const lock = takeovers.get(sessionId);
+        if (!lock) return ws.close(4409, "takeover released");
+        socket = ws;
+        addTakeoverSocket(sessionId, ws);
+
+        unsubscribe = onPaneOutput(sessionId, (data) => ws.send(JSON.stringify({ type: "output", data })));
+        capturePane(lock.tmuxSessionName, 200)
+          .then((screen) => ws.send(JSON.stringify({ type: "snapshot", data: screen })))
+          .catch(() => {});
+      },
+      async onMessage(evt, ws) {
+        const lock = takeovers.get(sessionId);
+        if (!lock) return ws.close(4409, "takeover released");
+
+        let message: { type?: string; data?: string; note?: string };
+        try {
+          message = JSON.parse(String(evt.data));
+        } catch {
+          return ws.send(JSON.stringify({ type: "error", error: "Messages must be JSON" }));
+        }
+
+        if (message.type === "input" && typeof message.data === "string") {
+          takeovers.touch(sessionId);
+          await sendLiteral(lock.tmuxSessionName, message.data).catch((err) =>
+            ws.send(JSON.stringify({ type: "error", error: String(err) }))
+          );
+          await insertActivityLog({
+            sessionId,
+            eventType: "takeover_input",
+            detailsJson: { operator: lock.operator, data: message.data },
+          }).catch((err) => console.error(`[${AGENT_ID}] Failed to log takeover input for ${sessionId}:`, err));
+        } else if (message.type === "release") {
+          await endTakeover(sessionId, message.note, "released");
+        }
+      },
+      onClose() {
+        unsubscribe?.();
+        if (socket) takeoverSockets.get(sessionId)?.delete(socket);
+      },
+    };
+  })
+);
+
+app.post("/sessions/:id/takeover/release", async (c) => {
+  const sessionId = c.req.param("id");
+  if (!takeovers.verify(sessionId, bearerToken(c.req.header("Authorization")))) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const body = await c.req.json().catch(() => ({})) as { note?: string };
+  const lock = await endTakeover(sessionId, body.note, "released");
+  return c.json({ ok: true, operator: lock?.operator });
+});
+
 // Direct invocation endpoint — for synchronous calls (e.g., actor status queries)
 app.post("/invoke", async (c) => {
   const body = await c.req.json() as {
@@ -235,11 +636,93 @@ app.put("/actors/:actorType/:actorId/method/:methodName", async (c) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// Takeover handoff
+// ---------------------------------------------------------------------------
+
+/** Open takeover sockets per session, closed when control is handed back */
+const takeoverSockets = new Map<string, Set<WSContext>>();
+
+function addTakeoverSocket(sessionId: string, ws: WSContext): void {
+  let sockets = takeoverSockets.get(sessionId);
+  if (!sockets) {
+    sockets = new Set();
+    takeoverSockets.set(sessionId, sockets);
+  }
+  sockets.add(ws);
+}
+
+/**
+ * Release a takeover: inject the handoff note into the session, log it and
+ * resume the monitor. Returns the released lock, or null if none was held.
+ */
+async function endTakeover(
+  sessionId: string,
+  note: string | undefined,
+  reason: "released" | "idle_timeout"
+): Promise<TakeoverLock | null> {
+  const lock = takeovers.release(sessionId);
+  if (!lock) return null;
+
+  const handoff = note?.trim()
+    ? `Operator ${lock.operator} is handing control back: ${note.trim()}`
+    : `Operator ${lock.operator} has handed control back (${reason === "idle_timeout" ? "idle timeout" : "no note"}). Continue the task.`;
+  await sendCommand(lock.tmuxSessionName, handoff).catch((err) =>
+    console.error(`[${AGENT_ID}] Failed to inject handoff note for ${sessionId}:`, err)
+  );
+
+  await insertActivityLog({
+    sessionId,
+    eventType: "takeover_released",
+    detailsJson: {
+      operator: lock.operator,
+      reason,
+      note: note?.trim() || undefined,
+      durationMs: Date.now() - Date.parse(lock.acquiredAt),
+    },
+  }).catch((err) => console.error(`[${AGENT_ID}] Failed to log takeover release for ${sessionId}:`, err));
+
+  activeMonitors.get(sessionId)?.resume();
+  for (const ws of takeoverSockets.get(sessionId) ?? []) {
+    ws.close(1000, "takeover released");
+  }
+  takeoverSockets.delete(sessionId);
+
+  console.log(`[${AGENT_ID}] Takeover of ${sessionId} by ${lock.operator} ended (${reason})`);
+  return lock;
+}
+
 // ---------------------------------------------------------------------------
 // Core task handler
 // ---------------------------------------------------------------------------
 
 async function handleTask(task: TaskRequest): Promise<void> {
+  const token = cancellations.begin(task.id);
+  // Renews the orchestrator's lease while the session starts and runs
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID, { maxLeaseMs: SESSION_MAX_RUNTIME_MS });
+  const finish = () => {
+    stopProgress();
+    cancellations.end(task.id);
+  };
+
+  let monitoring = false;
+  try {
+    const started = await startTask(task, finish);
+    monitoring = started !== null;
+    // Cancelled while the session was starting
+    if (started && token.cancelled) {
+      await cancelSession(started.sessionId, started.monitor, token.reason ?? "cancelled");
+    }
+  } finally {
+    if (!monitoring) finish();
+  }
+}
+
+/** Activate the actor and start the session. Returns null if no monitor owns the task. */
+async function startTask(
+  task: TaskRequest,
+  onFinished: () => void
+): Promise<{ sessionId: string; monitor: SessionMonitor } | null> {
   const startTime = Date.now();
 
   const payload = task.payload as {
@@ -263,7 +746,7 @@ async function handleTask(task: TaskRequest): Promise<void> {
       completedAt: new Date().toISOString(),
     };
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
-    return;
+    return null;
   }
 
   const actorId = `${repoOwner}-${repoName}-${issueNumber}`;
@@ -295,12 +778,15 @@ async function handleTask(task: TaskRequest): Promise<void> {
       taskId: task.id,
       agentId: AGENT_ID,
       success: false,
-      error: { type: "activation_failed", message: activateResult.error ?? "Actor activation failed" },
+      error: {
+        type: activateResult.retryable ? "at_capacity" : "activation_failed",
+        message: activateResult.error ?? "Actor activation failed",
+      },
       durationMs: Date.now() - startTime,
       completedAt: new Date().toISOString(),
     };
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
-    return;
+    return null;
   }
 
   // Start the implementation session
@@ -315,30 +801,57 @@ async function handleTask(task: TaskRequest): Promise<void> {
       completedAt: new Date().toISOString(),
     };
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
-    return;
+    return null;
   }
 
-  // Start session monitor
-  const actorState = actor.getStatus().state!;
+  const monitor = startMonitor(sessionId, task.id, actor, onFinished);
+
+  console.log(`[${AGENT_ID}] Session ${sessionId} started for task ${task.id}`);
+  return { sessionId, monitor };
+}
+
+function startMonitor(
+  sessionId: string,
+  taskId: string | undefined,
+  actor: ImplementerActor,
+  onFinished?: () => void
+): SessionMonitor {
   const monitor = new SessionMonitor({
     sessionId,
-    taskId: task.id,
-    actorState,
+    taskId,
+    actorState: actor.getStatus().state!,
     daprClient,
     pool,
-    onComplete: (_result) => {
+    onComplete: () => {
       activeMonitors.delete(sessionId);
+      admission.release(sessionId);
+      taskFinishers.get(sessionId)?.();
+      taskFinishers.delete(sessionId);
     },
+    reprovision: (problem) => actor.reprovisionCredentials(problem),
   });
 
+  if (onFinished) taskFinishers.set(sessionId, onFinished);
   activeMonitors.set(sessionId, monitor);
   monitor.start();
+  return monitor;
+}
 
-  console.log(`[${AGENT_ID}] Session ${sessionId} started for task ${task.id}`);
+/** End a cancelled task's session and kill its tmux session. */
+async function cancelSession(sessionId: string, monitor: SessionMonitor, reason: string): Promise<void> {
+  try {
+    await monitor.cancel(reason);
+    const session = await getSession(sessionId);
+    if (session?.actorId) await getOrCreateActor(session.actorId).onDeactivate();
+    console.log(`[${AGENT_ID}] Session ${sessionId} cancelled: ${reason}`);
+  } catch (err) {
+    console.error(`[${AGENT_ID}] Failed to cancel session ${sessionId}:`, err);
+  }
 }
 
 // --- Lifecycle ---
 let heartbeatInterval: Timer | null = null;
+let takeoverSweepInterval: Timer | null = null;
 
 async function start(): Promise<void> {
   // Recover any sessions left in running/blocked state from a previous pod lifecycle
@@ -350,12 +863,26 @@ async function start(): Promise<void> {
   heartbeatInterval = setInterval(async () => {
     try {
       await registry.heartbeat(AGENT_ID);
+      // Slot usage and disk headroom let the PM hold work or steer it to pods with free slots
+      await admission.sample();
+      await registry.reportInstance(AGENT_ID, POD_NAME, admission.snapshot());
     } catch (err) {
       console.error(`[${AGENT_ID}] Heartbeat failed:`, err);
     }
   }, 30_000);
 
-  Bun.serve({ port: APP_PORT, fetch: app.fetch });
+  await dialogRules.start(DIALOG_RULES_RELOAD_MS);
+
+  // Hand idle takeovers back to Claude
+  takeoverSweepInterval = setInterval(() => {
+    for (const lock of takeovers.expired()) {
+      endTakeover(lock.sessionId, undefined, "idle_timeout").catch((err) =>
+        console.error(`[${AGENT_ID}] Failed to expire takeover of ${lock.sessionId}:`, err)
+      );
+    }
+  }, 30_000);
+
+  Bun.serve({ port: APP_PORT, fetch: app.fetch, websocket });
   console.log(`[${AGENT_ID}] Listening on port ${APP_PORT}`);
 }
 
@@ -375,8 +902,13 @@ async function shutdown(): Promise<void> {
   if (heartbeatInterval) {
     clearInterval(heartbeatInterval);
   }
+  if (takeoverSweepInterval) {
+    clearInterval(takeoverSweepInterval);
+  }
+  await dialogRules.stop();
 
   try {
+    await registry.removeInstance(AGENT_ID, POD_NAME);
     await registry.markOffline(AGENT_ID);
   } catch (err) {
     console.error(`[${AGENT_ID}] Failed to mark offline:`, err);
@@ -0,0 +1,115 @@
+import { describe, test, expect, mock } from "bun:test";
+import type { DaprClient } from "@dapr/dapr";
+import type pg from "pg";
+import type { SessionHookEvent } from "@mesh-six/core";
+
+// The monitor writes session state to Postgres and snapshots the pane; stub both
+const statusUpdates: string[] = [];
+const sessionDb = await import("./session-db.js");
+mock.module("./session-db.js", () => ({
+  ...sessionDb,
+  updateSessionStatus: async (_id: string, status: string) => {
+    statusUpdates.push(status);
+  },
+  insertActivityLog: async () => {},
+  insertQuestion: async () => ({ id: 1 }),
+  insertToolCall: async () => {},
+  updateClaudeSessionId: async () => {},
+}));
+const tmux = await import("./tmux.js");
+mock.module("./tmux.js", () => ({
+  ...tmux,
+  capturePane: async () => {
+    throw new Error("no tmux in tests");
+  },
+}));
+
+const { SessionMonitor } = await import("./monitor.js");
+
+function monitor(reprovision = async (_problem: string) => true) {
+  statusUpdates.length = 0;
+  const results: boolean[] = [];
+  const m = new SessionMonitor({
+    sessionId: "s1",
+    taskId: "t1",
+    actorState: {
+      sessionId: "s1",
+      issueNumber: 1,
+      repoOwner: "o",
+      repoName: "r",
+      tmuxSessionName: "impl-s1",
+      worktreeDir: "/tmp/wt",
+      status: "running",
+      authProjectId: "p",
+    },
+    daprClient: { pubsub: { publish: async () => {} } } as unknown as DaprClient,
+    pool: {} as pg.Pool,
+    onComplete: (success) => results.push(success),
+    reprovision,
+  });
+  return { m, results };
+}
+
+function hook(hookEvent: string, extra: Partial<SessionHookEvent> = {}): SessionHookEvent {
+  return { sessionId: "s1", hookEvent, timestamp: new Date().toISOString(), ...extra };
+}
+
+describe("SessionMonitor takeover", () => {
+  test("a completion reported during a takeover is applied on resume", async () => {
+    const { m, results } = monitor();
+    m.pause();
+    await m.handleHookEvent(hook("Stop", { lastAssistantMessage: "Done." }));
+    expect(results).toHaveLength(0);
+
+    await m.resume();
+    expect(results).toHaveLength(1);
+    expect(results[0]).toBe(true);
+    expect(statusUpdates).toEqual(["completed"]);
+  });
+
+  test("the latest outcome wins", async () => {
+    const { m, results } = monitor();
+    m.pause();
+    await m.handleHookEvent(hook("Stop", { lastAssistantMessage: "Should I continue?" }));
+    await m.handleHookEvent(hook("SessionEnd", { reason: "other" }));
+
+    await m.resume();
+    expect(results[0]).toBe(false);
+    expect(statusUpdates).toEqual(["failed"]);
+  });
+
+  test("tool use after a deferred question drops it", async () => {
+    const { m, results } = monitor();
+    m.pause();
+    await m.handleHookEvent(hook("Stop", { lastAssistantMessage: "Which branch?" }));
+    await m.handleHookEvent(hook("PreToolUse", { toolName: "Bash", toolUseId: "tu1" }));
+
+    await m.resume();
+    expect(results).toHaveLength(0);
+    expect(statusUpdates).toEqual([]);
+    m.stop();
+  });
+});
+
+describe("SessionMonitor credential problems", () => {
+  test("a rate-limit API error re-provisions instead of completing", async () => {
+    const problems: string[] = [];
+    const { m, results } = monitor(async (problem) => {
+      problems.push(problem);
+      return true;
+    });
+    await m.handleHookEvent(hook("Stop", { lastAssistantMessage: "Claude AI usage limit reached|1767225600", apiError: true }));
+
+    expect(problems).toEqual(["rate_limited"]);
+    expect(results).toHaveLength(0);
+    m.stop();
+  });
+
+  test("fails the session when no other member is available", async () => {
+    const { m, results } = monitor(async () => false);
+    await m.handleHookEvent(hook("Stop", { lastAssistantMessage: "API Error: 429 Too Many Requests", apiError: true }));
+
+    expect(results).toEqual([false]);
+    expect(statusUpdates).toEqual(["failed"]);
+  });
+});
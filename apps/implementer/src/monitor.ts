@@ -1,36 +1,44 @@
 /**
- * Session monitor — periodically captures tmux pane output and detects:
- * - Auth failures → re-provision from auth-service
+ * Session monitor — drives session state from Claude CLI hook events
+ * (see hook-events.ts) and periodically captures tmux pane output:
+ * - Auth failures and rate limits → report to auth-service's credential pool and re-provision
  * - Questions → insert into session_questions, publish session-blocked event
  * - Completion → update session status, publish task result
  * - MQTT events → real-time dashboard updates
+ *
+ * Question and completion detection from pane text is a fallback used only
+ * until the first hook event arrives for the session. After that, a returned
+ * shell prompt or an idle timeout still ends the session in case a hook event
+ * was lost.
  */
 import { DaprClient } from "@dapr/dapr";
 import pg from "pg";
 import {
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
-  AUTH_SERVICE_APP_ID,
-  detectAuthFailure,
+  type CredentialProblemReport,
   type TaskResult,
+  type SessionHookEvent,
 } from "@mesh-six/core";
-import { DAPR_HOST, DAPR_HTTP_PORT, AGENT_ID } from "./config.js";
+import { DAPR_HOST, DAPR_HTTP_PORT, AGENT_ID, SESSION_IDLE_TIMEOUT_MS } from "./config.js";
 import { capturePane } from "./tmux.js";
 import {
   updateSessionStatus,
   insertActivityLog,
   insertQuestion,
   updateClaudeSessionId,
+  insertToolCall,
 } from "./session-db.js";
 import type { ActorState } from "./actor.js";
 import { takeSnapshot } from "./terminal-relay.js";
+import { classifyHookEvent, credentialProblem, type HookTransition } from "./hook-events.js";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}][monitor] ${msg}`);
 
 const MONITOR_INTERVAL_MS = 5_000;
 
-// Question detection pattern — matches lines ending with "?" that look like
-// Claude asking for clarification.
+// Fallback question detection (no hook events) — matches lines ending with
+// "?" that look like Claude asking for clarification.
 const QUESTION_PATTERN = /(?:^|\n)(?:Claude|Assistant)?:?\s*([^.!]+\?\s*)$/im;
 
 // Claude CLI session ID patterns emitted at startup or resume.
@@ -42,13 +50,23 @@ const CLAUDE_SESSION_ID_PATTERNS = [
   /--resume\s+([a-zA-Z0-9_-]{8,})/im,
 ];
 
-// Completion detection — Claude CLI exits and prints a summary line.
+/** Hook transitions that settle or block the session */
+type SessionOutcome = Extract<HookTransition, { type: "question" | "completed" | "failed" }>;
+
+// Shell prompt returned — the CLI process exited
+const SHELL_PROMPT_PATTERN = /\$ $/;
+
+// Pane lines above a returned shell prompt: the CLI's own output as it exited
+const EXIT_OUTPUT_LINES = 5;
+
+// Fallback completion detection (no hook events) — Claude CLI exits and
+// prints a summary line.
 const COMPLETION_PATTERNS = [
   /Task completed successfully/i,
   /I've completed the implementation/i,
   /The implementation is complete/i,
   /All changes have been made/i,
-  /\$ $/, // Shell prompt returned — process exited
+  SHELL_PROMPT_PATTERN,
 ];
 
 // ---------------------------------------------------------------------------
@@ -57,11 +75,14 @@ const COMPLETION_PATTERNS = [
 
 export interface MonitorContext {
   sessionId: string;
-  taskId: string;
+  /** Unset when a rollback restarts a finished session; its task already has a result */
+  taskId?: string;
   actorState: ActorState;
   daprClient: DaprClient;
   pool: pg.Pool;
-  onComplete: (result: TaskResult) => void;
+  onComplete: (success: boolean) => void;
+  /** Report the credential problem and switch the session to another pool member */
+  reprovision: (problem: CredentialProblemReport["problem"]) => Promise<boolean>;
 }
 
 export class SessionMonitor {
@@ -70,11 +91,63 @@ export class SessionMonitor {
   private lastCaptureHash = "";
   private questionDetected = false;
   private claudeSessionIdCaptured = false;
+  /** Bundle whose rate limit / auth failure was already reported */
+  private credentialProblemBundleId: string | undefined | null = null;
+  /** Set by the first hook event; disables pane-text question/completion detection (exit and idle checks stay on) */
+  private hookDriven = false;
+  private finished = false;
+  /** Set when the orchestrator cancelled the task; it settles the task itself */
+  private cancelled = false;
+  /** Set while an operator has taken over the terminal; detection is suspended */
+  private paused = false;
+  /** Latest question/completion/failure reported during a takeover, applied on resume */
+  private deferredOutcome: SessionOutcome | null = null;
+  /** PreToolUse timestamps by tool_use_id, for tool call durations */
+  private toolStarts = new Map<string, number>();
+  /** Last hook event or pane change, for the idle timeout */
+  private lastActivityAt = Date.now();
 
   constructor(ctx: MonitorContext) {
     this.ctx = ctx;
   }
 
+  get taskId(): string | undefined {
+    return this.ctx.taskId;
+  }
+
+  /** Suspend question/completion detection while a human drives the pane. */
+  pause(): void {
+    this.paused = true;
+    log(`Paused monitor for session ${this.ctx.sessionId}`);
+  }
+
+  /**
+   * Resume detection after a takeover. An outcome the CLI reported while the
+   * operator held the pane is applied now; without one, the next tick
+   * re-checks the pane.
+   */
+  resume(): Promise<void> {
+    this.paused = false;
+    // Re-evaluate the pane on the next tick even if it looks unchanged
+    this.lastCaptureHash = "";
+    this.lastActivityAt = Date.now();
+    log(`Resumed monitor for session ${this.ctx.sessionId}`);
+
+    const outcome = this.deferredOutcome;
+    this.deferredOutcome = null;
+    if (!outcome || this.finished) return Promise.resolve();
+    log(`Applying ${outcome.type} reported during the takeover of session ${this.ctx.sessionId}`);
+    return this.applyOutcome(outcome)
+      .then(() => undefined)
+      .catch((err) => log(`Failed to apply deferred ${outcome.type}: ${err}`));
+  }
+
+  /** End the session of a cancelled task without publishing a task result. */
+  async cancel(reason: string): Promise<void> {
+    this.cancelled = true;
+    await this.handleCompletion(false, `Cancelled: ${reason}`);
+  }
+
   start(): void {
     if (this.timer) return;
     log(`Starting monitor for session ${this.ctx.sessionId}`);
@@ -94,6 +167,8 @@ export class SessionMonitor {
   }
 
   private async tick(): Promise<void> {
+    if (this.paused) return;
+
     const { actorState, sessionId, taskId, daprClient } = this.ctx;
     const { tmuxSessionName } = actorState;
 
@@ -109,126 +184,282 @@ export class SessionMonitor {
 
     // Skip if output unchanged
     const hash = simpleHash(paneText);
-    if (hash === this.lastCaptureHash) return;
+    if (hash === this.lastCaptureHash) {
+      await this.checkIdle();
+      return;
+    }
     this.lastCaptureHash = hash;
+    this.lastActivityAt = Date.now();
 
     // --- Claude session ID capture ---
     if (!this.claudeSessionIdCaptured) {
       for (const pattern of CLAUDE_SESSION_ID_PATTERNS) {
         const match = pattern.exec(paneText);
         if (match) {
-          const claudeSessionId = match[1];
-          this.claudeSessionIdCaptured = true;
-          log(`Captured claude_session_id for session ${sessionId}: ${claudeSessionId}`);
-          await updateClaudeSessionId(sessionId, claudeSessionId).catch((err) =>
-            log(`Failed to persist claude_session_id: ${err}`)
-          );
-          await insertActivityLog({
-            sessionId,
-            eventType: "claude_session_id_captured",
-            detailsJson: { claudeSessionId },
-          }).catch(() => {});
+          await this.captureClaudeSessionId(match[1]);
           break;
         }
       }
     }
 
-    // --- Auth failure detection ---
-    if (detectAuthFailure(paneText)) {
-      log(`Auth failure detected in session ${sessionId}, re-provisioning`);
-      await insertActivityLog({
-        sessionId,
-        eventType: "auth_failure_detected",
-        detailsJson: { paneSnippet: paneText.slice(-500) },
-      });
+    // --- Rate limit / auth failure in the CLI's exit output (no hook events yet) ---
+    // Only the lines the CLI printed as it exited: tool output elsewhere in
+    // the pane may quote rate-limit or login errors of its own
+    if (!this.hookDriven && SHELL_PROMPT_PATTERN.test(paneText)) {
+      const exitOutput = paneText.trimEnd().split("\n").slice(-EXIT_OUTPUT_LINES - 1, -1).join("\n");
+      const problem = credentialProblem(exitOutput);
+      if (problem && (await this.handleCredentialProblem(problem, exitOutput))) return;
+    }
+
+    // --- Pane-based completion / question detection (no hook events yet) ---
+    if (!this.hookDriven) {
+      for (const pattern of COMPLETION_PATTERNS) {
+        if (pattern.test(paneText)) {
+          log(`Completion detected in session ${sessionId} (pane fallback)`);
+          await this.handleCompletion(true);
+          return;
+        }
+      }
 
-      const ok = await this.reprovisionsCredentials();
-      if (!ok) {
-        await this.handleCompletion(false, "Authentication failed and re-provision failed");
+      if (!this.questionDetected) {
+        const questionMatch = QUESTION_PATTERN.exec(paneText);
+        if (questionMatch) {
+          await this.handleQuestion(questionMatch[1].trim(), "pane");
+          return;
+        }
       }
+    } else if (!this.questionDetected && SHELL_PROMPT_PATTERN.test(paneText)) {
+      // The hook script swallows publish errors, so Stop/SessionEnd can be lost
+      log(`CLI exited in session ${sessionId} without a completion hook event (pane fallback)`);
+      await this.handleCompletion(true);
       return;
     }
 
-    // --- Completion detection ---
-    for (const pattern of COMPLETION_PATTERNS) {
-      if (pattern.test(paneText)) {
-        log(`Completion detected in session ${sessionId}`);
-        await this.handleCompletion(true);
-        return;
-      }
+    if (this.questionDetected && actorState.answerInjected) {
+      await this.resumeAfterAnswer();
+    }
+
+    // Publish MQTT event for dashboard progress
+    await this.publishMqttEvent("session_progress", {
+      sessionId,
+      paneSnippet: paneText.slice(-200),
+    }).catch(() => {});
+  }
+
+  /**
+   * Apply a Claude CLI hook event published by the session hook script.
+   */
+  async handleHookEvent(event: SessionHookEvent): Promise<void> {
+    if (this.finished) return;
+    const { sessionId } = this.ctx;
+    this.lastActivityAt = Date.now();
+
+    if (!this.hookDriven) {
+      this.hookDriven = true;
+      log(`Hook events active for session ${sessionId} — pane detection is now fallback-only`);
     }
 
-    // --- Question detection ---
-    if (!this.questionDetected) {
-      // Check if a previous answer was injected — reset if so
-      if (actorState.answerInjected) {
-        actorState.answerInjected = false;
+    for (const transition of classifyHookEvent(event)) {
+      if (this.paused) {
+        // The operator may still resolve it; the latest outcome is applied when they hand back
+        if (transition.type === "question" || transition.type === "completed" || transition.type === "failed") {
+          log(`Deferring ${transition.type} until the takeover of session ${sessionId} ends`);
+          this.deferredOutcome = transition;
+          continue;
+        }
+        // The CLI is working again, so an earlier stop or question no longer stands
+        if (transition.type === "tool_started") this.deferredOutcome = null;
       }
 
-      const questionMatch = QUESTION_PATTERN.exec(paneText);
-      if (questionMatch) {
-        const questionText = questionMatch[1].trim();
-        log(`Question detected in session ${sessionId}: ${questionText}`);
-        this.questionDetected = true;
+      switch (transition.type) {
+        case "claude_session":
+          if (!this.claudeSessionIdCaptured) {
+            await this.captureClaudeSessionId(transition.claudeSessionId);
+          }
+          break;
 
-        await updateSessionStatus(sessionId, "blocked");
-        const question = await insertQuestion({ sessionId, questionText });
+        case "tool_started":
+          if (transition.toolUseId) this.toolStarts.set(transition.toolUseId, Date.parse(event.timestamp));
+          // Tool use means the CLI is working again after a permission/idle prompt
+          if (this.questionDetected) await this.resumeAfterAnswer();
+          break;
 
-        await insertActivityLog({
-          sessionId,
-          eventType: "question_detected",
-          detailsJson: { questionId: question.id, questionText },
-        });
-
-        // Fire-and-forget terminal snapshot
-        await takeSnapshot(sessionId, tmuxSessionName, "session_blocked", this.ctx.pool, daprClient).catch(() => {});
-
-        // Raise event on workflow instance via Dapr HTTP API
-        const { workflowId } = actorState;
-        if (workflowId) {
-          const eventChannel = this.getEventChannel();
-          const eventUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0-alpha1/workflows/dapr/${workflowId}/raiseEvent/${eventChannel}`;
-          await fetch(eventUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              type: "question-detected",
-              questionText,
-              sessionId,
-            }),
-          }).catch((err) => log(`Failed to raise event on workflow ${workflowId}: ${err}`));
-
-          log(`Raised ${eventChannel} event on workflow ${workflowId}`);
-        } else {
-          log(`No workflowId — falling back to pub/sub for session ${sessionId}`);
-          await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, "session-blocked", {
+        case "tool_finished": {
+          const startedAt = transition.toolUseId ? this.toolStarts.get(transition.toolUseId) : undefined;
+          if (transition.toolUseId) this.toolStarts.delete(transition.toolUseId);
+          await insertToolCall({
             sessionId,
-            taskId,
-            questionId: question.id,
-            questionText,
-            issueNumber: actorState.issueNumber,
-            repoOwner: actorState.repoOwner,
-            repoName: actorState.repoName,
-            timestamp: new Date().toISOString(),
-          });
+            toolName: transition.toolName,
+            inputJson: transition.input,
+            outputJson: transition.output,
+            durationMs: startedAt ? Date.parse(event.timestamp) - startedAt : undefined,
+          }).catch((err) => log(`Failed to record tool call: ${err}`));
+          break;
         }
-        return;
+
+        case "question":
+        case "completed":
+        case "failed":
+          if (await this.applyOutcome(transition)) return;
+          break;
+
+        case "credential_problem":
+          await this.handleCredentialProblem(transition.problem, transition.message);
+          return;
       }
-    } else if (actorState.answerInjected) {
-      // Answer was injected, reset question detection for next question
-      this.questionDetected = false;
-      actorState.answerInjected = false;
-      await updateSessionStatus(sessionId, "running");
-      log(`Question detection reset after answer injection for session ${sessionId}`);
     }
+  }
 
-    // Publish MQTT event for dashboard progress
-    await this.publishMqttEvent("session_progress", {
+  /** Apply a question/completion/failure. Returns true when the session ended. */
+  private async applyOutcome(outcome: SessionOutcome): Promise<boolean> {
+    const { sessionId } = this.ctx;
+    switch (outcome.type) {
+      case "question":
+        if (!this.questionDetected) {
+          await this.handleQuestion(outcome.questionText, outcome.source);
+        }
+        return false;
+
+      case "completed":
+        log(`Completion reported by Stop hook for session ${sessionId}`);
+        await this.handleCompletion(true);
+        return true;
+
+      case "failed":
+        // A -p run exits right after asking; the session stays blocked on the question
+        if (this.questionDetected) {
+          log(`CLI exited while session ${sessionId} awaits an answer`);
+          return false;
+        }
+        await this.handleCompletion(false, outcome.error);
+        return true;
+    }
+  }
+
+  /**
+   * Report a rate limit or auth failure and re-provision from another pool
+   * member, failing the session if none is available. The message stays in
+   * the pane after re-provisioning, so it is handled once per bundle.
+   * Returns false when it was already handled for the current bundle.
+   */
+  private async handleCredentialProblem(problem: CredentialProblemReport["problem"], message: string): Promise<boolean> {
+    const { sessionId, actorState } = this.ctx;
+    if (actorState.credentialBundleId === this.credentialProblemBundleId) return false;
+    this.credentialProblemBundleId = actorState.credentialBundleId;
+
+    log(`${problem === "rate_limited" ? "Rate limit" : "Auth failure"} detected in session ${sessionId}, re-provisioning`);
+    await insertActivityLog({
       sessionId,
-      paneSnippet: paneText.slice(-200),
+      eventType: problem === "rate_limited" ? "rate_limit_detected" : "auth_failure_detected",
+      detailsJson: { bundleId: actorState.credentialBundleId, message: message.slice(-500) },
+    });
+
+    const ok = await this.ctx.reprovision(problem);
+    if (!ok) {
+      await this.handleCompletion(
+        false,
+        problem === "rate_limited"
+          ? "Rate limited and no other credential pool member available"
+          : "Authentication failed and re-provision failed"
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Fail a hook-driven session that has gone quiet: no hook events and no pane
+   * changes for SESSION_IDLE_TIMEOUT_MS. A session blocked on a question waits
+   * for its answer instead.
+   */
+  private async checkIdle(): Promise<void> {
+    if (!this.hookDriven || this.questionDetected) return;
+    const idleMs = Date.now() - this.lastActivityAt;
+    if (idleMs < SESSION_IDLE_TIMEOUT_MS) return;
+
+    log(`No activity in session ${this.ctx.sessionId} for ${Math.round(idleMs / 60_000)} min, failing it`);
+    await this.handleCompletion(false, `No hook events or pane output for ${Math.round(idleMs / 60_000)} minutes`);
+  }
+
+  private async captureClaudeSessionId(claudeSessionId: string): Promise<void> {
+    const { sessionId, actorState } = this.ctx;
+    this.claudeSessionIdCaptured = true;
+    actorState.claudeSessionId = claudeSessionId;
+    log(`Captured claude_session_id for session ${sessionId}: ${claudeSessionId}`);
+    await updateClaudeSessionId(sessionId, claudeSessionId).catch((err) =>
+      log(`Failed to persist claude_session_id: ${err}`)
+    );
+    await insertActivityLog({
+      sessionId,
+      eventType: "claude_session_id_captured",
+      detailsJson: { claudeSessionId },
     }).catch(() => {});
   }
 
+  /**
+   * Mark the session blocked on a question and notify the workflow
+   * (or publish session-blocked when there is no workflow).
+   */
+  private async handleQuestion(questionText: string, source: "notification" | "stop" | "pane"): Promise<void> {
+    const { actorState, sessionId, taskId, daprClient } = this.ctx;
+    const { tmuxSessionName } = actorState;
+
+    log(`Question detected in session ${sessionId} (${source}): ${questionText}`);
+    this.questionDetected = true;
+    // A fresh question supersedes any earlier answer
+    actorState.answerInjected = false;
+
+    await updateSessionStatus(sessionId, "blocked");
+    const question = await insertQuestion({ sessionId, questionText });
+
+    await insertActivityLog({
+      sessionId,
+      eventType: "question_detected",
+      detailsJson: { questionId: question.id, questionText, source },
+    });
+
+    // Fire-and-forget terminal snapshot
+    await takeSnapshot(sessionId, tmuxSessionName, "session_blocked", this.ctx.pool, daprClient).catch(() => {});
+
+    // Raise event on workflow instance via Dapr HTTP API
+    const { workflowId } = actorState;
+    if (workflowId) {
+      const eventChannel = this.getEventChannel();
+      const eventUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0-alpha1/workflows/dapr/${workflowId}/raiseEvent/${eventChannel}`;
+      await fetch(eventUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "question-detected",
+          questionText,
+          sessionId,
+        }),
+      }).catch((err) => log(`Failed to raise event on workflow ${workflowId}: ${err}`));
+
+      log(`Raised ${eventChannel} event on workflow ${workflowId}`);
+    } else {
+      log(`No workflowId — falling back to pub/sub for session ${sessionId}`);
+      await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, "session-blocked", {
+        sessionId,
+        taskId,
+        questionId: question.id,
+        questionText,
+        issueNumber: actorState.issueNumber,
+        repoOwner: actorState.repoOwner,
+        repoName: actorState.repoName,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /** Clear the blocked state once the CLI continues (answer injected or work resumed). */
+  private async resumeAfterAnswer(): Promise<void> {
+    const { sessionId, actorState } = this.ctx;
+    this.questionDetected = false;
+    actorState.answerInjected = false;
+    await updateSessionStatus(sessionId, "running");
+    log(`Question detection reset for session ${sessionId}`);
+  }
+
   /**
    * Determine the event channel name based on what kind of session this is.
    * The PM workflow listens on different channels per phase.
@@ -240,6 +471,8 @@ export class SessionMonitor {
   }
 
   private async handleCompletion(success: boolean, errorMessage?: string): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
     this.stop();
 
     const { sessionId, taskId, daprClient } = this.ctx;
@@ -281,42 +514,28 @@ export class SessionMonitor {
       }).catch((err) => log(`Failed to raise completion event: ${err}`));
     }
 
-    const result: TaskResult = {
-      taskId,
-      agentId: AGENT_ID,
-      success,
-      result: success ? { sessionId } : undefined,
-      error: success ? undefined : { type: "session_failed", message: errorMessage ?? "Session failed" },
-      durationMs: this.ctx.actorState.startedAt
-        ? Date.now() - new Date(this.ctx.actorState.startedAt).getTime()
-        : 0,
-      completedAt,
-    };
-
-    await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, result);
-    log(`Published task result for ${taskId}: success=${success}`);
+    if (taskId && !this.cancelled) {
+      const result: TaskResult = {
+        taskId,
+        agentId: AGENT_ID,
+        success,
+        result: success ? { sessionId } : undefined,
+        error: success ? undefined : { type: "session_failed", message: errorMessage ?? "Session failed" },
+        durationMs: this.ctx.actorState.startedAt
+          ? Date.now() - new Date(this.ctx.actorState.startedAt).getTime()
+          : 0,
+        completedAt,
+      };
+      await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, result);
+      log(`Published task result for ${taskId}: success=${success}`);
+    }
 
     await this.publishMqttEvent(success ? "session_completed" : "session_failed", {
       sessionId,
       taskId,
     }).catch(() => {});
 
-    this.ctx.onComplete(result);
-  }
-
-  private async reprovisionsCredentials(): Promise<boolean> {
-    try {
-      const authProjectId = this.ctx.actorState.authProjectId;
-      const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${AUTH_SERVICE_APP_ID}/method/projects/${authProjectId}/provision`;
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ podName: AGENT_ID }),
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
+    this.ctx.onComplete(success);
   }
 
   private async publishMqttEvent(event: string, data: Record<string, unknown>): Promise<void> {
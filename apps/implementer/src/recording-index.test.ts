@@ -0,0 +1,170 @@
+import { describe, test, expect } from "bun:test";
+import {
+  buildRecordingIndex,
+  buildSessionTimeline,
+  extractClip,
+  keyframeAt,
+  parseAsciicast,
+  searchRecording,
+  searchRecordingBounded,
+  stripAnsi,
+  MAX_SEARCH_PATTERN_LENGTH,
+  RecordingSearchTimeoutError,
+} from "./recording-index.js";
+
+const HEADER = { version: 2, width: 80, height: 24, timestamp: 1_800_000_000 };
+
+function cast(events: Array<[number, string, string]>): string {
+  return [JSON.stringify(HEADER), ...events.map((e) => JSON.stringify(e))].join("\n") + "\n";
+}
+
+const SAMPLE = cast([
+  [0.5, "o", "\x1b[32m$\x1b[0m git status\r\n"],
+  [3, "o", "On branch issue-42\r\n"],
+  [12, "o", "$ bun te"],
+  [12.2, "o", "st\r\n"],
+  [14, "o", "\x1b[31m1 fail\x1b[0m\r\n"],
+  [25, "o", "$ bun test\r\n12 pass\r\n"],
+]);
+
+describe("parseAsciicast", () => {
+  test("records the byte offset of every event line", () => {
+    const parsed = parseAsciicast(SAMPLE);
+    const bytes = new TextEncoder().encode(SAMPLE);
+
+    expect(parsed.events).toHaveLength(6);
+    for (const [i, offset] of parsed.offsets.entries()) {
+      const line = new TextDecoder().decode(bytes.slice(offset)).split("\n")[0];
+      expect(JSON.parse(line)).toEqual(parsed.events[i]);
+    }
+  });
+
+  test("skips a truncated final line", () => {
+    const parsed = parseAsciicast(SAMPLE + '[26.0, "o", "half');
+    expect(parsed.events).toHaveLength(6);
+  });
+});
+
+describe("buildRecordingIndex", () => {
+  const index = buildRecordingIndex(parseAsciicast(SAMPLE));
+
+  test("strips ANSI and joins output split across events", () => {
+    expect(index.lines.map((l) => l.text)).toEqual([
+      "$ git status",
+      "On branch issue-42",
+      "$ bun test",
+      "1 fail",
+      "$ bun test",
+      "12 pass",
+    ]);
+    expect(index.lines[2].t).toBe(12.2);
+  });
+
+  test("emits a keyframe every interval pointing at the next event", () => {
+    expect(index.keyframes.map((k) => [k.t, k.eventIndex])).toEqual([
+      [0, 0],
+      [10, 2],
+      [20, 5],
+    ]);
+    expect(index.keyframes[1].context).toBe("$ git status\nOn branch issue-42");
+    expect(keyframeAt(index, 14)?.t).toBe(10);
+    expect(index.startedAt).toBe(new Date(1_800_000_000_000).toISOString());
+    expect(index.durationSec).toBe(25);
+  });
+});
+
+describe("searchRecording", () => {
+  const index = buildRecordingIndex(parseAsciicast(SAMPLE));
+
+  test("finds matches in time order, case-insensitively", () => {
+    const matches = searchRecording(index, "BUN TEST");
+    expect(matches.map((m) => m.t)).toEqual([12.2, 25]);
+    expect(searchRecording(index, "bun test", { limit: 1 })).toHaveLength(1);
+  });
+
+  test("supports regular expressions and rejects invalid ones", () => {
+    expect(searchRecording(index, "^\\d+ (pass|fail)$", { regex: true }).map((m) => m.text)).toEqual([
+      "1 fail",
+      "12 pass",
+    ]);
+    expect(() => searchRecording(index, "(", { regex: true })).toThrow();
+  });
+});
+
+describe("searchRecordingBounded", () => {
+  const index = buildRecordingIndex(parseAsciicast(SAMPLE));
+
+  test("runs regex searches in a worker", async () => {
+    const matches = await searchRecordingBounded(index, "^\\d+ (pass|fail)$", { regex: true });
+    expect(matches.map((m) => m.text)).toEqual(["1 fail", "12 pass"]);
+    expect(await searchRecordingBounded(index, "BUN TEST", { limit: 1 })).toHaveLength(1);
+  });
+
+  test("rejects long and invalid patterns", async () => {
+    await expect(searchRecordingBounded(index, "a".repeat(MAX_SEARCH_PATTERN_LENGTH + 1), { regex: true })).rejects.toThrow(
+      "Pattern longer than",
+    );
+    await expect(searchRecordingBounded(index, "(", { regex: true })).rejects.toThrow();
+  });
+
+  test("terminates a catastrophically backtracking pattern", async () => {
+    const slow = buildRecordingIndex(parseAsciicast(cast([[1, "o", `${"a".repeat(40)}!\r\n`]])));
+    const started = Date.now();
+    await expect(searchRecordingBounded(slow, "^(a+)+$", { regex: true, timeoutMs: 200 })).rejects.toBeInstanceOf(
+      RecordingSearchTimeoutError,
+    );
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+});
+
+describe("extractClip", () => {
+  test("rebases events and folds output since the keyframe into the first frame", () => {
+    const clip = parseAsciicast(extractClip(parseAsciicast(SAMPLE), 13, 20));
+
+    expect(clip.header.timestamp).toBe(1_800_000_013);
+    expect(clip.header.duration).toBe(7);
+    expect(clip.events).toEqual([
+      [0, "o", "$ bun test\r\n"],
+      [1, "o", "\x1b[31m1 fail\x1b[0m\r\n"],
+    ]);
+  });
+});
+
+test("stripAnsi removes OSC titles and carriage returns", () => {
+  expect(stripAnsi("\x1b]0;claude\x07done\r\n")).toBe("done\n");
+});
+
+describe("buildSessionTimeline", () => {
+  test("merges sources in time order and maps them onto recordings", () => {
+    const timeline = buildSessionTimeline({
+      recordings: [{ id: 7, startedAt: "2026-10-19T12:00:00.000Z", durationMs: 60_000 }],
+      activity: [{ eventType: "session_completed", detailsJson: null, createdAt: new Date("2026-10-19T12:01:30.000Z") }],
+      toolCalls: [
+        {
+          toolName: "Bash",
+          inputJson: { command: "bun test" },
+          durationMs: 5_000,
+          createdAt: "2026-10-19T12:00:20.000Z",
+        },
+      ],
+      questions: [
+        {
+          id: 3,
+          questionText: "Merge or keep both?",
+          answerText: "Merge",
+          askedAt: "2026-10-19T12:00:40.000Z",
+          answeredAt: "2026-10-19T12:00:50.000Z",
+        },
+      ],
+    });
+
+    expect(timeline.map((e) => [e.kind, e.summary, e.offsetSec])).toEqual([
+      ["recording_start", "Recording 7 started", 0],
+      ["tool_call", "Bash: bun test", 15],
+      ["question", "Merge or keep both?", 40],
+      ["answer", "Merge", 50],
+      ["recording_end", "Recording 7 ended", 60],
+      ["activity", "session_completed", undefined],
+    ]);
+  });
+});
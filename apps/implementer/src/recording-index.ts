@@ -0,0 +1,375 @@
+/**
+ * Recording index — keyframes, text search and clips for asciicast v2 recordings.
+ *
+ * An index is built once per recording (at upload, or lazily for older
+ * recordings) and stored next to the .cast in MinIO. Keyframes map time
+ * offsets to event positions and byte offsets in the .cast so players can
+ * seek without replaying from the start; `lines` holds the ANSI-stripped
+ * output, each line stamped with the time it finished printing, for search.
+ */
+
+export const RECORDING_INDEX_VERSION = 1;
+
+/** Seconds between keyframes */
+const DEFAULT_KEYFRAME_INTERVAL_SEC = 10;
+
+/** Plain-text lines of screen context kept with each keyframe */
+const KEYFRAME_CONTEXT_LINES = 20;
+
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number;
+  [key: string]: unknown;
+}
+
+/** [elapsed seconds, event type ("o" output, "i" input, ...), data] */
+export type AsciicastEvent = [number, string, string];
+
+export interface Asciicast {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+  /** Byte offset of each event's line in the .cast file */
+  offsets: number[];
+}
+
+export interface RecordingKeyframe {
+  /** Seconds from the start of the recording */
+  t: number;
+  /** Index of the first event at or after `t` */
+  eventIndex: number;
+  /** Byte offset of that event in the .cast file (for ranged reads) */
+  byteOffset: number;
+  /** Last lines of plain-text output before `t` */
+  context: string;
+}
+
+export interface RecordingLine {
+  t: number;
+  text: string;
+}
+
+export interface RecordingIndex {
+  version: typeof RECORDING_INDEX_VERSION;
+  /** Recording start (from the asciicast header), ISO-8601 */
+  startedAt?: string;
+  durationSec: number;
+  eventCount: number;
+  width: number;
+  height: number;
+  keyframes: RecordingKeyframe[];
+  lines: RecordingLine[];
+}
+
+export interface RecordingSearchMatch {
+  t: number;
+  /** Line number within `RecordingIndex.lines` */
+  line: number;
+  text: string;
+}
+
+const encoder = new TextEncoder();
+
+// CSI / OSC / two-character escape sequences, then stray control characters
+// other than tab and newline
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+// eslint-disable-next-line no-control-regex
+const CONTROL_PATTERN = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g;
+
+/** Remove ANSI escape sequences and control characters, normalising CRLF. */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "").replace(/\r\n/g, "\n").replace(/\r/g, "\n").replace(CONTROL_PATTERN, "");
+}
+
+/** Parse an asciicast v2 file. Malformed event lines are skipped. */
+export function parseAsciicast(cast: string): Asciicast {
+  const lines = cast.split("\n");
+  const header = JSON.parse(lines[0]) as AsciicastHeader;
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version: ${header.version}`);
+  }
+
+  const events: AsciicastEvent[] = [];
+  const offsets: number[] = [];
+  let offset = encoder.encode(lines[0]).length + 1;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim()) {
+      try {
+        const event = JSON.parse(line);
+        if (Array.isArray(event) && typeof event[0] === "number" && typeof event[2] === "string") {
+          events.push([event[0], String(event[1]), event[2]]);
+          offsets.push(offset);
+        }
+      } catch {
+        // Truncated final line from an interrupted recording
+      }
+    }
+    offset += encoder.encode(line).length + 1;
+  }
+
+  return { header, events, offsets };
+}
+
+/** Build the keyframe and search index for a parsed recording. */
+export function buildRecordingIndex(
+  cast: Asciicast,
+  keyframeIntervalSec = DEFAULT_KEYFRAME_INTERVAL_SEC,
+): RecordingIndex {
+  const keyframes: RecordingKeyframe[] = [];
+  const lines: RecordingLine[] = [];
+  let partial = "";
+  let nextKeyframeAt = 0;
+
+  const context = () =>
+    [...lines.slice(-KEYFRAME_CONTEXT_LINES).map((l) => l.text), partial].join("\n").trimEnd();
+
+  cast.events.forEach(([t, type, data], i) => {
+    while (t >= nextKeyframeAt) {
+      keyframes.push({ t: nextKeyframeAt, eventIndex: i, byteOffset: cast.offsets[i], context: context() });
+      nextKeyframeAt += keyframeIntervalSec;
+    }
+    if (type !== "o") return;
+
+    const parts = (partial + stripAnsi(data)).split("\n");
+    partial = parts.pop() ?? "";
+    for (const text of parts) {
+      if (text.trim()) lines.push({ t, text: text.trimEnd() });
+    }
+  });
+
+  const durationSec = cast.events.at(-1)?.[0] ?? 0;
+  if (partial.trim()) lines.push({ t: durationSec, text: partial.trimEnd() });
+
+  return {
+    version: RECORDING_INDEX_VERSION,
+    startedAt: cast.header.timestamp ? new Date(cast.header.timestamp * 1000).toISOString() : undefined,
+    durationSec,
+    eventCount: cast.events.length,
+    width: cast.header.width,
+    height: cast.header.height,
+    keyframes,
+    lines,
+  };
+}
+
+/** The latest keyframe at or before `t`. */
+export function keyframeAt(index: RecordingIndex, t: number): RecordingKeyframe | undefined {
+  let found: RecordingKeyframe | undefined;
+  for (const keyframe of index.keyframes) {
+    if (keyframe.t > t) break;
+    found = keyframe;
+  }
+  return found;
+}
+
+/**
+ * Search the recording's output. Plain queries match case-insensitively;
+ * `regex` treats the query as a regular expression. Matches are in time order.
+ */
+export function searchRecording(
+  index: RecordingIndex,
+  query: string,
+  opts: { regex?: boolean; limit?: number } = {},
+): RecordingSearchMatch[] {
+  const limit = opts.limit ?? 50;
+  // new RegExp throws on an invalid pattern before any scanning happens
+  const pattern = opts.regex ? new RegExp(query, "i") : null;
+  const needle = query.toLowerCase();
+  const matches = (text: string) => (pattern ? pattern.test(text) : text.toLowerCase().includes(needle));
+
+  const results: RecordingSearchMatch[] = [];
+  for (let i = 0; i < index.lines.length && results.length < limit; i++) {
+    const line = index.lines[i];
+    if (matches(line.text)) results.push({ t: line.t, line: i, text: line.text });
+  }
+  return results;
+}
+
+/** Longest regex accepted by `searchRecordingBounded` */
+export const MAX_SEARCH_PATTERN_LENGTH = 256;
+/** How long a regex search may run before its worker is terminated */
+export const REGEX_SEARCH_TIMEOUT_MS = 2_000;
+
+export class RecordingSearchTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Search did not finish within ${timeoutMs}ms; simplify the pattern`);
+    this.name = "RecordingSearchTimeoutError";
+  }
+}
+
+/**
+ * `searchRecording` for untrusted queries. Plain queries run inline; regex
+ * patterns are length-capped and run in a worker that is terminated after
+ * `timeoutMs`. Rejects with the pattern error for an invalid regex.
+ */
+export async function searchRecordingBounded(
+  index: RecordingIndex,
+  query: string,
+  opts: { regex?: boolean; limit?: number; timeoutMs?: number } = {},
+): Promise<RecordingSearchMatch[]> {
+  if (!opts.regex) return searchRecording(index, query, opts);
+  if (query.length > MAX_SEARCH_PATTERN_LENGTH) {
+    throw new Error(`Pattern longer than ${MAX_SEARCH_PATTERN_LENGTH} characters`);
+  }
+  // Fail fast on a syntax error without starting a worker
+  new RegExp(query, "i");
+
+  const timeoutMs = opts.timeoutMs ?? REGEX_SEARCH_TIMEOUT_MS;
+  const worker = new Worker(new URL("./recording-search-worker.ts", import.meta.url).href);
+  try {
+    return await new Promise<RecordingSearchMatch[]>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new RecordingSearchTimeoutError(timeoutMs)), timeoutMs);
+      worker.onmessage = (event: MessageEvent<{ matches?: RecordingSearchMatch[]; error?: string }>) => {
+        clearTimeout(timer);
+        if (event.data.error !== undefined) reject(new Error(event.data.error));
+        else resolve(event.data.matches ?? []);
+      };
+      worker.onerror = (event) => {
+        clearTimeout(timer);
+        reject(new Error(event.message));
+      };
+      // Keyframes are not searched; only the lines cross to the worker
+      worker.postMessage({ index: { ...index, keyframes: [] }, query, limit: opts.limit });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Extract the `[fromSec, toSec]` range as a standalone asciicast v2 file with
+ * times rebased to zero. Output since the preceding keyframe is collapsed into
+ * a single frame at t=0 so the clip does not open on a blank terminal.
+ */
+export function extractClip(
+  cast: Asciicast,
+  fromSec: number,
+  toSec: number,
+  keyframeIntervalSec = DEFAULT_KEYFRAME_INTERVAL_SEC,
+): string {
+  if (toSec <= fromSec) throw new Error("Clip end must be after its start");
+
+  const leadFrom = Math.floor(fromSec / keyframeIntervalSec) * keyframeIntervalSec;
+  let lead = "";
+  const events: AsciicastEvent[] = [];
+  for (const [t, type, data] of cast.events) {
+    if (t > toSec) break;
+    if (t < fromSec) {
+      if (t >= leadFrom && type === "o") lead += data;
+      continue;
+    }
+    events.push([round(t - fromSec), type, data]);
+  }
+  if (lead) events.unshift([0, "o", lead]);
+
+  const header: AsciicastHeader = {
+    ...cast.header,
+    timestamp: cast.header.timestamp !== undefined ? Math.floor(cast.header.timestamp + fromSec) : undefined,
+    duration: round(toSec - fromSec),
+  };
+  return [JSON.stringify(header), ...events.map((e) => JSON.stringify(e))].join("\n") + "\n";
+}
+
+function round(sec: number): number {
+  return Math.round(sec * 1_000_000) / 1_000_000;
+}
+
+// ---------------------------------------------------------------------------
+// Session timeline
+// ---------------------------------------------------------------------------
+
+/** pg returns TIMESTAMPTZ columns as Date; JSON sources give ISO strings */
+type Timestamp = string | Date;
+
+export interface TimelineRecording {
+  id: number;
+  startedAt: Timestamp;
+  durationMs: number;
+}
+
+export interface TimelineSources {
+  recordings: TimelineRecording[];
+  activity: Array<{ eventType: string; detailsJson: unknown; createdAt: Timestamp }>;
+  toolCalls: Array<{ toolName: string; inputJson: unknown; durationMs: number | null; createdAt: Timestamp }>;
+  questions: Array<{ id: number; questionText: string; answerText?: string; askedAt: Timestamp; answeredAt?: Timestamp | null }>;
+}
+
+export type TimelineEntryKind = "recording_start" | "recording_end" | "activity" | "tool_call" | "question" | "answer";
+
+export interface TimelineEntry {
+  at: string;
+  kind: TimelineEntryKind;
+  summary: string;
+  /** Recording covering `at`, with the offset to seek to */
+  recordingId?: number;
+  offsetSec?: number;
+  details?: unknown;
+}
+
+/**
+ * Merge session activity, tool calls and questions into one time-ordered list,
+ * tagging each entry with the recording (and offset into it) that covers it.
+ */
+export function buildSessionTimeline(sources: TimelineSources): TimelineEntry[] {
+  const entries: Array<Omit<TimelineEntry, "at"> & { ms: number }> = [];
+
+  for (const rec of sources.recordings) {
+    const start = toMs(rec.startedAt);
+    entries.push({ ms: start, kind: "recording_start", summary: `Recording ${rec.id} started`, recordingId: rec.id, offsetSec: 0 });
+    entries.push({
+      ms: start + rec.durationMs,
+      kind: "recording_end",
+      summary: `Recording ${rec.id} ended`,
+      recordingId: rec.id,
+      offsetSec: rec.durationMs / 1000,
+    });
+  }
+  for (const a of sources.activity) {
+    entries.push({ ms: toMs(a.createdAt), kind: "activity", summary: a.eventType, details: a.detailsJson ?? undefined });
+  }
+  for (const call of sources.toolCalls) {
+    // Rows are written when the tool finishes; place the entry where it started
+    entries.push({
+      ms: toMs(call.createdAt) - (call.durationMs ?? 0),
+      kind: "tool_call",
+      summary: describeToolCall(call.toolName, call.inputJson),
+      details: { toolName: call.toolName, durationMs: call.durationMs, input: call.inputJson },
+    });
+  }
+  for (const q of sources.questions) {
+    entries.push({ ms: toMs(q.askedAt), kind: "question", summary: q.questionText, details: { questionId: q.id } });
+    if (q.answeredAt) {
+      entries.push({ ms: toMs(q.answeredAt), kind: "answer", summary: q.answerText ?? "", details: { questionId: q.id } });
+    }
+  }
+
+  return entries
+    .filter((e) => Number.isFinite(e.ms))
+    .sort((a, b) => a.ms - b.ms)
+    .map(({ ms, ...entry }) => {
+      if (entry.recordingId === undefined) {
+        const rec = sources.recordings.find((r) => {
+          const start = toMs(r.startedAt);
+          return ms >= start && ms <= start + r.durationMs;
+        });
+        if (rec) {
+          entry.recordingId = rec.id;
+          entry.offsetSec = (ms - toMs(rec.startedAt)) / 1000;
+        }
+      }
+      return { at: new Date(ms).toISOString(), ...entry };
+    });
+}
+
+function toMs(value: Timestamp): number {
+  return new Date(value).getTime();
+}
+
+function describeToolCall(toolName: string, input: unknown): string {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const detail = fields.command ?? fields.file_path ?? fields.pattern ?? fields.url ?? fields.description;
+  return typeof detail === "string" ? `${toolName}: ${detail.slice(0, 200)}` : toolName;
+}
@@ -0,0 +1,23 @@
+/**
+ * Worker for regex recording searches. A user-supplied pattern can backtrack
+ * catastrophically; running it here lets the caller terminate the search on
+ * timeout instead of blocking the implementer's event loop.
+ */
+import { searchRecording, type RecordingIndex } from "./recording-index.js";
+
+declare const self: Worker;
+
+export interface RegexSearchRequest {
+  index: RecordingIndex;
+  query: string;
+  limit?: number;
+}
+
+self.onmessage = (event: MessageEvent<RegexSearchRequest>) => {
+  const { index, query, limit } = event.data;
+  try {
+    self.postMessage({ matches: searchRecording(index, query, { regex: true, limit }) });
+  } catch (err) {
+    self.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
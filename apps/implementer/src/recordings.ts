@@ -0,0 +1,96 @@
+/**
+ * Recording storage — MinIO access for asciicast recordings and their indexes.
+ *
+ * Indexes are written at upload time by terminal-relay. Recordings uploaded
+ * before indexing existed get their index built on first use and stored back
+ * to MinIO. Loaded indexes are kept in a small in-pod LRU.
+ */
+import {
+  createMinioClient,
+  uploadToMinio,
+  downloadFromMinio,
+  type MinioConfig,
+} from "@mesh-six/core";
+import { AGENT_ID } from "./config.js";
+import { updateRecordingIndexKey, type RecordingRow } from "./session-db.js";
+import {
+  buildRecordingIndex,
+  parseAsciicast,
+  type Asciicast,
+  type RecordingIndex,
+} from "./recording-index.js";
+
+const log = (msg: string) => console.log(`[${AGENT_ID}][recordings] ${msg}`);
+
+const INDEX_CACHE_MAX = 16;
+const indexCache = new Map<number, RecordingIndex>();
+
+let client: ReturnType<typeof createMinioClient> | null = null;
+
+export function recordingMinioConfig(): MinioConfig {
+  return {
+    endpoint: process.env.MINIO_ENDPOINT || "http://minio.default.svc.cluster.local:9000",
+    accessKeyId: process.env.MINIO_ACCESS_KEY || "",
+    secretAccessKey: process.env.MINIO_SECRET_KEY || "",
+    bucket: process.env.MINIO_BUCKET || "mesh-six-recordings",
+  };
+}
+
+export function recordingMinioClient(): ReturnType<typeof createMinioClient> {
+  if (!client) client = createMinioClient(recordingMinioConfig());
+  return client;
+}
+
+/** MinIO key of the index stored next to a recording */
+export function indexKeyFor(s3Key: string): string {
+  return s3Key.replace(/\.cast$/, "") + ".index.json";
+}
+
+/** Upload a recording's index next to it. Returns the index key. */
+export async function storeRecordingIndex(s3Key: string, index: RecordingIndex): Promise<string> {
+  const indexKey = indexKeyFor(s3Key);
+  await uploadToMinio(
+    recordingMinioClient(),
+    recordingMinioConfig().bucket,
+    indexKey,
+    JSON.stringify(index),
+    "application/json",
+  );
+  return indexKey;
+}
+
+/** Download and parse a recording's .cast file. */
+export async function loadRecordingCast(recording: RecordingRow): Promise<Asciicast> {
+  const bytes = await downloadFromMinio(recordingMinioClient(), recordingMinioConfig().bucket, recording.s3Key);
+  return parseAsciicast(new TextDecoder().decode(bytes));
+}
+
+/** Load a recording's index, building and storing it if it has none yet. */
+export async function loadRecordingIndex(recording: RecordingRow): Promise<RecordingIndex> {
+  const cached = indexCache.get(recording.id);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    indexCache.delete(recording.id);
+    indexCache.set(recording.id, cached);
+    return cached;
+  }
+
+  let index: RecordingIndex;
+  if (recording.indexKey) {
+    const bytes = await downloadFromMinio(recordingMinioClient(), recordingMinioConfig().bucket, recording.indexKey);
+    index = JSON.parse(new TextDecoder().decode(bytes)) as RecordingIndex;
+  } else {
+    log(`Building missing index for recording ${recording.id}`);
+    index = buildRecordingIndex(await loadRecordingCast(recording));
+    const indexKey = await storeRecordingIndex(recording.s3Key, index);
+    await updateRecordingIndexKey(recording.id, indexKey).catch((err) =>
+      log(`Failed to save index key for recording ${recording.id}: ${err}`)
+    );
+  }
+
+  indexCache.set(recording.id, index);
+  if (indexCache.size > INDEX_CACHE_MAX) {
+    indexCache.delete(indexCache.keys().next().value!);
+  }
+  return index;
+}
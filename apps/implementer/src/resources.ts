@@ -0,0 +1,93 @@
+/**
+ * Resource sampling for implementation sessions: free disk under
+ * WORKTREE_BASE_DIR, per-worktree disk usage, and CPU/memory of the
+ * process tree running in each session's tmux pane.
+ */
+import { statfs } from "fs/promises";
+
+export interface SessionResourceUsage {
+  diskBytes: number;
+  rssBytes: number;
+  cpuPercent: number;
+  processCount: number;
+}
+
+/** Bytes available to unprivileged users on the filesystem holding `path`. */
+export async function freeDiskBytes(path: string): Promise<number> {
+  const stats = await statfs(path);
+  return stats.bavail * stats.bsize;
+}
+
+/** Disk usage of a directory tree (du -sk). Returns 0 if it does not exist. */
+export async function directorySizeBytes(path: string): Promise<number> {
+  const proc = Bun.spawn(["du", "-sk", path], { stdout: "pipe", stderr: "pipe" });
+  const [exitCode, stdout] = await Promise.all([proc.exited, new Response(proc.stdout).text()]);
+  if (exitCode !== 0) return 0;
+  return (parseInt(stdout.split(/\s+/)[0], 10) || 0) * 1024;
+}
+
+/**
+ * Sum RSS and CPU for `rootPid` and all its descendants from
+ * `ps -eo pid=,ppid=,rss=,pcpu=` output (rss in KiB).
+ */
+export function sumProcessTree(
+  psOutput: string,
+  rootPid: number,
+): Pick<SessionResourceUsage, "rssBytes" | "cpuPercent" | "processCount"> {
+  const procs = psOutput
+    .trim()
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((cols) => cols.length >= 4)
+    .map(([pid, ppid, rss, pcpu]) => ({
+      pid: Number(pid),
+      ppid: Number(ppid),
+      rss: Number(rss),
+      pcpu: Number(pcpu),
+    }));
+
+  const children = new Map<number, typeof procs>();
+  for (const p of procs) {
+    const siblings = children.get(p.ppid) ?? [];
+    siblings.push(p);
+    children.set(p.ppid, siblings);
+  }
+
+  let rssBytes = 0;
+  let cpuPercent = 0;
+  let processCount = 0;
+  const stack = procs.filter((p) => p.pid === rootPid);
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    rssBytes += p.rss * 1024;
+    cpuPercent += p.pcpu;
+    processCount++;
+    stack.push(...(children.get(p.pid) ?? []));
+  }
+
+  return { rssBytes, cpuPercent: Math.round(cpuPercent * 10) / 10, processCount };
+}
+
+/** Sample a session's worktree size and the resources of its tmux pane's process tree. */
+export async function sampleSessionUsage(
+  tmuxSessionName: string,
+  worktreeDir: string,
+): Promise<SessionResourceUsage> {
+  const diskBytes = await directorySizeBytes(worktreeDir);
+
+  const paneProc = Bun.spawn(["tmux", "display-message", "-p", "-t", tmuxSessionName, "#{pane_pid}"], {
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [paneExit, paneOut] = await Promise.all([paneProc.exited, new Response(paneProc.stdout).text()]);
+  const panePid = Number(paneOut.trim());
+  if (paneExit !== 0 || !panePid) {
+    return { diskBytes, rssBytes: 0, cpuPercent: 0, processCount: 0 };
+  }
+
+  const ps = Bun.spawn(["ps", "-eo", "pid=,ppid=,rss=,pcpu="], { stdout: "pipe", stderr: "pipe" });
+  const psOutput = await new Response(ps.stdout).text();
+  await ps.exited;
+
+  return { diskBytes, ...sumProcessTree(psOutput, panePid) };
+}
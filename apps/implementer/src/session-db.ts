@@ -225,6 +225,29 @@ export async function insertToolCall(params: {
   );
 }
 
+export interface ToolCallRow {
+  id: number;
+  toolName: string;
+  inputJson: unknown;
+  outputJson: unknown;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+export async function getSessionToolCalls(sessionId: string): Promise<ToolCallRow[]> {
+  const db = getPool();
+  const { rows } = await db.query<ToolCallRow>(
+    `SELECT id, tool_name AS "toolName", input_json AS "inputJson",
+            output_json AS "outputJson", duration_ms AS "durationMs",
+            created_at AS "createdAt"
+     FROM session_tool_calls
+     WHERE session_id = $1
+     ORDER BY created_at ASC`,
+    [sessionId]
+  );
+  return rows;
+}
+
 // ---------------------------------------------------------------------------
 // session_activity_log
 // ---------------------------------------------------------------------------
@@ -246,6 +269,26 @@ export async function insertActivityLog(params: {
   );
 }
 
+export interface ActivityLogRow {
+  id: number;
+  eventType: string;
+  detailsJson: unknown;
+  createdAt: string;
+}
+
+export async function getSessionActivity(sessionId: string): Promise<ActivityLogRow[]> {
+  const db = getPool();
+  const { rows } = await db.query<ActivityLogRow>(
+    `SELECT id, event_type AS "eventType", details_json AS "detailsJson",
+            created_at AS "createdAt"
+     FROM session_activity_log
+     WHERE session_id = $1
+     ORDER BY created_at ASC`,
+    [sessionId]
+  );
+  return rows;
+}
+
 // ---------------------------------------------------------------------------
 // session_questions
 // ---------------------------------------------------------------------------
@@ -334,6 +377,9 @@ export interface CheckpointRow {
   gitDiffStat: string | null;
   tmuxCapture: string | null;
   pendingActions: unknown[];
+  gitHead?: string | null;
+  gitSnapshot?: string | null;
+  gitRef?: string | null;
   createdAt: string;
 }
 
@@ -388,6 +434,9 @@ export async function getLatestCheckpoint(sessionId: string): Promise<Checkpoint
        git_diff_stat   AS "gitDiffStat",
        tmux_capture    AS "tmuxCapture",
        pending_actions AS "pendingActions",
+       git_head        AS "gitHead",
+       git_snapshot    AS "gitSnapshot",
+       git_ref         AS "gitRef",
        created_at      AS "createdAt"
      FROM session_checkpoints
      WHERE session_id = $1
@@ -454,63 +503,79 @@ export async function getSessionSnapshots(sessionId: string): Promise<Array<{
 // terminal_recordings (migration 011)
 // ---------------------------------------------------------------------------
 
+export interface RecordingRow {
+  id: number;
+  sessionId: string;
+  s3Key: string;
+  durationMs: number;
+  sizeBytes: number;
+  format: string;
+  startedAt: string | null;
+  indexKey: string | null;
+  uploadedAt: string;
+}
+
+const RECORDING_COLUMNS = `id, session_id AS "sessionId", s3_key AS "s3Key",
+            duration_ms AS "durationMs", size_bytes AS "sizeBytes",
+            format, started_at AS "startedAt", index_key AS "indexKey",
+            uploaded_at AS "uploadedAt"`;
+
 export async function insertRecording(params: {
   sessionId: string;
   s3Key: string;
   durationMs: number;
   sizeBytes: number;
   format?: string;
+  startedAt?: Date;
+  indexKey?: string;
 }): Promise<{ id: number }> {
   const db = getPool();
   const { rows } = await db.query<{ id: number }>(
-    `INSERT INTO terminal_recordings (session_id, s3_key, duration_ms, size_bytes, format)
-     VALUES ($1, $2, $3, $4, $5)
+    `INSERT INTO terminal_recordings (session_id, s3_key, duration_ms, size_bytes, format, started_at, index_key)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
      RETURNING id`,
-    [params.sessionId, params.s3Key, params.durationMs, params.sizeBytes, params.format || "asciicast-v2"]
+    [
+      params.sessionId,
+      params.s3Key,
+      params.durationMs,
+      params.sizeBytes,
+      params.format || "asciicast-v2",
+      params.startedAt ?? null,
+      params.indexKey ?? null,
+    ]
   );
   return rows[0];
 }
 
-export async function getSessionRecordings(sessionId: string): Promise<Array<{
-  id: number;
-  sessionId: string;
-  s3Key: string;
-  durationMs: number;
-  sizeBytes: number;
-  format: string;
-  uploadedAt: string;
-}>> {
+export async function getSessionRecordings(sessionId: string): Promise<RecordingRow[]> {
   const db = getPool();
-  const { rows } = await db.query(
-    `SELECT id, session_id AS "sessionId", s3_key AS "s3Key",
-            duration_ms AS "durationMs", size_bytes AS "sizeBytes",
-            format, uploaded_at AS "uploadedAt"
+  const { rows } = await db.query<RecordingRow>(
+    `SELECT ${RECORDING_COLUMNS}
      FROM terminal_recordings
      WHERE session_id = $1
      ORDER BY uploaded_at DESC`,
     [sessionId]
   );
-  return rows as Array<{ id: number; sessionId: string; s3Key: string; durationMs: number; sizeBytes: number; format: string; uploadedAt: string }>;
+  return rows;
 }
 
-export async function getRecordingById(recordingId: number): Promise<{
-  id: number;
-  sessionId: string;
-  s3Key: string;
-  durationMs: number;
-  sizeBytes: number;
-  format: string;
-  uploadedAt: string;
-} | null> {
+export async function getRecordingById(recordingId: number): Promise<RecordingRow | null> {
   const db = getPool();
-  const { rows } = await db.query(
-    `SELECT id, session_id AS "sessionId", s3_key AS "s3Key",
-            duration_ms AS "durationMs", size_bytes AS "sizeBytes",
-            format, uploaded_at AS "uploadedAt"
+  const { rows } = await db.query<RecordingRow>(
+    `SELECT ${RECORDING_COLUMNS}
      FROM terminal_recordings WHERE id = $1`,
     [recordingId]
   );
-  return (rows[0] as { id: number; sessionId: string; s3Key: string; durationMs: number; sizeBytes: number; format: string; uploadedAt: string } | undefined) ?? null;
+  return rows[0] ?? null;
+}
+
+/** Record where a lazily built recording index was stored (migration 023). */
+export async function updateRecordingIndexKey(recordingId: number, indexKey: string): Promise<void> {
+  const db = getPool();
+  await db.query(
+    `UPDATE terminal_recordings SET index_key = $2 WHERE id = $1`,
+    [recordingId, indexKey]
+  );
 }
 
 // ---------------------------------------------------------------------------
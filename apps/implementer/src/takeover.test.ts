@@ -0,0 +1,59 @@
+import { describe, test, expect } from "bun:test";
+import { authenticateOperator, bearerToken, parseOperatorTokens, TakeoverLocks } from "./takeover.js";
+
+describe("operator tokens", () => {
+  const tokens = parseOperatorTokens("alice=tok-a, bob=tok-b,broken,=nobody,carol=");
+
+  test("parses operator=token pairs and skips malformed entries", () => {
+    expect([...tokens.entries()]).toEqual([
+      ["tok-a", "alice"],
+      ["tok-b", "bob"],
+    ]);
+  });
+
+  test("authenticates bearer tokens", () => {
+    expect(bearerToken("Bearer tok-b")).toBe("tok-b");
+    expect(bearerToken("Basic tok-b")).toBeUndefined();
+    expect(authenticateOperator(bearerToken("Bearer tok-b"), tokens)).toBe("bob");
+    expect(authenticateOperator("tok-c", tokens)).toBeNull();
+    expect(authenticateOperator(undefined, tokens)).toBeNull();
+  });
+});
+
+describe("TakeoverLocks", () => {
+  test("gives one operator exclusive control of a session", () => {
+    const locks = new TakeoverLocks(60_000);
+    const first = locks.acquire("s1", "alice", "impl-s1", 1_000);
+    expect(first.ok).toBe(true);
+
+    const second = locks.acquire("s1", "bob", "impl-s1", 2_000);
+    expect(second).toEqual({ ok: false, heldBy: "alice", since: new Date(1_000).toISOString() });
+
+    const again = locks.acquire("s1", "alice", "impl-s1", 3_000);
+    expect(again.ok && first.ok && again.lock.token === first.lock.token).toBe(true);
+  });
+
+  test("verifies the lock token and releases the lock", () => {
+    const locks = new TakeoverLocks(60_000);
+    const result = locks.acquire("s1", "alice", "impl-s1");
+    if (!result.ok) throw new Error("expected lock");
+
+    expect(locks.verify("s1", result.lock.token)?.operator).toBe("alice");
+    expect(locks.verify("s1", "wrong")).toBeNull();
+    expect(locks.verify("s2", result.lock.token)).toBeNull();
+
+    expect(locks.release("s1")?.operator).toBe("alice");
+    expect(locks.verify("s1", result.lock.token)).toBeNull();
+    expect(locks.acquire("s1", "bob", "impl-s1").ok).toBe(true);
+  });
+
+  test("reports locks idle past the timeout", () => {
+    const locks = new TakeoverLocks(60_000);
+    locks.acquire("s1", "alice", "impl-s1", 0);
+    locks.acquire("s2", "bob", "impl-s2", 0);
+    locks.touch("s2", 30_000);
+
+    expect(locks.expired(59_999)).toEqual([]);
+    expect(locks.expired(60_000).map((l) => l.sessionId)).toEqual(["s1"]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Interactive terminal takeover for implementation sessions.
+ *
+ * An operator authenticated by a TAKEOVER_TOKENS entry takes an exclusive lock
+ * on a session and drives its tmux pane over a WebSocket while the session's
+ * SessionMonitor is paused. The lock token returned on takeover authorizes the
+ * WebSocket (and reconnects) until the lock is released — explicitly with a
+ * handoff note, or after TAKEOVER_IDLE_TIMEOUT_MS without input.
+ */
+import { timingSafeEqual } from "crypto";
+import { TAKEOVER_TOKENS, TAKEOVER_IDLE_TIMEOUT_MS } from "./config.js";
+
+export interface TakeoverLock {
+  sessionId: string;
+  operator: string;
+  tmuxSessionName: string;
+  /** Bearer token for the WebSocket and release calls while the lock is held */
+  token: string;
+  acquiredAt: string;
+  lastInputAt: number;
+}
+
+export type TakeoverAcquireResult =
+  | { ok: true; lock: TakeoverLock }
+  | { ok: false; heldBy: string; since: string };
+
+/** Parse `operator=token,operator=token` into a token → operator map. */
+export function parseOperatorTokens(spec: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of spec.split(",")) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) continue;
+    const operator = entry.slice(0, eq).trim();
+    const token = entry.slice(eq + 1).trim();
+    if (operator && token) tokens.set(token, operator);
+  }
+  return tokens;
+}
+
+/** Extract a bearer token from an Authorization header. */
+export function bearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim();
+}
+
+function tokensEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Resolve the operator for a bearer token, or null if it matches none.
+ * Every configured token is compared so timing does not reveal which matched.
+ */
+export function authenticateOperator(token: string | undefined, tokens: Map<string, string>): string | null {
+  if (!token) return null;
+  let operator: string | null = null;
+  for (const [candidate, name] of tokens) {
+    if (tokensEqual(token, candidate)) operator = name;
+  }
+  return operator;
+}
+
+export class TakeoverLocks {
+  private locks = new Map<string, TakeoverLock>();
+
+  constructor(private idleTimeoutMs: number) {}
+
+  /** Take the lock for `operator`. Re-taking your own lock returns the existing one. */
+  acquire(sessionId: string, operator: string, tmuxSessionName: string, now = Date.now()): TakeoverAcquireResult {
+    const held = this.locks.get(sessionId);
+    if (held && held.operator !== operator) {
+      return { ok: false, heldBy: held.operator, since: held.acquiredAt };
+    }
+    if (held) {
+      held.lastInputAt = now;
+      return { ok: true, lock: held };
+    }
+
+    const lock: TakeoverLock = {
+      sessionId,
+      operator,
+      tmuxSessionName,
+      token: crypto.randomUUID(),
+      acquiredAt: new Date(now).toISOString(),
+      lastInputAt: now,
+    };
+    this.locks.set(sessionId, lock);
+    return { ok: true, lock };
+  }
+
+  get(sessionId: string): TakeoverLock | undefined {
+    return this.locks.get(sessionId);
+  }
+
+  /** The lock if `token` is its holder's token. */
+  verify(sessionId: string, token: string | undefined): TakeoverLock | null {
+    const lock = this.locks.get(sessionId);
+    return lock && token && tokensEqual(token, lock.token) ? lock : null;
+  }
+
+  touch(sessionId: string, now = Date.now()): void {
+    const lock = this.locks.get(sessionId);
+    if (lock) lock.lastInputAt = now;
+  }
+
+  release(sessionId: string): TakeoverLock | null {
+    const lock = this.locks.get(sessionId);
+    if (!lock) return null;
+    this.locks.delete(sessionId);
+    return lock;
+  }
+
+  /** Locks idle past the timeout (not removed — callers release them with a handoff). */
+  expired(now = Date.now()): TakeoverLock[] {
+    return [...this.locks.values()].filter((lock) => now - lock.lastInputAt >= this.idleTimeoutMs);
+  }
+}
+
+/** Operators allowed to take over sessions on this pod */
+export const operatorTokens = parseOperatorTokens(TAKEOVER_TOKENS);
+
+/** The pod's takeover locks, keyed by session ID */
+export const takeovers = new TakeoverLocks(TAKEOVER_IDLE_TIMEOUT_MS);
@@ -15,7 +15,6 @@ import {
   DAPR_PUBSUB_NAME,
   TERMINAL_STREAM_TOPIC_PREFIX,
   TERMINAL_SNAPSHOT_TOPIC_PREFIX,
-  createMinioClient,
   uploadToMinio,
   type TerminalSnapshot,
   type RecordingMetadata,
@@ -26,6 +25,8 @@ import {
   insertRecording,
   updateStreamingActive,
 } from "./session-db.js";
+import { buildRecordingIndex, parseAsciicast } from "./recording-index.js";
+import { recordingMinioClient, recordingMinioConfig, storeRecordingIndex } from "./recordings.js";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -57,6 +58,9 @@ interface StreamState {
 
 const activeStreams = new Map<string, StreamState>();
 
+/** Local consumers of raw pane output (interactive takeover sockets) */
+const outputListeners = new Map<string, Set<(data: string) => void>>();
+
 // ---------------------------------------------------------------------------
 // Asciicast v2 helpers
 // ---------------------------------------------------------------------------
@@ -202,6 +206,7 @@ export async function startPaneStream(
 
         const text = decoder.decode(value, { stream: true });
         current.batchBuffer += text;
+        outputListeners.get(sessionId)?.forEach((listener) => listener(text));
 
         // Flush immediately if batch is large enough
         if (current.batchBuffer.length >= BATCH_SIZE_BYTES) {
@@ -359,6 +364,23 @@ export function isStreamActive(sessionId: string): boolean {
   return activeStreams.has(sessionId);
 }
 
+/**
+ * Receive raw pane output for a session as it is read, ahead of the batched
+ * pub/sub stream. Returns an unsubscribe function.
+ */
+export function onPaneOutput(sessionId: string, listener: (data: string) => void): () => void {
+  let listeners = outputListeners.get(sessionId);
+  if (!listeners) {
+    listeners = new Set();
+    outputListeners.set(sessionId, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) outputListeners.delete(sessionId);
+  };
+}
+
 /**
  * Stop all active streams gracefully. Called on SIGTERM.
  */
@@ -388,19 +410,17 @@ async function uploadRecording(
   const durationMs = Date.now() - startedAt;
   const sizeBytes = fileData.length;
 
-  const minioEndpoint = process.env.MINIO_ENDPOINT || "http://minio.default.svc.cluster.local:9000";
-  const minioAccessKey = process.env.MINIO_ACCESS_KEY || "";
-  const minioSecretKey = process.env.MINIO_SECRET_KEY || "";
-  const minioBucket = process.env.MINIO_BUCKET || "mesh-six-recordings";
-
-  const client = createMinioClient({
-    endpoint: minioEndpoint,
-    accessKeyId: minioAccessKey,
-    secretAccessKey: minioSecretKey,
-    bucket: minioBucket,
-  });
+  const { bucket } = recordingMinioConfig();
+  await uploadToMinio(recordingMinioClient(), bucket, s3Key, fileData, "application/x-asciicast");
 
-  await uploadToMinio(client, minioBucket, s3Key, fileData, "application/x-asciicast");
+  // Index for seek/search/clips; the replay API builds it lazily if this fails
+  let indexKey: string | undefined;
+  try {
+    const index = buildRecordingIndex(parseAsciicast(fileData.toString("utf-8")));
+    indexKey = await storeRecordingIndex(s3Key, index);
+  } catch (err) {
+    log(`Failed to index recording for ${sessionId}: ${err}`);
+  }
 
   // Insert recording metadata into DB
   const row = await insertRecording({
@@ -409,6 +429,8 @@ async function uploadRecording(
     durationMs,
     sizeBytes,
     format: "asciicast-v2",
+    startedAt: new Date(startedAt),
+    indexKey,
   });
 
   const metadata: RecordingMetadata = {
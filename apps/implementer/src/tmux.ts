@@ -84,6 +84,22 @@ export async function sendKeys(name: string, ...keys: string[]): Promise<void> {
   }
 }
 
+/**
+ * Type raw terminal input into a tmux session exactly as given (no key-name
+ * lookup, no trailing Enter). Used for interactive operator takeover.
+ */
+export async function sendLiteral(name: string, data: string): Promise<void> {
+  const proc = Bun.spawn(["tmux", "send-keys", "-t", name, "-l", "--", data], {
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const exitCode = await proc.exited;
+  if (exitCode !== 0) {
+    const stderr = await new Response(proc.stderr).text();
+    throw new Error(`tmux send-keys -l failed (exit ${exitCode}): ${stderr.trim()}`);
+  }
+}
+
 /**
  * Check whether a tmux session with the given name currently exists.
  */
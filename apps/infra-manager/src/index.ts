@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -43,6 +47,9 @@ const CLOUDFLARE_API_BASE = "https://api.cloudflare.com/client/v4";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -344,6 +351,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -355,12 +367,22 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} - ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
-    const result = await handleTask(task);
+    const result = await handleTask(task, token);
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, result);
     console.log(`[${AGENT_ID}] Task ${task.id} completed in ${result.durationMs}ms`);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -374,7 +396,20 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // Direct invocation endpoint
@@ -385,7 +420,7 @@ app.post("/invoke", async (c) => {
 });
 
 // --- Core Task Handler ---
-async function handleTask(task: TaskRequest): Promise<TaskResult> {
+async function handleTask(task: TaskRequest, token?: CancelToken): Promise<TaskResult> {
   const startTime = Date.now();
 
   const query =
@@ -417,9 +452,10 @@ async function handleTask(task: TaskRequest): Promise<TaskResult> {
   // Generate response with tool use
   const traceId = crypto.randomUUID();
   const { text } = await tracedChatCompletion(
-    { model: LLM_MODEL, system: systemPrompt, prompt: query },
+    { model: LLM_MODEL, system: systemPrompt, prompt: query, signal: token?.signal },
     eventLog ? { eventLog, traceId, agentId: AGENT_ID, taskId: task.id } : null
   );
+  token?.throwIfCancelled();
 
   // Store in memory
   if (memory) {
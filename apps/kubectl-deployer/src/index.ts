@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -43,6 +47,9 @@ const KUBECTL_CONTEXT = process.env.KUBECTL_CONTEXT || "";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -55,7 +62,7 @@ if (DATABASE_URL) {
 }
 
 // --- kubectl Helper ---
-async function kubectl(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+async function kubectl(args: string[], signal?: AbortSignal): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const cmdArgs = [...args];
 
   if (KUBECONFIG) {
@@ -70,6 +77,7 @@ async function kubectl(args: string[]): Promise<{ stdout: string; stderr: string
   const proc = Bun.spawn(["kubectl", ...cmdArgs], {
     stdout: "pipe",
     stderr: "pipe",
+    signal,
   });
 
   const stdout = await new Response(proc.stdout).text();
@@ -287,7 +295,7 @@ const tools = {
       selector: z.string().optional(),
       allNamespaces: z.boolean().default(false),
     }),
-    execute: async ({ namespace, selector, allNamespaces }) => {
+    execute: async ({ namespace, selector, allNamespaces }, { signal }) => {
       const args = ["get", "pods", "-o", "wide"];
       if (allNamespaces) {
         args.push("-A");
@@ -298,7 +306,7 @@ const tools = {
         args.push("-l", selector);
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -312,13 +320,13 @@ const tools = {
       namespace: z.string().default("default"),
       name: z.string().optional(),
     }),
-    execute: async ({ namespace, name }) => {
+    execute: async ({ namespace, name }, { signal }) => {
       const args = ["get", "deployments", "-n", namespace, "-o", "wide"];
       if (name) {
         args.splice(2, 0, name);
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -333,10 +341,10 @@ const tools = {
       name: z.string(),
       namespace: z.string().default("default"),
     }),
-    execute: async ({ resource, name, namespace }) => {
+    execute: async ({ resource, name, namespace }, { signal }) => {
       const { stdout, stderr, exitCode } = await kubectl([
         "describe", resource, name, "-n", namespace,
-      ]);
+      ], signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -353,7 +361,7 @@ const tools = {
       tail: z.number().default(100),
       previous: z.boolean().default(false),
     }),
-    execute: async ({ pod, namespace, container, tail, previous }) => {
+    execute: async ({ pod, namespace, container, tail, previous }, { signal }) => {
       const args = ["logs", pod, "-n", namespace, `--tail=${tail}`];
       if (container) {
         args.push("-c", container);
@@ -362,7 +370,7 @@ const tools = {
         args.push("--previous");
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -376,13 +384,13 @@ const tools = {
       namespace: z.string().default("default"),
       fieldSelector: z.string().optional().describe("e.g., involvedObject.name=my-pod"),
     }),
-    execute: async ({ namespace, fieldSelector }) => {
+    execute: async ({ namespace, fieldSelector }, { signal }) => {
       const args = ["get", "events", "-n", namespace, "--sort-by=.lastTimestamp"];
       if (fieldSelector) {
         args.push("--field-selector", fieldSelector);
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -397,7 +405,7 @@ const tools = {
       namespace: z.string().optional(),
       dryRun: z.boolean().default(false),
     }),
-    execute: async ({ manifest, namespace, dryRun }) => {
+    execute: async ({ manifest, namespace, dryRun }, { signal }) => {
       const args = ["apply", "-f", "-"];
       if (namespace) {
         args.push("-n", namespace);
@@ -410,6 +418,7 @@ const tools = {
         stdin: new TextEncoder().encode(manifest),
         stdout: "pipe",
         stderr: "pipe",
+        signal,
       });
 
       const stdout = await new Response(proc.stdout).text();
@@ -431,13 +440,13 @@ const tools = {
       namespace: z.string().default("default"),
       force: z.boolean().default(false),
     }),
-    execute: async ({ resource, name, namespace, force }) => {
+    execute: async ({ resource, name, namespace, force }, { signal }) => {
       const args = ["delete", resource, name, "-n", namespace];
       if (force) {
         args.push("--force", "--grace-period=0");
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -451,10 +460,10 @@ const tools = {
       deployment: z.string(),
       namespace: z.string().default("default"),
     }),
-    execute: async ({ deployment, namespace }) => {
+    execute: async ({ deployment, namespace }, { signal }) => {
       const { stdout, stderr, exitCode } = await kubectl([
         "rollout", "status", `deployment/${deployment}`, "-n", namespace,
-      ]);
+      ], signal);
       return { status: stdout || stderr, exitCode };
     },
   }),
@@ -465,10 +474,10 @@ const tools = {
       deployment: z.string(),
       namespace: z.string().default("default"),
     }),
-    execute: async ({ deployment, namespace }) => {
+    execute: async ({ deployment, namespace }, { signal }) => {
       const { stdout, stderr, exitCode } = await kubectl([
         "rollout", "history", `deployment/${deployment}`, "-n", namespace,
-      ]);
+      ], signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -483,13 +492,13 @@ const tools = {
       namespace: z.string().default("default"),
       revision: z.number().optional(),
     }),
-    execute: async ({ deployment, namespace, revision }) => {
+    execute: async ({ deployment, namespace, revision }, { signal }) => {
       const args = ["rollout", "undo", `deployment/${deployment}`, "-n", namespace];
       if (revision) {
         args.push(`--to-revision=${revision}`);
       }
 
-      const { stdout, stderr, exitCode } = await kubectl(args);
+      const { stdout, stderr, exitCode } = await kubectl(args, signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -504,10 +513,10 @@ const tools = {
       namespace: z.string().default("default"),
       replicas: z.number(),
     }),
-    execute: async ({ deployment, namespace, replicas }) => {
+    execute: async ({ deployment, namespace, replicas }, { signal }) => {
       const { stdout, stderr, exitCode } = await kubectl([
         "scale", `deployment/${deployment}`, "-n", namespace, `--replicas=${replicas}`,
-      ]);
+      ], signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -521,10 +530,10 @@ const tools = {
       deployment: z.string(),
       namespace: z.string().default("default"),
     }),
-    execute: async ({ deployment, namespace }) => {
+    execute: async ({ deployment, namespace }, { signal }) => {
       const { stdout, stderr, exitCode } = await kubectl([
         "rollout", "restart", `deployment/${deployment}`, "-n", namespace,
-      ]);
+      ], signal);
       if (exitCode !== 0) {
         return { error: stderr, exitCode };
       }
@@ -580,6 +589,7 @@ app.get("/readyz", (c) => c.json({ status: "ok" }));
 app.get("/dapr/subscribe", (c): Response => {
   const subscriptions: DaprSubscription[] = [
     { pubsubname: DAPR_PUBSUB_NAME, topic: `tasks.${AGENT_ID}`, route: "/tasks" },
+    { pubsubname: DAPR_PUBSUB_NAME, topic: taskControlTopic(AGENT_ID), route: "/control" },
   ];
   return c.json(subscriptions);
 });
@@ -670,6 +680,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     let result: unknown;
 
@@ -680,11 +693,12 @@ app.post("/tasks", async (c) => {
         namespace as string,
         name as string | undefined,
         selector as string | undefined,
-        resource as string
+        resource as string,
+        token
       );
     } else {
       const request = KubectlRequestSchema.parse(task.payload);
-      result = await handleKubectlRequest(request);
+      result = await handleKubectlRequest(request, token);
     }
 
     const taskResult: TaskResult = {
@@ -696,9 +710,16 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task failed:`, error);
 
     const failResult: TaskResult = {
@@ -712,12 +733,25 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // --- Core Handler ---
-async function handleKubectlRequest(request: KubectlRequest): Promise<unknown> {
-  const toolOpts = { toolCallId: "direct", messages: [] };
+async function handleKubectlRequest(request: KubectlRequest, token?: CancelToken): Promise<unknown> {
+  const toolOpts = { toolCallId: "direct", messages: [], signal: token?.signal };
 
   switch (request.action) {
     case "get-pods": {
@@ -822,7 +856,7 @@ async function handleKubectlRequest(request: KubectlRequest): Promise<unknown> {
     }
 
     case "debug": {
-      return handleDebugRequest(request.namespace, request.name, request.selector, request.resource || "deployment");
+      return handleDebugRequest(request.namespace, request.name, request.selector, request.resource || "deployment", token);
     }
 
     case "exec": {
@@ -835,7 +869,7 @@ async function handleKubectlRequest(request: KubectlRequest): Promise<unknown> {
         args.push("-c", request.container);
       }
       args.push("--", ...request.command);
-      return kubectl(args);
+      return kubectl(args, token?.signal);
     }
 
     default:
@@ -848,7 +882,8 @@ async function handleDebugRequest(
   namespace: string,
   name?: string,
   selector?: string,
-  resource: string = "deployment"
+  resource: string = "deployment",
+  token?: CancelToken
 ): Promise<DebugResult> {
   let enhancedPrompt = SYSTEM_PROMPT;
 
@@ -874,6 +909,7 @@ async function handleDebugRequest(
     {
       model: LLM_MODEL,
       system: enhancedPrompt,
+      signal: token?.signal,
       prompt: `Debug the following Kubernetes issue:
 Namespace: ${namespace}
 Resource: ${resource}
@@ -895,9 +931,11 @@ Provide a thorough analysis.`,
   const { object } = await chatCompletionWithSchema({
     model: LLM_MODEL,
     schema: DebugResultSchema,
+    signal: token?.signal,
     system: enhancedPrompt,
     prompt: `Create a structured debug report from this analysis:\n\n${analysis}`,
   });
+  token?.throwIfCancelled();
 
   // Store in memory
   if (memory) {
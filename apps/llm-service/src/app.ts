@@ -1,15 +1,29 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { randomUUID } from "crypto";
 import {
   ChatCompletionRequestSchema,
+  LLMUsageGroupBySchema,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatCompletionChunk,
   type LLMServiceStatus,
 } from "@mesh-six/core";
 import type { ActorRuntime } from "./actor-runtime.js";
-import type { ActorRouter } from "./router.js";
+import type { ActorRouter, RouteOptions } from "./router.js";
+import type { UsageStore } from "./usage-store.js";
+import type { SessionStore } from "./session-store.js";
+import { CLAUDE_CLI_PROVIDER, type FallbackChain } from "./fallback.js";
+import type { ResponseCache } from "./response-cache.js";
+import { deleteSession } from "./minio-client.js";
+import { streamHub, STREAM_RELAY_PATH, StreamRelayBodySchema, type ActorCompletionRequest } from "./stream-hub.js";
+import { buildCompletionChunk } from "./openai-compat.js";
 import {
   AGENT_ID,
   ALLOWED_MODELS,
   DAPR_ACTOR_CONFIG,
   ACTOR_TYPE,
+  STREAM_RELAY_URL,
 } from "./config.js";
 
 const startTime = Date.now();
@@ -17,7 +31,25 @@ const startTime = Date.now();
 export function createApp(
   runtime: ActorRuntime,
   router: ActorRouter,
+  services: {
+    usage?: UsageStore | null;
+    sessions?: SessionStore | null;
+    fallback?: FallbackChain | null;
+    cache?: ResponseCache | null;
+  } = {},
 ): Hono {
+  const usage = services.usage ?? null;
+  const sessions = services.sessions ?? null;
+  const fallback = services.fallback ?? null;
+  const cache = services.cache ?? null;
+
+  // Completions go through the provider fallback chain when one is configured
+  const routeUncached = (request: ChatCompletionRequest, opts: RouteOptions) =>
+    fallback ? fallback.route(request, opts) : router.route(request, opts);
+  // ...behind the response cache for requests that opt in
+  const route = (request: ChatCompletionRequest, opts: RouteOptions) =>
+    cache ? cache.route(request, opts, routeUncached) : routeUncached(request, opts);
+
   const app = new Hono();
 
   let totalRequests = 0;
@@ -156,13 +188,144 @@ export function createApp(
       );
     }
 
-    const result = await router.route(parsed.data);
+    const routeOpts = { caller: callerOf(c, parsed.data) };
+
+    if (parsed.data.stream) {
+      return streamCompletion(c, parsed.data, routeOpts);
+    }
+
+    const result = await route(parsed.data, routeOpts);
 
     if (result.status !== 200) {
       totalErrors++;
     }
 
-    return c.json(result.body, result.status as 200);
+    return c.json(result.body, result.status as 200, result.headers);
+  });
+
+  /**
+   * Fairness key for the wait queue: the calling Dapr app, an explicit
+   * caller header, or the requested capability.
+   */
+  function callerOf(c: Context, request: ChatCompletionRequest): string {
+    return (
+      c.req.header("dapr-caller-app-id") ??
+      c.req.header("x-caller-id") ??
+      request.capability ??
+      "anonymous"
+    );
+  }
+
+  /**
+   * Serve a `stream: true` request as OpenAI `chat.completion.chunk` SSE.
+   *
+   * The response is held until the actor produces its first delta or the
+   * request settles, so routing failures (429/503/502) keep their HTTP status.
+   * An actor hosted on another replica relays its deltas back through
+   * `POST /internal/streams/:id`. Whatever the deltas did not cover (all of
+   * it when none arrived, the tail when a relay failed partway) is sent from
+   * the final response. A fallback provider's answer is sent whole if nothing
+   * was streamed yet, and as an error otherwise.
+   */
+  async function streamCompletion(c: Context, request: ChatCompletionRequest, routeOpts: RouteOptions) {
+    const streamId = `chatcmpl-${randomUUID()}`;
+    const channel = streamHub.open(streamId);
+    const actorRequest: ActorCompletionRequest = {
+      ...request,
+      stream_id: streamId,
+      stream_origin: STREAM_RELAY_URL || undefined,
+    };
+    const routed = route(actorRequest, routeOpts);
+    const settled = routed.finally(() => channel.close());
+
+    const early = await Promise.race([channel.ready().then(() => null), routed]);
+    if (early && early.status !== 200) {
+      channel.close();
+      totalErrors++;
+      return c.json(early.body, early.status as 429, early.headers);
+    }
+
+    return streamSSE(c, async (stream) => {
+      const base = { id: streamId, created: Math.floor(Date.now() / 1000), model: request.model };
+      const send = (chunk: ChatCompletionChunk | Record<string, unknown>) =>
+        stream.writeSSE({ data: JSON.stringify(chunk) });
+
+      await send(buildCompletionChunk(base, { role: "assistant", content: "" }));
+
+      let sent = "";
+      for (;;) {
+        await channel.ready();
+        // Anything pushed before close is already buffered
+        const closed = channel.isClosed;
+        for (const delta of channel.drain()) {
+          await send(buildCompletionChunk(base, { content: delta }));
+          sent += delta;
+        }
+        if (closed) break;
+      }
+
+      const result = await settled;
+      const body = result.body as ChatCompletionResponse & { error?: { message: string; type: string } };
+      const choice = body.choices?.[0];
+
+      const fellBack = (body.provider ?? CLAUDE_CLI_PROVIDER) !== CLAUDE_CLI_PROVIDER;
+
+      if (result.status !== 200 || !choice || choice.finish_reason === "error") {
+        totalErrors++;
+        await send({
+          error: body.error ?? { message: "Completion failed", type: "upstream_error" },
+        });
+      } else if (fellBack && sent) {
+        // The client already has part of the CLI's answer; appending another
+        // provider's would splice two different responses together
+        totalErrors++;
+        await send({
+          error: {
+            message: `Claude CLI stream was interrupted and ${body.provider} answered instead; retry the request`,
+            type: "upstream_error",
+          },
+        });
+      } else {
+        const content = choice.message.content ?? "";
+        // Send what the deltas did not cover. Deltas can also carry text from
+        // earlier turns that is not in the final message; then nothing is added
+        const remainder = content.startsWith(sent) ? content.slice(sent.length) : "";
+        if (remainder) {
+          await send(buildCompletionChunk(base, { content: remainder }));
+        }
+        if (choice.message.tool_calls?.length) {
+          // Tool requests are not streamed incrementally; calls arrive whole
+          await send(buildCompletionChunk(base, {
+            tool_calls: choice.message.tool_calls.map((call, index) => ({ index, ...call })),
+          }));
+        }
+        await send(buildCompletionChunk(base, {}, choice.finish_reason));
+        if (request.stream_options?.include_usage && body.usage) {
+          await send({ ...buildCompletionChunk(base, {}), choices: [], usage: body.usage });
+        }
+      }
+
+      await stream.writeSSE({ data: "[DONE]" });
+    });
+  }
+
+  /**
+   * POST /internal/streams/:id
+   *
+   * Relay deltas from an actor hosted on another replica into a stream served
+   * by this one. 404 when the stream is not (or no longer) open here.
+   */
+  app.post(`${STREAM_RELAY_PATH}/:id`, async (c) => {
+    const streamId = c.req.param("id");
+    const parsed = StreamRelayBodySchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) {
+      return c.json({ error: { message: "Invalid relay body", type: "invalid_request_error" } }, 400);
+    }
+    if (!streamHub.has(streamId)) {
+      return c.json({ error: { message: `Unknown stream: ${streamId}`, type: "not_found" } }, 404);
+    }
+    for (const delta of parsed.data.deltas) streamHub.push(streamId, delta);
+    return c.json({ accepted: parsed.data.deltas.length });
   });
 
   // ===========================================================================
@@ -186,6 +349,8 @@ export function createApp(
       totalRequests,
       totalErrors,
       uptime: Math.floor((Date.now() - startTime) / 1000),
+      queue: router.getQueueStats(),
+      ...(fallback ? { providers: fallback.getProviderStats() } : {}),
     };
 
     return c.json(status);
@@ -204,5 +369,110 @@ export function createApp(
     });
   });
 
+  // ===========================================================================
+  // SESSIONS
+  // ===========================================================================
+
+  /** GET /v1/sessions/:id — session owner, credential, turns and last use */
+  app.get("/v1/sessions/:id", async (c) => {
+    if (!sessions) {
+      return c.json({ error: { message: "Session store is not configured", type: "service_unavailable" } }, 503);
+    }
+
+    const session = await sessions.get(c.req.param("id"));
+    if (!session) {
+      return c.json({ error: { message: "Session not found", type: "not_found" } }, 404);
+    }
+
+    // An unhealthy owner is replaced on the session's next request
+    const owner = router.getAllStatuses().find((a) => a.actorId === session.actorId);
+    return c.json({ ...session, ownerStatus: owner?.status ?? "unknown" });
+  });
+
+  /** DELETE /v1/sessions/:id — drop the binding and the stored CLI session */
+  app.delete("/v1/sessions/:id", async (c) => {
+    if (!sessions) {
+      return c.json({ error: { message: "Session store is not configured", type: "service_unavailable" } }, 503);
+    }
+
+    const sessionId = c.req.param("id");
+    const session = await sessions.get(sessionId);
+    if (!session) {
+      return c.json({ error: { message: "Session not found", type: "not_found" } }, 404);
+    }
+
+    await sessions.delete(sessionId);
+    try {
+      await deleteSession(sessionId);
+    } catch (err) {
+      console.warn(`[${AGENT_ID}] Failed to delete stored session ${sessionId}:`, err);
+    }
+    return c.json({ deleted: sessionId });
+  });
+
+  // ===========================================================================
+  // RESPONSE CACHE
+  // ===========================================================================
+
+  /** DELETE /v1/cache — drop cached responses, optionally only for ?model= */
+  app.delete("/v1/cache", async (c) => {
+    if (!cache) {
+      return c.json({ error: { message: "Response cache is not configured", type: "service_unavailable" } }, 503);
+    }
+    const model = c.req.query("model");
+    return c.json({ invalidated: await cache.invalidate(model ? { model } : {}) });
+  });
+
+  /** DELETE /v1/cache/:key — drop one cached response */
+  app.delete("/v1/cache/:key", async (c) => {
+    if (!cache) {
+      return c.json({ error: { message: "Response cache is not configured", type: "service_unavailable" } }, 503);
+    }
+    const invalidated = await cache.invalidate({ key: c.req.param("key") });
+    if (invalidated === 0) {
+      return c.json({ error: { message: "Cache entry not found", type: "not_found" } }, 404);
+    }
+    return c.json({ invalidated });
+  });
+
+  // ===========================================================================
+  // USAGE ACCOUNTING
+  // ===========================================================================
+
+  /**
+   * GET /v1/usage — token and cost totals for Claude CLI completions.
+   * Query: from, to (ISO timestamps; default last 24h), groupBy
+   * (actor | credential | caller | model | day).
+   */
+  app.get("/v1/usage", async (c) => {
+    if (!usage) {
+      return c.json(
+        { error: { message: "Usage accounting is not configured (DATABASE_URL unset)", type: "service_unavailable" } },
+        503,
+      );
+    }
+
+    const to = c.req.query("to") ? new Date(c.req.query("to")!) : new Date();
+    const from = c.req.query("from")
+      ? new Date(c.req.query("from")!)
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+    const groupBy = c.req.query("groupBy");
+    const parsedGroupBy = groupBy ? LLMUsageGroupBySchema.safeParse(groupBy) : null;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || (parsedGroupBy && !parsedGroupBy.success)) {
+      return c.json(
+        {
+          error: {
+            message: `Invalid usage query: from/to must be ISO timestamps, groupBy one of ${LLMUsageGroupBySchema.options.join(", ")}`,
+            type: "invalid_request_error",
+          },
+        },
+        400,
+      );
+    }
+
+    return c.json(await usage.summarize({ from, to, groupBy: parsedGroupBy?.data }));
+  });
+
   return app;
 }
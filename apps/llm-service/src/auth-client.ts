@@ -1,4 +1,4 @@
-import { AUTH_SERVICE_APP_ID } from "@mesh-six/core";
+import { AUTH_SERVICE_APP_ID, type PoolMemberRef, type CredentialProblemReport } from "@mesh-six/core";
 
 const AUTH_PROJECT_ID = process.env.AUTH_PROJECT_ID || process.env.GWA_PROJECT_ID || "mesh-six";
 const DAPR_HOST = process.env.DAPR_HOST || "localhost";
@@ -12,6 +12,9 @@ export interface AuthProvisionResult {
   status: "current" | "provisioned" | "no_credentials";
   bundleId?: string;
   credentialExpiresAt?: string;
+  /** Credential pool member (account) the bundle belongs to */
+  poolMember?: PoolMemberRef;
+  retryAfterMs?: number;
 }
 
 export async function provisionFromAuthService(
@@ -36,6 +39,29 @@ export async function provisionFromAuthService(
   }
 }
 
+/**
+ * Tell auth-service a bundle's account hit a rate limit or auth failure, so its
+ * pool member cools down and the next provision picks another one.
+ */
+export async function reportCredentialProblem(
+  bundleId: string,
+  problem: CredentialProblemReport["problem"],
+  reportedBy: string,
+): Promise<boolean> {
+  try {
+    const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${AUTH_SERVICE_APP_ID}/method/projects/${AUTH_PROJECT_ID}/pool/report`;
+    const report: CredentialProblemReport = { bundleId, problem, reportedBy };
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(report),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
 export async function downloadBundle(bundleId: string): Promise<Buffer | null> {
   try {
     const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${AUTH_SERVICE_APP_ID}/method/projects/${AUTH_PROJECT_ID}/provision/${bundleId}`;
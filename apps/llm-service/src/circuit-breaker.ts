@@ -0,0 +1,88 @@
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before allowing a trial */
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastFailure?: string;
+}
+
+/**
+ * Consecutive-failure circuit breaker. After `failureThreshold` failures the
+ * circuit opens and `canRequest()` is false until `cooldownMs` has passed;
+ * then a single trial call is let through (half-open). Its success closes the
+ * circuit, its failure re-opens it for another cooldown. Every call allowed by
+ * `canRequest()` must end in exactly one `record*()` call.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastFailure: string | undefined;
+
+  constructor(
+    private opts: CircuitBreakerOptions,
+    private now: () => number = Date.now,
+  ) {}
+
+  canRequest(): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open" && this.now() - this.openedAt >= this.opts.cooldownMs) {
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The call ended without saying anything about the provider's health (e.g.
+   * load shedding or a client error). Releases a half-open trial so the next
+   * call can probe again; the state is otherwise unchanged.
+   */
+  recordNeutral(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string): void {
+    this.failures++;
+    this.lastFailure = reason;
+    this.trialInFlight = false;
+
+    if (this.state === "half-open" || this.failures >= this.opts.failureThreshold) {
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      ...(this.state !== "closed" ? { openedAt: new Date(this.openedAt).toISOString() } : {}),
+      ...(this.lastFailure ? { lastFailure: this.lastFailure } : {}),
+    };
+  }
+}
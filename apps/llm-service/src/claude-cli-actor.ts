@@ -1,6 +1,6 @@
 import { join } from "path";
 import { mkdirSync, existsSync } from "fs";
-import type { ActorInfo, ActorStatus, ChatCompletionRequest } from "@mesh-six/core";
+import type { ActorInfo, ActorStatus } from "@mesh-six/core";
 import { DAPR_PUBSUB_NAME, LLM_EVENTS_TOPIC } from "@mesh-six/core";
 import type { Actor } from "./actor-runtime.js";
 import {
@@ -10,6 +10,8 @@ import {
   publishEvent,
 } from "./actor-runtime.js";
 import { spawnCLI, validateCLI } from "./cli-spawner.js";
+import { streamRelay, type ActorCompletionRequest } from "./stream-hub.js";
+import { toolsEnabled } from "./tool-protocol.js";
 import {
   downloadAndExtract,
   archiveAndUpload,
@@ -37,6 +39,7 @@ import {
   provisionFromAuthService,
   downloadBundle,
   checkAuthServiceHealth,
+  reportCredentialProblem,
 } from "./auth-client.js";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}][actor] ${msg}`);
@@ -187,7 +190,7 @@ export class ClaudeCLIActor implements Actor {
   async onInvoke(method: string, payload: unknown): Promise<unknown> {
     switch (method) {
       case "complete":
-        return this.complete(payload as ChatCompletionRequest);
+        return this.complete(payload as ActorCompletionRequest);
       case "getInfo":
         return this.getInfo();
       case "updateConfig":
@@ -220,7 +223,7 @@ export class ClaudeCLIActor implements Actor {
    * Called via Dapr actor invocation from the router.
    */
   private async complete(
-    request: ChatCompletionRequest,
+    request: ActorCompletionRequest,
   ): Promise<ReturnType<typeof buildCompletionResponse>> {
     if (this.status === "unhealthy") {
       return buildErrorResponse("Actor is unhealthy — credential failure", request.model);
@@ -240,7 +243,8 @@ export class ClaudeCLIActor implements Actor {
 
     try {
       // Build prompt from OpenAI messages
-      const { systemPrompt, userPrompt } = buildCLIPrompt(request.messages);
+      const { systemPrompt, userPrompt } = buildCLIPrompt(request.messages, request);
+      const tools = toolsEnabled(request.tools, request.tool_choice) ? request.tools : undefined;
 
       // Inject JSON schema instructions if structured output is requested
       const finalPrompt = injectSchemaInstructions(userPrompt, request);
@@ -251,6 +255,10 @@ export class ClaudeCLIActor implements Actor {
         sessionRestored = await downloadSession(request.session_id, this.configDir);
       }
 
+      const relay = request.stream && request.stream_id && !tools
+        ? streamRelay(request.stream_id, request.stream_origin)
+        : undefined;
+
       // Spawn the CLI
       const cliOpts = {
         prompt: finalPrompt,
@@ -260,15 +268,23 @@ export class ClaudeCLIActor implements Actor {
         configDir: this.configDir,
         actorId: this.actorId,
         sessionId: request.session_id,
+        // Streaming requests: relay deltas to the handler, locally or on its replica.
+        // Not with tools — the <tool_calls> block must be parsed before it is sent
+        onDelta: relay ? (text: string) => relay.push(text) : undefined,
       };
       let result = await spawnCLI(cliOpts);
 
       this.requestCount++;
 
-      // Handle auth errors — attempt auth-service re-provision before giving up
-      if (result.isAuthError) {
+      // Handle auth errors and rate limits — report the bundle's pool member so
+      // auth-service cools it down, then re-provision before giving up
+      if (result.isAuthError || result.isRateLimited) {
         if (isAuthServiceConfigured()) {
-          log(`Auth error for ${this.actorId}, attempting auth-service re-provision`);
+          const problem = result.isRateLimited ? "rate_limited" : "auth_failure";
+          log(`${problem === "rate_limited" ? "Rate limit" : "Auth error"} for ${this.actorId}, attempting auth-service re-provision`);
+          if (this.authBundleId) {
+            await reportCredentialProblem(this.authBundleId, problem, this.actorId);
+          }
           const reprovisioned = await this.provisionFromAuth();
           if (reprovisioned) {
             result = await spawnCLI(cliOpts);
@@ -276,6 +292,14 @@ export class ClaudeCLIActor implements Actor {
           }
         }
 
+        if (result.isRateLimited) {
+          this.errorCount++;
+          this.status = "idle";
+          await this.persistState();
+          await this.publishStatusEvent("rate_limited");
+          return buildErrorResponse("Rate limited", model);
+        }
+
         if (result.isAuthError) {
           this.errorCount++;
           this.status = "unhealthy";
@@ -285,6 +309,9 @@ export class ClaudeCLIActor implements Actor {
         }
       }
 
+      // Relayed deltas must reach the origin before it closes the stream
+      await relay?.done();
+
       if (!result.success) {
         this.errorCount++;
         this.status = "idle";
@@ -313,9 +340,15 @@ export class ClaudeCLIActor implements Actor {
       await this.publishStatusEvent("complete", {
         model,
         durationMs: result.durationMs,
+        costUsd: result.costUsd,
+        usage: result.usage,
       });
 
-      return buildCompletionResponse(result.content, model, sessionId);
+      return buildCompletionResponse(result.content, model, sessionId, {
+        usage: result.usage,
+        costUsd: result.costUsd,
+        tools,
+      });
     } catch (err) {
       this.errorCount++;
       this.status = "idle";
@@ -330,7 +363,7 @@ export class ClaudeCLIActor implements Actor {
   private getInfo(): ActorInfo {
     return {
       actorId: this.actorId,
-      credentialId: this.credentialKey || "none",
+      credentialId: this.credentialKey || this.authBundleId || "none",
       status: this.status,
       capabilities: this.capabilities,
       lastUsed: this.lastUsed,
@@ -408,7 +441,8 @@ export class ClaudeCLIActor implements Actor {
         this.credentialExpiresAt = provision.credentialExpiresAt
           ? new Date(provision.credentialExpiresAt).getTime()
           : null;
-        log(`Auth-service provisioned bundle ${this.authBundleId} for ${this.actorId}`);
+        const member = provision.poolMember ? ` (pool member ${provision.poolMember.label})` : "";
+        log(`Auth-service provisioned bundle ${this.authBundleId} for ${this.actorId}${member}`);
         return true;
       }
 
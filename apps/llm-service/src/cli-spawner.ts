@@ -1,4 +1,4 @@
-import { detectAuthFailure, ClaudeAuthError } from "@mesh-six/core";
+import { detectAuthFailure, detectRateLimit, ClaudeAuthError } from "@mesh-six/core";
 import { CLAUDE_CLI_PATH, HOOK_SCRIPT_PATH, DAPR_HTTP_PORT, AGENT_ID } from "./config.js";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}][cli] ${msg}`);
@@ -22,6 +22,20 @@ export interface CLISpawnOptions {
   sessionId?: string;
   /** Timeout in milliseconds */
   timeout?: number;
+  /**
+   * Receive text deltas as the CLI produces them. Switches the CLI to
+   * `--output-format stream-json`; the final result is still returned.
+   */
+  onDelta?: (text: string) => void;
+}
+
+/** Token counts from the CLI's `usage` block */
+export interface CLIUsage {
+  /** Uncached input tokens */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
 }
 
 export interface CLISpawnResult {
@@ -31,8 +45,18 @@ export interface CLISpawnResult {
   durationMs: number;
   /** Parsed from --output-format json if available */
   costUsd?: number;
+  usage?: CLIUsage;
   sessionId?: string;
   isAuthError?: boolean;
+  /** The account hit a usage or API rate limit */
+  isRateLimited?: boolean;
+}
+
+interface ParsedOutput {
+  content: string;
+  costUsd?: number;
+  usage?: CLIUsage;
+  sessionId?: string;
 }
 
 /**
@@ -44,11 +68,9 @@ export interface CLISpawnResult {
 export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
   const startTime = Date.now();
 
-  const args: string[] = [
-    "--print",
-    "--output-format", "json",
-    "--verbose",
-  ];
+  const args: string[] = opts.onDelta
+    ? ["--print", "--output-format", "stream-json", "--include-partial-messages", "--verbose"]
+    : ["--print", "--output-format", "json", "--verbose"];
 
   if (opts.model) {
     args.push("--model", opts.model);
@@ -101,9 +123,11 @@ export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
   });
 
   try {
+    const stream = opts.onDelta ? new StreamJsonParser(opts.onDelta) : null;
+
     const [stdout, stderr, exitCode] = await Promise.race([
       Promise.all([
-        new Response(proc.stdout).text(),
+        stream ? readLines(proc.stdout, (line) => stream.feed(line)) : new Response(proc.stdout).text(),
         new Response(proc.stderr).text(),
         proc.exited,
       ]),
@@ -114,6 +138,17 @@ export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
 
     const durationMs = Date.now() - startTime;
 
+    // Check for rate limits before auth failures — usage-limit messages match both
+    if (detectRateLimit(stderr) || detectRateLimit(stdout)) {
+      return {
+        success: false,
+        content: "",
+        exitCode: exitCode || 1,
+        durationMs,
+        isRateLimited: true,
+      };
+    }
+
     // Check for auth failures in stderr
     if (detectAuthFailure(stderr) || detectAuthFailure(stdout)) {
       return {
@@ -135,8 +170,8 @@ export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
       };
     }
 
-    // Parse the JSON output from --output-format json
-    const parsed = parseCLIOutput(stdout);
+    // Parse the JSON output from --output-format json (or the stream-json result line)
+    const parsed = stream ? stream.result() : parseCLIOutput(stdout);
 
     return {
       success: true,
@@ -144,6 +179,7 @@ export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
       exitCode: 0,
       durationMs,
       costUsd: parsed.costUsd,
+      usage: parsed.usage,
       sessionId: parsed.sessionId,
     };
   } catch (err) {
@@ -163,11 +199,7 @@ export async function spawnCLI(opts: CLISpawnOptions): Promise<CLISpawnResult> {
  * Parse CLI JSON output format.
  * The CLI with --output-format json returns a JSON object with result details.
  */
-function parseCLIOutput(raw: string): {
-  content: string;
-  costUsd?: number;
-  sessionId?: string;
-} {
+function parseCLIOutput(raw: string): ParsedOutput {
   const trimmed = raw.trim();
 
   // Try to parse as JSON (from --output-format json)
@@ -187,7 +219,8 @@ function parseCLIOutput(raw: string): {
       if (content) {
         return {
           content: typeof content === "string" ? content : JSON.stringify(content),
-          costUsd: parsed.cost_usd || parsed.costUsd,
+          costUsd: parsed.total_cost_usd ?? parsed.cost_usd ?? parsed.costUsd,
+          usage: parseUsage(parsed.usage),
           sessionId: parsed.session_id || parsed.sessionId,
         };
       }
@@ -203,6 +236,111 @@ function parseCLIOutput(raw: string): {
   return { content: trimmed };
 }
 
+/**
+ * Read the Anthropic-style `usage` block of a CLI result
+ * (`input_tokens`, `output_tokens`, `cache_read_input_tokens`,
+ * `cache_creation_input_tokens`). Returns undefined if it is missing.
+ */
+export function parseUsage(raw: unknown): CLIUsage | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const u = raw as Record<string, unknown>;
+  if (typeof u.input_tokens !== "number" && typeof u.output_tokens !== "number") return undefined;
+
+  const count = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+  return {
+    inputTokens: count(u.input_tokens),
+    outputTokens: count(u.output_tokens),
+    cacheReadTokens: count(u.cache_read_input_tokens),
+    cacheCreationTokens: count(u.cache_creation_input_tokens),
+  };
+}
+
+/** Read a byte stream line by line; resolves with the full text. */
+async function readLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let full = "";
+  let pending = "";
+
+  for await (const chunk of body) {
+    const text = decoder.decode(chunk, { stream: true });
+    full += text;
+    pending += text;
+    let newline: number;
+    while ((newline = pending.indexOf("\n")) >= 0) {
+      onLine(pending.slice(0, newline));
+      pending = pending.slice(newline + 1);
+    }
+  }
+  if (pending) onLine(pending);
+  return full;
+}
+
+/**
+ * Incremental parser for `--output-format stream-json` (one JSON object per
+ * line). Text deltas come from `stream_event` content_block_delta lines when
+ * partial messages are enabled, or from whole `assistant` messages otherwise;
+ * the closing `result` line carries the final content, cost, usage and
+ * session ID.
+ */
+export class StreamJsonParser {
+  private sawPartials = false;
+  private streamed = "";
+  private final: ParsedOutput | null = null;
+
+  constructor(private onDelta: (text: string) => void) {}
+
+  feed(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let msg: Record<string, any>;
+    try {
+      msg = JSON.parse(trimmed);
+    } catch {
+      return; // Non-JSON noise (e.g. warnings) is ignored
+    }
+
+    if (msg.type === "stream_event") {
+      const delta = msg.event?.type === "content_block_delta" ? msg.event.delta : null;
+      if (delta?.type === "text_delta" && typeof delta.text === "string") {
+        this.sawPartials = true;
+        this.emit(delta.text);
+      }
+      return;
+    }
+
+    if (msg.type === "assistant" && !this.sawPartials) {
+      const blocks: Array<{ type: string; text?: string }> = msg.message?.content ?? [];
+      for (const block of blocks) {
+        if (block.type === "text" && block.text) this.emit(block.text);
+      }
+      return;
+    }
+
+    if (msg.type === "result") {
+      this.final = {
+        content: typeof msg.result === "string" ? msg.result : this.streamed,
+        costUsd: msg.total_cost_usd ?? msg.cost_usd,
+        usage: parseUsage(msg.usage),
+        sessionId: msg.session_id,
+      };
+    }
+  }
+
+  /** Final output; falls back to the concatenated deltas if no result line arrived. */
+  result(): ParsedOutput {
+    return this.final ?? { content: this.streamed };
+  }
+
+  private emit(text: string): void {
+    this.streamed += text;
+    this.onDelta(text);
+  }
+}
+
 /**
  * Validate that the CLI is working with a lightweight test call.
  * Used during actor activation to verify credentials.
@@ -224,6 +362,10 @@ export async function validateCLI(
       return { ok: false, error: "Authentication failed" };
     }
 
+    if (result.isRateLimited) {
+      return { ok: false, error: "Rate limited" };
+    }
+
     // Validation only checks authentication. A non-zero exit code with
     // non-auth content (e.g. JSON init messages, partial responses) means
     // the CLI started and authenticated — good enough for validation.
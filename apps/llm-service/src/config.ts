@@ -9,6 +9,13 @@ export const APP_PORT = Number(process.env.APP_PORT) || 3000;
 export const DAPR_HOST = process.env.DAPR_HOST || "127.0.0.1";
 export const DAPR_HTTP_PORT = Number(process.env.DAPR_HTTP_PORT) || 3500;
 
+// Base URL other replicas use to relay stream deltas back to this pod
+export const STREAM_RELAY_URL =
+  process.env.STREAM_RELAY_URL || (process.env.POD_IP ? `http://${process.env.POD_IP}:${APP_PORT}` : "");
+
+// Postgres for usage accounting (llm_usage); usage is not recorded when unset
+export const DATABASE_URL = process.env.DATABASE_URL || process.env.PG_PRIMARY_URL || "";
+
 // Auth service — credential provisioning project ID
 export const AUTH_PROJECT_ID = process.env.AUTH_PROJECT_ID || "mesh-six";
 
@@ -25,6 +32,36 @@ export const ACTOR_IDLE_TIMEOUT = process.env.ACTOR_IDLE_TIMEOUT || "30m";
 export const CREDENTIAL_SYNC_INTERVAL = process.env.CREDENTIAL_SYNC_INTERVAL || "5m";
 export const ACTOR_TYPE = LLM_ACTOR_TYPE;
 
+// Wait queue used when every actor is busy (instead of an immediate 429)
+export const QUEUE_MAX_SIZE = Number(process.env.LLM_QUEUE_MAX_SIZE) || 50;
+export const QUEUE_MAX_WAIT_MS = Number(process.env.LLM_QUEUE_MAX_WAIT_MS) || 60_000;
+
+// Session → actor bindings in the Dapr state store expire after this long unused
+export const SESSION_TTL_SECONDS = Number(process.env.LLM_SESSION_TTL_SECONDS) || 7 * 24 * 60 * 60;
+
+// Fallback providers, tried in order after the Claude CLI actors fail.
+// JSON map of model alias → ["provider:model", ...]; "*" applies to any model.
+// e.g. {"*": ["litellm:anthropic/claude-sonnet-4-20250514", "ollama:phi4-mini"]}
+export const FALLBACK_CHAINS = parseFallbackChains(process.env.LLM_FALLBACK_CHAINS);
+export const LITELLM_BASE_URL = process.env.LITELLM_BASE_URL || "http://litellm.litellm:4000/v1";
+export const LITELLM_API_KEY = process.env.LITELLM_API_KEY || "sk-local";
+export const OLLAMA_URL = process.env.OLLAMA_URL || "http://ollama.ollama:11434";
+export const FALLBACK_TIMEOUT_MS = Number(process.env.LLM_FALLBACK_TIMEOUT_MS) || 120_000;
+
+// Per-provider circuit breakers
+export const BREAKER_FAILURE_THRESHOLD = Number(process.env.LLM_BREAKER_FAILURES) || 3;
+export const BREAKER_COOLDOWN_MS = Number(process.env.LLM_BREAKER_COOLDOWN_MS) || 30_000;
+
+// Response cache for `cache: true`, temperature 0 requests (Postgres when
+// DATABASE_URL is set, otherwise in-process). Only similarity mode embeds
+// prompts with Ollama; LLM_CACHE_MODE=similar makes it the default.
+export const CACHE_TTL_SECONDS = Number(process.env.LLM_CACHE_TTL_SECONDS) || 60 * 60;
+export const CACHE_MAX_ENTRIES = Number(process.env.LLM_CACHE_MAX_ENTRIES) || 1000;
+export const CACHE_EMBED_MODEL = process.env.OLLAMA_MODEL_EMBED || "mxbai-embed";
+export const CACHE_SIMILARITY_THRESHOLD = Number(process.env.LLM_CACHE_SIMILARITY_THRESHOLD) || 0.97;
+export const CACHE_DEFAULT_MODE: "exact" | "similar" = process.env.LLM_CACHE_MODE === "similar" ? "similar" : "exact";
+export const CACHE_SWEEP_INTERVAL_MS = Number(process.env.LLM_CACHE_SWEEP_INTERVAL_MS) || 10 * 60_000;
+
 // Default model if not specified in request
 export const DEFAULT_MODEL = process.env.DEFAULT_MODEL || "claude-sonnet-4-20250514";
 
@@ -43,6 +80,21 @@ export const ACTOR_CONFIG_BASE = process.env.ACTOR_CONFIG_BASE || "/tmp/llm-serv
 // Hook event publisher script path (baked into Docker image)
 export const HOOK_SCRIPT_PATH = process.env.HOOK_SCRIPT_PATH || "/app/apps/llm-service/src/hooks/event-publisher.ts";
 
+function parseFallbackChains(raw: string | undefined): Record<string, string[]> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, steps]) => Array.isArray(steps))
+        .map(([alias, steps]) => [alias, (steps as unknown[]).map(String)]),
+    );
+  } catch {
+    console.warn(`[${AGENT_ID}] Ignoring invalid LLM_FALLBACK_CHAINS: ${raw}`);
+    return {};
+  }
+}
+
 // ============================================================================
 // DAPR ACTOR CONFIG RESPONSE
 // ============================================================================
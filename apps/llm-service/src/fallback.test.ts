@@ -0,0 +1,177 @@
+import { describe, it, expect } from "bun:test";
+import type { ChatCompletionRequest } from "@mesh-six/core";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { FallbackChain, parseStep, type ChatProvider } from "./fallback.js";
+import type { RouteResult } from "./router.js";
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and lets one trial through after cooldown", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 }, () => now);
+
+    breaker.recordFailure("boom");
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure("boom");
+    expect(breaker.snapshot().state).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true); // trial
+    expect(breaker.canRequest()).toBe(false); // only one at a time
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toEqual({ state: "closed", consecutiveFailures: 0, lastFailure: "boom" });
+  });
+
+  it("re-opens when the half-open trial fails", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 }, () => now);
+    breaker.recordFailure("a");
+    now = 1500;
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure("b");
+    expect(breaker.snapshot().state).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+});
+
+describe("parseStep", () => {
+  it("splits on the first colon only", () => {
+    expect(parseStep("ollama:phi4-mini:latest")).toEqual({ provider: "ollama", model: "phi4-mini:latest" });
+    expect(parseStep("litellm")).toBeNull();
+  });
+});
+
+describe("FallbackChain", () => {
+  const request = {
+    model: "claude-sonnet-4-20250514",
+    messages: [{ role: "user", content: "plan" }],
+  } as ChatCompletionRequest;
+
+  const ok = (content: string): RouteResult => ({
+    status: 200,
+    body: { id: "c", choices: [{ message: { role: "assistant", content }, finish_reason: "stop" }] },
+  });
+
+  function setup(
+    cliResults: RouteResult[],
+    providerResults: Record<string, Array<RouteResult | Error>>,
+    now: () => number = Date.now,
+  ) {
+    const calls: string[] = [];
+    const router = {
+      route: async () => {
+        calls.push("claude-cli");
+        return cliResults.shift() ?? ok("cli");
+      },
+    };
+    const providers = new Map<string, ChatProvider>(
+      Object.entries(providerResults).map(([name, results]) => [
+        name,
+        {
+          name,
+          complete: async (_req: ChatCompletionRequest, model: string) => {
+            calls.push(`${name}:${model}`);
+            const next = results.shift() ?? ok(name);
+            if (next instanceof Error) throw next;
+            return next;
+          },
+        },
+      ]),
+    );
+    const chain = new FallbackChain(
+      router as any,
+      providers,
+      { "*": ["litellm:anthropic/claude-sonnet-4-20250514", "ollama:phi4-mini"] },
+      { failureThreshold: 1, cooldownMs: 60_000 },
+      now,
+    );
+    return { chain, calls };
+  }
+
+  const unavailable: RouteResult = { status: 503, body: { error: { message: "No healthy actors available" } } };
+
+  it("tags responses served by the Claude CLI", async () => {
+    const { chain, calls } = setup([], { litellm: [], ollama: [] });
+
+    const result = await chain.route(request);
+
+    expect(calls).toEqual(["claude-cli"]);
+    expect(result.headers?.["X-LLM-Provider"]).toBe("claude-cli");
+    expect((result.body as any).provider).toBe("claude-cli");
+  });
+
+  it("falls through the chain and skips open circuits", async () => {
+    const { chain, calls } = setup([unavailable, unavailable], {
+      litellm: [new Error("ECONNREFUSED")],
+      ollama: [],
+    });
+
+    const first = await chain.route(request);
+    expect(calls).toEqual(["claude-cli", "litellm:anthropic/claude-sonnet-4-20250514", "ollama:phi4-mini"]);
+    expect((first.body as any).provider).toBe("ollama");
+
+    // Both earlier circuits are now open
+    calls.length = 0;
+    await chain.route(request);
+    expect(calls).toEqual(["ollama:phi4-mini"]);
+
+    const stats = chain.getProviderStats();
+    expect(stats.find((s) => s.provider === "claude-cli")?.state).toBe("open");
+    expect(stats.find((s) => s.provider === "ollama")?.served).toBe(2);
+  });
+
+  it("does not trip the CLI breaker on queue 429s", async () => {
+    const busy: RouteResult = { status: 429, body: {}, headers: { "Retry-After": "5" } };
+    const { chain } = setup([busy], { litellm: [], ollama: [] });
+
+    const result = await chain.route(request);
+
+    expect((result.body as any).provider).toBe("litellm");
+    expect(chain.getProviderStats().find((s) => s.provider === "claude-cli")?.state).toBe("closed");
+  });
+
+  it("releases the half-open CLI trial after a queue 429", async () => {
+    let now = 0;
+    const busy: RouteResult = { status: 429, body: {}, headers: { "Retry-After": "5" } };
+    const { chain, calls } = setup([unavailable, busy], { litellm: [], ollama: [] }, () => now);
+
+    await chain.route(request); // opens the CLI circuit
+    now = 60_000;
+    await chain.route(request); // half-open trial hits a busy queue
+
+    calls.length = 0;
+    const result = await chain.route(request);
+    expect(calls).toEqual(["claude-cli"]);
+    expect((result.body as any).provider).toBe("claude-cli");
+    expect(chain.getProviderStats().find((s) => s.provider === "claude-cli")?.state).toBe("closed");
+  });
+
+  it("releases a half-open fallback trial after a client error", async () => {
+    let now = 0;
+    const badRequest: RouteResult = { status: 400, body: { error: { message: "bad request" } } };
+    const { chain, calls } = setup([unavailable, unavailable, unavailable], {
+      litellm: [new Error("ECONNREFUSED"), badRequest],
+      ollama: [],
+    }, () => now);
+
+    await chain.route(request); // opens CLI and litellm
+    now = 60_000;
+    const rejected = await chain.route(request); // CLI trial fails again; litellm trial gets a 400
+    expect(rejected.status).toBe(400);
+
+    calls.length = 0;
+    await chain.route(request);
+    expect(calls).toEqual(["litellm:anthropic/claude-sonnet-4-20250514"]);
+  });
+
+  it("returns the last failure when every provider fails", async () => {
+    const { chain } = setup([unavailable], {
+      litellm: [{ status: 502, body: { error: { message: "bad gateway" } } }],
+      ollama: [new Error("timeout")],
+    });
+
+    const result = await chain.route(request);
+
+    expect(result.status).toBe(502);
+  });
+});
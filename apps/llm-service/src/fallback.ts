@@ -0,0 +1,237 @@
+import type { ChatCompletionRequest, ChatCompletionResponse } from "@mesh-six/core";
+import type { ActorRouter, RouteOptions, RouteResult } from "./router.js";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitSnapshot } from "./circuit-breaker.js";
+import {
+  AGENT_ID,
+  LITELLM_BASE_URL,
+  LITELLM_API_KEY,
+  OLLAMA_URL,
+  FALLBACK_TIMEOUT_MS,
+} from "./config.js";
+
+const log = (msg: string) => console.log(`[${AGENT_ID}][fallback] ${msg}`);
+
+/** Name of the primary provider: the ClaudeCLIActor pool behind ActorRouter */
+export const CLAUDE_CLI_PROVIDER = "claude-cli";
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export interface ChatProvider {
+  name: string;
+  /** Resolves with the provider's HTTP status and body; rejects on network errors and timeouts */
+  complete(request: ChatCompletionRequest, model: string): Promise<{ status: number; body: unknown }>;
+}
+
+/**
+ * Any OpenAI-compatible `/chat/completions` endpoint (LiteLLM, Ollama's /v1).
+ * llm-service-only request fields (sessions, capability, streaming) are not sent.
+ */
+export class OpenAICompatProvider implements ChatProvider {
+  constructor(
+    public name: string,
+    private baseUrl: string,
+    private apiKey?: string,
+    private timeoutMs = FALLBACK_TIMEOUT_MS,
+  ) {}
+
+  async complete(request: ChatCompletionRequest, model: string): Promise<{ status: number; body: unknown }> {
+    const body: Record<string, unknown> = { model, messages: request.messages };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
+    if (request.tools?.length) body.tools = request.tools;
+    if (request.tool_choice) body.tool_choice = request.tool_choice;
+    if (request.response_format) body.response_format = { type: "json_object" };
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const text = await response.text();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = { error: { message: text.slice(0, 500), type: "upstream_error" } };
+    }
+    return { status: response.status, body: parsed };
+  }
+}
+
+/** Providers that fallback steps can name. */
+export function createDefaultProviders(): Map<string, ChatProvider> {
+  return new Map<string, ChatProvider>([
+    ["litellm", new OpenAICompatProvider("litellm", LITELLM_BASE_URL, LITELLM_API_KEY)],
+    ["ollama", new OpenAICompatProvider("ollama", `${OLLAMA_URL.replace(/\/$/, "")}/v1`)],
+  ]);
+}
+
+// ============================================================================
+// FALLBACK CHAIN
+// ============================================================================
+
+export interface FallbackStep {
+  provider: string;
+  model: string;
+}
+
+/** Parse "provider:model" (the model may itself contain colons, e.g. "ollama:phi4-mini:latest"). */
+export function parseStep(step: string): FallbackStep | null {
+  const idx = step.indexOf(":");
+  if (idx <= 0 || idx === step.length - 1) return null;
+  return { provider: step.slice(0, idx), model: step.slice(idx + 1) };
+}
+
+export interface ProviderStats extends CircuitSnapshot {
+  provider: string;
+  served: number;
+}
+
+/**
+ * Serves a completion from the first healthy provider in the model's chain:
+ * the Claude CLI actors first, then the configured fallbacks. Each provider
+ * has a circuit breaker; an open circuit is skipped without being called.
+ *
+ * Failures that trip the breaker: no healthy actors (503), invocation errors
+ * (502), CLI error completions, and fallback 5xx/429/network errors. A 429
+ * from the actor wait queue is load, not ill health, so it falls through to
+ * the next step without counting against the CLI.
+ */
+export class FallbackChain {
+  private breakers = new Map<string, CircuitBreaker>();
+  private served = new Map<string, number>();
+
+  constructor(
+    private router: ActorRouter,
+    private providers: Map<string, ChatProvider>,
+    private chains: Record<string, string[]>,
+    private breakerOpts: CircuitBreakerOptions,
+    private now: () => number = Date.now,
+  ) {
+    for (const [alias, steps] of Object.entries(chains)) {
+      for (const raw of steps) {
+        const step = parseStep(raw);
+        if (!step || !providers.has(step.provider)) {
+          log(`Ignoring fallback step "${raw}" for ${alias}: unknown provider`);
+        }
+      }
+    }
+  }
+
+  /** Fallback steps configured for a model (without the Claude CLI step). */
+  stepsFor(model: string): FallbackStep[] {
+    return (this.chains[model] ?? this.chains["*"] ?? [])
+      .map(parseStep)
+      .filter((s): s is FallbackStep => s !== null && this.providers.has(s.provider));
+  }
+
+  async route(request: ChatCompletionRequest, opts: RouteOptions = {}): Promise<RouteResult> {
+    const fallbacks = this.stepsFor(request.model);
+
+    // No fallbacks configured: the actor pool's answer is final
+    if (fallbacks.length === 0) {
+      return this.tag(await this.router.route(request, opts), CLAUDE_CLI_PROVIDER);
+    }
+
+    let lastFailure: RouteResult | null = null;
+
+    const cli = this.breaker(CLAUDE_CLI_PROVIDER);
+    if (cli.canRequest()) {
+      const result = await this.router.route(request, opts);
+      const failure = cliFailure(result);
+      if (!failure) {
+        cli.recordSuccess();
+        return this.tag(result, CLAUDE_CLI_PROVIDER);
+      }
+      if (result.status === 429) cli.recordNeutral();
+      else cli.recordFailure(failure);
+      lastFailure = result;
+      log(`${CLAUDE_CLI_PROVIDER} failed (${failure}), falling back`);
+    }
+
+    for (const step of fallbacks) {
+      const breaker = this.breaker(step.provider);
+      if (!breaker.canRequest()) continue;
+
+      let result: RouteResult;
+      try {
+        result = await this.providers.get(step.provider)!.complete(request, step.model);
+      } catch (err) {
+        breaker.recordFailure(err instanceof Error ? err.message : String(err));
+        log(`${step.provider} (${step.model}) failed: ${err}`);
+        continue;
+      }
+
+      if (result.status >= 200 && result.status < 300) {
+        breaker.recordSuccess();
+        log(`Served ${request.model} via ${step.provider} (${step.model})`);
+        return this.tag(result, step.provider);
+      }
+
+      // Client errors are the caller's problem, not the provider's
+      if (result.status < 500 && result.status !== 429) {
+        breaker.recordNeutral();
+        return this.tag(result, step.provider);
+      }
+
+      breaker.recordFailure(`HTTP ${result.status}`);
+      lastFailure = result;
+      log(`${step.provider} (${step.model}) returned ${result.status}`);
+    }
+
+    return (
+      lastFailure ?? {
+        status: 503,
+        body: {
+          error: {
+            message: "All providers are unavailable (circuits open)",
+            type: "service_unavailable",
+          },
+        },
+      }
+    );
+  }
+
+  getProviderStats(): ProviderStats[] {
+    const names = [CLAUDE_CLI_PROVIDER, ...this.providers.keys()];
+    return names.map((provider) => ({
+      provider,
+      served: this.served.get(provider) ?? 0,
+      ...this.breaker(provider).snapshot(),
+    }));
+  }
+
+  private breaker(provider: string): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerOpts, this.now);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /** Mark which provider produced the result (body field and header). */
+  private tag(result: RouteResult, provider: string): RouteResult {
+    if (result.status === 200) {
+      this.served.set(provider, (this.served.get(provider) ?? 0) + 1);
+    }
+    const body =
+      result.body && typeof result.body === "object" ? { ...(result.body as object), provider } : result.body;
+    return { ...result, body, headers: { ...result.headers, "X-LLM-Provider": provider } };
+  }
+}
+
+/** Why a Claude CLI result should fall back, or null if it succeeded. */
+function cliFailure(result: RouteResult): string | null {
+  if (result.status !== 200) return `HTTP ${result.status}`;
+  const body = result.body as ChatCompletionResponse;
+  if (body?.choices?.[0]?.finish_reason === "error") return "CLI error completion";
+  return null;
+}
@@ -1,9 +1,38 @@
+import pg from "pg";
 import { createApp } from "./app.js";
 import { ActorRuntime } from "./actor-runtime.js";
 import { ActorRouter } from "./router.js";
+import { UsageStore } from "./usage-store.js";
+import { SessionStore } from "./session-store.js";
+import { FallbackChain, createDefaultProviders } from "./fallback.js";
+import { ResponseCache } from "./response-cache.js";
 import { createClaudeCLIActor } from "./claude-cli-actor.js";
-import { AGENT_ID, APP_PORT, ACTOR_TYPE, MAX_ACTORS } from "./config.js";
-import { DAPR_PUBSUB_NAME, CREDENTIAL_REFRESHED_TOPIC } from "@mesh-six/core";
+import {
+  AGENT_ID,
+  APP_PORT,
+  ACTOR_TYPE,
+  MAX_ACTORS,
+  DATABASE_URL,
+  SESSION_TTL_SECONDS,
+  FALLBACK_CHAINS,
+  BREAKER_FAILURE_THRESHOLD,
+  BREAKER_COOLDOWN_MS,
+  OLLAMA_URL,
+  CACHE_TTL_SECONDS,
+  CACHE_MAX_ENTRIES,
+  CACHE_EMBED_MODEL,
+  CACHE_SIMILARITY_THRESHOLD,
+  CACHE_DEFAULT_MODE,
+  CACHE_SWEEP_INTERVAL_MS,
+} from "./config.js";
+import {
+  DAPR_PUBSUB_NAME,
+  CREDENTIAL_REFRESHED_TOPIC,
+  LLMCache,
+  InMemoryLLMCacheStore,
+  PgLLMCacheStore,
+  ollamaEmbedder,
+} from "@mesh-six/core";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}] ${msg}`);
 
@@ -14,11 +43,46 @@ const log = (msg: string) => console.log(`[${AGENT_ID}] ${msg}`);
 // Create actor runtime with ClaudeCLIActor factory
 const runtime = new ActorRuntime(ACTOR_TYPE, createClaudeCLIActor);
 
+// Usage accounting (optional — requires Postgres)
+const pool = DATABASE_URL ? new pg.Pool({ connectionString: DATABASE_URL, max: 5 }) : null;
+const usage = pool ? new UsageStore(pool) : null;
+if (!usage) log("DATABASE_URL not set — usage accounting disabled");
+
+// Session affinity persisted in the Dapr state store
+const sessions = new SessionStore(SESSION_TTL_SECONDS);
+
 // Create actor router
-const router = new ActorRouter(runtime);
+const router = new ActorRouter(runtime, { usage, sessions });
+
+// Provider fallback chain (Claude CLI → LiteLLM → Ollama, per LLM_FALLBACK_CHAINS)
+const fallback = new FallbackChain(router, createDefaultProviders(), FALLBACK_CHAINS, {
+  failureThreshold: BREAKER_FAILURE_THRESHOLD,
+  cooldownMs: BREAKER_COOLDOWN_MS,
+});
+
+// Opt-in response cache for deterministic requests
+const cache = new ResponseCache(
+  new LLMCache(pool ? new PgLLMCacheStore(pool) : new InMemoryLLMCacheStore(CACHE_MAX_ENTRIES), {
+    namespace: "llm-service",
+    ttlMs: CACHE_TTL_SECONDS * 1000,
+    embed: ollamaEmbedder(OLLAMA_URL, CACHE_EMBED_MODEL),
+    similarityThreshold: CACHE_SIMILARITY_THRESHOLD,
+    defaultMode: CACHE_DEFAULT_MODE,
+  }),
+);
+
+// Expired entries are never read again; delete them so the table stays small
+const cacheSweep = setInterval(async () => {
+  try {
+    const removed = await cache.purgeExpired();
+    if (removed > 0) log(`Purged ${removed} expired cache entries`);
+  } catch (err) {
+    log(`Cache sweep failed: ${err}`);
+  }
+}, CACHE_SWEEP_INTERVAL_MS);
 
 // Create Hono app
-const app = createApp(runtime, router);
+const app = createApp(runtime, router, { usage, sessions, fallback, cache });
 
 // ============================================================================
 // DAPR PUB/SUB SUBSCRIPTION
@@ -64,6 +128,7 @@ setTimeout(async () => {
 
 async function shutdown(signal: string): Promise<void> {
   log(`Received ${signal}, shutting down...`);
+  clearInterval(cacheSweep);
 
   // Deactivate all actors (triggers credential sync)
   const activeActors = runtime.getActiveActors();
@@ -76,6 +141,8 @@ async function shutdown(signal: string): Promise<void> {
     }
   }
 
+  await pool?.end().catch(() => {});
+
   log("Shutdown complete");
   process.exit(0);
 }
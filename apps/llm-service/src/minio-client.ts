@@ -2,6 +2,7 @@ import {
   S3Client,
   GetObjectCommand,
   PutObjectCommand,
+  DeleteObjectCommand,
   ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import { mkdirSync, existsSync, rmSync } from "fs";
@@ -184,6 +185,20 @@ export async function uploadSession(
   await archiveAndUpload(sourceDir, key);
 }
 
+/**
+ * Delete a persisted session archive.
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const client = getClient();
+  await client.send(
+    new DeleteObjectCommand({
+      Bucket: MINIO_BUCKET,
+      Key: `sessions/${sessionId}.tar.gz`,
+    }),
+  );
+  log(`Deleted session ${sessionId}`);
+}
+
 /**
  * Clean up a local directory (used during actor deactivation).
  */
@@ -1,16 +1,30 @@
 import { randomUUID } from "crypto";
 import type {
+  ChatCompletionChunk,
   ChatCompletionRequest,
   ChatCompletionResponse,
   ChatMessage,
+  ToolDefinition,
 } from "@mesh-six/core";
+import type { CLIUsage } from "./cli-spawner.js";
+import {
+  buildToolInstructions,
+  parseToolCalls,
+  renderToolMessage,
+  toolsEnabled,
+} from "./tool-protocol.js";
 
 /**
  * Build the prompt string for the Claude CLI from OpenAI-compatible messages.
  * Extracts system prompt and user/assistant messages into a format suitable
- * for `claude -p`.
+ * for `claude -p`. When tools are offered, their descriptions and the
+ * <tool_calls> reply format are appended to the system prompt, and earlier
+ * tool calls and results are rendered into the conversation.
  */
-export function buildCLIPrompt(messages: ChatMessage[]): {
+export function buildCLIPrompt(
+  messages: ChatMessage[],
+  tooling: Pick<ChatCompletionRequest, "tools" | "tool_choice"> = {},
+): {
   systemPrompt: string | undefined;
   userPrompt: string;
 } {
@@ -18,7 +32,10 @@ export function buildCLIPrompt(messages: ChatMessage[]): {
   const conversationParts: string[] = [];
 
   for (const msg of messages) {
-    if (msg.role === "system") {
+    const toolText = renderToolMessage(msg);
+    if (toolText !== null) {
+      conversationParts.push(toolText);
+    } else if (msg.role === "system") {
       // Collect all system messages into one system prompt
       systemPrompt = systemPrompt
         ? `${systemPrompt}\n\n${msg.content}`
@@ -31,6 +48,11 @@ export function buildCLIPrompt(messages: ChatMessage[]): {
     }
   }
 
+  if (tooling.tools && toolsEnabled(tooling.tools, tooling.tool_choice)) {
+    const instructions = buildToolInstructions(tooling.tools, tooling.tool_choice);
+    systemPrompt = systemPrompt ? `${systemPrompt}\n\n${instructions}` : instructions;
+  }
+
   return {
     systemPrompt,
     userPrompt: conversationParts.join("\n\n"),
@@ -58,16 +80,20 @@ export function injectSchemaInstructions(
 
 /**
  * Parse CLI output into an OpenAI-compatible chat completion response.
+ * Uses the CLI's reported token counts and cost when available. When `tools`
+ * are given, a <tool_calls> block in the output becomes structured
+ * `tool_calls` with finish_reason "tool_calls".
  */
 export function buildCompletionResponse(
-  content: string,
+  output: string,
   model: string,
   sessionId?: string,
+  opts: { usage?: CLIUsage; costUsd?: number; tools?: ToolDefinition[] } = {},
 ): ChatCompletionResponse {
   const now = Math.floor(Date.now() / 1000);
-
-  // Rough token estimation: 1 token ≈ 4 characters
-  const completionTokens = Math.ceil(content.length / 4);
+  const { content, toolCalls } = opts.tools?.length
+    ? parseToolCalls(output, opts.tools)
+    : { content: output, toolCalls: undefined };
 
   return {
     id: `chatcmpl-${randomUUID()}`,
@@ -80,16 +106,45 @@ export function buildCompletionResponse(
         message: {
           role: "assistant",
           content,
+          ...(toolCalls ? { tool_calls: toolCalls } : {}),
         },
-        finish_reason: "stop",
+        finish_reason: toolCalls ? "tool_calls" : "stop",
       },
     ],
-    usage: {
-      prompt_tokens: 0, // We don't have this info from CLI
+    usage: buildUsage(output, opts.usage, opts.costUsd),
+    ...(sessionId ? { session_id: sessionId } : {}),
+  };
+}
+
+/**
+ * Map CLI usage onto the OpenAI `usage` block. `prompt_tokens` counts cached
+ * and cache-creation input as OpenAI does; cache reads are also reported in
+ * `prompt_tokens_details.cached_tokens`.
+ */
+function buildUsage(
+  content: string,
+  usage: CLIUsage | undefined,
+  costUsd: number | undefined,
+): NonNullable<ChatCompletionResponse["usage"]> {
+  if (!usage) {
+    // Older CLI output without a usage block: rough estimate, 1 token ≈ 4 characters
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      prompt_tokens: 0,
       completion_tokens: completionTokens,
       total_tokens: completionTokens,
-    },
-    ...(sessionId ? { session_id: sessionId } : {}),
+      ...(costUsd !== undefined ? { cost_usd: costUsd } : {}),
+    };
+  }
+
+  const promptTokens = usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: promptTokens + usage.outputTokens,
+    prompt_tokens_details: { cached_tokens: usage.cacheReadTokens },
+    cache_creation_tokens: usage.cacheCreationTokens,
+    ...(costUsd !== undefined ? { cost_usd: costUsd } : {}),
   };
 }
 
@@ -117,3 +172,21 @@ export function buildErrorResponse(
     ],
   };
 }
+
+/**
+ * Build one `chat.completion.chunk` for a streaming response. All chunks of a
+ * response share the same id and created timestamp.
+ */
+export function buildCompletionChunk(
+  base: { id: string; created: number; model: string },
+  delta: ChatCompletionChunk["choices"][number]["delta"],
+  finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null,
+): ChatCompletionChunk {
+  return {
+    id: base.id,
+    object: "chat.completion.chunk",
+    created: base.created,
+    model: base.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
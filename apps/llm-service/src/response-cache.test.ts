@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import { LLMCache, InMemoryLLMCacheStore, type ChatCompletionRequest } from "@mesh-six/core";
+import { ResponseCache } from "./response-cache.js";
+import type { RouteResult } from "./router.js";
+
+describe("ResponseCache", () => {
+  const request = (overrides: Partial<ChatCompletionRequest> = {}) =>
+    ({
+      model: "claude-sonnet-4-20250514",
+      messages: [{ role: "user", content: "classify: bug" }],
+      temperature: 0,
+      cache: true,
+      ...overrides,
+    }) as ChatCompletionRequest;
+
+  function setup() {
+    let calls = 0;
+    const next = async (): Promise<RouteResult> => {
+      calls++;
+      return {
+        status: 200,
+        body: { id: `c${calls}`, choices: [{ message: { role: "assistant", content: "bug" }, finish_reason: "stop" }] },
+      };
+    };
+    const cache = new ResponseCache(
+      new LLMCache(new InMemoryLLMCacheStore(), { namespace: "llm-service", ttlMs: 60_000 }),
+    );
+    return { cache, next, calls: () => calls };
+  }
+
+  it("serves repeat requests from the cache and flags hits", async () => {
+    const { cache, next, calls } = setup();
+
+    const miss = await cache.route(request(), {}, next);
+    const hit = await cache.route(request(), {}, next);
+
+    expect(calls()).toBe(1);
+    expect(miss.headers?.["X-LLM-Cache"]).toBe("miss");
+    expect((miss.body as any).cached).toBe(false);
+    expect(hit.headers?.["X-LLM-Cache"]).toBe("hit");
+    expect(hit.headers?.["X-LLM-Cache-Key"]).toBe(miss.headers?.["X-LLM-Cache-Key"]);
+    expect(hit.body).toMatchObject({ id: "c1", cached: true });
+  });
+
+  it("bypasses requests that did not opt in or are not deterministic", async () => {
+    const { cache, next, calls } = setup();
+
+    for (const overrides of [{ cache: undefined }, { temperature: 0.5 }, { session_id: "s1" }]) {
+      const result = await cache.route(request(overrides), {}, next);
+      await cache.route(request(overrides), {}, next);
+      expect(result.headers).toBeUndefined();
+    }
+    expect(calls()).toBe(6);
+  });
+
+  it("keys on tools and response format", async () => {
+    const { cache, next, calls } = setup();
+
+    await cache.route(request(), {}, next);
+    await cache.route(request({ response_format: { type: "json_object" } }), {}, next);
+
+    expect(calls()).toBe(2);
+  });
+
+  it("does not cache failed completions", async () => {
+    const { cache } = setup();
+    const failing = async (): Promise<RouteResult> => ({ status: 503, body: { error: { message: "down" } } });
+
+    await cache.route(request(), {}, failing);
+
+    expect(await cache.invalidate({})).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  LLMCache,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMCacheRequest,
+  type LLMCacheInvalidation,
+} from "@mesh-six/core";
+import type { RouteOptions, RouteResult } from "./router.js";
+import { AGENT_ID } from "./config.js";
+
+const log = (msg: string) => console.log(`[${AGENT_ID}][cache] ${msg}`);
+
+type Route = (request: ChatCompletionRequest, opts: RouteOptions) => Promise<RouteResult>;
+
+/**
+ * Opt-in response cache in front of the routing path (actors or fallback
+ * chain). Requests must set `cache` and `temperature: 0` and must not use a
+ * session or streaming — session turns depend on CLI state the key can't see.
+ *
+ * Responses to opted-in requests carry `cached`, an `X-LLM-Cache: hit|miss`
+ * header and the entry key in `X-LLM-Cache-Key` (for DELETE /v1/cache/:key).
+ * Only successful completions are stored.
+ */
+export class ResponseCache {
+  constructor(private cache: LLMCache) {}
+
+  static isCacheable(request: ChatCompletionRequest): boolean {
+    return (
+      !!request.cache &&
+      LLMCache.isCacheable(request) &&
+      !request.session_id &&
+      !request.persist_session &&
+      !request.stream
+    );
+  }
+
+  async route(request: ChatCompletionRequest, opts: RouteOptions, next: Route): Promise<RouteResult> {
+    if (!ResponseCache.isCacheable(request)) return next(request, opts);
+
+    const settings = typeof request.cache === "object" ? request.cache : {};
+    const key = cacheRequest(request);
+
+    try {
+      const hit = await this.cache.lookup<ChatCompletionResponse>(key, settings.mode);
+      if (hit) {
+        log(`${hit.match} hit for ${request.model} (${hit.key.slice(0, 12)})`);
+        return {
+          status: 200,
+          body: { ...hit.response, cached: true },
+          headers: { "X-LLM-Cache": "hit", "X-LLM-Cache-Key": hit.key },
+        };
+      }
+    } catch (err) {
+      log(`Lookup failed, routing uncached: ${err}`);
+    }
+
+    const result = await next(request, opts);
+    if (result.status !== 200) return result;
+
+    const body = result.body as ChatCompletionResponse;
+    let stored: string | null = null;
+    if (body.choices?.[0]?.finish_reason !== "error") {
+      const ttlMs = settings.ttl_seconds ? settings.ttl_seconds * 1000 : undefined;
+      stored = await this.cache.store(key, body, ttlMs, settings.mode).catch((err) => {
+        log(`Store failed: ${err}`);
+        return null;
+      });
+    }
+    return {
+      ...result,
+      body: { ...body, cached: false },
+      headers: {
+        ...result.headers,
+        "X-LLM-Cache": "miss",
+        ...(stored ? { "X-LLM-Cache-Key": stored } : {}),
+      },
+    };
+  }
+
+  invalidate(filter: LLMCacheInvalidation): Promise<number> {
+    return this.cache.invalidate(filter);
+  }
+
+  purgeExpired(): Promise<number> {
+    return this.cache.purgeExpired();
+  }
+}
+
+/**
+ * Cache identity of a request: the conversation (including tool turns) plus
+ * every parameter that shapes the answer.
+ */
+function cacheRequest(request: ChatCompletionRequest): LLMCacheRequest {
+  return {
+    model: request.model,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: m.tool_calls?.length
+        ? `${m.content}\n${JSON.stringify(m.tool_calls)}`
+        : m.tool_call_id
+          ? `[${m.tool_call_id}] ${m.content}`
+          : m.content,
+    })),
+    temperature: request.temperature,
+    variant: {
+      maxTokens: request.max_tokens,
+      tools: request.tools,
+      toolChoice: request.tool_choice,
+      responseFormat: request.response_format,
+      capability: request.capability,
+    },
+  };
+}
@@ -1,10 +1,53 @@
-import type { ActorInfo, ActorStatus, ChatCompletionRequest } from "@mesh-six/core";
+import type {
+  ActorInfo,
+  ActorStatus,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LLMServiceStatus,
+} from "@mesh-six/core";
 import { LLM_ACTOR_TYPE } from "@mesh-six/core";
 import type { ActorRuntime } from "./actor-runtime.js";
-import { DAPR_HOST, DAPR_HTTP_PORT, MAX_ACTORS, AGENT_ID } from "./config.js";
+import {
+  DAPR_HOST,
+  DAPR_HTTP_PORT,
+  MAX_ACTORS,
+  AGENT_ID,
+  QUEUE_MAX_SIZE,
+  QUEUE_MAX_WAIT_MS,
+} from "./config.js";
+import { FairWaitQueue, type PriorityLane, type QueueEntry } from "./wait-queue.js";
+import type { UsageStore } from "./usage-store.js";
+import type { SessionStore } from "./session-store.js";
 
 const log = (msg: string) => console.log(`[${AGENT_ID}][router] ${msg}`);
 
+// Recent samples kept for wait-time percentiles and Retry-After estimates
+const SAMPLE_WINDOW = 200;
+
+export interface RouteOptions {
+  /** Fairness key for the wait queue (calling app ID); defaults to the capability */
+  caller?: string;
+}
+
+export interface RouteResult {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface RouterDeps {
+  /** Per-completion usage accounting (optional — requires Postgres) */
+  usage?: UsageStore | null;
+  /** Persistent session → actor affinity; without it sessions are not pinned */
+  sessions?: SessionStore | null;
+}
+
+interface Waiter extends QueueEntry {
+  capability?: string;
+  resolve: (actorId: string | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 // ============================================================================
 // ACTOR ROUTER
 // ============================================================================
@@ -14,9 +57,13 @@ const log = (msg: string) => console.log(`[${AGENT_ID}][router] ${msg}`);
  *
  * Selection strategy:
  * 1. If a session_id is provided, route to the actor that owns that session
+ *    (from the session store); if that actor is unhealthy the session moves
+ *    to whichever actor is selected below
  * 2. If a capability is requested, route to an actor with that capability
  * 3. Otherwise, pick the least-recently-used idle actor
- * 4. If all actors are busy, return 429
+ * 4. If all actors are busy, wait in a bounded queue (priority lanes,
+ *    round-robin between callers) for up to QUEUE_MAX_WAIT_MS; return 429
+ *    with Retry-After when the queue is full or the wait runs out
  */
 export class ActorRouter {
   private runtime: ActorRuntime;
@@ -24,11 +71,19 @@ export class ActorRouter {
   // Local status cache — updated via actor state changes
   private actorStatus = new Map<string, ActorInfo>();
 
-  // Session → actor mapping for session affinity
-  private sessionAffinity = new Map<string, string>();
+  // Requests waiting for an idle actor
+  private queue = new FairWaitQueue<Waiter>(QUEUE_MAX_SIZE);
+  private waitSamples: number[] = [];
+  private serviceSamples: number[] = [];
+  private queueCounters = { served: 0, timedOut: 0, rejected: 0 };
 
-  constructor(runtime: ActorRuntime) {
+  private usage: UsageStore | null;
+  private sessions: SessionStore | null;
+
+  constructor(runtime: ActorRuntime, deps: RouterDeps = {}) {
     this.runtime = runtime;
+    this.usage = deps.usage ?? null;
+    this.sessions = deps.sessions ?? null;
   }
 
   /**
@@ -37,19 +92,40 @@ export class ActorRouter {
    */
   async route(
     request: ChatCompletionRequest,
-  ): Promise<{ status: number; body: unknown }> {
+    opts: RouteOptions = {},
+  ): Promise<RouteResult> {
+    const caller = opts.caller || request.capability || "anonymous";
+
     // Session affinity: route to the same actor if resuming a session
-    if (request.session_id) {
-      const affinityActorId = this.sessionAffinity.get(request.session_id);
-      if (affinityActorId) {
-        const info = this.actorStatus.get(affinityActorId);
-        if (info && info.status !== "unhealthy") {
-          return this.invokeActor(affinityActorId, request);
-        }
-      }
+    let selected = request.session_id ? await this.sessionOwner(request.session_id) : undefined;
+
+    if (!selected) {
+      const routed = await this.selectActor(request, caller);
+      if (typeof routed !== "string") return routed;
+      selected = routed;
+    }
+
+    const result = await this.invokeActor(selected, request, caller);
+
+    // Record the session's owner, turn count and last use
+    if (result.status === 200 && (request.persist_session || request.session_id)) {
+      const body = result.body as Record<string, unknown>;
+      const sessionId = (body?.session_id as string) || request.session_id;
+      if (sessionId) this.trackSession(sessionId, selected, caller, request.model);
     }
 
-    // Capability-aware routing
+    return result;
+  }
+
+  /**
+   * Capability-aware selection for requests without a usable session owner:
+   * an idle actor, or a place in the wait queue. Returns the actor ID or an
+   * error response.
+   */
+  private async selectActor(
+    request: ChatCompletionRequest,
+    caller: string,
+  ): Promise<string | RouteResult> {
     const candidates = this.getCandidates(request.capability);
 
     if (candidates.length === 0) {
@@ -64,44 +140,157 @@ export class ActorRouter {
       };
     }
 
-    // Find idle actors first
-    const idleActors = candidates.filter((a) => a.status === "idle");
+    // Pick the least-recently-used idle actor, unless others are already waiting
+    let selected = this.queue.size === 0 ? this.pickIdle(request.capability) : undefined;
 
-    if (idleActors.length === 0) {
-      // All actors busy — return 429 with Retry-After
-      return {
-        status: 429,
-        body: {
-          error: {
-            message: "All actors are busy. Please retry.",
-            type: "rate_limit_exceeded",
-          },
-        },
-      };
+    if (!selected) {
+      const lane: PriorityLane = request.priority ?? "normal";
+
+      if (this.queue.isFull) {
+        this.queueCounters.rejected++;
+        return this.busyResponse("All actors are busy and the wait queue is full. Please retry.");
+      }
+
+      const actorId = await this.waitForActor(caller, lane, request.capability);
+      if (!actorId) {
+        return this.busyResponse(`No actor became available within ${QUEUE_MAX_WAIT_MS}ms. Please retry.`);
+      }
+      selected = actorId;
+    }
+
+    log(`Routing to ${selected} (${candidates.length} candidates, ${this.queue.size} queued)`);
+    return selected;
+  }
+
+  /**
+   * The actor that owns a session, if it can still serve it. Returns
+   * undefined for unknown sessions and when the owner is unhealthy, in which
+   * case normal selection picks a new owner.
+   */
+  private async sessionOwner(sessionId: string): Promise<string | undefined> {
+    if (!this.sessions) return undefined;
+
+    let session;
+    try {
+      session = await this.sessions.get(sessionId);
+    } catch (err) {
+      log(`Session lookup failed for ${sessionId}: ${err}`);
+      return undefined;
+    }
+    if (!session) return undefined;
+
+    // Another replica may have created the session; load the owner's status
+    if (!this.actorStatus.has(session.actorId)) {
+      await this.refreshActorStatus(session.actorId);
+    }
+
+    const info = this.actorStatus.get(session.actorId);
+    if (info && info.status !== "unhealthy" && info.status !== "initializing") {
+      return session.actorId;
     }
 
-    // Pick least-recently-used idle actor
+    log(`Session ${sessionId}: owner ${session.actorId} is ${info?.status ?? "unknown"}, migrating`);
+    return undefined;
+  }
+
+  /** Record a completed session turn (best-effort). */
+  private trackSession(sessionId: string, actorId: string, caller: string, model?: string): void {
+    if (!this.sessions) return;
+
+    this.sessions
+      .recordTurn(sessionId, {
+        actorId,
+        credentialId: this.actorStatus.get(actorId)?.credentialId ?? "unknown",
+        caller,
+        model,
+      })
+      .catch((err) => log(`Failed to record session ${sessionId}: ${err}`));
+  }
+
+  /**
+   * Least-recently-used idle actor among the capability's candidates.
+   */
+  private pickIdle(capability?: string): string | undefined {
+    const idleActors = this.getCandidates(capability).filter((a) => a.status === "idle");
     idleActors.sort((a, b) => {
       const aTime = a.lastUsed ? new Date(a.lastUsed).getTime() : 0;
       const bTime = b.lastUsed ? new Date(b.lastUsed).getTime() : 0;
       return aTime - bTime;
     });
+    return idleActors[0]?.actorId;
+  }
 
-    const selected = idleActors[0];
-    log(`Routing to ${selected.actorId} (${candidates.length} candidates, ${idleActors.length} idle)`);
+  /**
+   * Queue the request until an actor frees up. Resolves with the reserved
+   * actor ID, or null when the wait limit is reached.
+   */
+  private waitForActor(
+    caller: string,
+    lane: PriorityLane,
+    capability?: string,
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        caller,
+        lane,
+        capability,
+        enqueuedAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => {
+          if (this.queue.remove(waiter)) {
+            this.queueCounters.timedOut++;
+            resolve(null);
+          }
+        }, QUEUE_MAX_WAIT_MS),
+      };
+      this.queue.push(waiter);
+      log(`Queued request from ${caller} (${lane}, depth ${this.queue.size})`);
 
-    const result = await this.invokeActor(selected.actorId, request);
+      // An actor may have freed up between the busy check and now
+      this.pumpQueue();
+    });
+  }
 
-    // Track session affinity if a session was created
-    if (request.persist_session || request.session_id) {
-      const body = result.body as Record<string, unknown>;
-      const sessionId = (body?.session_id as string) || request.session_id;
-      if (sessionId) {
-        this.sessionAffinity.set(sessionId, selected.actorId);
-      }
+  /**
+   * Hand idle actors to waiting requests in fair order. Called whenever an
+   * actor may have become idle.
+   */
+  private pumpQueue(): void {
+    while (this.queue.size > 0) {
+      let actorId: string | undefined;
+      const waiter = this.queue.take((w) => {
+        actorId = this.pickIdle(w.capability);
+        return actorId !== undefined;
+      });
+      if (!waiter || !actorId) return;
+
+      // Reserve the actor so the next waiter does not get it too
+      const info = this.actorStatus.get(actorId);
+      if (info) info.status = "busy";
+
+      clearTimeout(waiter.timer);
+      this.queueCounters.served++;
+      pushSample(this.waitSamples, Date.now() - waiter.enqueuedAt);
+      waiter.resolve(actorId);
     }
+  }
 
-    return result;
+  /** 429 with a Retry-After estimated from recent service times and queue depth. */
+  private busyResponse(message: string): RouteResult {
+    const healthy = Math.max(1, this.getCandidates().length);
+    const meanServiceMs = mean(this.serviceSamples) || 30_000;
+    const retryAfter = Math.max(1, Math.ceil((meanServiceMs * (this.queue.size + 1)) / healthy / 1000));
+
+    return {
+      status: 429,
+      headers: { "Retry-After": String(retryAfter) },
+      body: {
+        error: {
+          message,
+          type: "rate_limit_exceeded",
+        },
+      },
+    };
   }
 
   /**
@@ -110,12 +299,14 @@ export class ActorRouter {
   private async invokeActor(
     actorId: string,
     request: ChatCompletionRequest,
-  ): Promise<{ status: number; body: unknown }> {
+    caller: string,
+  ): Promise<RouteResult> {
     // Mark actor as busy locally before the call
     const info = this.actorStatus.get(actorId);
     if (info) {
       info.status = "busy";
     }
+    const startedAt = Date.now();
 
     try {
       const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/actors/${LLM_ACTOR_TYPE}/${actorId}/method/complete`;
@@ -127,8 +318,14 @@ export class ActorRouter {
       });
 
       const body = await response.json();
+      const durationMs = Date.now() - startedAt;
+      pushSample(this.serviceSamples, durationMs);
 
-      // Update local status cache
+      if (response.ok) {
+        this.recordUsage(actorId, request, caller, body as ChatCompletionResponse, durationMs);
+      }
+
+      // Update local status cache (hands the actor to the next waiter if idle)
       await this.refreshActorStatus(actorId);
 
       return { status: response.ok ? 200 : 502, body };
@@ -137,6 +334,7 @@ export class ActorRouter {
       if (info) {
         info.status = "idle";
       }
+      this.pumpQueue();
 
       const message = err instanceof Error ? err.message : String(err);
       return {
@@ -151,6 +349,43 @@ export class ActorRouter {
     }
   }
 
+  /**
+   * Persist token usage and cost for a successful completion (best-effort).
+   */
+  private recordUsage(
+    actorId: string,
+    request: ChatCompletionRequest,
+    caller: string,
+    body: ChatCompletionResponse,
+    durationMs: number,
+  ): void {
+    const usage = body.usage;
+    if (!this.usage || !usage || body.choices?.[0]?.finish_reason === "error") return;
+
+    const cacheReadTokens = usage.prompt_tokens_details?.cached_tokens ?? 0;
+    const cacheCreationTokens = usage.cache_creation_tokens ?? 0;
+
+    this.usage
+      .record({
+        completionId: body.id,
+        actorId,
+        credentialId: this.actorStatus.get(actorId)?.credentialId ?? "unknown",
+        caller,
+        model: body.model,
+        capability: request.capability,
+        sessionId: body.session_id ?? request.session_id,
+        inputTokens: usage.prompt_tokens - cacheReadTokens - cacheCreationTokens,
+        outputTokens: usage.completion_tokens,
+        cacheReadTokens,
+        cacheCreationTokens,
+        costUsd: usage.cost_usd ?? null,
+        // The chars/4 fallback carries no prompt_tokens_details
+        reported: usage.prompt_tokens_details !== undefined,
+        durationMs,
+      })
+      .catch((err) => log(`Failed to record usage for ${body.id}: ${err}`));
+  }
+
   /**
    * Get candidate actors filtered by capability (if specified).
    */
@@ -183,6 +418,7 @@ export class ActorRouter {
       if (response.ok) {
         const info = (await response.json()) as ActorInfo;
         this.actorStatus.set(actorId, info);
+        if (info.status === "idle") this.pumpQueue();
       }
     } catch {
       // Actor may not be active yet
@@ -204,6 +440,25 @@ export class ActorRouter {
    */
   updateActorStatus(actorId: string, info: ActorInfo): void {
     this.actorStatus.set(actorId, info);
+    if (info.status === "idle") this.pumpQueue();
+  }
+
+  /**
+   * Wait queue depth and wait-time statistics.
+   */
+  getQueueStats(): NonNullable<LLMServiceStatus["queue"]> {
+    const { byLane, byCaller } = this.queue.depths();
+    const sorted = [...this.waitSamples].sort((a, b) => a - b);
+    return {
+      depth: this.queue.size,
+      maxSize: QUEUE_MAX_SIZE,
+      maxWaitMs: QUEUE_MAX_WAIT_MS,
+      byLane,
+      byCaller,
+      ...this.queueCounters,
+      meanWaitMs: Math.round(mean(sorted)),
+      p95WaitMs: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+    };
   }
 
   /**
@@ -231,3 +486,12 @@ export class ActorRouter {
     };
   }
 }
+
+function pushSample(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > SAMPLE_WINDOW) samples.shift();
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import type { ActorInfo, LLMSession } from "@mesh-six/core";
+import { SessionStore } from "./session-store.js";
+import { ActorRouter } from "./router.js";
+
+const fetchSpy = () => spyOn(globalThis, "fetch");
+
+afterEach(() => {
+  (globalThis.fetch as any).mockRestore?.();
+});
+
+/** In-memory stand-in for the Dapr state HTTP API */
+function fakeStateStore() {
+  const data = new Map<string, unknown>();
+  const saves: Array<{ key: string; metadata?: Record<string, string> }> = [];
+
+  fetchSpy().mockImplementation((async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const key = decodeURIComponent(url.split("/").pop()!);
+    if (init?.method === "POST") {
+      for (const item of JSON.parse(String(init.body))) {
+        data.set(item.key, item.value);
+        saves.push({ key: item.key, metadata: item.metadata });
+      }
+      return new Response(null, { status: 204 });
+    }
+    if (init?.method === "DELETE") {
+      data.delete(key);
+      return new Response(null, { status: 204 });
+    }
+    return data.has(key)
+      ? new Response(JSON.stringify(data.get(key)), { status: 200 })
+      : new Response(null, { status: 204 });
+  }) as typeof fetch);
+
+  return { data, saves };
+}
+
+describe("SessionStore", () => {
+  it("creates sessions with a TTL and counts turns", async () => {
+    const { saves } = fakeStateStore();
+    const store = new SessionStore(3600, "http://dapr");
+
+    await store.recordTurn("s1", { actorId: "cli-0", credentialId: "cred-a", caller: "architect", model: "m" });
+    const session = await store.recordTurn("s1", { actorId: "cli-0", credentialId: "cred-a" });
+
+    expect(session.turns).toBe(2);
+    expect(session.caller).toBe("architect");
+    expect(session.migratedFrom).toEqual([]);
+    expect(saves[0]).toEqual({ key: "llm-session:s1", metadata: { ttlInSeconds: "3600" } });
+  });
+
+  it("records the previous owner when a session moves", async () => {
+    fakeStateStore();
+    const store = new SessionStore(3600, "http://dapr");
+
+    await store.recordTurn("s1", { actorId: "cli-0", credentialId: "cred-a" });
+    const moved = await store.recordTurn("s1", { actorId: "cli-1", credentialId: "cred-b" });
+
+    expect(moved.actorId).toBe("cli-1");
+    expect(moved.credentialId).toBe("cred-b");
+    expect(moved.migratedFrom).toEqual(["cli-0"]);
+  });
+
+  it("treats sessions unused for longer than the TTL as expired", async () => {
+    const { data } = fakeStateStore();
+    const store = new SessionStore(60, "http://dapr");
+    const stale: LLMSession = {
+      sessionId: "old",
+      actorId: "cli-0",
+      credentialId: "cred-a",
+      createdAt: "2026-01-01T00:00:00Z",
+      lastUsedAt: "2026-01-01T00:00:00Z",
+      turns: 3,
+      migratedFrom: [],
+    };
+    data.set("llm-session:old", stale);
+
+    expect(await store.get("old")).toBeNull();
+  });
+
+  it("deletes sessions", async () => {
+    const { data } = fakeStateStore();
+    const store = new SessionStore(3600, "http://dapr");
+    await store.recordTurn("s1", { actorId: "cli-0", credentialId: "cred-a" });
+
+    await store.delete("s1");
+
+    expect(data.size).toBe(0);
+  });
+});
+
+describe("ActorRouter session affinity", () => {
+  function actor(actorId: string, status: ActorInfo["status"]): ActorInfo {
+    return { actorId, credentialId: `cred-${actorId}`, status, capabilities: [], requestCount: 0, errorCount: 0 };
+  }
+
+  function setup(owner: string) {
+    const turns: Array<{ sessionId: string; actorId: string }> = [];
+    const sessions = {
+      get: async (sessionId: string) => ({ sessionId, actorId: owner }),
+      recordTurn: async (sessionId: string, turn: { actorId: string }) => {
+        turns.push({ sessionId, actorId: turn.actorId });
+      },
+    };
+    const invoked: string[] = [];
+    fetchSpy().mockImplementation((async (input: string | URL | Request) => {
+      const url = String(input);
+      const actorId = url.match(/actors\/[^/]+\/([^/]+)\/method/)![1];
+      if (url.endsWith("/method/complete")) {
+        invoked.push(actorId);
+        return new Response(JSON.stringify({ id: "c1", model: "m", choices: [{ finish_reason: "stop" }] }));
+      }
+      // getInfo after the call: leave the cached status as-is
+      return new Response(null, { status: 500 });
+    }) as typeof fetch);
+
+    const router = new ActorRouter({} as any, { sessions: sessions as any });
+    return { router, turns, invoked };
+  }
+
+  const request = { model: "m", messages: [{ role: "user" as const, content: "hi" }], session_id: "s1" };
+
+  it("routes to the owning actor while it is healthy", async () => {
+    const { router, turns, invoked } = setup("cli-1");
+    router.updateActorStatus("cli-0", actor("cli-0", "idle"));
+    router.updateActorStatus("cli-1", actor("cli-1", "busy"));
+
+    await router.route(request);
+    await Bun.sleep(0);
+
+    expect(invoked).toEqual(["cli-1"]);
+    expect(turns).toEqual([{ sessionId: "s1", actorId: "cli-1" }]);
+  });
+
+  it("moves the session when the owner is unhealthy", async () => {
+    const { router, turns, invoked } = setup("cli-1");
+    router.updateActorStatus("cli-0", actor("cli-0", "idle"));
+    router.updateActorStatus("cli-1", actor("cli-1", "unhealthy"));
+
+    await router.route(request);
+    await Bun.sleep(0);
+
+    expect(invoked).toEqual(["cli-0"]);
+    expect(turns).toEqual([{ sessionId: "s1", actorId: "cli-0" }]);
+  });
+});
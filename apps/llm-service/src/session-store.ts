@@ -0,0 +1,120 @@
+import { DAPR_STATE_STORE, type LLMSession } from "@mesh-six/core";
+import { DAPR_HOST, DAPR_HTTP_PORT } from "./config.js";
+
+// ============================================================================
+// SESSION STORE (Dapr state store)
+// ============================================================================
+
+const KEY_PREFIX = "llm-session:";
+
+export interface SessionTurn {
+  actorId: string;
+  credentialId: string;
+  caller?: string;
+  model?: string;
+}
+
+/**
+ * Session → actor bindings kept in the Dapr state store, so affinity survives
+ * pod restarts and is shared between replicas. Entries are written with a
+ * `ttlInSeconds` and also treated as expired on read once `lastUsedAt` is
+ * older than the TTL, for state stores without TTL support.
+ */
+export class SessionStore {
+  private baseUrl: string;
+
+  constructor(
+    private ttlSeconds: number,
+    baseUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}`,
+  ) {
+    this.baseUrl = `${baseUrl}/v1.0/state/${DAPR_STATE_STORE}`;
+  }
+
+  async get(sessionId: string): Promise<LLMSession | null> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(KEY_PREFIX + sessionId)}`);
+
+    if (response.status === 204 || response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Failed to get session ${sessionId}: ${response.status} ${text}`);
+    }
+
+    const text = await response.text();
+    if (!text) return null;
+
+    const session = JSON.parse(text) as LLMSession;
+    if (Date.now() - new Date(session.lastUsedAt).getTime() > this.ttlSeconds * 1000) {
+      return null;
+    }
+    return session;
+  }
+
+  async save(session: LLMSession): Promise<void> {
+    const response = await fetch(this.baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([
+        {
+          key: KEY_PREFIX + session.sessionId,
+          value: session,
+          metadata: { ttlInSeconds: String(this.ttlSeconds) },
+        },
+      ]),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Failed to save session ${session.sessionId}: ${response.status} ${text}`);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(KEY_PREFIX + sessionId)}`, {
+      method: "DELETE",
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const text = await response.text();
+      throw new Error(`Failed to delete session ${sessionId}: ${response.status} ${text}`);
+    }
+  }
+
+  /**
+   * Record a completed turn: creates the session on first use, bumps the turn
+   * count and last use, and notes the previous owner if the actor changed.
+   */
+  async recordTurn(sessionId: string, turn: SessionTurn): Promise<LLMSession> {
+    const now = new Date().toISOString();
+    const existing = await this.get(sessionId);
+
+    const session: LLMSession = existing
+      ? {
+          ...existing,
+          actorId: turn.actorId,
+          credentialId: turn.credentialId,
+          lastUsedAt: now,
+          turns: existing.turns + 1,
+          model: turn.model ?? existing.model,
+          migratedFrom:
+            existing.actorId !== turn.actorId
+              ? [...(existing.migratedFrom ?? []), existing.actorId]
+              : existing.migratedFrom ?? [],
+        }
+      : {
+          sessionId,
+          actorId: turn.actorId,
+          credentialId: turn.credentialId,
+          createdAt: now,
+          lastUsedAt: now,
+          turns: 1,
+          model: turn.model,
+          caller: turn.caller,
+          migratedFrom: [],
+        };
+
+    await this.save(session);
+    return session;
+  }
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { ChatCompletionRequestSchema } from "@mesh-six/core";
+
+// ============================================================================
+// STREAM HUB
+// ============================================================================
+
+/**
+ * Relay between an actor producing CLI output deltas and the HTTP handler
+ * serving them as SSE.
+ *
+ * Dapr actor invocation is request/response, so deltas cannot travel back
+ * through the invocation itself. The handler tags the actor request with a
+ * `stream_id` and its own `stream_origin`; the actor pushes deltas here while
+ * the invocation is still in flight. When the actor is hosted on another
+ * replica, the deltas are POSTed to the origin's relay endpoint instead.
+ */
+
+/** Path of the replica-to-replica relay endpoint; `/:id` is the stream ID */
+export const STREAM_RELAY_PATH = "/internal/streams";
+
+/**
+ * Actor-facing completion request. The stream fields are set by the handler
+ * only; they are not part of the public API schema, so clients cannot set them.
+ */
+export const ActorCompletionRequestSchema = ChatCompletionRequestSchema.extend({
+  stream_id: z.string().optional(),
+  /** Base URL of the replica serving the stream */
+  stream_origin: z.string().url().optional(),
+});
+export type ActorCompletionRequest = z.infer<typeof ActorCompletionRequestSchema>;
+
+export const StreamRelayBodySchema = z.object({
+  deltas: z.array(z.string()),
+});
+
+export class StreamHub {
+  private streams = new Map<string, StreamChannel>();
+
+  /** Register a stream before the actor is invoked. */
+  open(streamId: string): StreamChannel {
+    const channel = new StreamChannel(() => this.streams.delete(streamId));
+    this.streams.set(streamId, channel);
+    return channel;
+  }
+
+  /** Push a delta from the actor side. Returns false if the stream is not hosted here. */
+  push(streamId: string, delta: string): boolean {
+    const channel = this.streams.get(streamId);
+    if (!channel) return false;
+    channel.push(delta);
+    return true;
+  }
+
+  has(streamId: string): boolean {
+    return this.streams.has(streamId);
+  }
+
+  get size(): number {
+    return this.streams.size;
+  }
+}
+
+/** A single stream: buffers deltas until the consumer reads them. */
+export class StreamChannel {
+  private buffer: string[] = [];
+  private waiter: (() => void) | null = null;
+  private closed = false;
+  /** Number of deltas pushed so far */
+  received = 0;
+
+  constructor(private onClose: () => void) {}
+
+  push(delta: string): void {
+    if (this.closed || !delta) return;
+    this.buffer.push(delta);
+    this.received++;
+    this.waiter?.();
+  }
+
+  /** Resolves once a delta is available or the channel closes. */
+  ready(): Promise<void> {
+    if (this.buffer.length > 0 || this.closed) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.waiter = () => {
+        this.waiter = null;
+        resolve();
+      };
+    });
+  }
+
+  /** Take everything buffered so far. */
+  drain(): string[] {
+    const out = this.buffer;
+    this.buffer = [];
+    return out;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+    this.waiter?.();
+  }
+}
+
+/** Process-wide hub shared by the HTTP handler and locally hosted actors. */
+export const streamHub = new StreamHub();
+
+/** Where an actor sends deltas for one stream. */
+export interface StreamSink {
+  push(delta: string): void;
+  /** Resolves once every pushed delta has been delivered (or given up on). */
+  done(): Promise<void>;
+}
+
+/**
+ * Forwards deltas to the replica serving the stream. Deltas pushed while a
+ * POST is in flight are batched into the next one, so order is kept. The
+ * first failure stops forwarding; the origin then sends the part of the final
+ * response its client has not seen.
+ */
+export class StreamForwarder implements StreamSink {
+  private queue: string[] = [];
+  private sending: Promise<void> | null = null;
+  private failed = false;
+  /** Number of deltas delivered so far */
+  forwarded = 0;
+
+  constructor(
+    private url: string,
+    private fetchFn: typeof fetch = fetch,
+  ) {}
+
+  push(delta: string): void {
+    if (this.failed || !delta) return;
+    this.queue.push(delta);
+    this.sending ??= this.flush().finally(() => {
+      this.sending = null;
+    });
+  }
+
+  async done(): Promise<void> {
+    while (this.sending) await this.sending;
+  }
+
+  private async flush(): Promise<void> {
+    while (this.queue.length > 0 && !this.failed) {
+      const deltas = this.queue;
+      this.queue = [];
+      try {
+        const res = await this.fetchFn(this.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ deltas }),
+        });
+        if (!res.ok) throw new Error(`relay returned ${res.status}`);
+        this.forwarded += deltas.length;
+      } catch (err) {
+        this.failed = true;
+        this.queue = [];
+        console.warn(`[llm-service] Stream relay to ${this.url} failed, origin falls back to the buffered response:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Sink for a streaming request: the local hub when the stream is served by
+ * this process, a forwarder to `origin` otherwise, or undefined when neither.
+ */
+export function streamRelay(
+  streamId: string,
+  origin?: string,
+  hub: StreamHub = streamHub,
+): StreamSink | undefined {
+  if (hub.has(streamId)) {
+    return {
+      push: (delta) => {
+        hub.push(streamId, delta);
+      },
+      done: () => Promise.resolve(),
+    };
+  }
+  if (!origin) return undefined;
+  return new StreamForwarder(`${origin.replace(/\/$/, "")}${STREAM_RELAY_PATH}/${encodeURIComponent(streamId)}`);
+}
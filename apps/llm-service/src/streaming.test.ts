@@ -0,0 +1,180 @@
+import { describe, it, expect } from "bun:test";
+import { StreamJsonParser } from "./cli-spawner.js";
+import { ChatCompletionRequestSchema } from "@mesh-six/core";
+import { StreamHub, StreamForwarder, streamRelay, streamHub, type ActorCompletionRequest } from "./stream-hub.js";
+import { createApp } from "./app.js";
+import type { ActorRuntime } from "./actor-runtime.js";
+import type { ActorRouter } from "./router.js";
+import { buildCompletionChunk } from "./openai-compat.js";
+
+describe("StreamJsonParser", () => {
+  it("emits text deltas from partial stream events and keeps the result", () => {
+    const deltas: string[] = [];
+    const parser = new StreamJsonParser((t) => deltas.push(t));
+
+    parser.feed(JSON.stringify({ type: "system", subtype: "init" }));
+    parser.feed(JSON.stringify({ type: "stream_event", event: { type: "content_block_delta", delta: { type: "text_delta", text: "Hel" } } }));
+    parser.feed(JSON.stringify({ type: "stream_event", event: { type: "content_block_delta", delta: { type: "text_delta", text: "lo" } } }));
+    // The full assistant message repeats the text and must not be emitted again
+    parser.feed(JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "Hello" }] } }));
+    parser.feed(JSON.stringify({ type: "result", result: "Hello", session_id: "s-1", total_cost_usd: 0.01 }));
+
+    expect(deltas).toEqual(["Hel", "lo"]);
+    expect(parser.result()).toEqual({ content: "Hello", sessionId: "s-1", costUsd: 0.01 });
+  });
+
+  it("falls back to whole assistant messages without partials", () => {
+    const deltas: string[] = [];
+    const parser = new StreamJsonParser((t) => deltas.push(t));
+
+    parser.feed("not json");
+    parser.feed(JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "Hi" }, { type: "tool_use" }] } }));
+
+    expect(deltas).toEqual(["Hi"]);
+    expect(parser.result().content).toBe("Hi");
+  });
+});
+
+describe("StreamHub", () => {
+  it("buffers deltas until read and only accepts known streams", async () => {
+    const hub = new StreamHub();
+    const channel = hub.open("s1");
+
+    expect(hub.push("s1", "a")).toBe(true);
+    expect(hub.push("other", "x")).toBe(false);
+    await channel.ready();
+    expect(channel.drain()).toEqual(["a"]);
+
+    const waiting = channel.ready();
+    channel.close();
+    await waiting;
+    expect(hub.has("s1")).toBe(false);
+    expect(channel.received).toBe(1);
+  });
+});
+
+describe("stream relay", () => {
+  it("forwards deltas to the origin in order, batching while a POST is in flight", async () => {
+    const bodies: string[][] = [];
+    const fetchFn = (async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string).deltas);
+      await Promise.resolve();
+      return new Response("{}", { status: 200 });
+    }) as unknown as typeof fetch;
+    const forwarder = new StreamForwarder("http://origin/internal/streams/s1", fetchFn);
+
+    forwarder.push("a");
+    forwarder.push("b");
+    forwarder.push("c");
+    await forwarder.done();
+
+    expect(bodies).toEqual([["a"], ["b", "c"]]);
+    expect(forwarder.forwarded).toBe(3);
+  });
+
+  it("stops forwarding after the origin rejects a batch", async () => {
+    let calls = 0;
+    const fetchFn = (async () => {
+      calls++;
+      return new Response("{}", { status: 404 });
+    }) as unknown as typeof fetch;
+    const forwarder = new StreamForwarder("http://origin/internal/streams/gone", fetchFn);
+
+    forwarder.push("a");
+    await forwarder.done();
+    forwarder.push("b");
+    await forwarder.done();
+
+    expect(calls).toBe(1);
+    expect(forwarder.forwarded).toBe(0);
+  });
+
+  it("pushes to the local hub when the stream is served here", async () => {
+    const hub = new StreamHub();
+    const channel = hub.open("s1");
+
+    const sink = streamRelay("s1", "http://other:3000", hub);
+    expect(sink).toBeDefined();
+    sink!.push("x");
+    await sink!.done();
+
+    expect(channel.drain()).toEqual(["x"]);
+    expect(streamRelay("s2", "http://other:3000", hub)).toBeInstanceOf(StreamForwarder);
+    expect(streamRelay("s2", undefined, hub)).toBeUndefined();
+  });
+
+  it("drops client-supplied stream fields from the public request schema", () => {
+    const parsed = ChatCompletionRequestSchema.parse({
+      model: "claude-sonnet",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+      stream_id: "someone-elses-stream",
+      stream_origin: "http://attacker",
+    });
+    expect("stream_id" in parsed).toBe(false);
+    expect("stream_origin" in parsed).toBe(false);
+  });
+});
+
+describe("buildCompletionChunk", () => {
+  it("builds OpenAI chunk objects", () => {
+    const chunk = buildCompletionChunk({ id: "chatcmpl-1", created: 1, model: "m" }, { content: "x" });
+    expect(chunk).toEqual({
+      id: "chatcmpl-1",
+      object: "chat.completion.chunk",
+      created: 1,
+      model: "m",
+      choices: [{ index: 0, delta: { content: "x" }, finish_reason: null }],
+    });
+  });
+});
+
+describe("streamed completions", () => {
+  async function streamWith(deltas: string[], body: Record<string, unknown>) {
+    const router = {
+      route: async (request: ActorCompletionRequest) => {
+        for (const delta of deltas) streamHub.push(request.stream_id!, delta);
+        return { status: 200, body };
+      },
+    } as unknown as ActorRouter;
+    const app = createApp({} as ActorRuntime, router);
+    const res = await app.request("/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "claude-sonnet-4", messages: [{ role: "user", content: "hi" }], stream: true }),
+    });
+    const chunks = (await res.text())
+      .split("\n")
+      .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+      .map((line) => JSON.parse(line.slice(6)));
+    return {
+      content: chunks.map((c) => c.choices?.[0]?.delta?.content ?? "").join(""),
+      error: chunks.find((c) => c.error)?.error,
+    };
+  }
+
+  const answer = (content: string, provider?: string) => ({
+    id: "x",
+    object: "chat.completion",
+    created: 0,
+    model: "claude-sonnet-4",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    ...(provider ? { provider } : {}),
+  });
+
+  it("sends the rest of the answer when the relay stopped partway", async () => {
+    const result = await streamWith(["Hel"], answer("Hello there"));
+    expect(result).toEqual({ content: "Hello there", error: undefined });
+  });
+
+  it("sends a fallback answer whole when nothing was streamed", async () => {
+    const result = await streamWith([], answer("Bonjour", "litellm"));
+    expect(result).toEqual({ content: "Bonjour", error: undefined });
+  });
+
+  it("reports an error instead of splicing a fallback answer onto streamed text", async () => {
+    const result = await streamWith(["Hel"], answer("Bonjour", "litellm"));
+    expect(result.content).toBe("Hel");
+    expect(result.error?.type).toBe("upstream_error");
+  });
+});
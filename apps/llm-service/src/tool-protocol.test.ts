@@ -0,0 +1,107 @@
+import { describe, it, expect } from "bun:test";
+import { ChatCompletionRequestSchema, type ToolDefinition } from "@mesh-six/core";
+import { buildToolInstructions, parseToolCalls, renderToolMessage } from "./tool-protocol.js";
+import { buildCLIPrompt, buildCompletionResponse } from "./openai-compat.js";
+
+const TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_weather",
+      description: "Current weather for a city",
+      parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+    },
+  },
+];
+
+describe("buildToolInstructions", () => {
+  it("lists tools with their schema and honours tool_choice", () => {
+    const auto = buildToolInstructions(TOOLS);
+    expect(auto).toContain("- get_weather\n  Current weather for a city");
+    expect(auto).toContain('"required":["city"]');
+    expect(auto).toContain("<tool_calls>");
+
+    expect(buildToolInstructions(TOOLS, "required")).toContain("MUST call at least one function");
+    expect(buildToolInstructions(TOOLS, { type: "function", function: { name: "get_weather" } }))
+      .toContain('MUST call the function "get_weather"');
+  });
+});
+
+describe("parseToolCalls", () => {
+  it("turns a <tool_calls> block into structured calls", () => {
+    const result = parseToolCalls(
+      'Let me check.\n<tool_calls>\n[{"name": "get_weather", "arguments": {"city": "Oslo"}}]\n</tool_calls>',
+      TOOLS,
+    );
+
+    expect(result.content).toBe("Let me check.");
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls![0].id).toMatch(/^call_/);
+    expect(result.toolCalls![0].function).toEqual({ name: "get_weather", arguments: '{"city":"Oslo"}' });
+  });
+
+  it("accepts a single object inside a code fence and returns null content", () => {
+    const result = parseToolCalls(
+      '<tool_calls>\n```json\n{"name": "get_weather", "arguments": {"city": "Bergen"}}\n```\n</tool_calls>',
+      TOOLS,
+    );
+    expect(result.content).toBeNull();
+    expect(result.toolCalls![0].function.name).toBe("get_weather");
+  });
+
+  it("falls back to plain text for unknown functions or bad JSON", () => {
+    const unknown = '<tool_calls>[{"name": "rm_rf", "arguments": {}}]</tool_calls>';
+    expect(parseToolCalls(unknown, TOOLS)).toEqual({ content: unknown });
+    expect(parseToolCalls("<tool_calls>not json</tool_calls>", TOOLS).toolCalls).toBeUndefined();
+    expect(parseToolCalls("Sunny.", TOOLS)).toEqual({ content: "Sunny." });
+  });
+});
+
+describe("multi-turn tool loop", () => {
+  it("accepts OpenAI tool messages and renders them into the CLI prompt", () => {
+    const request = ChatCompletionRequestSchema.parse({
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Weather in Oslo?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Oslo"}' } }],
+        },
+        { role: "tool", tool_call_id: "call_1", name: "get_weather", content: '{"temp": 4}' },
+      ],
+      tools: TOOLS,
+    });
+
+    const { systemPrompt, userPrompt } = buildCLIPrompt(request.messages, request);
+
+    expect(systemPrompt).toStartWith("Be brief.\n\n## Functions");
+    expect(userPrompt).toContain('[{"id":"call_1","name":"get_weather","arguments":{"city":"Oslo"}}]');
+    expect(userPrompt).toContain('[Function result (get_weather, call call_1)]\n{"temp": 4}');
+  });
+
+  it("omits tool instructions when tool_choice is none", () => {
+    const { systemPrompt } = buildCLIPrompt([{ role: "user", content: "hi" }], { tools: TOOLS, tool_choice: "none" });
+    expect(systemPrompt).toBeUndefined();
+  });
+
+  it("leaves plain messages to the default rendering", () => {
+    expect(renderToolMessage({ role: "assistant", content: "hi" })).toBeNull();
+  });
+});
+
+describe("buildCompletionResponse with tools", () => {
+  it("reports tool_calls with finish_reason tool_calls", () => {
+    const response = buildCompletionResponse(
+      '<tool_calls>[{"name": "get_weather", "arguments": {"city": "Oslo"}}]</tool_calls>',
+      "claude-sonnet-4-20250514",
+      undefined,
+      { tools: TOOLS },
+    );
+
+    const choice = response.choices[0];
+    expect(choice.finish_reason).toBe("tool_calls");
+    expect(choice.message.content).toBeNull();
+    expect(choice.message.tool_calls?.[0].function.name).toBe("get_weather");
+  });
+});
@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import type { ChatMessage, ToolCall, ToolChoice, ToolDefinition } from "@mesh-six/core";
+
+// ============================================================================
+// TOOL CALLING PROMPT PROTOCOL
+// ============================================================================
+//
+// The Claude CLI has no API-level tool calling in print mode, so OpenAI
+// `tools` are described in the system prompt and the model is asked to answer
+// with a <tool_calls> block when it wants to call one. The block is parsed
+// back into structured `tool_calls`; earlier calls and `role: "tool"` results
+// are rendered into the conversation so multi-turn tool loops work.
+
+const OPEN_TAG = "<tool_calls>";
+const CLOSE_TAG = "</tool_calls>";
+
+/** True when the request offers tools the model is allowed to call. */
+export function toolsEnabled(tools: ToolDefinition[] | undefined, toolChoice: ToolChoice | undefined): boolean {
+  return Boolean(tools?.length) && toolChoice !== "none";
+}
+
+/**
+ * System prompt section describing the available tools and the reply format.
+ */
+export function buildToolInstructions(tools: ToolDefinition[], toolChoice: ToolChoice = "auto"): string {
+  const catalog = tools
+    .map((t) => {
+      const schema = JSON.stringify(t.function.parameters ?? { type: "object", properties: {} });
+      const description = t.function.description ? `\n  ${t.function.description}` : "";
+      return `- ${t.function.name}${description}\n  Arguments JSON schema: ${schema}`;
+    })
+    .join("\n");
+
+  let rule: string;
+  if (typeof toolChoice === "object") {
+    rule = `You MUST call the function "${toolChoice.function.name}" in this reply.`;
+  } else if (toolChoice === "required") {
+    rule = "You MUST call at least one function in this reply.";
+  } else {
+    rule = "Call functions only when they are needed; otherwise answer normally.";
+  }
+
+  return [
+    "## Functions",
+    "You can call these functions. You cannot run them yourself — the caller runs them and sends back the results.",
+    catalog,
+    "",
+    "To call functions, reply with ONLY this block and nothing after it:",
+    OPEN_TAG,
+    '[{"name": "<function name>", "arguments": { ... }}]',
+    CLOSE_TAG,
+    "Several calls may go in the same array. Arguments must match the schema.",
+    rule,
+  ].join("\n");
+}
+
+/**
+ * Render an assistant turn that requested tool calls, or a tool result, as
+ * conversation text. Returns null for other messages.
+ */
+export function renderToolMessage(msg: ChatMessage): string | null {
+  if (msg.role === "assistant" && msg.tool_calls?.length) {
+    const calls = msg.tool_calls.map((call) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: safeParse(call.function.arguments),
+    }));
+    const prefix = msg.content ? `${msg.content}\n` : "";
+    return `[Previous assistant response]\n${prefix}${OPEN_TAG}\n${JSON.stringify(calls)}\n${CLOSE_TAG}`;
+  }
+
+  if (msg.role === "tool") {
+    const label = msg.name ? `${msg.name}, call ${msg.tool_call_id ?? "?"}` : `call ${msg.tool_call_id ?? "?"}`;
+    return `[Function result (${label})]\n${msg.content}`;
+  }
+
+  return null;
+}
+
+/**
+ * Extract a <tool_calls> block from model output. Calls to unknown functions
+ * are dropped; if nothing valid remains the output is returned as plain text.
+ */
+export function parseToolCalls(
+  output: string,
+  tools: ToolDefinition[],
+): { content: string | null; toolCalls?: ToolCall[] } {
+  const start = output.indexOf(OPEN_TAG);
+  const end = output.indexOf(CLOSE_TAG, start);
+  if (start < 0 || end < 0) return { content: output };
+
+  const raw = output.slice(start + OPEN_TAG.length, end).trim();
+  const parsed = safeParse(stripFence(raw));
+  const entries = Array.isArray(parsed) ? parsed : parsed && typeof parsed === "object" ? [parsed] : [];
+
+  const known = new Set(tools.map((t) => t.function.name));
+  const toolCalls: ToolCall[] = [];
+  for (const entry of entries as Array<Record<string, unknown>>) {
+    if (typeof entry?.name !== "string" || !known.has(entry.name)) continue;
+    const args = entry.arguments ?? {};
+    toolCalls.push({
+      id: `call_${randomUUID().replace(/-/g, "").slice(0, 24)}`,
+      type: "function",
+      function: {
+        name: entry.name,
+        arguments: typeof args === "string" ? args : JSON.stringify(args),
+      },
+    });
+  }
+
+  if (toolCalls.length === 0) return { content: output };
+
+  const text = output.slice(0, start).trim();
+  return { content: text || null, toolCalls };
+}
+
+function stripFence(text: string): string {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : text;
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
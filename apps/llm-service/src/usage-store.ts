@@ -0,0 +1,126 @@
+import type pg from "pg";
+import type { LLMUsageGroupBy, LLMUsageSummary, LLMUsageTotals } from "@mesh-six/core";
+
+// ============================================================================
+// USAGE STORE (llm_usage table)
+// ============================================================================
+
+export interface UsageRecord {
+  completionId: string;
+  actorId: string;
+  credentialId: string;
+  caller: string;
+  model: string;
+  capability?: string;
+  sessionId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  /** Null when the CLI did not report a cost */
+  costUsd: number | null;
+  /** False when token counts are the chars/4 estimate */
+  reported: boolean;
+  durationMs: number;
+}
+
+export interface UsageQuery {
+  from: Date;
+  to: Date;
+  groupBy?: LLMUsageGroupBy;
+}
+
+// Whitelisted grouping expressions — never interpolate request input
+const GROUP_COLUMNS: Record<LLMUsageGroupBy, string> = {
+  actor: "actor_id",
+  credential: "credential_id",
+  caller: "caller",
+  model: "model",
+  day: "to_char(date_trunc('day', created_at), 'YYYY-MM-DD')",
+};
+
+const TOTALS_SQL = `
+  COUNT(*)                              AS requests,
+  COALESCE(SUM(input_tokens), 0)          AS input_tokens,
+  COALESCE(SUM(output_tokens), 0)         AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0)     AS cache_read_tokens,
+  COALESCE(SUM(cache_creation_tokens), 0) AS cache_creation_tokens,
+  COALESCE(SUM(cost_usd), 0)              AS cost_usd`;
+
+/**
+ * Per-completion token and cost accounting for Claude CLI runs, recorded by
+ * the router after each successful completion.
+ */
+export class UsageStore {
+  constructor(private pool: pg.Pool) {}
+
+  async record(entry: UsageRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO llm_usage
+         (completion_id, actor_id, credential_id, caller, model, capability, session_id,
+          input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens,
+          cost_usd, reported, duration_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        entry.completionId,
+        entry.actorId,
+        entry.credentialId,
+        entry.caller,
+        entry.model,
+        entry.capability ?? null,
+        entry.sessionId ?? null,
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.cacheReadTokens,
+        entry.cacheCreationTokens,
+        entry.costUsd,
+        entry.reported,
+        entry.durationMs,
+      ],
+    );
+  }
+
+  /** Totals over [from, to), optionally broken down by one dimension. */
+  async summarize(query: UsageQuery): Promise<LLMUsageSummary> {
+    const params = [query.from.toISOString(), query.to.toISOString()];
+    const where = "WHERE created_at >= $1 AND created_at < $2";
+
+    const { rows: [totals] } = await this.pool.query(
+      `SELECT ${TOTALS_SQL} FROM llm_usage ${where}`,
+      params,
+    );
+
+    let groups: LLMUsageSummary["groups"] = [];
+    if (query.groupBy) {
+      const column = GROUP_COLUMNS[query.groupBy];
+      const { rows } = await this.pool.query(
+        `SELECT ${column} AS key, ${TOTALS_SQL}
+         FROM llm_usage ${where}
+         GROUP BY 1
+         ORDER BY cost_usd DESC, requests DESC`,
+        params,
+      );
+      groups = rows.map((row) => ({ key: String(row.key), ...toTotals(row) }));
+    }
+
+    return {
+      from: params[0],
+      to: params[1],
+      ...(query.groupBy ? { groupBy: query.groupBy } : {}),
+      totals: toTotals(totals),
+      groups,
+    };
+  }
+}
+
+// pg returns COUNT/SUM of integers as strings (bigint) and NUMERIC as strings
+function toTotals(row: Record<string, unknown>): LLMUsageTotals {
+  return {
+    requests: Number(row.requests ?? 0),
+    inputTokens: Number(row.input_tokens ?? 0),
+    outputTokens: Number(row.output_tokens ?? 0),
+    cacheReadTokens: Number(row.cache_read_tokens ?? 0),
+    cacheCreationTokens: Number(row.cache_creation_tokens ?? 0),
+    costUsd: Number(row.cost_usd ?? 0),
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, mock } from "bun:test";
+import { parseUsage, StreamJsonParser } from "./cli-spawner.js";
+import { buildCompletionResponse } from "./openai-compat.js";
+import { UsageStore, type UsageRecord } from "./usage-store.js";
+
+const CLI_USAGE = {
+  input_tokens: 12,
+  output_tokens: 40,
+  cache_read_input_tokens: 1000,
+  cache_creation_input_tokens: 200,
+};
+
+describe("parseUsage", () => {
+  it("reads Anthropic-style token counts", () => {
+    expect(parseUsage(CLI_USAGE)).toEqual({
+      inputTokens: 12,
+      outputTokens: 40,
+      cacheReadTokens: 1000,
+      cacheCreationTokens: 200,
+    });
+  });
+
+  it("returns undefined without token counts", () => {
+    expect(parseUsage(undefined)).toBeUndefined();
+    expect(parseUsage({ service_tier: "standard" })).toBeUndefined();
+  });
+
+  it("picks up usage from the stream-json result line", () => {
+    const parser = new StreamJsonParser(() => {});
+    parser.feed(JSON.stringify({ type: "result", result: "ok", total_cost_usd: 0.02, usage: CLI_USAGE }));
+    expect(parser.result().usage?.cacheReadTokens).toBe(1000);
+    expect(parser.result().costUsd).toBe(0.02);
+  });
+});
+
+describe("buildCompletionResponse usage", () => {
+  it("reports real counts with cached tokens and cost", () => {
+    const response = buildCompletionResponse("hello", "claude-sonnet-4-20250514", undefined, {
+      usage: parseUsage(CLI_USAGE),
+      costUsd: 0.0123,
+    });
+
+    expect(response.usage).toEqual({
+      prompt_tokens: 1212,
+      completion_tokens: 40,
+      total_tokens: 1252,
+      prompt_tokens_details: { cached_tokens: 1000 },
+      cache_creation_tokens: 200,
+      cost_usd: 0.0123,
+    });
+  });
+
+  it("falls back to a character estimate without a usage block", () => {
+    const response = buildCompletionResponse("12345678", "claude-sonnet-4-20250514");
+    expect(response.usage).toEqual({ prompt_tokens: 0, completion_tokens: 2, total_tokens: 2 });
+  });
+});
+
+describe("UsageStore", () => {
+  const record: UsageRecord = {
+    completionId: "chatcmpl-1",
+    actorId: "actor-0",
+    credentialId: "cred-a",
+    caller: "architect-agent",
+    model: "claude-sonnet-4-20250514",
+    inputTokens: 12,
+    outputTokens: 40,
+    cacheReadTokens: 1000,
+    cacheCreationTokens: 200,
+    costUsd: 0.0123,
+    reported: true,
+    durationMs: 900,
+  };
+
+  it("inserts one row per completion", async () => {
+    const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [] }));
+    const store = new UsageStore({ query: queryMock } as any);
+
+    await store.record(record);
+
+    const [sql, params] = queryMock.mock.calls[0]!;
+    expect(sql).toContain("INSERT INTO llm_usage");
+    expect(params.slice(0, 5)).toEqual(["chatcmpl-1", "actor-0", "cred-a", "architect-agent", "claude-sonnet-4-20250514"]);
+    expect(params[5]).toBeNull(); // capability
+    expect(params[11]).toBe(0.0123);
+  });
+
+  it("summarizes totals and groups, converting pg numeric strings", async () => {
+    const totalsRow = {
+      requests: "3", input_tokens: "30", output_tokens: "90",
+      cache_read_tokens: "0", cache_creation_tokens: "0", cost_usd: "0.050000",
+    };
+    const queryMock = mock((sql: string, _params: any[]) =>
+      Promise.resolve({
+        rows: sql.includes("GROUP BY") ? [{ key: "cred-a", ...totalsRow }] : [totalsRow],
+      })
+    );
+    const store = new UsageStore({ query: queryMock } as any);
+
+    const summary = await store.summarize({
+      from: new Date("2026-10-18T00:00:00Z"),
+      to: new Date("2026-10-19T00:00:00Z"),
+      groupBy: "credential",
+    });
+
+    expect(queryMock.mock.calls[1]![0]).toContain("credential_id AS key");
+    expect(summary.totals).toEqual({
+      requests: 3, inputTokens: 30, outputTokens: 90,
+      cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.05,
+    });
+    expect(summary.groups).toEqual([{ key: "cred-a", ...summary.totals }]);
+    expect(summary.from).toBe("2026-10-18T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import { FairWaitQueue, type PriorityLane, type QueueEntry } from "./wait-queue.js";
+
+interface Entry extends QueueEntry {
+  id: string;
+}
+
+function entry(id: string, caller: string, lane: PriorityLane = "normal"): Entry {
+  return { id, caller, lane, enqueuedAt: Date.now() };
+}
+
+function drain(queue: FairWaitQueue<Entry>): string[] {
+  const ids: string[] = [];
+  for (let e = queue.take(); e; e = queue.take()) ids.push(e.id);
+  return ids;
+}
+
+describe("FairWaitQueue", () => {
+  it("rotates between callers so a busy caller cannot starve others", () => {
+    const queue = new FairWaitQueue<Entry>(10);
+    queue.push(entry("a1", "a"));
+    queue.push(entry("a2", "a"));
+    queue.push(entry("a3", "a"));
+    queue.push(entry("b1", "b"));
+    queue.push(entry("c1", "c"));
+
+    expect(drain(queue)).toEqual(["a1", "b1", "c1", "a2", "a3"]);
+  });
+
+  it("serves higher lanes first", () => {
+    const queue = new FairWaitQueue<Entry>(10);
+    queue.push(entry("low", "a", "low"));
+    queue.push(entry("normal", "a"));
+    queue.push(entry("high", "b", "high"));
+
+    expect(drain(queue)).toEqual(["high", "normal", "low"]);
+  });
+
+  it("rejects pushes when full", () => {
+    const queue = new FairWaitQueue<Entry>(2);
+    expect(queue.push(entry("1", "a"))).toBe(true);
+    expect(queue.push(entry("2", "b"))).toBe(true);
+    expect(queue.isFull).toBe(true);
+    expect(queue.push(entry("3", "c"))).toBe(false);
+    expect(queue.size).toBe(2);
+  });
+
+  it("skips ineligible heads without reordering a caller's requests", () => {
+    const queue = new FairWaitQueue<Entry>(10);
+    queue.push(entry("a1", "a"));
+    queue.push(entry("a2", "a"));
+    queue.push(entry("b1", "b"));
+
+    expect(queue.take((e) => e.caller === "b")?.id).toBe("b1");
+    expect(queue.take((e) => e.id === "a2")).toBeUndefined();
+    expect(queue.size).toBe(2);
+  });
+
+  it("removes timed-out entries and reports depths", () => {
+    const queue = new FairWaitQueue<Entry>(10);
+    const stale = entry("a1", "a");
+    queue.push(stale);
+    queue.push(entry("a2", "a", "high"));
+    queue.push(entry("b1", "b", "low"));
+
+    expect(queue.remove(stale)).toBe(true);
+    expect(queue.remove(stale)).toBe(false);
+    expect(queue.depths()).toEqual({
+      byLane: { high: 1, normal: 0, low: 1 },
+      byCaller: { a: 1, b: 1 },
+    });
+  });
+});
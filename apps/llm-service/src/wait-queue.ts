@@ -0,0 +1,96 @@
+// ============================================================================
+// FAIR WAIT QUEUE
+// ============================================================================
+
+export const PRIORITY_LANES = ["high", "normal", "low"] as const;
+export type PriorityLane = (typeof PRIORITY_LANES)[number];
+
+export interface QueueEntry {
+  /** Fairness key — the calling app, or the capability when unknown */
+  caller: string;
+  lane: PriorityLane;
+  enqueuedAt: number;
+}
+
+/**
+ * Bounded wait queue with strict priority lanes and round-robin fairness
+ * between callers inside each lane: a caller with fifty queued requests
+ * cannot starve one with a single request.
+ */
+export class FairWaitQueue<T extends QueueEntry> {
+  // lane → caller → FIFO of entries. A served caller is moved to the back of
+  // its lane's Map, so iteration order is the round-robin order.
+  private lanes = new Map<PriorityLane, Map<string, T[]>>(
+    PRIORITY_LANES.map((lane) => [lane, new Map()]),
+  );
+  private count = 0;
+
+  constructor(private maxSize: number) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  get isFull(): boolean {
+    return this.count >= this.maxSize;
+  }
+
+  /** Add an entry; returns false when the queue is full. */
+  push(entry: T): boolean {
+    if (this.isFull) return false;
+    const callers = this.lanes.get(entry.lane)!;
+    const fifo = callers.get(entry.caller);
+    if (fifo) fifo.push(entry);
+    else callers.set(entry.caller, [entry]);
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Remove and return the next entry that `eligible` accepts: highest lane
+   * first, rotating through callers within the lane. Only the head of each
+   * caller's FIFO is considered so per-caller order is preserved.
+   */
+  take(eligible: (entry: T) => boolean = () => true): T | undefined {
+    for (const lane of PRIORITY_LANES) {
+      const callers = this.lanes.get(lane)!;
+      if (callers.size === 0) continue;
+
+      for (const [caller, fifo] of callers) {
+        if (!eligible(fifo[0])) continue;
+
+        const entry = fifo.shift()!;
+        callers.delete(caller);
+        if (fifo.length > 0) callers.set(caller, fifo);
+        this.count--;
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /** Remove a specific entry (e.g. when its wait times out). */
+  remove(entry: T): boolean {
+    const callers = this.lanes.get(entry.lane)!;
+    const fifo = callers.get(entry.caller);
+    const idx = fifo?.indexOf(entry) ?? -1;
+    if (!fifo || idx < 0) return false;
+    fifo.splice(idx, 1);
+    if (fifo.length === 0) callers.delete(entry.caller);
+    this.count--;
+    return true;
+  }
+
+  /** Queued entries per lane and per caller. */
+  depths(): { byLane: Record<PriorityLane, number>; byCaller: Record<string, number> } {
+    const byLane = { high: 0, normal: 0, low: 0 } as Record<PriorityLane, number>;
+    const byCaller: Record<string, number> = {};
+    for (const [lane, callers] of this.lanes) {
+      for (const [caller, fifo] of callers) {
+        byLane[lane] += fifo.length;
+        byCaller[caller] = (byCaller[caller] ?? 0) + fifo.length;
+      }
+    }
+    return { byLane, byCaller };
+  }
+}
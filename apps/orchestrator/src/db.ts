@@ -1,4 +1,5 @@
 import { Pool } from "pg";
+import type { TaskGraphState } from "./graph";
 
 const DATABASE_URL =
   process.env.DATABASE_URL ||
@@ -17,12 +18,14 @@ export async function saveTask(task: {
   attempts: number;
   maxAttempts?: number;
   timeoutSeconds?: number;
+  priority?: number;
+  leaseExpiresAt?: Date;
   payload: Record<string, unknown>;
 }): Promise<void> {
   await pool.query(
     `INSERT INTO orchestrator_tasks
-       (task_id, capability, dispatched_to, dispatched_at, status, attempts, max_attempts, timeout_seconds, payload)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       (task_id, capability, dispatched_to, dispatched_at, status, attempts, max_attempts, timeout_seconds, payload, priority, lease_expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
      ON CONFLICT (task_id) DO UPDATE SET
        capability = EXCLUDED.capability,
        dispatched_to = EXCLUDED.dispatched_to,
@@ -32,6 +35,8 @@ export async function saveTask(task: {
        max_attempts = EXCLUDED.max_attempts,
        timeout_seconds = EXCLUDED.timeout_seconds,
        payload = EXCLUDED.payload,
+       priority = EXCLUDED.priority,
+       lease_expires_at = EXCLUDED.lease_expires_at,
        updated_at = NOW()`,
     [
       task.taskId,
@@ -43,11 +48,70 @@ export async function saveTask(task: {
       task.maxAttempts ?? 3,
       task.timeoutSeconds ?? 120,
       JSON.stringify(task.payload),
+      task.priority ?? 5,
+      task.leaseExpiresAt ?? null,
     ]
   );
 }
 
-/** Load all active (non-terminal) tasks for startup recovery. */
+/** Persist a task that is waiting in the queue for an agent. */
+export async function enqueueTask(task: {
+  taskId: string;
+  capability: string;
+  priority: number;
+  timeoutSeconds: number;
+  payload: Record<string, unknown>;
+  enqueuedAt: Date;
+}): Promise<void> {
+  await pool.query(
+    `INSERT INTO orchestrator_tasks
+       (task_id, capability, status, attempts, timeout_seconds, payload, priority, created_at)
+     VALUES ($1, $2, 'pending', 0, $3, $4, $5, $6)
+     ON CONFLICT (task_id) DO UPDATE SET
+       status = 'pending',
+       dispatched_to = NULL,
+       priority = EXCLUDED.priority,
+       updated_at = NOW()`,
+    [
+      task.taskId,
+      task.capability,
+      task.timeoutSeconds,
+      JSON.stringify(task.payload),
+      task.priority,
+      task.enqueuedAt,
+    ]
+  );
+}
+
+/** Load all queued (pending) tasks in dispatch order for startup recovery. */
+export async function loadPendingTasks(): Promise<
+  Array<{
+    taskId: string;
+    capability: string;
+    priority: number;
+    timeoutSeconds: number;
+    payload: Record<string, unknown>;
+    enqueuedAt: Date;
+  }>
+> {
+  const { rows } = await pool.query(
+    `SELECT task_id, capability, priority, timeout_seconds, payload, created_at
+     FROM orchestrator_tasks
+     WHERE status = 'pending'
+     ORDER BY priority DESC, created_at ASC`
+  );
+
+  return rows.map((r: Record<string, unknown>) => ({
+    taskId: r.task_id as string,
+    capability: r.capability as string,
+    priority: r.priority as number,
+    timeoutSeconds: r.timeout_seconds as number,
+    payload: (r.payload ?? {}) as Record<string, unknown>,
+    enqueuedAt: r.created_at as Date,
+  }));
+}
+
+/** Load all active (dispatched, non-terminal) tasks for startup recovery. */
 export async function loadActiveTasks(): Promise<
   Array<{
     taskId: string;
@@ -58,14 +122,16 @@ export async function loadActiveTasks(): Promise<
     attempts: number;
     maxAttempts: number;
     timeoutSeconds: number;
+    priority: number;
+    leaseExpiresAt: Date | null;
     payload: Record<string, unknown>;
   }>
 > {
   const { rows } = await pool.query(
     `SELECT task_id, capability, dispatched_to, dispatched_at, status, attempts,
-            max_attempts, timeout_seconds, payload
+            max_attempts, timeout_seconds, priority, lease_expires_at, payload
      FROM orchestrator_tasks
-     WHERE status NOT IN ('completed', 'failed')
+     WHERE status NOT IN ('completed', 'failed', 'pending')
      ORDER BY created_at ASC`
   );
 
@@ -78,10 +144,22 @@ export async function loadActiveTasks(): Promise<
     attempts: r.attempts as number,
     maxAttempts: r.max_attempts as number,
     timeoutSeconds: r.timeout_seconds as number,
+    priority: r.priority as number,
+    leaseExpiresAt: (r.lease_expires_at as Date | null) ?? null,
     payload: (r.payload ?? {}) as Record<string, unknown>,
   }));
 }
 
+/** Extend a dispatched task's lease (on progress from the owning agent). */
+export async function renewLease(taskId: string, leaseExpiresAt: Date): Promise<void> {
+  await pool.query(
+    `UPDATE orchestrator_tasks
+     SET lease_expires_at = $2, updated_at = NOW()
+     WHERE task_id = $1`,
+    [taskId, leaseExpiresAt]
+  );
+}
+
 /** Update a task's status and optionally its result. */
 export async function updateTaskStatus(
   taskId: string,
@@ -153,3 +231,50 @@ export async function checkpointAll(
     client.release();
   }
 }
+
+// --- Task Graphs ---
+
+/** Upsert a task graph's full state. */
+export async function saveGraph(graph: TaskGraphState): Promise<void> {
+  await pool.query(
+    `INSERT INTO orchestrator_graphs (graph_id, status, nodes, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     ON CONFLICT (graph_id) DO UPDATE SET
+       status = EXCLUDED.status,
+       nodes = EXCLUDED.nodes,
+       updated_at = NOW()`,
+    [graph.graphId, graph.status, JSON.stringify(graph.nodes), graph.createdAt]
+  );
+}
+
+/** Load a single graph (any status). */
+export async function getGraph(graphId: string): Promise<TaskGraphState | null> {
+  const { rows } = await pool.query(
+    `SELECT graph_id, status, nodes, created_at, updated_at
+     FROM orchestrator_graphs
+     WHERE graph_id = $1`,
+    [graphId]
+  );
+  return rows.length > 0 ? rowToGraph(rows[0]) : null;
+}
+
+/** Load all running graphs for startup recovery. */
+export async function loadActiveGraphs(): Promise<TaskGraphState[]> {
+  const { rows } = await pool.query(
+    `SELECT graph_id, status, nodes, created_at, updated_at
+     FROM orchestrator_graphs
+     WHERE status = 'running'
+     ORDER BY created_at ASC`
+  );
+  return rows.map(rowToGraph);
+}
+
+function rowToGraph(r: Record<string, unknown>): TaskGraphState {
+  return {
+    graphId: r.graph_id as string,
+    status: r.status as TaskGraphState["status"],
+    nodes: (r.nodes ?? []) as TaskGraphState["nodes"],
+    createdAt: (r.created_at as Date).toISOString(),
+    updatedAt: (r.updated_at as Date).toISOString(),
+  };
+}
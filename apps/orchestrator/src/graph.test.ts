@@ -0,0 +1,113 @@
+import { describe, it, expect } from "bun:test";
+import {
+  GraphNodeSchema,
+  validateGraph,
+  createGraph,
+  readyNodes,
+  buildNodePayload,
+  completeNode,
+  failNode,
+  cancelGraph,
+  DEPENDENCY_RESULTS_KEY,
+  type GraphNode,
+} from "./graph.js";
+
+function node(id: string, dependsOn: string[] = [], payload: Record<string, unknown> = {}): GraphNode {
+  return GraphNodeSchema.parse({ id, capability: "general-query", payload, dependsOn });
+}
+
+// research → architect → implement, with a side branch from research
+const pipeline = () => [
+  node("research"),
+  node("architect", ["research"]),
+  node("implement", ["architect"]),
+  node("notify", ["research"]),
+];
+
+describe("validateGraph", () => {
+  it("accepts a valid DAG", () => {
+    expect(validateGraph(pipeline())).toBeNull();
+  });
+
+  it("rejects duplicate node ids", () => {
+    expect(validateGraph([node("a"), node("a")])).toContain("Duplicate node id");
+  });
+
+  it("rejects unknown dependencies", () => {
+    expect(validateGraph([node("a", ["missing"])])).toContain("unknown node: missing");
+  });
+
+  it("rejects self-dependencies", () => {
+    expect(validateGraph([node("a", ["a"])])).toContain("depends on itself");
+  });
+
+  it("rejects cycles", () => {
+    const result = validateGraph([node("a", ["c"]), node("b", ["a"]), node("c", ["b"]), node("d")]);
+    expect(result).toContain("cycle");
+    expect(result).not.toContain("d");
+  });
+});
+
+describe("graph progression", () => {
+  it("only roots are ready initially", () => {
+    const graph = createGraph("g1", pipeline());
+    expect(readyNodes(graph).map((n) => n.id)).toEqual(["research"]);
+  });
+
+  it("unblocks children once all parents complete", () => {
+    const graph = createGraph("g1", pipeline());
+    graph.nodes[0].status = "submitted";
+    completeNode(graph, "research", { findings: "x" });
+
+    expect(readyNodes(graph).map((n) => n.id)).toEqual(["architect", "notify"]);
+    expect(graph.status).toBe("running");
+  });
+
+  it("passes parent results into the child payload", () => {
+    const graph = createGraph("g1", [node("a"), node("b"), node("c", ["a", "b"], { goal: "ship" })]);
+    completeNode(graph, "a", { out: 1 });
+    completeNode(graph, "b", { out: 2 });
+
+    const child = graph.nodes[2];
+    expect(buildNodePayload(graph, child)).toEqual({
+      goal: "ship",
+      [DEPENDENCY_RESULTS_KEY]: { a: { out: 1 }, b: { out: 2 } },
+    });
+  });
+
+  it("leaves root payloads untouched", () => {
+    const graph = createGraph("g1", [node("a", [], { q: 1 })]);
+    expect(buildNodePayload(graph, graph.nodes[0])).toEqual({ q: 1 });
+  });
+
+  it("completes the graph when every node completes", () => {
+    const graph = createGraph("g1", [node("a"), node("b", ["a"])]);
+    completeNode(graph, "a", {});
+    completeNode(graph, "b", {});
+    expect(graph.status).toBe("completed");
+  });
+
+  it("cancels unfinished nodes when a node fails", () => {
+    const graph = createGraph("g1", pipeline());
+    completeNode(graph, "research", {});
+    graph.nodes[1].status = "submitted";
+    graph.nodes[1].taskId = "t-architect";
+    graph.nodes[3].status = "submitted";
+    graph.nodes[3].taskId = "t-notify";
+
+    const cancelled = failNode(graph, "architect", { type: "timeout", message: "timed out" });
+
+    expect(graph.status).toBe("failed");
+    expect(cancelled.map((n) => n.id).sort()).toEqual(["implement", "notify"]);
+    expect(graph.nodes[0].status).toBe("completed");
+    expect(graph.nodes.find((n) => n.id === "architect")?.status).toBe("failed");
+    expect(readyNodes(graph)).toEqual([]);
+  });
+
+  it("cancelGraph is a no-op on finished graphs", () => {
+    const graph = createGraph("g1", [node("a")]);
+    completeNode(graph, "a", {});
+    expect(cancelGraph(graph)).toEqual([]);
+    expect(graph.status).toBe("completed");
+  });
+});
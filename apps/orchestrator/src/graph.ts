@@ -0,0 +1,195 @@
+import { z } from "zod";
+
+/**
+ * Task dependency graphs (DAGs) submitted via `POST /graphs`.
+ *
+ * A graph is a set of task nodes with `dependsOn` edges. A node is dispatched
+ * only after all of its parents complete, and receives their results under
+ * `payload.dependencyResults`. Any node failing cancels the rest of the graph.
+ *
+ * Graph state is a plain serializable object so it can be persisted as-is in
+ * `orchestrator_graphs.nodes` and recovered on restart.
+ */
+
+// --- Submission Schemas ---
+export const GraphNodeSchema = z.object({
+  id: z.string().min(1),
+  capability: z.string(),
+  payload: z.record(z.string(), z.unknown()).default({}),
+  priority: z.number().min(0).max(10).default(5),
+  timeout: z.number().positive().default(120),
+  dependsOn: z.array(z.string()).default([]),
+});
+
+export type GraphNode = z.infer<typeof GraphNodeSchema>;
+
+export const CreateGraphSchema = z.object({
+  nodes: z.array(GraphNodeSchema).min(1),
+});
+
+// --- Graph State ---
+export type GraphNodeStatus = "blocked" | "submitted" | "completed" | "failed" | "cancelled";
+export type GraphStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface GraphNodeState extends GraphNode {
+  status: GraphNodeStatus;
+  taskId: string | null;
+  result?: Record<string, unknown>;
+  error?: { type: string; message: string };
+}
+
+export interface TaskGraphState {
+  graphId: string;
+  status: GraphStatus;
+  nodes: GraphNodeState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Payload key under which parent results are passed to a child node. */
+export const DEPENDENCY_RESULTS_KEY = "dependencyResults";
+
+/**
+ * Validate node IDs and edges. Returns an error message, or null if the
+ * nodes form a valid DAG.
+ */
+export function validateGraph(nodes: GraphNode[]): string | null {
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) return `Duplicate node id: ${node.id}`;
+    ids.add(node.id);
+  }
+
+  for (const node of nodes) {
+    for (const dep of node.dependsOn) {
+      if (dep === node.id) return `Node ${node.id} depends on itself`;
+      if (!ids.has(dep)) return `Node ${node.id} depends on unknown node: ${dep}`;
+    }
+  }
+
+  // Kahn's algorithm — anything left unvisited is part of a cycle
+  const inDegree = new Map(nodes.map((n) => [n.id, n.dependsOn.length]));
+  const ready = nodes.filter((n) => n.dependsOn.length === 0).map((n) => n.id);
+  let visited = 0;
+
+  while (ready.length > 0) {
+    const id = ready.pop()!;
+    visited++;
+    for (const node of nodes) {
+      if (!node.dependsOn.includes(id)) continue;
+      const remaining = inDegree.get(node.id)! - 1;
+      inDegree.set(node.id, remaining);
+      if (remaining === 0) ready.push(node.id);
+    }
+  }
+
+  if (visited !== nodes.length) {
+    const cyclic = nodes.filter((n) => inDegree.get(n.id)! > 0).map((n) => n.id);
+    return `Graph contains a cycle involving: ${cyclic.join(", ")}`;
+  }
+
+  return null;
+}
+
+export function createGraph(graphId: string, nodes: GraphNode[]): TaskGraphState {
+  const now = new Date().toISOString();
+  return {
+    graphId,
+    status: "running",
+    nodes: nodes.map((n) => ({ ...n, status: "blocked", taskId: null })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Blocked nodes whose parents have all completed. */
+export function readyNodes(graph: TaskGraphState): GraphNodeState[] {
+  if (graph.status !== "running") return [];
+  const completed = new Set(
+    graph.nodes.filter((n) => n.status === "completed").map((n) => n.id)
+  );
+  return graph.nodes.filter(
+    (n) => n.status === "blocked" && n.dependsOn.every((dep) => completed.has(dep))
+  );
+}
+
+/** Node payload with parents' results merged in under `dependencyResults`. */
+export function buildNodePayload(
+  graph: TaskGraphState,
+  node: GraphNodeState
+): Record<string, unknown> {
+  if (node.dependsOn.length === 0) return node.payload;
+
+  const dependencyResults: Record<string, unknown> = {};
+  for (const dep of node.dependsOn) {
+    const parent = graph.nodes.find((n) => n.id === dep);
+    dependencyResults[dep] = parent?.result ?? null;
+  }
+  return { ...node.payload, [DEPENDENCY_RESULTS_KEY]: dependencyResults };
+}
+
+export function findNodeByTask(
+  graph: TaskGraphState,
+  taskId: string
+): GraphNodeState | undefined {
+  return graph.nodes.find((n) => n.taskId === taskId);
+}
+
+/** Mark a node completed; completes the graph once every node has. */
+export function completeNode(
+  graph: TaskGraphState,
+  nodeId: string,
+  result: Record<string, unknown> | undefined
+): void {
+  const node = graph.nodes.find((n) => n.id === nodeId);
+  if (!node || graph.status !== "running") return;
+
+  node.status = "completed";
+  node.result = result ?? {};
+  graph.updatedAt = new Date().toISOString();
+
+  if (graph.nodes.every((n) => n.status === "completed")) {
+    graph.status = "completed";
+  }
+}
+
+/**
+ * Mark a node failed and cancel every node that has not finished.
+ * Returns the cancelled nodes so their tasks can be withdrawn.
+ */
+export function failNode(
+  graph: TaskGraphState,
+  nodeId: string,
+  error: { type: string; message: string } | undefined
+): GraphNodeState[] {
+  const node = graph.nodes.find((n) => n.id === nodeId);
+  if (!node || graph.status !== "running") return [];
+
+  node.status = "failed";
+  node.error = error ?? { type: "unknown", message: "Task failed" };
+  graph.status = "failed";
+  return cancelRemaining(graph);
+}
+
+/** Cancel a running graph. Returns the cancelled nodes. */
+export function cancelGraph(graph: TaskGraphState): GraphNodeState[] {
+  if (graph.status !== "running") return [];
+  graph.status = "cancelled";
+  return cancelRemaining(graph);
+}
+
+export function isGraphTerminal(graph: TaskGraphState): boolean {
+  return graph.status !== "running";
+}
+
+function cancelRemaining(graph: TaskGraphState): GraphNodeState[] {
+  const cancelled: GraphNodeState[] = [];
+  for (const n of graph.nodes) {
+    if (n.status === "blocked" || n.status === "submitted") {
+      n.status = "cancelled";
+      cancelled.push(n);
+    }
+  }
+  graph.updatedAt = new Date().toISOString();
+  return cancelled;
+}
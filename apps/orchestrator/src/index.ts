@@ -6,44 +6,113 @@ import {
   AgentScorer,
   EventLog,
   TaskResultSchema,
+  loadScoringConfigFromEnv,
+  parseCapabilityRef,
+  resolveContract,
+  validateJsonSchema,
+  capabilityVersion,
+  type JsonSchema,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TASK_PROGRESS_TOPIC,
+  REGISTRY_EVENTS_TOPIC,
+  TaskProgressSchema,
+  taskControlTopic,
+  type TaskCancelMessage,
+  type RegistryChangeEvent,
+  type AgentCapability,
   type TaskRequest,
   type TaskResult,
   type TaskStatus,
+  type AgentScoreCard,
   type DaprPubSubMessage,
   type DaprSubscription,
 } from "@mesh-six/core";
 import {
   pool,
   saveTask,
+  enqueueTask,
   loadActiveTasks,
+  loadPendingTasks,
+  saveGraph,
+  getGraph,
+  loadActiveGraphs,
+  renewLease,
   updateTaskStatus,
   deleteTask,
   checkpointAll,
 } from "./db";
+import { TaskQueue, type QueuedTask } from "./queue";
+import {
+  CreateGraphSchema,
+  validateGraph,
+  createGraph,
+  readyNodes,
+  buildNodePayload,
+  findNodeByTask,
+  completeNode,
+  failNode,
+  cancelGraph,
+  isGraphTerminal,
+  type TaskGraphState,
+  type GraphNodeState,
+} from "./graph";
 
 // --- Configuration ---
 const APP_ID = "orchestrator";
 const APP_PORT = Number(process.env.APP_PORT) || 3000;
 const DAPR_HOST = process.env.DAPR_HOST || "localhost";
 const DAPR_HTTP_PORT = process.env.DAPR_HTTP_PORT || "3500";
+const QUEUE_DRAIN_INTERVAL_MS = Number(process.env.QUEUE_DRAIN_INTERVAL_MS) || 5000;
+const REGISTRY_PRUNE_TTL_MS = Number(process.env.REGISTRY_PRUNE_TTL_MS) || 86_400_000;
+const REGISTRY_PRUNE_INTERVAL_MS = Number(process.env.REGISTRY_PRUNE_INTERVAL_MS) || 300_000;
 
 // --- Clients ---
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
-const scorer = new AgentScorer(pool);
+const scorer = new AgentScorer(pool, { config: loadScoringConfigFromEnv() });
 const eventLog = new EventLog(pool);
 
 // --- In-flight task tracking ---
-const activeTasks = new Map<string, TaskStatus & { timeoutId: Timer; payload: Record<string, unknown> }>();
+type TrackedTask = TaskStatus & {
+  timeoutId: Timer;
+  /** The owning agent's lease; renewed by task-progress, timed out when it lapses */
+  leaseExpiresAt: string;
+  payload: Record<string, unknown>;
+  priority: number;
+  timeoutSeconds: number;
+};
+
+const activeTasks = new Map<string, TrackedTask>();
+
+/** Dispatched-but-unsettled task count per agent (for least-loaded scoring). */
+function inFlightByAgent(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const task of activeTasks.values()) {
+    if (task.dispatchedTo) counts[task.dispatchedTo] = (counts[task.dispatchedTo] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// --- Queued tasks awaiting an agent ---
+const taskQueue = new TaskQueue();
+
+// --- Running task graphs (graphId → state, node taskId → graphId) ---
+const graphs = new Map<string, TaskGraphState>();
+const graphTasks = new Map<string, string>();
 
 // --- HTTP Server ---
 const app = new Hono();
 
 // Health endpoint
 app.get("/healthz", (c) =>
-  c.json({ status: "ok", service: APP_ID, tasks: activeTasks.size })
+  c.json({
+    status: "ok",
+    service: APP_ID,
+    tasks: activeTasks.size,
+    queued: taskQueue.size,
+    graphs: graphs.size,
+  })
 );
 
 // Dapr subscription endpoint
@@ -54,6 +123,16 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: TASK_RESULTS_TOPIC,
       route: "/results",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: TASK_PROGRESS_TOPIC,
+      route: "/progress",
+    },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: REGISTRY_EVENTS_TOPIC,
+      route: "/registry-events",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -64,6 +143,8 @@ const CreateTaskSchema = z.object({
   payload: z.record(z.string(), z.unknown()),
   priority: z.number().min(0).max(10).default(5),
   timeout: z.number().positive().default(120),
+  /** Queue the task when no agent is available instead of failing with 503 */
+  queue: z.boolean().default(true),
 });
 
 app.post("/tasks", async (c) => {
@@ -74,12 +155,20 @@ app.post("/tasks", async (c) => {
     return c.json({ error: "Invalid request", details: parsed.error.issues }, 400);
   }
 
-  const { capability, payload, priority, timeout } = parsed.data;
+  const { capability, payload, priority, timeout, queue } = parsed.data;
+
+  const contract = await checkContract(capability, payload);
+  if (contract.errors.length > 0) {
+    return c.json(
+      { error: "Payload does not match capability contract", capability, version: contract.version, details: contract.errors },
+      400
+    );
+  }
 
   // Create task request
   const task: TaskRequest = {
     id: crypto.randomUUID(),
-    capability,
+    capability: pinCapability(capability, contract.version),
     payload,
     priority,
     timeout,
@@ -87,19 +176,109 @@ app.post("/tasks", async (c) => {
     createdAt: new Date().toISOString(),
   };
 
+  const outcome = await submitTask(task, queue);
+  if (outcome.status === "unavailable") {
+    return c.json({ error: outcome.error, capability }, 503);
+  }
+  return c.json(outcome.body, outcome.status === "pending" ? 202 : 200);
+});
+
+// --- Capability Contracts ---
+// Capabilities of every registered agent, so contract checks on each submission
+// do not re-read the whole registry. Dropped on every registry change event.
+const CONTRACT_CACHE_TTL_MS = 30_000;
+let contractCache: { capabilities: AgentCapability[]; loadedAt: number } | null = null;
+
+async function registeredCapabilities(): Promise<AgentCapability[]> {
+  if (!contractCache || Date.now() - contractCache.loadedAt > CONTRACT_CACHE_TTL_MS) {
+    const agents = await registry.listAll();
+    contractCache = { capabilities: agents.flatMap((a) => a.capabilities), loadedAt: Date.now() };
+  }
+  return contractCache.capabilities;
+}
+
+/**
+ * Validate a payload against the input schema declared for a capability
+ * reference (`name` or `name@range`). Contracts are looked up across every
+ * registered agent, offline ones included, so a task can be validated (and
+ * queued) while no agent is up. Capabilities without a schema accept anything.
+ */
+async function checkContract(
+  capabilityRef: string,
+  payload: Record<string, unknown>
+): Promise<{ version: string | null; errors: string[] }> {
+  const { name, range } = parseCapabilityRef(capabilityRef);
+  const contract = resolveContract(await registeredCapabilities(), name, range);
+  if (!contract?.inputSchema) return { version: null, errors: [] };
+
+  return {
+    version: capabilityVersion(contract),
+    errors: validateJsonSchema(contract.inputSchema as JsonSchema, payload),
+  };
+}
+
+/**
+ * Narrow a capability reference to the contract version its payload was
+ * validated against, so the task is only dispatched to agents offering that
+ * version. References without a contract are left as they are.
+ */
+function pinCapability(capabilityRef: string, version: string | null): string {
+  return version ? `${parseCapabilityRef(capabilityRef).name}@${version}` : capabilityRef;
+}
+
+/** Agents receive the bare capability name plus the requested version range. */
+function toWireRequest(task: TaskRequest): TaskRequest {
+  const { name, range } = parseCapabilityRef(task.capability);
+  return range ? { ...task, capability: name, capabilityVersion: range } : { ...task, capability: name };
+}
+
+// --- Submission ---
+type SubmitOutcome =
+  | { status: "dispatched" | "pending"; body: Record<string, unknown> }
+  | { status: "unavailable"; error: string };
+
+/**
+ * Dispatch a task to the best-scoring agent, or queue it when no agent is
+ * available (unless `queue` is false).
+ */
+async function submitTask(task: TaskRequest, queue: boolean): Promise<SubmitOutcome> {
+  const { capability } = task;
+
+  // Higher-priority work already waiting for this capability goes first
+  if (queue && taskQueue.depth(capability) > 0) {
+    return { status: "pending", body: await queueTask(task) };
+  }
+
   // Find agents with the capability
   const agents = await registry.findByCapability(capability);
   if (agents.length === 0) {
-    return c.json({ error: "No agents available for capability", capability }, 503);
+    if (queue) return { status: "pending", body: await queueTask(task) };
+    return { status: "unavailable", error: "No agents available for capability" };
   }
 
   // Score and select best agent
-  const scores = await scorer.scoreAgents(agents, capability);
+  const scores = await scorer.scoreAgents(agents, capability, { inFlight: inFlightByAgent() });
   if (scores.length === 0) {
-    return c.json({ error: "No healthy agents available", capability }, 503);
+    if (queue) return { status: "pending", body: await queueTask(task) };
+    return { status: "unavailable", error: "No healthy agents available" };
   }
 
   const bestAgent = scores[0];
+  await dispatchTask(task, bestAgent);
+
+  return {
+    status: "dispatched",
+    body: {
+      taskId: task.id,
+      dispatchedTo: bestAgent.agentId,
+      score: bestAgent.finalScore,
+      status: "dispatched",
+    },
+  };
+}
+
+// --- Dispatch ---
+async function dispatchTask(task: TaskRequest, bestAgent: AgentScoreCard): Promise<void> {
   console.log(
     `[Orchestrator] Dispatching task ${task.id} to ${bestAgent.agentId} (score: ${bestAgent.finalScore.toFixed(3)})`
   );
@@ -108,7 +287,7 @@ app.post("/tasks", async (c) => {
   await daprClient.pubsub.publish(
     DAPR_PUBSUB_NAME,
     `tasks.${bestAgent.agentId}`,
-    task
+    toWireRequest(task)
   );
 
   // Emit dispatch event
@@ -118,25 +297,29 @@ app.post("/tasks", async (c) => {
     agentId: APP_ID,
     eventType: "task.dispatched",
     payload: {
-      capability,
+      capability: task.capability,
       dispatchedTo: bestAgent.agentId,
       score: bestAgent.finalScore,
-      priority,
+      priority: task.priority,
     },
   }).catch((err) => console.warn("[Orchestrator] Failed to emit dispatch event:", err));
 
-  // Track task with timeout
-  const timeoutId = setTimeout(() => handleTimeout(task.id), timeout * 1000);
+  // Track task with a lease that times out unless renewed by progress
+  const timeoutId = setTimeout(() => handleTimeout(task.id), task.timeout * 1000);
+  const leaseExpiresAt = new Date(Date.now() + task.timeout * 1000);
 
-  const status: TaskStatus & { timeoutId: Timer; payload: Record<string, unknown> } = {
+  const status: TrackedTask = {
     taskId: task.id,
-    capability,
+    capability: task.capability,
     dispatchedTo: bestAgent.agentId,
     dispatchedAt: new Date().toISOString(),
     status: "dispatched",
     attempts: 1,
     timeoutId,
-    payload,
+    leaseExpiresAt: leaseExpiresAt.toISOString(),
+    payload: task.payload,
+    priority: task.priority,
+    timeoutSeconds: task.timeout,
   };
 
   activeTasks.set(task.id, status);
@@ -144,22 +327,107 @@ app.post("/tasks", async (c) => {
   // Persist to database (fire-and-forget)
   saveTask({
     taskId: task.id,
-    capability,
+    capability: task.capability,
     dispatchedTo: bestAgent.agentId,
     dispatchedAt: new Date(),
     status: "dispatched",
     attempts: 1,
-    timeoutSeconds: timeout,
-    payload,
+    timeoutSeconds: task.timeout,
+    priority: task.priority,
+    leaseExpiresAt,
+    payload: task.payload,
   }).catch((e) => console.warn("[Orchestrator] Failed to persist task:", e));
+}
 
-  return c.json({
+// --- Queueing ---
+async function queueTask(task: TaskRequest): Promise<Record<string, unknown>> {
+  const queued: QueuedTask = {
     taskId: task.id,
-    dispatchedTo: bestAgent.agentId,
-    score: bestAgent.finalScore,
-    status: "dispatched",
-  });
-});
+    capability: task.capability,
+    payload: task.payload,
+    priority: task.priority,
+    timeoutSeconds: task.timeout,
+    enqueuedAt: task.createdAt,
+  };
+
+  // Persist first so an accepted task survives a restart
+  await enqueueTask({ ...queued, enqueuedAt: new Date(queued.enqueuedAt) });
+  taskQueue.enqueue(queued);
+
+  const position = taskQueue.position(task.id);
+  console.log(
+    `[Orchestrator] Queued task ${task.id} for ${task.capability} (priority ${task.priority}, position ${position?.position}/${position?.depth})`
+  );
+
+  await eventLog.emit({
+    traceId: task.id,
+    taskId: task.id,
+    agentId: APP_ID,
+    eventType: "task.queued",
+    payload: {
+      capability: task.capability,
+      priority: task.priority,
+      queuePosition: position?.position,
+      queueDepth: position?.depth,
+    },
+  }).catch((err) => console.warn("[Orchestrator] Failed to emit queued event:", err));
+
+  return {
+    taskId: task.id,
+    status: "pending",
+    queuePosition: position?.position,
+    queueDepth: position?.depth,
+  };
+}
+
+/**
+ * Dispatch queued tasks, in priority/age order, to capabilities that now have
+ * an online agent. Runs on an interval (agents register and heartbeat through
+ * the state store, not through the orchestrator) and after each task result.
+ */
+let draining = false;
+
+async function drainQueue(): Promise<void> {
+  if (draining || taskQueue.size === 0) return;
+  draining = true;
+
+  try {
+    for (const capability of taskQueue.capabilities()) {
+      const agents = await registry.findByCapability(capability);
+      if (agents.length === 0) continue;
+
+      while (taskQueue.depth(capability) > 0) {
+        const scores = await scorer.scoreAgents(agents, capability, {
+          inFlight: inFlightByAgent(),
+        });
+        if (scores.length === 0) break;
+
+        const next = taskQueue.shift(capability)!;
+        const task: TaskRequest = {
+          id: next.taskId,
+          capability: next.capability,
+          payload: next.payload,
+          priority: next.priority,
+          timeout: next.timeoutSeconds,
+          requestedBy: APP_ID,
+          createdAt: new Date().toISOString(),
+        };
+
+        try {
+          await dispatchTask(task, scores[0]);
+        } catch (err) {
+          console.warn(`[Orchestrator] Failed to dispatch queued task ${next.taskId}:`, err);
+          taskQueue.enqueue(next);
+          break;
+        }
+      }
+    }
+  } catch (err) {
+    console.warn("[Orchestrator] Queue drain failed:", err);
+  } finally {
+    draining = false;
+  }
+}
 
 // --- Task Result Handler ---
 app.post("/results", async (c) => {
@@ -180,6 +448,15 @@ app.post("/results", async (c) => {
     return c.json({ status: "SUCCESS" });
   }
 
+  // Only the current lease holder may settle the task — a previous owner whose
+  // lease lapsed (and was cancelled) can still report late
+  if (validResult.agentId !== taskStatus.dispatchedTo) {
+    console.warn(
+      `[Orchestrator] Ignoring result for ${validResult.taskId} from ${validResult.agentId} (owned by ${taskStatus.dispatchedTo})`
+    );
+    return c.json({ status: "SUCCESS" });
+  }
+
   // Clear timeout
   clearTimeout(taskStatus.timeoutId);
 
@@ -207,17 +484,169 @@ app.post("/results", async (c) => {
     deleteTask(validResult.taskId).catch((e) =>
       console.warn("[Orchestrator] Failed to delete completed task:", e)
     );
+    await settleGraphNode(validResult);
+  }
+
+  // The agent may now have room for queued work
+  void drainQueue();
+
+  return c.json({ status: "SUCCESS" });
+});
+
+// --- Task Progress (lease renewal) ---
+app.post("/progress", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const parsed = TaskProgressSchema.safeParse(message.data);
+  if (!parsed.success) {
+    return c.json({ status: "DROP" });
+  }
+
+  const progress = parsed.data;
+  const taskStatus = activeTasks.get(progress.taskId);
+  if (!taskStatus || taskStatus.dispatchedTo !== progress.agentId) {
+    return c.json({ status: "SUCCESS" });
+  }
+
+  armLease(taskStatus);
+  renewLease(taskStatus.taskId, new Date(taskStatus.leaseExpiresAt)).catch((e) =>
+    console.warn("[Orchestrator] Failed to persist lease renewal:", e)
+  );
+
+  return c.json({ status: "SUCCESS" });
+});
+
+// --- Registry Change Feed ---
+app.post("/registry-events", async (c) => {
+  const message: DaprPubSubMessage<RegistryChangeEvent> = await c.req.json();
+  const event = message.data;
+  if (!event?.type || !event.appId) {
+    return c.json({ status: "DROP" });
+  }
+
+  // Registrations may add, drop or change capability contracts
+  contractCache = null;
+
+  switch (event.type) {
+    case "agent.registered":
+    case "agent.online":
+      // New capacity — hand it queued work right away
+      void drainQueue();
+      break;
+    case "agent.offline":
+    case "agent.deregistered":
+    case "agent.pruned": {
+      // The agent is gone; its leases cannot be honoured, so retry elsewhere now
+      const owned = [...activeTasks.values()].filter((t) => t.dispatchedTo === event.appId);
+      for (const task of owned) {
+        console.warn(`[Orchestrator] Agent ${event.appId} left, expiring lease on ${task.taskId}`);
+        clearTimeout(task.timeoutId);
+        void handleTimeout(task.taskId);
+      }
+      break;
+    }
   }
 
   return c.json({ status: "SUCCESS" });
 });
 
+// --- Cancel Task ---
+app.delete("/tasks/:id", async (c) => {
+  const taskId = c.req.param("id");
+  const reason = c.req.query("reason") || "cancelled by request";
+
+  if (taskQueue.remove(taskId)) {
+    deleteTask(taskId).catch((e) =>
+      console.warn("[Orchestrator] Failed to delete cancelled task:", e)
+    );
+    await emitCancelled(taskId, null, reason);
+    await settleGraphNode({ taskId, success: false, error: { type: "cancelled", message: reason } });
+    return c.json({ taskId, status: "cancelled", wasDispatched: false });
+  }
+
+  const taskStatus = activeTasks.get(taskId);
+  if (!taskStatus) {
+    return c.json({ error: "Task not found", taskId }, 404);
+  }
+
+  await cancelDispatchedTask(taskStatus, reason);
+  await settleGraphNode({ taskId, success: false, error: { type: "cancelled", message: reason } });
+  return c.json({ taskId, status: "cancelled", wasDispatched: true, dispatchedTo: taskStatus.dispatchedTo });
+});
+
+/** Stop tracking a dispatched task and tell its agent to abandon it. */
+async function cancelDispatchedTask(taskStatus: TrackedTask, reason: string): Promise<void> {
+  clearTimeout(taskStatus.timeoutId);
+  taskStatus.status = "cancelled";
+  activeTasks.delete(taskStatus.taskId);
+  deleteTask(taskStatus.taskId).catch((e) =>
+    console.warn("[Orchestrator] Failed to delete cancelled task:", e)
+  );
+
+  if (taskStatus.dispatchedTo) {
+    await publishCancel(taskStatus.dispatchedTo, taskStatus.taskId, reason);
+  }
+  await emitCancelled(taskStatus.taskId, taskStatus.dispatchedTo, reason);
+}
+
+/** Publish a cancel message on the agent's control topic. */
+async function publishCancel(agentId: string, taskId: string, reason: string): Promise<void> {
+  const message: TaskCancelMessage = {
+    type: "cancel",
+    taskId,
+    reason,
+    requestedBy: APP_ID,
+    cancelledAt: new Date().toISOString(),
+  };
+  await daprClient.pubsub
+    .publish(DAPR_PUBSUB_NAME, taskControlTopic(agentId), message)
+    .catch((err) => console.warn(`[Orchestrator] Failed to publish cancel for ${taskId}:`, err));
+}
+
+async function emitCancelled(taskId: string, agentId: string | null, reason: string): Promise<void> {
+  console.log(`[Orchestrator] Task ${taskId} cancelled: ${reason}`);
+  await eventLog.emit({
+    traceId: taskId,
+    taskId,
+    agentId: APP_ID,
+    eventType: "task.cancelled",
+    payload: { dispatchedTo: agentId, reason },
+  }).catch((err) => console.warn("[Orchestrator] Failed to emit cancel event:", err));
+}
+
+/** (Re)start the lease timer for a dispatched task. */
+function armLease(taskStatus: TrackedTask): void {
+  clearTimeout(taskStatus.timeoutId);
+  taskStatus.timeoutId = setTimeout(
+    () => handleTimeout(taskStatus.taskId),
+    taskStatus.timeoutSeconds * 1000
+  );
+  taskStatus.leaseExpiresAt = new Date(
+    Date.now() + taskStatus.timeoutSeconds * 1000
+  ).toISOString();
+}
+
 // --- Get Task Status ---
 app.get("/tasks/:id", (c) => {
   const taskId = c.req.param("id");
   const status = activeTasks.get(taskId);
 
   if (!status) {
+    const queued = taskQueue.get(taskId);
+    if (queued) {
+      const position = taskQueue.position(taskId)!;
+      return c.json({
+        taskId,
+        capability: queued.capability,
+        dispatchedTo: null,
+        dispatchedAt: null,
+        status: "pending",
+        attempts: 0,
+        priority: queued.priority,
+        enqueuedAt: queued.enqueuedAt,
+        queuePosition: position.position,
+        queueDepth: position.depth,
+      });
+    }
     return c.json({ error: "Task not found", taskId }, 404);
   }
 
@@ -225,6 +654,9 @@ app.get("/tasks/:id", (c) => {
   return c.json(safeStatus);
 });
 
+// --- Queue Depth ---
+app.get("/queue", (c) => c.json({ total: taskQueue.size, depths: taskQueue.depths() }));
+
 // --- List Agents ---
 app.get("/agents", async (c) => {
   const agents = await registry.listAll();
@@ -235,10 +667,195 @@ app.get("/agents", async (c) => {
 app.get("/agents/score/:capability", async (c) => {
   const capability = c.req.param("capability");
   const agents = await registry.findByCapability(capability);
-  const scores = await scorer.scoreAgents(agents, capability);
-  return c.json({ capability, scores });
+  const breakdown = await scorer.explainScores(agents, capability, {
+    inFlight: inFlightByAgent(),
+  });
+  return c.json({
+    capability,
+    strategy: breakdown.selected,
+    scores: breakdown.strategies[breakdown.selected],
+    strategies: breakdown.strategies,
+  });
+});
+
+// --- Task Graphs ---
+app.post("/graphs", async (c) => {
+  const body = await c.req.json();
+  const parsed = CreateGraphSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.issues }, 400);
+  }
+
+  const invalid = validateGraph(parsed.data.nodes);
+  if (invalid) {
+    return c.json({ error: "Invalid graph", details: invalid }, 400);
+  }
+
+  // Check each node's own payload; dependencyResults are added at submission time
+  const contractErrors: string[] = [];
+  const nodes: typeof parsed.data.nodes = [];
+  for (const node of parsed.data.nodes) {
+    const { version, errors } = await checkContract(node.capability, node.payload);
+    contractErrors.push(...errors.map((e) => `${node.id}: ${e}`));
+    nodes.push({ ...node, capability: pinCapability(node.capability, version) });
+  }
+  if (contractErrors.length > 0) {
+    return c.json({ error: "Payload does not match capability contract", details: contractErrors }, 400);
+  }
+
+  const graph = createGraph(crypto.randomUUID(), nodes);
+  graphs.set(graph.graphId, graph);
+  await saveGraph(graph);
+
+  console.log(`[Orchestrator] Accepted graph ${graph.graphId} (${graph.nodes.length} nodes)`);
+
+  await eventLog.emit({
+    traceId: graph.graphId,
+    agentId: APP_ID,
+    eventType: "graph.created",
+    payload: { nodes: graph.nodes.map((n) => ({ id: n.id, capability: n.capability, dependsOn: n.dependsOn })) },
+  }).catch((err) => console.warn("[Orchestrator] Failed to emit graph event:", err));
+
+  await advanceGraph(graph);
+
+  return c.json(graphView(graph), 202);
+});
+
+app.get("/graphs/:id", async (c) => {
+  const graphId = c.req.param("id");
+  const graph = graphs.get(graphId) ?? (await getGraph(graphId));
+
+  if (!graph) {
+    return c.json({ error: "Graph not found", graphId }, 404);
+  }
+  return c.json(graphView(graph));
+});
+
+app.delete("/graphs/:id", async (c) => {
+  const graphId = c.req.param("id");
+  const graph = graphs.get(graphId);
+
+  if (!graph) {
+    return c.json({ error: "Graph not found or not running", graphId }, 404);
+  }
+
+  withdrawNodes(cancelGraph(graph));
+  await finishGraph(graph);
+  return c.json(graphView(graph));
 });
 
+/** Submit every node whose dependencies have completed, then persist. */
+async function advanceGraph(graph: TaskGraphState): Promise<void> {
+  for (const node of readyNodes(graph)) {
+    const task: TaskRequest = {
+      id: crypto.randomUUID(),
+      capability: node.capability,
+      payload: buildNodePayload(graph, node),
+      priority: node.priority,
+      timeout: node.timeout,
+      requestedBy: APP_ID,
+      createdAt: new Date().toISOString(),
+    };
+
+    node.status = "submitted";
+    node.taskId = task.id;
+    graphTasks.set(task.id, graph.graphId);
+
+    try {
+      await submitTask(task, true);
+    } catch (err) {
+      console.warn(`[Orchestrator] Failed to submit graph node ${graph.graphId}/${node.id}:`, err);
+      graphTasks.delete(task.id);
+      withdrawNodes(
+        failNode(graph, node.id, { type: "dispatch_error", message: String(err) })
+      );
+      break;
+    }
+  }
+
+  if (isGraphTerminal(graph)) {
+    await finishGraph(graph);
+  } else {
+    saveGraph(graph).catch((e) => console.warn("[Orchestrator] Failed to persist graph:", e));
+  }
+}
+
+/** Apply a terminal task outcome to the graph node it belongs to, if any. */
+async function settleGraphNode(
+  result: Pick<TaskResult, "taskId" | "success" | "result" | "error">
+): Promise<void> {
+  const graphId = graphTasks.get(result.taskId);
+  if (!graphId) return;
+  graphTasks.delete(result.taskId);
+
+  const graph = graphs.get(graphId);
+  const node = graph && findNodeByTask(graph, result.taskId);
+  if (!graph || !node) return;
+
+  if (result.success) {
+    completeNode(graph, node.id, result.result);
+  } else {
+    console.warn(`[Orchestrator] Graph ${graphId} node ${node.id} failed, cancelling remaining nodes`);
+    withdrawNodes(failNode(graph, node.id, result.error));
+  }
+
+  await advanceGraph(graph);
+}
+
+/** Withdraw cancelled nodes' tasks: drop queued ones, cancel dispatched ones. */
+function withdrawNodes(nodes: GraphNodeState[]): void {
+  for (const node of nodes) {
+    if (!node.taskId) continue;
+    graphTasks.delete(node.taskId);
+    if (taskQueue.remove(node.taskId)) {
+      deleteTask(node.taskId).catch((e) =>
+        console.warn("[Orchestrator] Failed to delete withdrawn task:", e)
+      );
+      continue;
+    }
+    const taskStatus = activeTasks.get(node.taskId);
+    if (taskStatus) void cancelDispatchedTask(taskStatus, "graph cancelled");
+  }
+}
+
+async function finishGraph(graph: TaskGraphState): Promise<void> {
+  graphs.delete(graph.graphId);
+  saveGraph(graph).catch((e) => console.warn("[Orchestrator] Failed to persist graph:", e));
+
+  console.log(`[Orchestrator] Graph ${graph.graphId} ${graph.status}`);
+
+  await eventLog.emit({
+    traceId: graph.graphId,
+    agentId: APP_ID,
+    eventType: `graph.${graph.status}`,
+    payload: {
+      nodes: graph.nodes.map((n) => ({ id: n.id, status: n.status, taskId: n.taskId })),
+    },
+  }).catch((err) => console.warn("[Orchestrator] Failed to emit graph event:", err));
+}
+
+function graphView(graph: TaskGraphState): Record<string, unknown> {
+  return {
+    graphId: graph.graphId,
+    status: graph.status,
+    createdAt: graph.createdAt,
+    updatedAt: graph.updatedAt,
+    nodes: graph.nodes.map((n) => ({
+      id: n.id,
+      capability: n.capability,
+      dependsOn: n.dependsOn,
+      status: n.status,
+      taskId: n.taskId,
+      result: n.result,
+      error: n.error,
+    })),
+  };
+}
+
+// --- Dependency Health Cache Staleness ---
+app.get("/agents/health-probes", (c) => c.json(scorer.healthStats()));
+
 // --- Timeout Handler ---
 async function handleTimeout(taskId: string): Promise<void> {
   const taskStatus = activeTasks.get(taskId);
@@ -272,6 +889,11 @@ async function handleTimeout(taskId: string): Promise<void> {
   await scorer.recordTaskResult(failResult, taskStatus.capability);
   taskStatus.status = "timeout";
 
+  // The lease lapsed — the agent must stop before the task goes elsewhere
+  if (taskStatus.dispatchedTo) {
+    await publishCancel(taskStatus.dispatchedTo, taskId, "lease_expired");
+  }
+
   // Retry with re-scoring if attempts remain
   if (taskStatus.attempts < 3) {
     updateTaskStatus(taskId, "timeout", { error: { type: "timeout", message: "Task execution timed out" } }).catch((e) =>
@@ -284,11 +906,12 @@ async function handleTimeout(taskId: string): Promise<void> {
     deleteTask(taskId).catch((e) =>
       console.warn("[Orchestrator] Failed to delete terminal task:", e)
     );
+    await settleGraphNode(failResult);
   }
 }
 
 // --- Retry with Re-scoring ---
-async function retryTask(taskStatus: TaskStatus & { timeoutId: Timer; payload: Record<string, unknown> }): Promise<void> {
+async function retryTask(taskStatus: TrackedTask): Promise<void> {
   const agents = await registry.findByCapability(taskStatus.capability);
 
   // Exclude the failed agent from this retry
@@ -300,16 +923,28 @@ async function retryTask(taskStatus: TaskStatus & { timeoutId: Timer; payload: R
     deleteTask(taskStatus.taskId).catch((e) =>
       console.warn("[Orchestrator] Failed to delete task with no agents:", e)
     );
+    await settleGraphNode({
+      taskId: taskStatus.taskId,
+      success: false,
+      error: { type: "no_agents", message: "No alternative agents for retry" },
+    });
     return;
   }
 
-  const scores = await scorer.scoreAgents(availableAgents, taskStatus.capability);
+  const scores = await scorer.scoreAgents(availableAgents, taskStatus.capability, {
+    inFlight: inFlightByAgent(),
+  });
   if (scores.length === 0) {
     console.error(`[Orchestrator] No healthy agents for retry: ${taskStatus.taskId}`);
     activeTasks.delete(taskStatus.taskId);
     deleteTask(taskStatus.taskId).catch((e) =>
       console.warn("[Orchestrator] Failed to delete task with no healthy agents:", e)
     );
+    await settleGraphNode({
+      taskId: taskStatus.taskId,
+      success: false,
+      error: { type: "no_agents", message: "No healthy agents for retry" },
+    });
     return;
   }
 
@@ -338,18 +973,18 @@ async function retryTask(taskStatus: TaskStatus & { timeoutId: Timer; payload: R
   }).catch((err) => console.warn("[Orchestrator] Failed to emit retry event:", err));
 
   // Re-dispatch
-  await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, `tasks.${bestAgent.agentId}`, {
+  await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, `tasks.${bestAgent.agentId}`, toWireRequest({
     id: taskStatus.taskId,
     capability: taskStatus.capability,
     payload: taskStatus.payload,
-    priority: 5,
-    timeout: 120,
+    priority: taskStatus.priority,
+    timeout: taskStatus.timeoutSeconds,
     requestedBy: APP_ID,
     createdAt: new Date().toISOString(),
-  });
+  }));
 
-  // Reset timeout
-  taskStatus.timeoutId = setTimeout(() => handleTimeout(taskStatus.taskId), 120 * 1000);
+  // New lease for the new owner
+  armLease(taskStatus);
 
   // Persist retry state (fire-and-forget)
   saveTask({
@@ -359,6 +994,9 @@ async function retryTask(taskStatus: TaskStatus & { timeoutId: Timer; payload: R
     dispatchedAt: new Date(),
     status: "dispatched",
     attempts: taskStatus.attempts,
+    timeoutSeconds: taskStatus.timeoutSeconds,
+    priority: taskStatus.priority,
+    leaseExpiresAt: new Date(taskStatus.leaseExpiresAt),
     payload: taskStatus.payload,
   }).catch((e) => console.warn("[Orchestrator] Failed to persist retry:", e));
 }
@@ -367,8 +1005,9 @@ async function retryTask(taskStatus: TaskStatus & { timeoutId: Timer; payload: R
 try {
   const recovered = await loadActiveTasks();
   for (const task of recovered) {
-    const elapsedMs = Date.now() - task.dispatchedAt.getTime();
-    const remainingMs = Math.max(0, task.timeoutSeconds * 1000 - elapsedMs);
+    const leaseExpiresAt =
+      task.leaseExpiresAt ?? new Date(task.dispatchedAt.getTime() + task.timeoutSeconds * 1000);
+    const remainingMs = Math.max(0, leaseExpiresAt.getTime() - Date.now());
     const timeoutId = setTimeout(() => handleTimeout(task.taskId), remainingMs);
 
     activeTasks.set(task.taskId, {
@@ -376,22 +1015,69 @@ try {
       capability: task.capability,
       dispatchedTo: task.dispatchedTo,
       dispatchedAt: task.dispatchedAt.toISOString(),
-      status: task.status as "pending" | "dispatched" | "completed" | "failed" | "timeout",
+      status: task.status as TaskStatus["status"],
       attempts: task.attempts,
       timeoutId,
+      leaseExpiresAt: leaseExpiresAt.toISOString(),
       payload: task.payload,
+      priority: task.priority,
+      timeoutSeconds: task.timeoutSeconds,
     });
   }
   if (recovered.length > 0) {
     console.log(`[Orchestrator] Recovered ${recovered.length} in-flight tasks from database`);
   }
+
+  const pending = await loadPendingTasks();
+  for (const task of pending) {
+    taskQueue.enqueue({
+      taskId: task.taskId,
+      capability: task.capability,
+      payload: task.payload,
+      priority: task.priority,
+      timeoutSeconds: task.timeoutSeconds,
+      enqueuedAt: task.enqueuedAt.toISOString(),
+    });
+  }
+  if (pending.length > 0) {
+    console.log(`[Orchestrator] Recovered ${pending.length} queued tasks from database`);
+  }
+
+  const runningGraphs = await loadActiveGraphs();
+  for (const graph of runningGraphs) {
+    graphs.set(graph.graphId, graph);
+    for (const node of graph.nodes) {
+      if (node.status === "submitted" && node.taskId) graphTasks.set(node.taskId, graph.graphId);
+    }
+  }
+  if (runningGraphs.length > 0) {
+    console.log(`[Orchestrator] Recovered ${runningGraphs.length} running graphs from database`);
+  }
 } catch (e) {
   console.warn("[Orchestrator] Failed to recover tasks from database:", e);
 }
 
+// --- Queue Drain Loop ---
+const drainInterval = setInterval(() => void drainQueue(), QUEUE_DRAIN_INTERVAL_MS);
+
+// --- Background Dependency Health Refresh ---
+scorer.healthCache.start();
+
+// --- Registry Pruning ---
+const pruneInterval = setInterval(async () => {
+  try {
+    await registry.pruneOffline(REGISTRY_PRUNE_TTL_MS);
+  } catch (e) {
+    console.warn("[Orchestrator] Registry prune failed:", e);
+  }
+}, REGISTRY_PRUNE_INTERVAL_MS);
+
 // --- Graceful Shutdown ---
 async function shutdown() {
   console.log("[Orchestrator] Shutdown signal received, checkpointing tasks...");
+  clearInterval(drainInterval);
+  clearInterval(pruneInterval);
+  scorer.healthCache.stop();
   try {
     await checkpointAll(activeTasks);
     console.log("[Orchestrator] Checkpoint complete");
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "bun:test";
+import { TaskQueue, compareQueuedTasks, type QueuedTask } from "./queue.js";
+
+function makeTask(
+  taskId: string,
+  priority: number,
+  enqueuedAt: string,
+  capability = "general-query"
+): QueuedTask {
+  return { taskId, capability, payload: {}, priority, timeoutSeconds: 120, enqueuedAt };
+}
+
+describe("compareQueuedTasks", () => {
+  it("orders higher priority first", () => {
+    const low = makeTask("low", 2, "2026-01-01T00:00:00Z");
+    const high = makeTask("high", 8, "2026-01-01T00:01:00Z");
+    expect(compareQueuedTasks(high, low)).toBeLessThan(0);
+  });
+
+  it("orders older tasks first within the same priority", () => {
+    const older = makeTask("older", 5, "2026-01-01T00:00:00Z");
+    const newer = makeTask("newer", 5, "2026-01-01T00:01:00Z");
+    expect(compareQueuedTasks(older, newer)).toBeLessThan(0);
+  });
+});
+
+describe("TaskQueue", () => {
+  it("shifts tasks in priority then age order", () => {
+    const queue = new TaskQueue();
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z"));
+    queue.enqueue(makeTask("b", 9, "2026-01-01T00:02:00Z"));
+    queue.enqueue(makeTask("c", 5, "2026-01-01T00:01:00Z"));
+    queue.enqueue(makeTask("d", 1, "2025-12-31T00:00:00Z"));
+
+    const order = [];
+    let next;
+    while ((next = queue.shift("general-query"))) order.push(next.taskId);
+    expect(order).toEqual(["b", "a", "c", "d"]);
+  });
+
+  it("keeps separate queues per capability", () => {
+    const queue = new TaskQueue();
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z", "deploy-service"));
+    queue.enqueue(makeTask("b", 5, "2026-01-01T00:00:00Z", "general-query"));
+
+    expect(queue.depth("deploy-service")).toBe(1);
+    expect(queue.depth("general-query")).toBe(1);
+    expect(queue.size).toBe(2);
+    expect(queue.capabilities().sort()).toEqual(["deploy-service", "general-query"]);
+  });
+
+  it("reports 1-based position and depth", () => {
+    const queue = new TaskQueue();
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z"));
+    queue.enqueue(makeTask("b", 5, "2026-01-01T00:01:00Z"));
+    queue.enqueue(makeTask("c", 7, "2026-01-01T00:02:00Z"));
+
+    expect(queue.position("c")).toEqual({ position: 1, depth: 3 });
+    expect(queue.position("b")).toEqual({ position: 3, depth: 3 });
+    expect(queue.position("missing")).toBeNull();
+  });
+
+  it("replaces an existing entry on re-enqueue", () => {
+    const queue = new TaskQueue();
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z"));
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z"));
+    expect(queue.size).toBe(1);
+  });
+
+  it("removes tasks and drops empty capability queues", () => {
+    const queue = new TaskQueue();
+    queue.enqueue(makeTask("a", 5, "2026-01-01T00:00:00Z"));
+
+    expect(queue.remove("a")?.taskId).toBe("a");
+    expect(queue.remove("a")).toBeUndefined();
+    expect(queue.capabilities()).toEqual([]);
+    expect(queue.depths()).toEqual({});
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Per-capability priority queue for tasks that could not be dispatched
+ * immediately (no online agent for the capability).
+ *
+ * This is the in-memory view; durability comes from the `orchestrator_tasks`
+ * rows with status 'pending' (see db.ts), which are reloaded on startup.
+ */
+
+export interface QueuedTask {
+  taskId: string;
+  capability: string;
+  payload: Record<string, unknown>;
+  priority: number;
+  timeoutSeconds: number;
+  enqueuedAt: string;
+}
+
+export interface QueuePosition {
+  /** 1-based position within the capability queue */
+  position: number;
+  /** Total tasks queued for the capability */
+  depth: number;
+}
+
+/**
+ * Ordering for queued tasks: higher priority first, then oldest first.
+ */
+export function compareQueuedTasks(a: QueuedTask, b: QueuedTask): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return new Date(a.enqueuedAt).getTime() - new Date(b.enqueuedAt).getTime();
+}
+
+export class TaskQueue {
+  private queues = new Map<string, QueuedTask[]>();
+
+  /** Insert a task at its priority/age position. Re-enqueueing replaces the existing entry. */
+  enqueue(task: QueuedTask): void {
+    this.remove(task.taskId);
+
+    const queue = this.queues.get(task.capability) ?? [];
+    const index = queue.findIndex((t) => compareQueuedTasks(task, t) < 0);
+    if (index === -1) {
+      queue.push(task);
+    } else {
+      queue.splice(index, 0, task);
+    }
+    this.queues.set(task.capability, queue);
+  }
+
+  /** Remove and return the next task for a capability. */
+  shift(capability: string): QueuedTask | undefined {
+    const queue = this.queues.get(capability);
+    if (!queue) return undefined;
+    const task = queue.shift();
+    if (queue.length === 0) this.queues.delete(capability);
+    return task;
+  }
+
+  /** Remove a task by ID (e.g. on cancellation). */
+  remove(taskId: string): QueuedTask | undefined {
+    for (const [capability, queue] of this.queues) {
+      const index = queue.findIndex((t) => t.taskId === taskId);
+      if (index !== -1) {
+        const [task] = queue.splice(index, 1);
+        if (queue.length === 0) this.queues.delete(capability);
+        return task;
+      }
+    }
+    return undefined;
+  }
+
+  get(taskId: string): QueuedTask | undefined {
+    for (const queue of this.queues.values()) {
+      const task = queue.find((t) => t.taskId === taskId);
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  position(taskId: string): QueuePosition | null {
+    for (const queue of this.queues.values()) {
+      const index = queue.findIndex((t) => t.taskId === taskId);
+      if (index !== -1) return { position: index + 1, depth: queue.length };
+    }
+    return null;
+  }
+
+  depth(capability: string): number {
+    return this.queues.get(capability)?.length ?? 0;
+  }
+
+  /** Capabilities that currently have queued tasks. */
+  capabilities(): string[] {
+    return [...this.queues.keys()];
+  }
+
+  /** Queue depth per capability. */
+  depths(): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const [capability, queue] of this.queues) {
+      result[capability] = queue.length;
+    }
+    return result;
+  }
+
+  get size(): number {
+    let total = 0;
+    for (const queue of this.queues.values()) total += queue.length;
+    return total;
+  }
+}
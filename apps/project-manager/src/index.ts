@@ -17,12 +17,20 @@ import {
   DAPR_PUBSUB_NAME,
   DAPR_STATE_STORE,
   TASK_RESULTS_TOPIC,
+  REGISTRY_EVENTS_TOPIC,
   tracedChatCompletion,
   chatCompletionWithSchema,
   ARCHITECT_ACTOR_TYPE,
+  ImplementerCapacitySchema,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
+  type ImplementerCapacity,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
+  type RegistryChangeEvent,
   type DaprPubSubMessage,
   type DaprSubscription,
   type ContextConfig,
@@ -85,6 +93,9 @@ const GITHUB_STATUS_FIELD_ID = process.env.GITHUB_STATUS_FIELD_ID || "";
 const NTFY_TOPIC = process.env.NTFY_TOPIC || "mesh-six-pm";
 const MESH_SIX_PUBLIC_URL = process.env.MESH_SIX_PUBLIC_URL || "";
 
+// Implementer admission: how long to hold work when every pod is full
+const IMPLEMENTER_RETRY_AFTER_MS = Number(process.env.IMPLEMENTER_RETRY_AFTER_MS) || 120_000;
+
 // MQTT Configuration
 const MQTT_URL = process.env.MQTT_URL || "mqtt://rabbitmq.rabbitmq:1883";
 const MQTT_ENABLED = process.env.MQTT_ENABLED !== "false";
@@ -100,6 +111,9 @@ const github = GITHUB_TOKEN
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -177,6 +191,12 @@ async function updatePhase(workflowId: string, phase: string): Promise<void> {
     `UPDATE pm_workflow_instances SET current_phase = $1, updated_at = NOW() WHERE workflow_id = $2`,
     [phase, workflowId]
   );
+  eventLog?.emit({
+    traceId: workflowId,
+    agentId: AGENT_ID,
+    eventType: "workflow.phase",
+    payload: { phase },
+  }).catch((e) => console.warn(`[${AGENT_ID}] Failed to emit workflow.phase:`, e));
 }
 
 async function updateStatus(workflowId: string, status: string): Promise<void> {
@@ -385,16 +405,32 @@ At each review transition, evaluate:
 - Document all decisions`;
 
 // --- Helper Functions ---
-async function consultArchitect(question: string, projectId?: string): Promise<unknown> {
+/** POST to another agent through the Dapr sidecar; `signal` aborts the call. */
+async function invokeAgent(appId: string, method: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+  const url = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/invoke/${appId}/method/${method}`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`${appId}/${method} failed: ${res.status} ${await res.text()}`);
+  }
+  return res.json();
+}
+
+async function consultArchitect(question: string, projectId?: string, token?: CancelToken): Promise<unknown> {
   console.log(`[${AGENT_ID}] Consulting architect: "${question.substring(0, 50)}..."`);
 
   try {
-    const response = await daprClient.invoker.invoke(
+    const response = await invokeAgent(
       "architect-agent",
       "consult",
-      HttpMethod.POST,
-      { question, requireStructured: true }
+      { question, requireStructured: true },
+      token?.signal
     );
+    token?.throwIfCancelled();
 
     // Store reflection from architect consultation
     if (memory) {
@@ -409,40 +445,88 @@ async function consultArchitect(question: string, projectId?: string): Promise<u
           { role: "assistant", content: JSON.stringify(response) },
         ],
         taskState: { action: "consult-architect" },
+        signal: token?.signal,
       };
 
       try {
         // Cast needed: project-manager uses ai@4 (LanguageModelV1), core uses ai@6 (LanguageModel)
         await transitionClose(closeConfig, memory, LLM_MODEL);
       } catch (err) {
+        token?.throwIfCancelled();
         console.warn(`[${AGENT_ID}] transitionClose failed for architect consultation:`, err);
       }
     }
 
     return response;
   } catch (error) {
+    token?.throwIfCancelled();
     console.warn(`[${AGENT_ID}] Architect consultation failed:`, error);
     return { error: "Architect agent unavailable", fallback: true };
   }
 }
 
-async function requestResearch(query: string, type: string = "technical-research"): Promise<unknown> {
+async function requestResearch(
+  query: string,
+  type: string = "technical-research",
+  token?: CancelToken
+): Promise<unknown> {
   console.log(`[${AGENT_ID}] Requesting research: "${query.substring(0, 50)}..."`);
 
   try {
-    const response = await daprClient.invoker.invoke(
+    const response = await invokeAgent(
       "researcher-agent",
       "research",
-      HttpMethod.POST,
-      { query, type, requireStructured: true }
+      { query, type, requireStructured: true },
+      token?.signal
     );
     return response;
   } catch (error) {
+    token?.throwIfCancelled();
     console.warn(`[${AGENT_ID}] Research request failed:`, error);
     return { error: "Researcher agent unavailable", fallback: true };
   }
 }
 
+/** Capacity reports older than this are ignored (pod likely gone). */
+const CAPACITY_STALE_MS = 2 * 60_000;
+
+/** Alternate actor IDs tried per activation while some implementer pods are full */
+const PLACEMENT_PROBES = 4;
+
+/**
+ * Live per-pod implementer capacity from the registry instance reports, or
+ * null when no pod has reported recently (unknown capacity — let activation decide).
+ */
+async function implementerCapacity(): Promise<ImplementerCapacity[] | null> {
+  const reports = await registry.listInstances("implementer").catch(() => []);
+
+  const now = Date.now();
+  const pods: ImplementerCapacity[] = [];
+  for (const report of reports) {
+    const parsed = ImplementerCapacitySchema.safeParse(report.data);
+    if (parsed.success && now - Date.parse(parsed.data.updatedAt) < CAPACITY_STALE_MS) {
+      pods.push(parsed.data);
+    }
+  }
+  return pods.length > 0 ? pods : null;
+}
+
+/** A pod that would admit a session now, without queueing it. */
+function hasFreeSlot(pod: ImplementerCapacity): boolean {
+  return !pod.diskLow && pod.activeSessions < pod.maxSessions;
+}
+
+/**
+ * Actor IDs to try for an issue's implementer session. Dapr places an actor by
+ * hashing its ID, so while some pods are full and others have free slots,
+ * alternate IDs give the activation further chances to land on a free pod.
+ */
+function implementerActorCandidates(baseId: string, capacity: ImplementerCapacity[] | null): string[] {
+  const mixed = capacity !== null && capacity.some(hasFreeSlot) && !capacity.every(hasFreeSlot);
+  if (!mixed) return [baseId];
+  return [baseId, ...Array.from({ length: PLACEMENT_PROBES - 1 }, (_, i) => `${baseId}~${i + 1}`)];
+}
+
 async function createGitHubIssue(
   owner: string,
   repo: string,
@@ -1005,6 +1089,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
     {
       pubsubname: DAPR_PUBSUB_NAME,
       topic: "project-events",
@@ -1015,6 +1104,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: "board-events",
       route: "/board-events",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: REGISTRY_EVENTS_TOPIC,
+      route: "/registry-events",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -1236,6 +1330,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} - ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const projectTask = ProjectTaskSchema.parse(task.payload);
 
@@ -1260,11 +1357,11 @@ app.post("/tasks", async (c) => {
         break;
 
       case "consult-architect":
-        result = await consultArchitect(projectTask.description || "", projectTask.projectId);
+        result = await consultArchitect(projectTask.description || "", projectTask.projectId, token);
         break;
 
       case "request-research":
-        result = await requestResearch(projectTask.description || "");
+        result = await requestResearch(projectTask.description || "", undefined, token);
         break;
 
       default:
@@ -1280,11 +1377,18 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     console.log(`[${AGENT_ID}] Task ${task.id} completed`);
 
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -1298,7 +1402,47 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
+});
+
+// Registry change feed → MQTT, for the dashboard's live agent list. Retained per
+// agent so a dashboard that connects later still sees every agent's last state;
+// a removal is sent to live subscribers and then clears the retained message.
+app.post("/registry-events", async (c) => {
+  const message: DaprPubSubMessage<RegistryChangeEvent> = await c.req.json();
+  const event = message.data;
+  if (!event?.type || !event.appId) {
+    return c.json({ status: "DROP" });
+  }
+
+  if (mqttClient?.connected) {
+    const topic = `agent/registry/${event.appId}`;
+    const removed = event.type === "agent.deregistered" || event.type === "agent.pruned";
+    mqttClient.publish(topic, JSON.stringify(event), { qos: 1, retain: !removed }, (err) => {
+      if (err) console.warn(`[${AGENT_ID}] Failed to forward ${event.type} for ${event.appId} to MQTT:`, err);
+    });
+    if (removed) {
+      // An empty retained payload deletes the broker's retained message
+      mqttClient.publish(topic, "", { qos: 1, retain: true }, (err) => {
+        if (err) console.warn(`[${AGENT_ID}] Failed to clear retained registry state for ${event.appId}:`, err);
+      });
+    }
+  }
+
+  return c.json({ status: "SUCCESS" });
 });
 
 // Project events handler
@@ -1355,6 +1499,13 @@ app.post("/board-events", async (c) => {
           );
         }
 
+        eventLog?.emit({
+          traceId: workflowInstanceId,
+          agentId: AGENT_ID,
+          eventType: "workflow.started",
+          payload: { issueNumber: event.issueNumber, repoOwner: event.repoOwner, repoName: event.repoName, phase: "PLANNING" },
+        }).catch((e) => console.warn(`[${AGENT_ID}] Failed to emit workflow.started:`, e));
+
         console.log(`[${AGENT_ID}] Started workflow ${workflowInstanceId} for issue #${event.issueNumber}`);
         break;
       }
@@ -1833,26 +1984,62 @@ Categories:
 
       startSession: async (_ctx, input) => {
         try {
-          const implActorId = `${input.repoOwner}-${input.repoName}-${input.issueNumber}`;
-          const activateUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/actors/ImplementerActor/${implActorId}/method/onActivate`;
-          const activateRes = await fetch(activateUrl, {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              sessionId: crypto.randomUUID(),
-              issueNumber: input.issueNumber,
-              repoOwner: input.repoOwner,
-              repoName: input.repoName,
-              branch: input.branch,
-              workflowId: input.workflowId,
-            }),
-          });
-          if (!activateRes.ok) {
-            const text = await activateRes.text();
-            return { sessionId: "", ok: false, error: `Activation failed: ${text}` };
+          // Hold the work here rather than piling activations onto full pods
+          const capacity = await implementerCapacity();
+          if (capacity && !capacity.some((pod) => pod.acceptingWork)) {
+            const busy = capacity.map((p) => `${p.podName} ${p.activeSessions}/${p.maxSessions}${p.diskLow ? " disk low" : ""}`);
+            return {
+              sessionId: "",
+              ok: false,
+              retryable: true,
+              retryAfterMs: IMPLEMENTER_RETRY_AFTER_MS,
+              error: `Implementers at capacity: ${busy.join(", ")}`,
+            };
+          }
+
+          // Probe activations don't queue, so a full pod rejects at once and the
+          // next ID is tried; the last candidate may queue as before
+          const candidates = implementerActorCandidates(
+            `${input.repoOwner}-${input.repoName}-${input.issueNumber}`,
+            capacity,
+          );
+          const sessionId = crypto.randomUUID();
+          let implActorId = "";
+          let activateResult: { ok: boolean; error?: string; retryable?: boolean; retryAfterMs?: number } = { ok: false };
+          for (const [i, candidate] of candidates.entries()) {
+            const last = i === candidates.length - 1;
+            implActorId = candidate;
+            const activateUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/actors/ImplementerActor/${implActorId}/method/onActivate`;
+            const activateRes = await fetch(activateUrl, {
+              method: "PUT",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                issueNumber: input.issueNumber,
+                repoOwner: input.repoOwner,
+                repoName: input.repoName,
+                branch: input.branch,
+                workflowId: input.workflowId,
+                queue: last,
+              }),
+            });
+            if (!activateRes.ok) {
+              const text = await activateRes.text();
+              return { sessionId: "", ok: false, error: `Activation failed: ${text}` };
+            }
+            activateResult = await activateRes.json() as typeof activateResult;
+            if (activateResult.ok || !activateResult.retryable || last) break;
+            console.log(`[${AGENT_ID}] Implementer pod for ${implActorId} is full, trying another placement`);
+          }
+          if (!activateResult.ok) {
+            return {
+              sessionId: "",
+              ok: false,
+              error: activateResult.error,
+              retryable: activateResult.retryable,
+              retryAfterMs: activateResult.retryAfterMs,
+            };
           }
-          const activateResult = await activateRes.json() as { ok: boolean; error?: string };
-          if (!activateResult.ok) return { sessionId: "", ok: false, error: activateResult.error };
 
           const startUrl = `http://${DAPR_HOST}:${DAPR_HTTP_PORT}/v1.0/actors/ImplementerActor/${implActorId}/method/startSession`;
           const startRes = await fetch(startUrl, {
@@ -51,6 +51,9 @@ import {
 const DAPR_HOST = process.env.DAPR_HOST || "localhost";
 const DAPR_HTTP_PORT = process.env.DAPR_HTTP_PORT || "3500";
 
+/** Attempts to start a session while implementers report they are at capacity */
+const MAX_SESSION_START_ATTEMPTS = 6;
+
 // ---------------------------------------------------------------------------
 // Local Types (no imports from ./index.js to avoid circular deps)
 // ---------------------------------------------------------------------------
@@ -299,9 +302,13 @@ export interface StartSessionInput {
 }
 
 export interface StartSessionOutput {
+  /** ImplementerActor ID holding the session */
   sessionId: string;
   ok: boolean;
   error?: string;
+  /** Set when the implementers were at capacity; retry after `retryAfterMs` */
+  retryable?: boolean;
+  retryAfterMs?: number;
 }
 
 export interface ConsultArchitectActorInput {
@@ -711,6 +718,9 @@ export const projectWorkflow: TWorkflow = async function* (
     { issueNumber, repoOwner, repoName }
   );
 
+  // The planning session's actor may sit under an alternate ID (see startSession)
+  let implActorId = `${repoOwner}-${repoName}-${issueNumber}`;
+
   if (gate.simple) {
     console.log(`[Workflow] Issue #${issueNumber} is simple, skipping Opus planning`);
     // Skip planning — architect guidance from INTAKE is the plan
@@ -781,18 +791,31 @@ export const projectWorkflow: TWorkflow = async function* (
       `Plan the implementation for issue #${issueNumber}: ${issueTitle}`;
     const implementationPrompt = `${planningPrompt}\n\nArchitect guidance:\n${architectResult.guidance}${researchPlanSection}`;
 
-    // Start planning session via ImplementerActor
-    const planSession: StartSessionOutput = yield ctx.callActivity(
-      startSessionActivity,
-      {
-        issueNumber,
-        repoOwner,
-        repoName,
-        workflowId,
-        implementationPrompt,
-        branch: `issue-${issueNumber}`,
+    // Start planning session via ImplementerActor, holding the work on a
+    // durable timer while every implementer pod is at capacity
+    let planSession: StartSessionOutput = { sessionId: "", ok: false };
+    for (let attempt = 1; attempt <= MAX_SESSION_START_ATTEMPTS; attempt++) {
+      planSession = yield ctx.callActivity(
+        startSessionActivity,
+        {
+          issueNumber,
+          repoOwner,
+          repoName,
+          workflowId,
+          implementationPrompt,
+          branch: `issue-${issueNumber}`,
+        }
+      );
+      if (planSession.ok || !planSession.retryable || attempt === MAX_SESSION_START_ATTEMPTS) break;
+
+      const retryAfterMs = planSession.retryAfterMs ?? 120_000;
+      if (!ctx.isReplaying()) {
+        console.log(
+          `[Workflow] Implementers at capacity for issue #${issueNumber} (attempt ${attempt}/${MAX_SESSION_START_ATTEMPTS}), retrying in ${retryAfterMs}ms: ${planSession.error}`
+        );
       }
-    );
+      yield ctx.createTimer(new Date(ctx.getCurrentUtcDateTime().getTime() + retryAfterMs));
+    }
 
     if (!planSession.ok) {
       yield ctx.callActivity(moveToFailedActivity, {
@@ -801,6 +824,7 @@ export const projectWorkflow: TWorkflow = async function* (
       });
       return { issueNumber, repoOwner, repoName, finalPhase: "FAILED" as WorkflowPhase };
     }
+    implActorId = planSession.sessionId;
 
     // Update project custom fields with session info
     const SESSION_FIELD_ID = process.env.GITHUB_SESSION_FIELD_ID ?? "";
@@ -953,7 +977,6 @@ export const projectWorkflow: TWorkflow = async function* (
   // =====================================================================
 
   const architectActorIdImpl = `${repoOwner}/${repoName}/${issueNumber}`;
-  const implActorId = `${repoOwner}-${repoName}-${issueNumber}`;
   let implComplete = false;
   let prNumber: number | null = null;
 
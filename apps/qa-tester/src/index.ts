@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -39,6 +43,9 @@ const LLM_MODEL = process.env.LLM_MODEL || "anthropic/claude-sonnet-4-20250514";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -359,6 +366,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -416,6 +428,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request: QARequest = {
       action: (task.payload.action as QARequest["action"]) || "create-test-plan",
@@ -423,7 +438,7 @@ app.post("/tasks", async (c) => {
       preferences: task.payload.preferences as QARequest["preferences"],
     };
 
-    const result = await handleQARequest(request);
+    const result = await handleQARequest(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -434,9 +449,16 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task failed:`, error);
 
     const failResult: TaskResult = {
@@ -450,11 +472,24 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // --- Core Handler ---
-async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode | TestAnalysis | string> {
+async function handleQARequest(request: QARequest, token?: CancelToken): Promise<TestPlan | TestCode | TestAnalysis | string> {
   let enhancedPrompt = SYSTEM_PROMPT;
 
   // Add memory context
@@ -494,6 +529,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
         {
           model: LLM_MODEL,
           system: enhancedPrompt,
+          signal: token?.signal,
           prompt: `Create a comprehensive test plan for this project.${contextPrompt}`,
         },
         traceCtx
@@ -501,6 +537,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: TestPlanSchema,
         system: enhancedPrompt,
         prompt: `Based on this analysis, create a structured test plan:\n\n${analysis}`,
@@ -515,6 +552,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
         {
           model: LLM_MODEL,
           system: enhancedPrompt,
+          signal: token?.signal,
           prompt: `Generate ${framework} tests for this project.${contextPrompt}\n\nPreferred language: ${request.preferences?.language || "typescript"}`,
         },
         traceCtx
@@ -522,6 +560,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: TestCodeSchema,
         system: enhancedPrompt,
         prompt: `Based on this analysis, generate structured test code:\n\n${analysis}`,
@@ -535,6 +574,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
         {
           model: LLM_MODEL,
           system: enhancedPrompt,
+          signal: token?.signal,
           prompt: `Analyze these test results and provide insights.${contextPrompt}`,
         },
         traceCtx
@@ -542,6 +582,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: TestAnalysisSchema,
         system: enhancedPrompt,
         prompt: `Create a structured analysis:\n\n${analysis}`,
@@ -555,6 +596,7 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
         {
           model: LLM_MODEL,
           system: enhancedPrompt,
+          signal: token?.signal,
           prompt: `${request.action}: ${contextPrompt}`,
         },
         traceCtx
@@ -563,6 +605,8 @@ async function handleQARequest(request: QARequest): Promise<TestPlan | TestCode
     }
   }
 
+  token?.throwIfCancelled();
+
   // Store in memory
   if (memory) {
     try {
@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -65,6 +69,9 @@ function getModel(provider: ProviderType, taskComplexity: "low" | "medium" | "hi
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -344,6 +351,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -420,6 +432,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} - ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request: ResearchRequest = {
       query: typeof task.payload.query === "string"
@@ -433,7 +448,7 @@ app.post("/tasks", async (c) => {
       depth: (task.payload.depth as ResearchRequest["depth"]) || "standard",
     };
 
-    const result = await handleResearch(request);
+    const result = await handleResearch(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -444,11 +459,18 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     console.log(`[${AGENT_ID}] Task ${task.id} completed`);
 
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -462,11 +484,24 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // --- Core Research Handler ---
-async function handleResearch(request: ResearchRequest): Promise<ResearchResult | string> {
+async function handleResearch(request: ResearchRequest, token?: CancelToken): Promise<ResearchResult | string> {
   const { query, type, context, userId, provider, requireStructured, depth } = request;
   const userIdResolved = userId || "researcher";
   const startTime = Date.now();
@@ -529,6 +564,7 @@ async function handleResearch(request: ResearchRequest): Promise<ResearchResult
       {
         model,
         system: enhancedPrompt,
+        signal: token?.signal,
         prompt: `Research this topic thoroughly using available tools. Depth: ${depth}
 
 Topic: ${query}`,
@@ -540,6 +576,7 @@ Topic: ${query}`,
     const { object } = await chatCompletionWithSchema({
       model,
       schema: ResearchResultSchema,
+      signal: token?.signal,
       system: enhancedPrompt,
       prompt: `Based on the following research analysis, provide a structured research result.
 
@@ -566,6 +603,7 @@ Research Type: ${type}`,
       {
         model,
         system: enhancedPrompt,
+        signal: token?.signal,
         prompt: `Research this topic: ${query}`,
       },
       traceCtx
@@ -574,6 +612,8 @@ Research Type: ${type}`,
     result = text;
   }
 
+  token?.throwIfCancelled();
+
   // Store research in memory
   if (memory) {
     try {
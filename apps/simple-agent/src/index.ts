@@ -4,8 +4,13 @@ import {
   AgentRegistry,
   AgentMemory,
   createAgentMemoryFromEnv,
+  TaskCancellations,
+  TaskCancelledError,
+  startTaskProgress,
+  taskControlTopic,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -24,9 +29,14 @@ const OLLAMA_MODEL = process.env.OLLAMA_MODEL || "phi3.5";
 const MEMORY_ENABLED = process.env.MEMORY_ENABLED !== "false";
 
 // --- Native Ollama HTTP Client ---
-async function generateWithOllama(prompt: string, systemPrompt: string): Promise<string> {
+async function generateWithOllama(
+  prompt: string,
+  systemPrompt: string,
+  signal?: AbortSignal
+): Promise<string> {
   const response = await fetch(`${OLLAMA_URL}/api/generate`, {
     method: "POST",
+    signal,
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       model: OLLAMA_MODEL,
@@ -48,6 +58,9 @@ async function generateWithOllama(prompt: string, systemPrompt: string): Promise
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -94,6 +107,11 @@ app.get("/dapr/subscribe", (c): Response => {
       topic: `tasks.${AGENT_ID}`,
       route: "/tasks",
     },
+    {
+      pubsubname: DAPR_PUBSUB_NAME,
+      topic: taskControlTopic(AGENT_ID),
+      route: "/control",
+    },
   ];
   return c.json(subscriptions);
 });
@@ -105,8 +123,10 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id} — ${task.capability}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
   try {
-    const result = await handleTask(task);
+    const result = await handleTask(task, token);
 
     // Publish result back to orchestrator
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, result);
@@ -114,6 +134,12 @@ app.post("/tasks", async (c) => {
     console.log(`[${AGENT_ID}] Task ${task.id} completed in ${result.durationMs}ms`);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      // The orchestrator already settled this task — don't report a result
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task ${task.id} failed:`, error);
 
     const failResult: TaskResult = {
@@ -127,7 +153,20 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" }); // ACK to Dapr even on failure
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
+  }
+});
+
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
   }
+  return c.json({ status: "SUCCESS" });
 });
 
 // Direct invocation endpoint — for synchronous agent-to-agent calls
@@ -138,7 +177,7 @@ app.post("/invoke", async (c) => {
 });
 
 // --- Core Task Handler ---
-async function handleTask(task: TaskRequest): Promise<TaskResult> {
+async function handleTask(task: TaskRequest, token?: CancelToken): Promise<TaskResult> {
   const startTime = Date.now();
 
   // Extract query and user from payload
@@ -178,11 +217,13 @@ async function handleTask(task: TaskRequest): Promise<TaskResult> {
   // Generate response using native Ollama API
   let text: string;
   try {
-    text = await generateWithOllama(query, systemPrompt);
+    text = await generateWithOllama(query, systemPrompt, token?.signal);
   } catch (error) {
+    if (error instanceof TaskCancelledError || token?.cancelled) throw error;
     throw new Error(`LLM generation failed: ${error}`);
   }
   console.log(`[${AGENT_ID}] Generated response`);
+  token?.throwIfCancelled();
 
   // Store conversation in memory
   if (memory) {
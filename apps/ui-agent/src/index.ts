@@ -12,6 +12,10 @@ import {
   tool,
   DAPR_PUBSUB_NAME,
   TASK_RESULTS_TOPIC,
+  TaskCancellations,
+  taskControlTopic,
+  startTaskProgress,
+  type CancelToken,
   type AgentRegistration,
   type TaskRequest,
   type TaskResult,
@@ -39,6 +43,9 @@ const LLM_MODEL = process.env.LLM_MODEL || "anthropic/claude-sonnet-4-20250514";
 const daprClient = new DaprClient({ daprHost: DAPR_HOST, daprPort: DAPR_HTTP_PORT });
 const registry = new AgentRegistry(daprClient);
 
+// --- Task Cancellation (orchestrator control topic) ---
+const cancellations = new TaskCancellations();
+
 // --- Memory Layer ---
 let memory: AgentMemory | null = null;
 
@@ -464,6 +471,7 @@ app.get("/readyz", (c) => c.json({ status: "ok" }));
 app.get("/dapr/subscribe", (c): Response => {
   const subscriptions: DaprSubscription[] = [
     { pubsubname: DAPR_PUBSUB_NAME, topic: `tasks.${AGENT_ID}`, route: "/tasks" },
+    { pubsubname: DAPR_PUBSUB_NAME, topic: taskControlTopic(AGENT_ID), route: "/control" },
   ];
   return c.json(subscriptions);
 });
@@ -521,6 +529,9 @@ app.post("/tasks", async (c) => {
 
   console.log(`[${AGENT_ID}] Received task: ${task.id}`);
 
+  const token = cancellations.begin(task.id);
+  const stopProgress = startTaskProgress(daprClient, task, AGENT_ID);
+
   try {
     const request: UIRequest = {
       action: (task.payload.action as UIRequest["action"]) || "generate-component",
@@ -528,7 +539,7 @@ app.post("/tasks", async (c) => {
       preferences: task.payload.preferences as UIRequest["preferences"],
     };
 
-    const result = await handleUIRequest(request);
+    const result = await handleUIRequest(request, token);
 
     const taskResult: TaskResult = {
       taskId: task.id,
@@ -539,9 +550,16 @@ app.post("/tasks", async (c) => {
       completedAt: new Date().toISOString(),
     };
 
+    // The orchestrator settles a cancelled task itself
+    token.throwIfCancelled();
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, taskResult);
     return c.json({ status: "SUCCESS" });
   } catch (error) {
+    if (token.cancelled) {
+      console.log(`[${AGENT_ID}] Task ${task.id} cancelled: ${token.reason}`);
+      return c.json({ status: "SUCCESS" });
+    }
+
     console.error(`[${AGENT_ID}] Task failed:`, error);
 
     const failResult: TaskResult = {
@@ -555,11 +573,24 @@ app.post("/tasks", async (c) => {
 
     await daprClient.pubsub.publish(DAPR_PUBSUB_NAME, TASK_RESULTS_TOPIC, failResult);
     return c.json({ status: "SUCCESS" });
+  } finally {
+    stopProgress();
+    cancellations.end(task.id);
   }
 });
 
+// Control handler — cancellations from the orchestrator
+app.post("/control", async (c) => {
+  const message: DaprPubSubMessage<unknown> = await c.req.json();
+  const cancel = cancellations.handleControlMessage(message.data);
+  if (cancel) {
+    console.log(`[${AGENT_ID}] Cancel requested for ${cancel.taskId}: ${cancel.reason}`);
+  }
+  return c.json({ status: "SUCCESS" });
+});
+
 // --- Core Handler ---
-async function handleUIRequest(request: UIRequest): Promise<UIDesign | ComponentCode | UIReview | string> {
+async function handleUIRequest(request: UIRequest, token?: CancelToken): Promise<UIDesign | ComponentCode | UIReview | string> {
   let enhancedPrompt = SYSTEM_PROMPT;
 
   // Add memory context
@@ -602,12 +633,13 @@ async function handleUIRequest(request: UIRequest): Promise<UIDesign | Component
   switch (request.action) {
     case "design-ui": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Design a UI system for this project.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Design a UI system for this project.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: UIDesignSchema,
         system: enhancedPrompt,
         prompt: `Create a structured UI design based on this analysis:\n\n${analysis}`,
@@ -619,12 +651,13 @@ async function handleUIRequest(request: UIRequest): Promise<UIDesign | Component
     case "generate-component":
     case "generate-screen": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Generate ${request.action === "generate-component" ? "a component" : "a screen"} for ${platform}.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Generate ${request.action === "generate-component" ? "a component" : "a screen"} for ${platform}.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: ComponentCodeSchema,
         system: enhancedPrompt,
         prompt: `Generate structured component code:\n\n${analysis}`,
@@ -635,12 +668,13 @@ async function handleUIRequest(request: UIRequest): Promise<UIDesign | Component
 
     case "review-ui": {
       const { text: analysis } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Review this UI code for accessibility, performance, and best practices.${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `Review this UI code for accessibility, performance, and best practices.${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
 
       const { object } = await chatCompletionWithSchema({
         model: LLM_MODEL,
+        signal: token?.signal,
         schema: UIReviewSchema,
         system: enhancedPrompt,
         prompt: `Create a structured UI review:\n\n${analysis}`,
@@ -651,13 +685,15 @@ async function handleUIRequest(request: UIRequest): Promise<UIDesign | Component
 
     default: {
       const { text } = await tracedChatCompletion(
-        { model: LLM_MODEL, system: enhancedPrompt, prompt: `${request.action}:${contextPrompt}` },
+        { model: LLM_MODEL, system: enhancedPrompt, prompt: `${request.action}:${contextPrompt}`, signal: token?.signal },
         eventLog ? { eventLog, traceId, agentId: AGENT_ID } : null
       );
       result = text;
     }
   }
 
+  token?.throwIfCancelled();
+
   // Store in memory
   if (memory) {
     try {
@@ -0,0 +1,10 @@
+-- Priority-aware task queue for the orchestrator
+-- Tasks with no available agent are held in orchestrator_tasks with status 'pending'
+-- and drained in priority/age order as matching agents come online.
+ALTER TABLE orchestrator_tasks ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 5;
+
+CREATE INDEX IF NOT EXISTS idx_orchestrator_tasks_queue
+  ON orchestrator_tasks(capability, priority DESC, created_at ASC)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN orchestrator_tasks.priority IS 'Task priority 0-10 (higher is dispatched first)';
@@ -0,0 +1,15 @@
+-- Task dependency graphs (DAGs) submitted to the orchestrator
+-- Node state (status, task IDs, results) is stored as JSONB so a running
+-- graph can be recovered on pod restart.
+CREATE TABLE IF NOT EXISTS orchestrator_graphs (
+  graph_id   TEXT PRIMARY KEY,
+  status     TEXT NOT NULL DEFAULT 'running',
+  nodes      JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orchestrator_graphs_status ON orchestrator_graphs(status);
+
+COMMENT ON TABLE orchestrator_graphs IS 'Task DAGs: nodes dispatched as orchestrator tasks once their dependencies complete';
+COMMENT ON COLUMN orchestrator_graphs.status IS 'running, completed, failed, or cancelled';
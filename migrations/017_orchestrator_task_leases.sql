@@ -0,0 +1,6 @@
+-- Lease-based task ownership for the orchestrator
+-- A dispatched task is owned by its agent until lease_expires_at; progress
+-- reports on the task-progress topic push the lease forward.
+ALTER TABLE orchestrator_tasks ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN orchestrator_tasks.lease_expires_at IS 'When the owning agent''s lease lapses and the task is treated as timed out';
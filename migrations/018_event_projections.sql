@@ -0,0 +1,25 @@
+-- Event-sourced projections built from mesh_six_events
+-- Each projection folds events into per-key JSONB state; its checkpoint
+-- records the last event seq applied so the runner resumes where it stopped.
+CREATE TABLE IF NOT EXISTS mesh_six_projection_checkpoints (
+  projection TEXT PRIMARY KEY,
+  last_seq   BIGINT NOT NULL DEFAULT 0,
+  version    INT NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS mesh_six_projection_state (
+  projection TEXT NOT NULL,
+  key        TEXT NOT NULL,
+  state      JSONB NOT NULL,
+  last_seq   BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (projection, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_projection_state_updated
+  ON mesh_six_projection_state (projection, updated_at DESC);
+
+COMMENT ON TABLE mesh_six_projection_checkpoints IS 'Per-projection position in mesh_six_events';
+COMMENT ON COLUMN mesh_six_projection_checkpoints.version IS 'Projection reducer version; a mismatch triggers a rebuild on startup';
+COMMENT ON TABLE mesh_six_projection_state IS 'Projected read models, one row per projection key (task, agent, workflow, ...)';
@@ -0,0 +1,13 @@
+-- Idempotent event emission
+-- mesh_six_events is partitioned by timestamp, so its unique index on
+-- (idempotency_key, timestamp) cannot catch a redelivery that arrives at a
+-- different time. Keys are claimed here first; an event is only inserted
+-- when its key claim succeeds.
+CREATE TABLE IF NOT EXISTS mesh_six_event_keys (
+  idempotency_key TEXT PRIMARY KEY,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_keys_created ON mesh_six_event_keys (created_at);
+
+COMMENT ON TABLE mesh_six_event_keys IS 'Idempotency keys of emitted events; rows older than the redelivery window can be pruned';
@@ -0,0 +1,16 @@
+-- Wake live event streams when events are appended
+-- The event-logger LISTENs on this channel and reads new rows with its
+-- tailing cursor; the payload is empty because readers page by seq anyway.
+CREATE OR REPLACE FUNCTION mesh_six_events_notify() RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify('mesh_six_events', '');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_mesh_six_events_notify ON mesh_six_events;
+CREATE TRIGGER trg_mesh_six_events_notify
+  AFTER INSERT ON mesh_six_events
+  FOR EACH STATEMENT EXECUTE FUNCTION mesh_six_events_notify();
+
+COMMENT ON FUNCTION mesh_six_events_notify() IS 'Statement-level NOTIFY on mesh_six_events for live stream tailing';
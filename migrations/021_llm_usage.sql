@@ -0,0 +1,31 @@
+-- Token and cost accounting for Claude CLI completions served by llm-service
+-- One row per successful completion, attributed to the actor, the credential
+-- it ran under and the calling app, so CLI spend can be reported next to
+-- LiteLLM spend.
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id                    BIGSERIAL PRIMARY KEY,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completion_id         TEXT NOT NULL,
+  actor_id              TEXT NOT NULL,
+  credential_id         TEXT NOT NULL,
+  caller                TEXT NOT NULL,
+  model                 TEXT NOT NULL,
+  capability            TEXT,
+  session_id            TEXT,
+  input_tokens          INT NOT NULL DEFAULT 0,
+  output_tokens         INT NOT NULL DEFAULT 0,
+  cache_read_tokens     INT NOT NULL DEFAULT 0,
+  cache_creation_tokens INT NOT NULL DEFAULT 0,
+  cost_usd              NUMERIC(12, 6),
+  reported              BOOLEAN NOT NULL DEFAULT TRUE,
+  duration_ms           INT NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_caller ON llm_usage (caller, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_credential ON llm_usage (credential_id, created_at);
+
+COMMENT ON TABLE llm_usage IS 'Per-completion Claude CLI token usage and cost from llm-service';
+COMMENT ON COLUMN llm_usage.input_tokens IS 'Uncached input tokens; cache reads and writes are counted separately';
+COMMENT ON COLUMN llm_usage.cost_usd IS 'total_cost_usd reported by the CLI; NULL when not reported';
+COMMENT ON COLUMN llm_usage.reported IS 'FALSE when token counts were estimated because the CLI returned no usage block';
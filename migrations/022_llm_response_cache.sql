@@ -0,0 +1,25 @@
+-- Response cache for deterministic (temperature 0) LLM calls
+-- Shared by core chatCompletion (namespace "litellm") and llm-service
+-- (namespace "llm-service"). Exact lookups hit the primary key; similarity
+-- lookups compare embeddings of recent entries for the same model/variant.
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+  key          TEXT PRIMARY KEY,
+  namespace    TEXT NOT NULL,
+  model        TEXT NOT NULL,
+  variant      TEXT NOT NULL,
+  response     JSONB NOT NULL,
+  embedding    REAL[],
+  hits         INT NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at   TIMESTAMPTZ NOT NULL,
+  last_hit_at  TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_lookup
+  ON llm_response_cache (namespace, model, variant, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_expires ON llm_response_cache (expires_at);
+
+COMMENT ON TABLE llm_response_cache IS 'Cached temperature-0 LLM responses with per-entry TTL';
+COMMENT ON COLUMN llm_response_cache.key IS 'sha256 of namespace, model, messages and variant';
+COMMENT ON COLUMN llm_response_cache.variant IS 'Hash of output-shaping parameters (response format, schema, tools, max tokens)';
+COMMENT ON COLUMN llm_response_cache.embedding IS 'Prompt embedding for similarity lookups; NULL when no embedder was configured';
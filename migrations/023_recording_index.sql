@@ -0,0 +1,11 @@
+-- Recording index for the session replay API
+-- started_at lines recordings up with session_activity_log / tool calls /
+-- questions on the session timeline; index_key points at the keyframe and
+-- search index stored next to the .cast in MinIO (NULL until built).
+ALTER TABLE terminal_recordings ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE terminal_recordings ADD COLUMN IF NOT EXISTS index_key TEXT;
+
+-- Recordings are uploaded when the stream stops, so start = upload - duration
+UPDATE terminal_recordings
+   SET started_at = uploaded_at - duration_ms * INTERVAL '1 millisecond'
+ WHERE started_at IS NULL;
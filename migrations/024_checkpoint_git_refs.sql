@@ -0,0 +1,7 @@
+-- Worktree snapshots for checkpoint rollback
+-- git_head is HEAD at checkpoint time; git_snapshot is a commit on top of it
+-- holding the full working tree (uncommitted and untracked changes), kept
+-- reachable by git_ref (refs/mesh-six/checkpoints/<session>/<n>).
+ALTER TABLE session_checkpoints ADD COLUMN IF NOT EXISTS git_head TEXT;
+ALTER TABLE session_checkpoints ADD COLUMN IF NOT EXISTS git_snapshot TEXT;
+ALTER TABLE session_checkpoints ADD COLUMN IF NOT EXISTS git_ref TEXT;
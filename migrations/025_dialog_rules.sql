@@ -0,0 +1,27 @@
+-- Dialog rules for dismissing Claude CLI startup dialogs
+-- Learned rules are proposed as candidates when the LLM fallback dismisses a
+-- dialog no rule matched, and only apply once an operator activates them.
+-- Built-in and config rules get a row on their first hit (for hit counting)
+-- or when an operator retires them; their patterns stay defined in code/config.
+CREATE TABLE IF NOT EXISTS dialog_rules (
+  id           TEXT PRIMARY KEY,
+  pattern      TEXT NOT NULL,
+  flags        TEXT NOT NULL DEFAULT 'i',
+  keys         TEXT[] NOT NULL,
+  reason       TEXT NOT NULL DEFAULT '',
+  status       TEXT NOT NULL DEFAULT 'candidate'
+               CHECK (status IN ('active', 'candidate', 'retired')),
+  source       TEXT NOT NULL CHECK (source IN ('builtin', 'config', 'learned')),
+  sample       TEXT,
+  hits         INT NOT NULL DEFAULT 0,
+  last_hit_at  TIMESTAMPTZ,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dialog_rules_status ON dialog_rules (status);
+
+COMMENT ON TABLE dialog_rules IS 'Claude CLI startup dialog rules: learned candidates, operator status changes and per-rule hit counters';
+COMMENT ON COLUMN dialog_rules.id IS 'builtin:<name>, config rule ID, or learned:<pattern hash>';
+COMMENT ON COLUMN dialog_rules.sample IS 'Pane text a learned rule was derived from';
+COMMENT ON COLUMN dialog_rules.last_hit_at IS 'Last time the rule dismissed a dialog; stale rules are candidates for retirement';
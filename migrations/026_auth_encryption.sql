@@ -0,0 +1,37 @@
+-- Envelope encryption for auth-service credentials and bundles
+-- auth_credentials.access_token/refresh_token and auth_bundles.bundle_data are
+-- encrypted with a per-project data key. Data keys are stored here wrapped by a
+-- master key that lives outside the database (mounted secret). Existing
+-- plaintext rows stay readable until `bun run rotate-keys` re-encrypts them.
+CREATE TABLE IF NOT EXISTS auth_data_keys (
+    project_id TEXT NOT NULL REFERENCES auth_projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    wrapped_key BYTEA NOT NULL,
+    master_key_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    rewrapped_at TIMESTAMPTZ,
+    retired_at TIMESTAMPTZ,
+    PRIMARY KEY (project_id, version)
+);
+
+-- Every decrypt of a credential or bundle
+CREATE TABLE IF NOT EXISTS auth_decrypt_audit (
+    id BIGSERIAL PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    record_type TEXT NOT NULL CHECK (record_type IN ('credential', 'bundle')),
+    record_id TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    actor TEXT,
+    key_version INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_decrypt_audit_project
+    ON auth_decrypt_audit (project_id, created_at DESC);
+
+COMMENT ON TABLE auth_data_keys IS 'Per-project AES-256-GCM data keys, wrapped by a master key held outside the database';
+COMMENT ON COLUMN auth_data_keys.retired_at IS 'Set by rotate-keys once no row uses this version; kept for restoring older backups';
+COMMENT ON TABLE auth_decrypt_audit IS 'Audit trail of credential and bundle decrypts (provision, bundle download, refresh, key rotation)';
+COMMENT ON COLUMN auth_decrypt_audit.key_version IS 'Data key version the record was encrypted with; NULL for legacy plaintext';
+COMMENT ON COLUMN auth_credentials.access_token IS 'enc:v1:<data key version>:<base64> ciphertext (plaintext for rows not yet rotated)';
+COMMENT ON COLUMN auth_bundles.bundle_data IS 'Encrypted tar.gz (MS6\x01 header + data key version), or legacy plaintext tar.gz';
@@ -0,0 +1,55 @@
+-- Credential pools: several Claude accounts per auth project
+-- Each pool member is one account with its own credential chain (push → refresh).
+-- /provision picks a member by the project's pool_policy, skipping members that
+-- are disabled or cooling down after a consumer-reported 429 or auth failure.
+CREATE TABLE IF NOT EXISTS auth_pool_members (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    project_id TEXT NOT NULL REFERENCES auth_projects(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    cooldown_until TIMESTAMPTZ,
+    last_rate_limited_at TIMESTAMPTZ,
+    last_auth_failure_at TIMESTAMPTZ,
+    last_selected_at TIMESTAMPTZ,
+    selection_count BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (project_id, label)
+);
+
+ALTER TABLE auth_projects
+    ADD COLUMN IF NOT EXISTS pool_policy TEXT NOT NULL DEFAULT 'round_robin'
+    CHECK (pool_policy IN ('round_robin', 'least_recently_rate_limited', 'tier_aware'));
+
+ALTER TABLE auth_credentials
+    ADD COLUMN IF NOT EXISTS member_id TEXT REFERENCES auth_pool_members(id) ON DELETE CASCADE;
+
+ALTER TABLE auth_bundles
+    ADD COLUMN IF NOT EXISTS member_id TEXT REFERENCES auth_pool_members(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_auth_credentials_member_active
+    ON auth_credentials (member_id)
+    WHERE invalidated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_auth_bundles_member_active
+    ON auth_bundles (member_id)
+    WHERE expired_at IS NULL;
+
+-- Backfill: existing projects get a single member owning all their credentials
+INSERT INTO auth_pool_members (project_id, label)
+SELECT p.id, COALESCE(p.claude_account_uuid, p.claude_email, 'default')
+FROM auth_projects p
+WHERE EXISTS (SELECT 1 FROM auth_credentials c WHERE c.project_id = p.id)
+ON CONFLICT (project_id, label) DO NOTHING;
+
+UPDATE auth_credentials c SET member_id = m.id
+FROM auth_pool_members m
+WHERE m.project_id = c.project_id AND c.member_id IS NULL;
+
+UPDATE auth_bundles b SET member_id = m.id
+FROM auth_pool_members m
+WHERE m.project_id = b.project_id AND b.member_id IS NULL;
+
+COMMENT ON TABLE auth_pool_members IS 'Claude accounts pooled under an auth project; each owns its own credentials and bundles';
+COMMENT ON COLUMN auth_pool_members.label IS 'Push-time pool member name (defaults to the account UUID, then email)';
+COMMENT ON COLUMN auth_pool_members.cooldown_until IS 'Skipped by provision selection until this time (set by /pool/report)';
+COMMENT ON COLUMN auth_projects.pool_policy IS 'Pool member selection: round_robin, least_recently_rate_limited, or tier_aware (by rate_limit_tier)';
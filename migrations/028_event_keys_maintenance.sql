@@ -0,0 +1,24 @@
+-- Event idempotency key maintenance
+-- Events emitted before 019 carry idempotency keys that were never claimed in
+-- mesh_six_event_keys, so a redelivery of one of them would be stored again.
+-- Claim them now, dated by the event that used the key.
+INSERT INTO mesh_six_event_keys (idempotency_key, created_at)
+SELECT idempotency_key, MIN(timestamp)
+FROM mesh_six_events
+WHERE idempotency_key IS NOT NULL
+GROUP BY idempotency_key
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+-- Claims only need to outlive the redelivery window. scripts/cleanup.ts calls
+-- this nightly; returns the number of keys removed.
+CREATE OR REPLACE FUNCTION prune_mesh_six_event_keys(retention INTERVAL) RETURNS BIGINT AS $$
+DECLARE
+  removed BIGINT;
+BEGIN
+  DELETE FROM mesh_six_event_keys WHERE created_at < NOW() - retention;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION prune_mesh_six_event_keys(INTERVAL) IS 'Delete event idempotency key claims older than the retention window';
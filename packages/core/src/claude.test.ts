@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { detectAuthFailure } from "./claude.js";
+import { detectAuthFailure, detectRateLimit } from "./claude.js";
 
 describe("detectAuthFailure - GWA patterns", () => {
   const gwaPatterns = [
@@ -32,3 +32,17 @@ describe("detectAuthFailure - GWA patterns", () => {
     expect(detectAuthFailure("> ")).toBe(false);
   });
 });
+
+describe("detectRateLimit", () => {
+  it("detects usage and API rate limits", () => {
+    expect(detectRateLimit("Claude usage limit reached. Your limit will reset at 5pm")).toBe(true);
+    expect(detectRateLimit("5-hour limit reached ∙ resets 3am")).toBe(true);
+    expect(detectRateLimit('{"type":"rate_limit_error","message":"..."}')).toBe(true);
+    expect(detectRateLimit("HTTP 429 Too Many Requests")).toBe(true);
+  });
+
+  it("returns false for auth failures and normal output", () => {
+    expect(detectRateLimit("login required")).toBe(false);
+    expect(detectRateLimit("Hello! How can I help you?")).toBe(false);
+  });
+});
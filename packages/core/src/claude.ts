@@ -43,6 +43,25 @@ export function detectAuthFailure(output: string): boolean {
   return AUTH_FAILURE_PATTERNS.some((pattern) => lower.includes(pattern));
 }
 
+/** Patterns indicating the account hit a subscription usage or API rate limit */
+const RATE_LIMIT_PATTERNS = [
+  "usage limit reached",
+  "5-hour limit reached",
+  "weekly limit reached",
+  "rate_limit_error",
+  "rate limit exceeded",
+  "429 too many requests",
+];
+
+/**
+ * Check if output text indicates the credential's account is rate limited.
+ * Usage-limit messages also match detectAuthFailure, so check this first.
+ */
+export function detectRateLimit(output: string): boolean {
+  const lower = output.toLowerCase();
+  return RATE_LIMIT_PATTERNS.some((pattern) => lower.includes(pattern));
+}
+
 /**
  * Pre-flight check: verify Claude auth environment variables are configured.
  * Does NOT make API calls — just checks env vars exist.
@@ -31,6 +31,8 @@ export interface TransitionCloseConfig {
   transitionTo: string;
   conversationHistory: Array<{ role: string; content: string }>;
   taskState: Record<string, unknown>;
+  /** Aborts the reflection call, e.g. when the task is cancelled */
+  signal?: AbortSignal;
 }
 
 // --- Constants ---
@@ -122,6 +124,7 @@ export async function transitionClose(
   const result = await chatCompletionWithSchema({
     model,
     schema: reflectionSchema,
+    signal: config.signal,
     system: `You are reflecting on a state transition in a project management workflow.
              Transition: ${config.transitionFrom} \u2192 ${config.transitionTo}
              Task ID: ${config.taskId}`,
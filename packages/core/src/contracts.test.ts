@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import { z } from "zod";
+import { zodToJsonSchema, validateJsonSchema, resolveContract, capabilityMatches } from "./contracts.js";
+import type { AgentCapability } from "./types.js";
+
+const ReviewPayload = z.object({
+  repo: z.string().min(1),
+  pr: z.number().int().min(1),
+  mode: z.enum(["quick", "thorough"]).default("quick"),
+  labels: z.array(z.string()).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+describe("zodToJsonSchema", () => {
+  it("converts objects with required and optional fields", () => {
+    const schema = zodToJsonSchema(ReviewPayload);
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["repo", "pr"]);
+    expect(schema.properties?.pr).toEqual({ type: "integer", minimum: 1 });
+    expect(schema.properties?.mode).toEqual({ type: "string", enum: ["quick", "thorough"], default: "quick" });
+    expect(schema.properties?.labels).toEqual({ type: "array", items: { type: "string" } });
+  });
+
+  it("marks strict objects as closed", () => {
+    expect(zodToJsonSchema(z.object({ a: z.string() }).strict()).additionalProperties).toBe(false);
+  });
+
+  it("survives a JSON round trip", () => {
+    const schema = JSON.parse(JSON.stringify(zodToJsonSchema(ReviewPayload)));
+    expect(validateJsonSchema(schema, { repo: "mesh-six", pr: 12 })).toEqual([]);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  const schema = zodToJsonSchema(ReviewPayload);
+
+  it("accepts conforming payloads", () => {
+    expect(validateJsonSchema(schema, { repo: "a", pr: 3, mode: "thorough", notes: null })).toEqual([]);
+  });
+
+  it("reports every mismatch with its path", () => {
+    const errors = validateJsonSchema(schema, { pr: 1.5, mode: "slow", labels: ["ok", 7] });
+    expect(errors).toContain("$.repo: required");
+    expect(errors).toContain("$.pr: expected integer, got number");
+    expect(errors.some((e) => e.startsWith("$.mode: expected one of"))).toBe(true);
+    expect(errors).toContain("$.labels[1]: expected string, got number");
+  });
+
+  it("rejects unexpected properties only when closed", () => {
+    const closed = { type: "object" as const, properties: {}, additionalProperties: false };
+    expect(validateJsonSchema(closed, { extra: 1 })).toEqual(["$.extra: unexpected property"]);
+    expect(validateJsonSchema({ type: "object" }, { extra: 1 })).toEqual([]);
+  });
+});
+
+describe("resolveContract", () => {
+  const caps: AgentCapability[] = [
+    { name: "code-review", weight: 1, preferred: false, requirements: [], version: "1.4.0", inputSchema: { type: "object" } },
+    { name: "code-review", weight: 1, preferred: false, requirements: [], version: "2.1.0", inputSchema: { type: "object" } },
+    { name: "code-review", weight: 1, preferred: false, requirements: [], version: "2.3.0" },
+  ];
+
+  it("picks the highest matching version that declares a schema", () => {
+    expect(resolveContract(caps, "code-review", null)?.version).toBe("2.1.0");
+    expect(resolveContract(caps, "code-review", "^1")?.version).toBe("1.4.0");
+    expect(resolveContract(caps, "code-review", "^3")).toBeUndefined();
+  });
+
+  it("treats undeclared versions as 1.0.0", () => {
+    const legacy = { name: "deploy", version: undefined };
+    expect(capabilityMatches(legacy, "deploy", "^1")).toBe(true);
+    expect(capabilityMatches(legacy, "deploy", "^2")).toBe(false);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Capability contracts — JSON Schema descriptions of a capability's task
+ * payload and result. Agents declare them at registration (usually derived
+ * from their Zod schemas via `zodToJsonSchema`) and the orchestrator validates
+ * incoming payloads against them before dispatch.
+ *
+ * Only the JSON Schema subset produced by `zodToJsonSchema` is supported by
+ * the validator: type, properties, required, additionalProperties, items,
+ * enum, const, anyOf, minimum/maximum and minLength/maxLength.
+ */
+import type { z } from "zod";
+import type { AgentCapability } from "./types.js";
+import { DEFAULT_CAPABILITY_VERSION, compareSemver, parseSemver, satisfies } from "./semver.js";
+
+export type JsonSchema = {
+  type?: "object" | "string" | "number" | "integer" | "boolean" | "array" | "null";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  description?: string;
+  default?: unknown;
+};
+
+// --- Zod → JSON Schema ---
+
+/** Convert a Zod schema to the JSON Schema subset understood by `validateJsonSchema` */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = (schema as any)._def;
+  if (!def) return {};
+
+  const base = ((): JsonSchema => {
+    switch (def.typeName) {
+      case "ZodString": {
+        const out: JsonSchema = { type: "string" };
+        for (const check of def.checks ?? []) {
+          if (check.kind === "min") out.minLength = check.value;
+          if (check.kind === "max") out.maxLength = check.value;
+        }
+        return out;
+      }
+      case "ZodNumber": {
+        const out: JsonSchema = { type: "number" };
+        for (const check of def.checks ?? []) {
+          if (check.kind === "int") out.type = "integer";
+          if (check.kind === "min") out.minimum = check.value;
+          if (check.kind === "max") out.maximum = check.value;
+        }
+        return out;
+      }
+      case "ZodBoolean":
+        return { type: "boolean" };
+      case "ZodNull":
+        return { type: "null" };
+      case "ZodLiteral":
+        return { const: def.value };
+      case "ZodEnum":
+        return { type: "string", enum: [...def.values] };
+      case "ZodArray":
+        return { type: "array", items: zodToJsonSchema(def.type) };
+      case "ZodObject": {
+        const shape = typeof def.shape === "function" ? def.shape() : def.shape;
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        for (const [key, value] of Object.entries(shape)) {
+          const field = value as z.ZodTypeAny;
+          properties[key] = zodToJsonSchema(field);
+          if (!field.isOptional()) required.push(key);
+        }
+        const out: JsonSchema = { type: "object", properties };
+        if (required.length > 0) out.required = required;
+        if (def.unknownKeys === "strict") out.additionalProperties = false;
+        return out;
+      }
+      case "ZodRecord":
+        return { type: "object", additionalProperties: zodToJsonSchema(def.valueType) };
+      case "ZodUnion":
+        return { anyOf: (def.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+      case "ZodOptional":
+        return zodToJsonSchema(def.innerType);
+      case "ZodNullable":
+        return { anyOf: [zodToJsonSchema(def.innerType), { type: "null" }] };
+      case "ZodDefault":
+        return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+      case "ZodEffects":
+        return zodToJsonSchema(def.schema);
+      default:
+        // ZodUnknown, ZodAny and anything exotic accept every value
+        return {};
+    }
+  })();
+
+  if (def.description) base.description = def.description;
+  return base;
+}
+
+// --- Validation ---
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "object":
+      return typeOf(value) === "object";
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns a list of human-readable
+ * errors (each prefixed with the JSON path), empty when the value conforms.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => validateJsonSchema(option, value, path).length === 0);
+    if (!matched) errors.push(`${path}: does not match any allowed schema`);
+    return errors;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+    return errors;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${path}: expected ${schema.type}, got ${typeOf(value)}`);
+    return errors;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(schema.items!, item, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: required`);
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      if (child === undefined) continue;
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(properties[key], child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(schema.additionalProperties, child, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+// --- Capability contract lookup ---
+
+/** Declared version of a capability, defaulting when the agent omits it */
+export function capabilityVersion(capability: Pick<AgentCapability, "version">): string {
+  return capability.version ?? DEFAULT_CAPABILITY_VERSION;
+}
+
+/** Does a declared capability satisfy a name plus optional version range? */
+export function capabilityMatches(
+  capability: Pick<AgentCapability, "name" | "version">,
+  name: string,
+  range: string | null
+): boolean {
+  if (capability.name !== name) return false;
+  return range === null || satisfies(capabilityVersion(capability), range);
+}
+
+/**
+ * Pick the contract for a capability reference from a set of declared
+ * capabilities: the highest matching version that declares an input schema.
+ */
+export function resolveContract(
+  capabilities: AgentCapability[],
+  name: string,
+  range: string | null
+): AgentCapability | undefined {
+  let best: AgentCapability | undefined;
+  for (const cap of capabilities) {
+    if (!cap.inputSchema || !capabilityMatches(cap, name, range)) continue;
+    if (!best) {
+      best = cap;
+      continue;
+    }
+    const a = parseSemver(capabilityVersion(cap));
+    const b = parseSemver(capabilityVersion(best));
+    if (a && b && compareSemver(a, b) > 0) best = cap;
+  }
+  return best;
+}
@@ -5,6 +5,11 @@ import {
   looksNormal,
   KNOWN_DIALOGS,
   ClaudeDialogError,
+  DialogRuleRegistry,
+  DialogRuleError,
+  InMemoryDialogRuleStore,
+  deriveDialogRule,
+  parseDialogRules,
 } from "./dialog-handler.js";
 
 describe("matchKnownDialog", () => {
@@ -91,3 +96,91 @@ describe("ClaudeDialogError", () => {
     expect(err.message).toBe("test error");
   });
 });
+
+const TELEMETRY_PANE = `╭──────────────────────────────────────────╮
+│ Help improve Claude Code by sharing usage data? │
+│ ❯ 1. Yes                                  │
+│   2. No                                   │
+╰──────────────────────────────────────────╯`;
+
+const TELEMETRY_RESPONSE = { blocked: true, keys: ["Down", "Enter"], reason: "Declining telemetry" };
+
+describe("parseDialogRules", () => {
+  it("parses config rules with defaults", () => {
+    const rules = parseDialogRules('[{"id": "survey", "pattern": "How is Claude doing", "keys": ["0"]}]');
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ id: "survey", flags: "i", status: "active", source: "config", hits: 0 });
+    expect(parseDialogRules("")).toEqual([]);
+  });
+
+  it("rejects invalid patterns and keys", () => {
+    expect(() => parseDialogRules('[{"id": "x", "pattern": "(", "keys": ["Enter"]}]')).toThrow(DialogRuleError);
+    expect(() => parseDialogRules('[{"id": "x", "pattern": "y", "keys": ["rm -rf"]}]')).toThrow(DialogRuleError);
+    expect(() => parseDialogRules("{")).toThrow(DialogRuleError);
+  });
+});
+
+describe("deriveDialogRule", () => {
+  it("builds a pattern from the dialog question", () => {
+    const rule = deriveDialogRule(TELEMETRY_PANE, TELEMETRY_RESPONSE);
+    expect(rule).toMatchObject({ status: "candidate", source: "learned", keys: ["Down", "Enter"] });
+    expect(rule!.id).toStartWith("learned:");
+    expect(new RegExp(rule!.pattern, rule!.flags).test(TELEMETRY_PANE)).toBe(true);
+    expect(new RegExp(rule!.pattern, rule!.flags).test("Help improve  claude CODE by sharing usage data?")).toBe(true);
+  });
+
+  it("generalizes numbers and returns null without a usable line", () => {
+    const rule = deriveDialogRule("Claude Code v2.1.3 has a new welcome screen", TELEMETRY_RESPONSE);
+    expect(new RegExp(rule!.pattern, rule!.flags).test("Claude Code v2.4.0 has a new welcome screen")).toBe(true);
+    expect(deriveDialogRule("> ", TELEMETRY_RESPONSE)).toBeNull();
+    expect(deriveDialogRule(TELEMETRY_PANE, { blocked: false, keys: [], reason: "" })).toBeNull();
+  });
+});
+
+describe("DialogRuleRegistry", () => {
+  it("matches built-in rules and counts hits", async () => {
+    const store = new InMemoryDialogRuleStore();
+    const registry = new DialogRuleRegistry(store);
+
+    const match = registry.match("Do you trust this project directory?");
+    expect(match).toEqual({ ruleId: "builtin:trust-project", keys: ["Enter"], reason: "Trusting project directory" });
+    expect(registry.get("builtin:trust-project")!.hits).toBe(1);
+
+    await registry.flushHits();
+    expect((await store.list()).map((r) => [r.id, r.hits])).toEqual([["builtin:trust-project", 1]]);
+    expect(registry.get("builtin:trust-project")!.hits).toBe(1);
+  });
+
+  it("proposes a candidate only when the LLM dismissal worked, and matches it once approved", async () => {
+    const registry = new DialogRuleRegistry(new InMemoryDialogRuleStore());
+
+    expect(await registry.proposeCandidate(TELEMETRY_PANE, TELEMETRY_PANE, TELEMETRY_RESPONSE)).toBeNull();
+
+    const candidate = await registry.proposeCandidate(TELEMETRY_PANE, "> ", TELEMETRY_RESPONSE);
+    expect(candidate?.status).toBe("candidate");
+    expect(registry.match(TELEMETRY_PANE)).toBeNull();
+    expect(await registry.proposeCandidate(TELEMETRY_PANE, "> ", TELEMETRY_RESPONSE)).toBeNull();
+
+    await registry.setStatus(candidate!.id, "active", { reason: "Declining usage data sharing" });
+    expect(registry.match(TELEMETRY_PANE)).toMatchObject({ ruleId: candidate!.id, reason: "Declining usage data sharing" });
+  });
+
+  it("picks up rules saved by another pod on reload", async () => {
+    const store = new InMemoryDialogRuleStore();
+    const podA = new DialogRuleRegistry(store);
+    const podB = new DialogRuleRegistry(store);
+
+    await podA.setStatus("builtin:bypass-permissions", "retired");
+    expect(podB.match("bypass permissions")).not.toBeNull();
+
+    await podB.reload();
+    expect(podB.match("bypass permissions")).toBeNull();
+    expect(podB.get("builtin:bypass-permissions")!.pattern).toBe(KNOWN_DIALOGS[0]!.pattern.source);
+  });
+
+  it("refuses to edit built-in and config rules", async () => {
+    const registry = new DialogRuleRegistry(new InMemoryDialogRuleStore());
+    await expect(registry.setStatus("builtin:theme", "active", { pattern: "x" })).rejects.toThrow(DialogRuleError);
+    await expect(registry.setStatus("nope", "retired")).rejects.toThrow("Unknown dialog rule");
+  });
+});
@@ -5,9 +5,20 @@
  * Returns key sequences to dismiss them. Does NOT send keys itself —
  * the caller (llm-service, implementer) handles tmux/terminal interaction.
  *
+ * Rules live in a DialogRuleRegistry: the built-in KNOWN_DIALOGS, rules from
+ * config, and rules stored in Postgres (`dialog_rules`), reloaded on an
+ * interval so new rules apply without a deploy. When the LLM fallback
+ * dismisses a dialog no rule matched, a candidate rule is derived from the
+ * pane text and stored for operator approval. Hits are counted per rule so
+ * stale rules can be retired.
+ *
  * Ported from GWA src/lib/dialog-handler.ts
  */
 
+import { createHash } from "crypto";
+import type { Pool } from "pg";
+import { z } from "zod";
+
 const MAX_KEYS = 10;
 
 /** Allowed tmux key names */
@@ -18,36 +29,43 @@ const ALLOWED_KEYS = new Set([
 
 /** Known dialog patterns dismissable without an API call */
 export const KNOWN_DIALOGS: Array<{
+  id: string;
   pattern: RegExp;
   keys: string[];
   reason: string;
 }> = [
   {
+    id: "bypass-permissions",
     pattern: /bypass permissions/i,
     keys: ["Enter"],
     reason: "Accepting bypass permissions dialog",
   },
   {
+    id: "trust-project",
     pattern: /trust this project/i,
     keys: ["Enter"],
     reason: "Trusting project directory",
   },
   {
+    id: "theme",
     pattern: /Choose the text style|text style that looks best|Dark mode.*Light mode/i,
     keys: ["Enter"],
     reason: "Selecting default theme (dark mode)",
   },
   {
+    id: "login-method",
     pattern: /Select login method.*Claude account with subscription/is,
     keys: ["Enter"],
     reason: "Selecting Claude account with subscription login",
   },
   {
+    id: "oauth-browser",
     pattern: /Browser didn't open.*Paste code here/is,
     keys: ["Escape"],
     reason: "Dismissing OAuth browser flow (token already cached)",
   },
   {
+    id: "token-revoked",
     pattern: /token revoked|please run \/login/i,
     keys: ["Escape"],
     reason: "Token revoked — cannot dismiss, need credential refresh",
@@ -146,3 +164,455 @@ export function parseDialogResponse(raw: string): DialogResponse {
   const reason = typeof parsed.reason === "string" ? parsed.reason : "";
   return { blocked, keys, reason };
 }
+
+// ============================================================================
+// DIALOG RULE REGISTRY
+// ============================================================================
+
+export type DialogRuleStatus = "active" | "candidate" | "retired";
+export type DialogRuleSource = "builtin" | "config" | "learned";
+
+export interface DialogRule {
+  id: string;
+  /** RegExp source, tested against the captured pane text */
+  pattern: string;
+  flags: string;
+  keys: string[];
+  reason: string;
+  /** Only active rules are matched; candidates wait for operator approval */
+  status: DialogRuleStatus;
+  source: DialogRuleSource;
+  hits: number;
+  lastHitAt?: string;
+  /** Pane text a learned rule was derived from */
+  sample?: string;
+  createdAt?: string;
+}
+
+export interface DialogRuleMatch {
+  ruleId: string;
+  keys: string[];
+  reason: string;
+}
+
+export interface DialogRuleHits {
+  rule: DialogRule;
+  count: number;
+  lastHitAt: string;
+}
+
+/** Operator changes to a learned rule when approving it */
+export interface DialogRuleEdits {
+  pattern?: string;
+  flags?: string;
+  keys?: string[];
+  reason?: string;
+}
+
+/** Storage backend for DialogRuleRegistry */
+export interface DialogRuleStore {
+  list(): Promise<DialogRule[]>;
+  /** Insert or update a rule, leaving its hit counter alone */
+  save(rule: DialogRule): Promise<void>;
+  /** Insert a rule unless one with the same ID exists; returns whether it was inserted */
+  propose(rule: DialogRule): Promise<boolean>;
+  recordHits(hits: DialogRuleHits[]): Promise<void>;
+}
+
+export class DialogRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DialogRuleError";
+  }
+}
+
+const dialogRuleConfigSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    pattern: z.string().min(1),
+    flags: z.string().default("i"),
+    keys: z.array(z.string()).min(1),
+    reason: z.string().default(""),
+    status: z.enum(["active", "retired"]).default("active"),
+  })
+);
+
+/** The built-in KNOWN_DIALOGS as registry rules. */
+export function builtinDialogRules(): DialogRule[] {
+  return KNOWN_DIALOGS.map((dialog) => ({
+    id: `builtin:${dialog.id}`,
+    pattern: dialog.pattern.source,
+    flags: dialog.pattern.flags,
+    keys: dialog.keys,
+    reason: dialog.reason,
+    status: "active",
+    source: "builtin",
+    hits: 0,
+  }));
+}
+
+/**
+ * Parse rules from a JSON config array (`[{id, pattern, flags?, keys, reason?, status?}]`).
+ * Throws DialogRuleError on invalid JSON, schema, keys or patterns.
+ */
+export function parseDialogRules(json: string): DialogRule[] {
+  if (!json.trim()) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new DialogRuleError(`Dialog rules are not valid JSON: ${err}`);
+  }
+  const parsed = dialogRuleConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new DialogRuleError(`Invalid dialog rules: ${parsed.error.message}`);
+  }
+  return parsed.data.map((entry) => {
+    const rule: DialogRule = { ...entry, source: "config", hits: 0 };
+    validateDialogRule(rule);
+    return rule;
+  });
+}
+
+/**
+ * Derive a candidate rule from a dialog the LLM fallback dismissed.
+ * The pattern is built from the most prompt-like line of the pane (a
+ * question if there is one, else the longest line), with whitespace and
+ * numbers generalized. Returns null when the pane has no usable line.
+ */
+export function deriveDialogRule(paneText: string, response: DialogResponse): DialogRule | null {
+  if (!response.blocked || response.keys.length === 0) return null;
+
+  const lines = paneText
+    .split("\n")
+    // Drop box-drawing borders and selection markers
+    .map((line) => line.replace(/[│┃║╭╮╰╯─━═❯›•]/g, " ").replace(/\s+/g, " ").trim())
+    .filter((line) => line.split(" ").length >= 3 && /[a-z]{3}/i.test(line))
+    // Numbered menu options are the same across dialogs
+    .filter((line) => !/^\d+[.)]\s/.test(line));
+
+  const line = lines.find((l) => l.endsWith("?")) ?? [...lines].sort((a, b) => b.length - a.length)[0];
+  if (!line) return null;
+
+  const pattern = line
+    .split(" ")
+    .slice(0, 8)
+    .map((word) => escapeRegExp(word).replace(/\d+/g, "\\d+"))
+    .join("\\s+");
+
+  return {
+    id: `learned:${createHash("sha256").update(pattern).digest("hex").slice(0, 12)}`,
+    pattern,
+    flags: "i",
+    keys: response.keys,
+    reason: response.reason || "Learned from LLM dialog analysis",
+    status: "candidate",
+    source: "learned",
+    hits: 0,
+    sample: paneText.slice(-2000),
+  };
+}
+
+interface CompiledRule {
+  rule: DialogRule;
+  regex: RegExp | null;
+}
+
+/**
+ * Dialog rules from code, config and the store, merged by ID. A stored row
+ * for a built-in or config rule only contributes its status and hit counter,
+ * so code and config stay the source of truth for their patterns.
+ */
+export class DialogRuleRegistry {
+  private rules: CompiledRule[] = [];
+  private pendingHits = new Map<string, { count: number; lastHitAt: string }>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private store: DialogRuleStore | null,
+    private configRules: DialogRule[] = [],
+  ) {
+    this.rules = this.merge([]);
+  }
+
+  /** Reload stored rules. Keeps the current rules if the store is unavailable. */
+  async reload(): Promise<void> {
+    if (!this.store) return;
+    this.rules = this.merge(await this.store.list());
+  }
+
+  /** Load stored rules now, then flush hits and reload every `intervalMs`. */
+  async start(intervalMs: number): Promise<void> {
+    await this.reload().catch((err) => console.warn(`[DialogRuleRegistry] Initial load failed:`, err));
+    this.timer = setInterval(() => {
+      this.flushHits()
+        .then(() => this.reload())
+        .catch((err) => console.warn(`[DialogRuleRegistry] Reload failed:`, err));
+    }, intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flushHits().catch((err) => console.warn(`[DialogRuleRegistry] Final hit flush failed:`, err));
+  }
+
+  /** First active rule matching the pane text, counting the hit. */
+  match(paneText: string, now = Date.now()): DialogRuleMatch | null {
+    for (const { rule, regex } of this.rules) {
+      if (rule.status !== "active" || !regex?.test(paneText)) continue;
+      const pending = this.pendingHits.get(rule.id) ?? { count: 0, lastHitAt: "" };
+      pending.count++;
+      pending.lastHitAt = new Date(now).toISOString();
+      this.pendingHits.set(rule.id, pending);
+      return { ruleId: rule.id, keys: rule.keys, reason: rule.reason };
+    }
+    return null;
+  }
+
+  /** All rules with hit counts including unflushed hits, optionally filtered by status. */
+  list(status?: DialogRuleStatus): DialogRule[] {
+    return this.rules
+      .map(({ rule }) => {
+        const pending = this.pendingHits.get(rule.id);
+        return pending
+          ? { ...rule, hits: rule.hits + pending.count, lastHitAt: pending.lastHitAt }
+          : { ...rule };
+      })
+      .filter((rule) => !status || rule.status === status);
+  }
+
+  get(id: string): DialogRule | undefined {
+    return this.list().find((rule) => rule.id === id);
+  }
+
+  async flushHits(): Promise<void> {
+    if (!this.store || this.pendingHits.size === 0) return;
+    const pending = this.pendingHits;
+    this.pendingHits = new Map();
+
+    const hits: DialogRuleHits[] = [];
+    for (const [id, { count, lastHitAt }] of pending) {
+      const compiled = this.rules.find((c) => c.rule.id === id);
+      if (compiled) hits.push({ rule: compiled.rule, count, lastHitAt });
+    }
+    try {
+      await this.store.recordHits(hits);
+    } catch (err) {
+      // Put the counts back so the next flush retries them
+      for (const [id, hit] of pending) {
+        const current = this.pendingHits.get(id);
+        this.pendingHits.set(id, current ? { count: current.count + hit.count, lastHitAt: current.lastHitAt } : hit);
+      }
+      throw err;
+    }
+    for (const hit of hits) {
+      hit.rule.hits += hit.count;
+      hit.rule.lastHitAt = hit.lastHitAt;
+    }
+  }
+
+  /**
+   * Propose a candidate rule after the LLM fallback dismissed a dialog. Only
+   * proposes when the derived pattern no longer matches the pane after the
+   * keys were sent (the dismissal worked) and no existing rule covers it.
+   * Returns the candidate if one was stored.
+   */
+  async proposeCandidate(
+    paneBefore: string,
+    paneAfter: string,
+    response: DialogResponse,
+  ): Promise<DialogRule | null> {
+    const candidate = deriveDialogRule(paneBefore, response);
+    if (!candidate || !this.store) return null;
+
+    const regex = new RegExp(candidate.pattern, candidate.flags);
+    if (!regex.test(paneBefore) || regex.test(paneAfter)) return null;
+    if (this.rules.some((c) => c.rule.id === candidate.id || (c.rule.status !== "retired" && c.regex?.test(paneBefore)))) {
+      return null;
+    }
+
+    if (!(await this.store.propose(candidate))) return null;
+    this.rules = [...this.rules, { rule: { ...candidate, createdAt: new Date().toISOString() }, regex }];
+    return candidate;
+  }
+
+  /**
+   * Change a rule's status — approve a candidate, retire a stale rule or
+   * reactivate a retired one. Learned rules may be edited on the way.
+   */
+  async setStatus(id: string, status: DialogRuleStatus, edits: DialogRuleEdits = {}): Promise<DialogRule> {
+    const existing = this.get(id);
+    if (!existing) throw new DialogRuleError(`Unknown dialog rule ${id}`);
+    if (existing.source !== "learned" && Object.values(edits).some((v) => v !== undefined)) {
+      throw new DialogRuleError(`Only learned rules can be edited; change ${existing.source} rule ${id} in ${existing.source === "builtin" ? "code" : "config"}`);
+    }
+    if (!this.store) throw new DialogRuleError("No dialog rule store configured");
+
+    const rule: DialogRule = {
+      ...existing,
+      pattern: edits.pattern ?? existing.pattern,
+      flags: edits.flags ?? existing.flags,
+      keys: edits.keys ?? existing.keys,
+      reason: edits.reason ?? existing.reason,
+      status,
+    };
+    validateDialogRule(rule);
+    await this.store.save(rule);
+
+    this.rules = this.rules.map((c) =>
+      c.rule.id === id ? { rule: { ...rule, hits: c.rule.hits, lastHitAt: c.rule.lastHitAt }, regex: compileRule(rule) } : c
+    );
+    return rule;
+  }
+
+  private merge(stored: DialogRule[]): CompiledRule[] {
+    const rules = new Map<string, DialogRule>();
+    for (const rule of [...builtinDialogRules(), ...this.configRules]) {
+      rules.set(rule.id, { ...rule });
+    }
+    for (const row of stored) {
+      const defined = rules.get(row.id);
+      rules.set(
+        row.id,
+        defined && defined.source !== "learned"
+          ? { ...defined, status: row.status, hits: row.hits, lastHitAt: row.lastHitAt }
+          : row
+      );
+    }
+    return [...rules.values()].map((rule) => ({ rule, regex: compileRule(rule) }));
+  }
+}
+
+/** Process-local store, for tests and pods without a database. */
+export class InMemoryDialogRuleStore implements DialogRuleStore {
+  private rules = new Map<string, DialogRule>();
+
+  async list(): Promise<DialogRule[]> {
+    return [...this.rules.values()].map((rule) => ({ ...rule }));
+  }
+
+  async save(rule: DialogRule): Promise<void> {
+    const existing = this.rules.get(rule.id);
+    this.rules.set(rule.id, { ...rule, hits: existing?.hits ?? 0, lastHitAt: existing?.lastHitAt });
+  }
+
+  async propose(rule: DialogRule): Promise<boolean> {
+    if (this.rules.has(rule.id)) return false;
+    this.rules.set(rule.id, { ...rule, createdAt: new Date().toISOString() });
+    return true;
+  }
+
+  async recordHits(hits: DialogRuleHits[]): Promise<void> {
+    for (const { rule, count, lastHitAt } of hits) {
+      const existing = this.rules.get(rule.id) ?? { ...rule, hits: 0 };
+      this.rules.set(rule.id, { ...existing, hits: existing.hits + count, lastHitAt });
+    }
+  }
+}
+
+/** Postgres store (`dialog_rules`), shared across pods. */
+export class PgDialogRuleStore implements DialogRuleStore {
+  constructor(private pool: Pool) {}
+
+  async list(): Promise<DialogRule[]> {
+    const { rows } = await this.pool.query<DialogRuleRow>(`SELECT * FROM dialog_rules ORDER BY created_at`);
+    return rows.map(mapDialogRuleRow);
+  }
+
+  async save(rule: DialogRule): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO dialog_rules (id, pattern, flags, keys, reason, status, source, sample)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO UPDATE SET
+         pattern = EXCLUDED.pattern,
+         flags = EXCLUDED.flags,
+         keys = EXCLUDED.keys,
+         reason = EXCLUDED.reason,
+         status = EXCLUDED.status,
+         updated_at = NOW()`,
+      [rule.id, rule.pattern, rule.flags, rule.keys, rule.reason, rule.status, rule.source, rule.sample ?? null],
+    );
+  }
+
+  async propose(rule: DialogRule): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO dialog_rules (id, pattern, flags, keys, reason, status, source, sample)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO NOTHING`,
+      [rule.id, rule.pattern, rule.flags, rule.keys, rule.reason, rule.status, rule.source, rule.sample ?? null],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async recordHits(hits: DialogRuleHits[]): Promise<void> {
+    for (const { rule, count, lastHitAt } of hits) {
+      // Built-in and config rules get a row on their first hit
+      await this.pool.query(
+        `INSERT INTO dialog_rules (id, pattern, flags, keys, reason, status, source, hits, last_hit_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (id) DO UPDATE SET
+           hits = dialog_rules.hits + EXCLUDED.hits,
+           last_hit_at = GREATEST(dialog_rules.last_hit_at, EXCLUDED.last_hit_at)`,
+        [rule.id, rule.pattern, rule.flags, rule.keys, rule.reason, rule.status, rule.source, count, lastHitAt],
+      );
+    }
+  }
+}
+
+// --- Internal helpers ---
+
+function validateDialogRule(rule: DialogRule): void {
+  if (rule.keys.length === 0 || rule.keys.length > MAX_KEYS || rule.keys.some((k) => !ALLOWED_KEYS.has(k))) {
+    throw new DialogRuleError(`Dialog rule ${rule.id} needs 1-${MAX_KEYS} keys from: ${[...ALLOWED_KEYS].join(", ")}`);
+  }
+  try {
+    new RegExp(rule.pattern, rule.flags);
+  } catch (err) {
+    throw new DialogRuleError(`Dialog rule ${rule.id} has an invalid pattern: ${err}`);
+  }
+}
+
+function compileRule(rule: DialogRule): RegExp | null {
+  try {
+    // Drop g/y so test() stays stateless
+    return new RegExp(rule.pattern, rule.flags.replace(/[gy]/g, ""));
+  } catch (err) {
+    console.warn(`[DialogRuleRegistry] Skipping rule ${rule.id} with invalid pattern:`, err);
+    return null;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface DialogRuleRow {
+  id: string;
+  pattern: string;
+  flags: string;
+  keys: string[];
+  reason: string;
+  status: DialogRuleStatus;
+  source: DialogRuleSource;
+  sample: string | null;
+  hits: number;
+  last_hit_at: Date | null;
+  created_at: Date;
+}
+
+function mapDialogRuleRow(row: DialogRuleRow): DialogRule {
+  return {
+    id: row.id,
+    pattern: row.pattern,
+    flags: row.flags,
+    keys: row.keys,
+    reason: row.reason,
+    status: row.status,
+    source: row.source,
+    hits: row.hits,
+    lastHitAt: row.last_hit_at ? new Date(row.last_hit_at).toISOString() : undefined,
+    sample: row.sample ?? undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
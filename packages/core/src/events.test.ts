@@ -170,6 +170,52 @@ describe("EventLog", () => {
     });
   });
 
+  describe("readAfter", () => {
+    it("pages from a sequence number with type and upper-bound filters", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) =>
+        Promise.resolve({
+          rows: [{
+            seq: "43",
+            timestamp: new Date("2026-10-19T00:00:00Z"),
+            trace_id: "t1",
+            task_id: null,
+            agent_id: "a1",
+            event_type: "task.result",
+            event_version: 1,
+            payload: {},
+            aggregate_id: null,
+            idempotency_key: null,
+          }],
+        })
+      );
+      const pool = createMockPool(queryMock);
+      const log = new EventLog(pool);
+
+      const events = await log.readAfter(42, { eventTypes: ["task.result"], untilSeq: 50, limit: 10 });
+
+      const [sql, params] = queryMock.mock.calls[0]!;
+      expect(sql).toContain("seq > $1");
+      expect(sql).toContain("event_type = ANY($2)");
+      expect(sql).toContain("seq <= $3");
+      expect(params).toEqual([42, ["task.result"], 50, 10]);
+      expect(events[0].seq).toBe(43);
+      expect(events[0].timestamp).toBe("2026-10-19T00:00:00.000Z");
+    });
+
+    it("stops before events appended within the settle window", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [] }));
+      const log = new EventLog(createMockPool(queryMock));
+
+      await log.readAfter(42, { settleMs: 5000 });
+
+      const [sql, params] = queryMock.mock.calls[0]!;
+      expect(sql).toContain("NOT EXISTS");
+      expect(sql).toContain("recent.seq <= mesh_six_events.seq");
+      expect(sql).toContain("NOW() - $2 * INTERVAL '1 millisecond'");
+      expect(params).toEqual([42, 5000, 500]);
+    });
+  });
+
   describe("idempotency", () => {
     it("passes idempotency_key through emit", async () => {
       const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [] }));
@@ -181,5 +227,52 @@ describe("EventLog", () => {
       const [, params] = queryMock.mock.calls[0]!;
       expect(params[7]).toBe("dedup-key-1");
     });
+
+    it("claims the key before inserting and reports new events", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [{ seq: "7" }] }));
+      const log = new EventLog(createMockPool(queryMock));
+
+      const result = await log.emit(makeEvent({ idempotencyKey: "dedup-key-1" }));
+
+      const [sql] = queryMock.mock.calls[0]!;
+      expect(sql).toContain("INSERT INTO mesh_six_event_keys");
+      expect(sql).toContain("ON CONFLICT DO NOTHING");
+      expect(result).toEqual({ status: "inserted", seq: 7 });
+    });
+
+    it("reports a duplicate when the key was already claimed", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [] }));
+      const log = new EventLog(createMockPool(queryMock));
+
+      const result = await log.emit(makeEvent({ idempotencyKey: "dedup-key-1" }));
+
+      expect(result).toEqual({ status: "duplicate", idempotencyKey: "dedup-key-1" });
+    });
+
+    it("skips the key table when no key is set", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [{ seq: 3 }] }));
+      const log = new EventLog(createMockPool(queryMock));
+
+      expect(await log.emit(makeEvent())).toEqual({ status: "inserted", seq: 3 });
+      expect(queryMock.mock.calls[0]![0]).not.toContain("mesh_six_event_keys");
+    });
+
+    it("drops repeated keys within a batch and counts stored duplicates", async () => {
+      // One of the two unique keyed events was already stored
+      const queryMock = mock((_sql: string, _params: any[]) => Promise.resolve({ rows: [{ seq: 1 }, { seq: 2 }] }));
+      const log = new EventLog(createMockPool(queryMock));
+
+      const result = await log.emitBatch([
+        makeEvent({ idempotencyKey: "k1" }),
+        makeEvent({ idempotencyKey: "k1" }),
+        makeEvent({ idempotencyKey: "k2" }),
+        makeEvent(),
+      ]);
+
+      const [sql, params] = queryMock.mock.calls[0]!;
+      expect(sql).toContain("INSERT INTO mesh_six_event_keys");
+      expect(params).toHaveLength(24); // 3 unique events x 8 fields
+      expect(result).toEqual({ inserted: 2, duplicates: 2 });
+    });
   });
 });
@@ -23,38 +23,104 @@ export interface EventQueryOpts {
   limit?: number;
 }
 
+/** An event as stored, with its position in the log */
+export interface StoredEvent extends MeshEvent {
+  seq: number;
+  timestamp: string;
+}
+
+/** Outcome of a single emit: duplicates are events whose idempotencyKey was already seen */
+export type EmitResult =
+  | { status: "inserted"; seq: number }
+  | { status: "duplicate"; idempotencyKey: string };
+
+export interface EmitBatchResult {
+  inserted: number;
+  duplicates: number;
+}
+
+const EVENT_COLUMNS = `trace_id, task_id, agent_id, event_type, event_version,
+          payload, aggregate_id, idempotency_key`;
+
 export class EventLog {
   constructor(private pool: Pool) {}
 
-  async emit(event: MeshEvent): Promise<void> {
-    await this.pool.query(
-      `INSERT INTO mesh_six_events
-         (trace_id, task_id, agent_id, event_type, event_version,
-          payload, aggregate_id, idempotency_key)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [
-        event.traceId,
-        event.taskId ?? null,
-        event.agentId,
-        event.eventType,
-        event.eventVersion ?? 1,
-        JSON.stringify(event.payload),
-        event.aggregateId ?? null,
-        event.idempotencyKey ?? null,
-      ]
+  /**
+   * Append an event. When `idempotencyKey` is set the key is claimed in
+   * `mesh_six_event_keys` in the same statement, and a repeat of the key is
+   * dropped and reported as a duplicate.
+   */
+  async emit(event: MeshEvent): Promise<EmitResult> {
+    const params = [
+      event.traceId,
+      event.taskId ?? null,
+      event.agentId,
+      event.eventType,
+      event.eventVersion ?? 1,
+      JSON.stringify(event.payload),
+      event.aggregateId ?? null,
+      event.idempotencyKey ?? null,
+    ];
+
+    if (!event.idempotencyKey) {
+      const { rows } = await this.pool.query<{ seq: string | number }>(
+        `INSERT INTO mesh_six_events
+           (${EVENT_COLUMNS})
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING seq`,
+        params
+      );
+      return { status: "inserted", seq: Number(rows[0]?.seq ?? 0) };
+    }
+
+    const { rows } = await this.pool.query<{ seq: string | number }>(
+      `WITH claimed AS (
+         INSERT INTO mesh_six_event_keys (idempotency_key)
+         VALUES ($8)
+         ON CONFLICT DO NOTHING
+         RETURNING idempotency_key
+       )
+       INSERT INTO mesh_six_events
+         (${EVENT_COLUMNS})
+       SELECT $1, $2, $3, $4, $5, $6, $7, $8
+       WHERE EXISTS (SELECT 1 FROM claimed)
+       RETURNING seq`,
+      params
     );
+
+    const row = rows[0];
+    if (!row) {
+      return { status: "duplicate", idempotencyKey: event.idempotencyKey };
+    }
+    return { status: "inserted", seq: Number(row.seq) };
   }
 
-  async emitBatch(events: MeshEvent[]): Promise<void> {
-    if (events.length === 0) return;
+  /**
+   * Append several events in one statement. Events repeating an
+   * idempotencyKey — already stored, or earlier in the same batch — are
+   * dropped and counted as duplicates.
+   */
+  async emitBatch(events: MeshEvent[]): Promise<EmitBatchResult> {
+    if (events.length === 0) return { inserted: 0, duplicates: 0 };
+
+    const seen = new Set<string>();
+    const unique = events.filter((e) => {
+      if (!e.idempotencyKey) return true;
+      if (seen.has(e.idempotencyKey)) return false;
+      seen.add(e.idempotencyKey);
+      return true;
+    });
+    const batchDuplicates = events.length - unique.length;
 
     const values: unknown[] = [];
     const placeholders: string[] = [];
 
-    events.forEach((e, i) => {
+    unique.forEach((e, i) => {
       const o = i * 8;
       placeholders.push(
-        `($${o + 1}, $${o + 2}, $${o + 3}, $${o + 4}, $${o + 5}, $${o + 6}, $${o + 7}, $${o + 8})`
+        seen.size > 0
+          ? `($${o + 1}::text, $${o + 2}::uuid, $${o + 3}::text, $${o + 4}::text, $${o + 5}::int, $${o + 6}::jsonb, $${o + 7}::text, $${o + 8}::text)`
+          : `($${o + 1}, $${o + 2}, $${o + 3}, $${o + 4}, $${o + 5}, $${o + 6}, $${o + 7}, $${o + 8})`
       );
       values.push(
         e.traceId,
@@ -68,13 +134,39 @@ export class EventLog {
       );
     });
 
-    await this.pool.query(
-      `INSERT INTO mesh_six_events
-         (trace_id, task_id, agent_id, event_type, event_version,
-          payload, aggregate_id, idempotency_key)
-       VALUES ${placeholders.join(", ")}`,
+    if (seen.size === 0) {
+      await this.pool.query(
+        `INSERT INTO mesh_six_events
+           (${EVENT_COLUMNS})
+         VALUES ${placeholders.join(", ")}`,
+        values
+      );
+      return { inserted: unique.length, duplicates: 0 };
+    }
+
+    const { rows } = await this.pool.query<{ seq: string | number }>(
+      `WITH input (${EVENT_COLUMNS}) AS (
+         VALUES ${placeholders.join(", ")}
+       ),
+       claimed AS (
+         INSERT INTO mesh_six_event_keys (idempotency_key)
+         SELECT idempotency_key FROM input WHERE idempotency_key IS NOT NULL
+         ON CONFLICT DO NOTHING
+         RETURNING idempotency_key
+       )
+       INSERT INTO mesh_six_events
+         (${EVENT_COLUMNS})
+       SELECT ${EVENT_COLUMNS} FROM input
+       WHERE idempotency_key IS NULL
+          OR idempotency_key IN (SELECT idempotency_key FROM claimed)
+       RETURNING seq`,
       values
     );
+
+    return {
+      inserted: rows.length,
+      duplicates: batchDuplicates + (unique.length - rows.length),
+    };
   }
 
   async query(opts: EventQueryOpts): Promise<(MeshEvent & { seq: number })[]> {
@@ -127,6 +219,78 @@ export class EventLog {
     }));
   }
 
+  /**
+   * Read events strictly after a sequence number, in log order. Used by
+   * projection runners to page through the log from a checkpoint.
+   *
+   * Seqs are drawn before commit, so a lower seq can become visible after a
+   * higher one has been read. With `settleMs`, reading stops before the first
+   * event appended within that window, keeping a checkpoint from passing an
+   * event whose transaction is still open.
+   */
+  async readAfter(
+    afterSeq: number,
+    opts: { limit?: number; eventTypes?: string[]; untilSeq?: number; settleMs?: number } = {}
+  ): Promise<StoredEvent[]> {
+    const params: unknown[] = [afterSeq];
+    const conditions = ["seq > $1"];
+
+    if (opts.eventTypes && opts.eventTypes.length > 0) {
+      params.push(opts.eventTypes);
+      conditions.push(`event_type = ANY($${params.length})`);
+    }
+    if (opts.untilSeq != null) {
+      params.push(opts.untilSeq);
+      conditions.push(`seq <= $${params.length}`);
+    }
+    if (opts.settleMs != null && opts.settleMs > 0) {
+      params.push(opts.settleMs);
+      conditions.push(
+        `NOT EXISTS (
+           SELECT 1 FROM mesh_six_events recent
+           WHERE recent.seq > $1 AND recent.seq <= mesh_six_events.seq
+             AND recent.timestamp > NOW() - $${params.length} * INTERVAL '1 millisecond'
+         )`
+      );
+    }
+    params.push(opts.limit ?? 500);
+
+    const { rows } = await this.pool.query<{
+      seq: string | number;
+      timestamp: Date;
+      trace_id: string;
+      task_id: string | null;
+      agent_id: string;
+      event_type: string;
+      event_version: number;
+      payload: Record<string, unknown>;
+      aggregate_id: string | null;
+      idempotency_key: string | null;
+    }>(
+      `SELECT seq, timestamp, trace_id, task_id, agent_id, event_type, event_version,
+              payload, aggregate_id, idempotency_key
+       FROM mesh_six_events
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY seq ASC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return rows.map((r) => ({
+      // BIGSERIAL comes back from pg as a string
+      seq: Number(r.seq),
+      timestamp: new Date(r.timestamp).toISOString(),
+      traceId: r.trace_id,
+      taskId: r.task_id ?? undefined,
+      agentId: r.agent_id,
+      eventType: r.event_type,
+      eventVersion: r.event_version,
+      payload: r.payload,
+      aggregateId: r.aggregate_id ?? undefined,
+      idempotencyKey: r.idempotency_key ?? undefined,
+    }));
+  }
+
   async replay(aggregateId: string, afterSeq?: number): Promise<(MeshEvent & { seq: number })[]> {
     const params: unknown[] = [aggregateId];
     let seqFilter = "";
@@ -15,6 +15,9 @@ import {
   getLatestCommit,
   stash,
   stashPop,
+  snapshotWorktree,
+  restoreWorktreeSnapshot,
+  deleteRefs,
   GitError,
 } from "./git.js";
 
@@ -480,3 +483,61 @@ describe("stash and stashPop", () => {
     expect(status.clean).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// snapshotWorktree / restoreWorktreeSnapshot
+// ---------------------------------------------------------------------------
+
+describe("snapshotWorktree and restoreWorktreeSnapshot", () => {
+  let repoDir: string;
+
+  beforeAll(async () => {
+    repoDir = mkTmp("git-snapshot-repo");
+    await initRepo(repoDir);
+  });
+
+  afterAll(() => {
+    if (existsSync(repoDir)) rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("captures uncommitted and untracked changes without touching the worktree", async () => {
+    writeFileSync(join(repoDir, "README.md"), "# edited\n");
+    writeFileSync(join(repoDir, "notes.txt"), "draft\n");
+
+    const snapshot = await snapshotWorktree(repoDir, "refs/mesh-six/checkpoints/s1/1", "checkpoint 1");
+
+    expect(snapshot.head).toBe((await getLatestCommit(repoDir)).hash);
+    expect(snapshot.commit).not.toBe(snapshot.head);
+    const status = await getStatus(repoDir);
+    expect(status.modified).toContain("README.md");
+    expect(status.untracked).toContain("notes.txt");
+    expect(status.staged).toHaveLength(0);
+  });
+
+  it("rewinds later commits and restores the snapshot's changes", async () => {
+    const snapshot = await snapshotWorktree(repoDir, "refs/mesh-six/checkpoints/s1/2", "checkpoint 2");
+
+    await runGit(["add", "."], repoDir);
+    await runGit(["commit", "-m", "off the rails"], repoDir);
+    writeFileSync(join(repoDir, "junk.txt"), "junk\n");
+
+    await restoreWorktreeSnapshot(repoDir, snapshot);
+
+    expect((await getLatestCommit(repoDir)).hash).toBe(snapshot.head);
+    expect(await Bun.file(join(repoDir, "README.md")).text()).toBe("# edited\n");
+    expect(existsSync(join(repoDir, "junk.txt"))).toBe(false);
+    const status = await getStatus(repoDir);
+    expect(status.modified).toEqual(["README.md"]);
+    expect(status.untracked).toEqual(["notes.txt"]);
+  });
+
+  it("deleteRefs removes only the refs under the prefix", async () => {
+    await snapshotWorktree(repoDir, "refs/mesh-six/checkpoints/s2/1", "other session");
+
+    expect(await deleteRefs(repoDir, "refs/mesh-six/checkpoints/s1/")).toBe(2);
+
+    const refs = Bun.spawnSync(["git", "for-each-ref", "--format=%(refname)", "refs/mesh-six/"], { cwd: repoDir });
+    expect(refs.stdout.toString().trim()).toBe("refs/mesh-six/checkpoints/s2/1");
+    expect(await deleteRefs(repoDir, "refs/mesh-six/checkpoints/s1/")).toBe(0);
+  });
+});
@@ -4,6 +4,9 @@
  * Ported from GWA src/lib/git.ts, adapted for mesh-six.
  */
 
+import { rmSync } from "fs";
+import { join } from "path";
+
 export interface WorktreeInfo {
   path: string;
   branch: string;
@@ -19,6 +22,15 @@ export interface GitStatus {
   clean: boolean;
 }
 
+export interface WorktreeSnapshot {
+  /** HEAD commit when the snapshot was taken */
+  head: string;
+  /** Commit whose tree is the full working tree (tracked and untracked, ignored files excluded) */
+  commit: string;
+  /** Ref that keeps the snapshot commit from being garbage collected */
+  ref: string;
+}
+
 export interface CloneOptions {
   branch?: string;
   depth?: number;
@@ -41,9 +53,10 @@ export class GitError extends Error {
 // Internal helper
 // ---------------------------------------------------------------------------
 
-async function exec(args: string[], cwd?: string): Promise<string> {
+async function exec(args: string[], cwd?: string, env?: Record<string, string>): Promise<string> {
   const proc = Bun.spawn(["git", ...args], {
     cwd,
+    env: env ? { ...process.env, ...env } : undefined,
     stdout: "pipe",
     stderr: "pipe",
   });
@@ -301,3 +314,69 @@ export async function getLatestCommit(
     message: lines[1]?.trim() ?? "",
   };
 }
+
+/**
+ * Record the full working tree (staged, unstaged and untracked changes) as a
+ * commit on top of HEAD, stored under `ref`. Unlike `stash`, the working tree,
+ * index and stash list are left untouched.
+ */
+export async function snapshotWorktree(
+  repoDir: string,
+  ref: string,
+  message: string
+): Promise<WorktreeSnapshot> {
+  const head = (await exec(["rev-parse", "HEAD"], repoDir)).trim();
+  const gitDir = (await exec(["rev-parse", "--absolute-git-dir"], repoDir)).trim();
+
+  // Stage everything into a throwaway index so the real one is not disturbed
+  const indexEnv = { GIT_INDEX_FILE: join(gitDir, `snapshot-${process.pid}-${Date.now()}.index`) };
+  let tree: string;
+  try {
+    await exec(["read-tree", head], repoDir, indexEnv);
+    await exec(["add", "-A"], repoDir, indexEnv);
+    tree = (await exec(["write-tree"], repoDir, indexEnv)).trim();
+  } finally {
+    rmSync(indexEnv.GIT_INDEX_FILE, { force: true });
+  }
+
+  const commit = (
+    await exec(["commit-tree", tree, "-p", head, "-m", message], repoDir, {
+      GIT_AUTHOR_NAME: "mesh-six",
+      GIT_AUTHOR_EMAIL: "mesh-six@localhost",
+      GIT_COMMITTER_NAME: "mesh-six",
+      GIT_COMMITTER_EMAIL: "mesh-six@localhost",
+    })
+  ).trim();
+  await exec(["update-ref", ref, commit], repoDir);
+
+  return { head, commit, ref };
+}
+
+/**
+ * Reset the checked-out branch to the snapshot's HEAD and restore its working
+ * tree. Commits made since the snapshot are dropped from the branch; changes
+ * that were uncommitted at snapshot time come back as unstaged changes.
+ */
+export async function restoreWorktreeSnapshot(
+  repoDir: string,
+  snapshot: Pick<WorktreeSnapshot, "head" | "commit">
+): Promise<void> {
+  await exec(["reset", "--hard", snapshot.head], repoDir);
+  await exec(["clean", "-fd"], repoDir);
+  await exec(["read-tree", "-u", "--reset", snapshot.commit], repoDir);
+  await exec(["reset", "-q", snapshot.head], repoDir);
+}
+
+/**
+ * Delete every ref under `prefix` (e.g. a session's snapshot refs), letting
+ * the commits they kept alive be garbage-collected. Returns the number removed.
+ */
+export async function deleteRefs(repoDir: string, prefix: string): Promise<number> {
+  const refs = (await exec(["for-each-ref", "--format=%(refname)", prefix], repoDir))
+    .split("\n")
+    .filter(Boolean);
+  for (const ref of refs) {
+    await exec(["update-ref", "-d", ref], repoDir);
+  }
+  return refs.length;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, mock, afterEach } from "bun:test";
+import { HealthProbeCache } from "./health-probe.js";
+
+const originalFetch = globalThis.fetch;
+
+function stubFetch(ok: boolean | (() => boolean)) {
+  const fn = mock(() =>
+    Promise.resolve({ ok: typeof ok === "function" ? ok() : ok } as Response)
+  );
+  globalThis.fetch = fn as any;
+  return fn;
+}
+
+describe("HealthProbeCache", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("probes unknown URLs and caches fresh results", async () => {
+    const fetchMock = stubFetch(true);
+    const cache = new HealthProbeCache({ ttlMs: 60_000 });
+
+    expect(await cache.check("http://a/health")).toBe(true);
+    expect(await cache.check("http://a/health")).toBe(true);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cache.stats()).toMatchObject({ entries: 1, hits: 1, misses: 1, probes: 1 });
+  });
+
+  it("treats non-OK responses and errors as unhealthy", async () => {
+    stubFetch(false);
+    const cache = new HealthProbeCache();
+    expect(await cache.check("http://a/health")).toBe(false);
+
+    globalThis.fetch = mock(() => Promise.reject(new Error("refused"))) as any;
+    expect(await cache.check("http://b/health")).toBe(false);
+    expect(cache.stats().probeFailures).toBe(2);
+  });
+
+  it("serves stale results while refreshing in the background", async () => {
+    let healthy = true;
+    const fetchMock = stubFetch(() => healthy);
+    const cache = new HealthProbeCache({ ttlMs: 0 });
+
+    expect(await cache.check("http://a/health")).toBe(true);
+    await Bun.sleep(2);
+    healthy = false;
+
+    // Stale: returns the cached value, refresh picks up the new one
+    expect(await cache.check("http://a/health")).toBe(true);
+    await Bun.sleep(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(cache.stats().staleHits).toBe(1);
+    expect(await cache.check("http://a/health")).toBe(false);
+  });
+
+  it("shares one probe between concurrent requests", async () => {
+    const fetchMock = stubFetch(true);
+    const cache = new HealthProbeCache();
+
+    const results = await cache.checkAll(["http://a/health", "http://a/health", "http://b/health"]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect([...results.entries()]).toEqual([
+      ["http://a/health", true],
+      ["http://b/health", true],
+    ]);
+  });
+
+  it("reports staleness of cached data", async () => {
+    stubFetch(true);
+    const cache = new HealthProbeCache({ ttlMs: 1 });
+    await cache.check("http://a/health");
+    await Bun.sleep(5);
+
+    const stats = cache.stats();
+    expect(stats.staleEntries).toBe(1);
+    expect(stats.maxAgeMs).toBeGreaterThanOrEqual(1);
+  });
+
+  it("invalidate forces a new probe", async () => {
+    const fetchMock = stubFetch(true);
+    const cache = new HealthProbeCache({ ttlMs: 60_000 });
+    await cache.check("http://a/health");
+    cache.invalidate("http://a/health");
+    await cache.check("http://a/health");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
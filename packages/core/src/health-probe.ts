@@ -0,0 +1,172 @@
+const DEFAULT_TTL_MS = 15_000;
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_REFRESH_INTERVAL_MS = 10_000;
+/** Entries not requested for this many TTLs are dropped by the refresh loop */
+const EVICT_AFTER_TTLS = 20;
+
+export interface HealthProbeOptions {
+  /** How long a probe result is considered fresh */
+  ttlMs?: number;
+  /** Per-probe request timeout */
+  timeoutMs?: number;
+  /** Background refresh interval (see `start`) */
+  refreshIntervalMs?: number;
+}
+
+export interface HealthProbeStats {
+  entries: number;
+  /** Entries older than the TTL */
+  staleEntries: number;
+  /** Age of the oldest cached result in ms (0 when empty) */
+  maxAgeMs: number;
+  meanAgeMs: number;
+  hits: number;
+  misses: number;
+  /** Stale results served while a refresh ran in the background */
+  staleHits: number;
+  probes: number;
+  probeFailures: number;
+}
+
+interface ProbeEntry {
+  healthy: boolean;
+  checkedAt: number;
+  lastRequestedAt: number;
+}
+
+/**
+ * Shared cache of dependency health-check results.
+ *
+ * Fresh results are served from memory; stale results are served immediately
+ * while a refresh runs in the background (stale-while-revalidate); unknown
+ * URLs are probed on demand. Concurrent requests for the same URL share one
+ * probe. `start()` keeps recently used URLs warm on an interval so dispatch
+ * rarely waits on a health check.
+ */
+export class HealthProbeCache {
+  private entries = new Map<string, ProbeEntry>();
+  private inFlight = new Map<string, Promise<boolean>>();
+  private refreshTimer: Timer | null = null;
+  private counters = { hits: 0, misses: 0, staleHits: 0, probes: 0, probeFailures: 0 };
+
+  private readonly ttlMs: number;
+  private readonly timeoutMs: number;
+  private readonly refreshIntervalMs: number;
+
+  constructor(options: HealthProbeOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+  }
+
+  /** Health of a single URL. */
+  async check(url: string): Promise<boolean> {
+    const now = Date.now();
+    const entry = this.entries.get(url);
+
+    if (entry) {
+      entry.lastRequestedAt = now;
+      if (now - entry.checkedAt <= this.ttlMs) {
+        this.counters.hits++;
+      } else {
+        this.counters.staleHits++;
+        void this.probe(url);
+      }
+      return entry.healthy;
+    }
+
+    this.counters.misses++;
+    return this.probe(url);
+  }
+
+  /** Health of many URLs, probed concurrently. */
+  async checkAll(urls: string[]): Promise<Map<string, boolean>> {
+    const unique = [...new Set(urls)];
+    const results = await Promise.all(unique.map(async (url) => [url, await this.check(url)] as const));
+    return new Map(results);
+  }
+
+  /** Drop a cached result (e.g. after an operator fixes a dependency). */
+  invalidate(url?: string): void {
+    if (url === undefined) this.entries.clear();
+    else this.entries.delete(url);
+  }
+
+  /** Start refreshing cached URLs in the background. */
+  start(): void {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setInterval(() => void this.refresh(), this.refreshIntervalMs);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /** Re-probe every cached URL that is still in use; evict the rest. */
+  async refresh(): Promise<void> {
+    const now = Date.now();
+    const urls: string[] = [];
+    for (const [url, entry] of this.entries) {
+      if (now - entry.lastRequestedAt > this.ttlMs * EVICT_AFTER_TTLS) {
+        this.entries.delete(url);
+      } else {
+        urls.push(url);
+      }
+    }
+    await Promise.all(urls.map((url) => this.probe(url)));
+  }
+
+  stats(): HealthProbeStats {
+    const now = Date.now();
+    let maxAgeMs = 0;
+    let totalAgeMs = 0;
+    let staleEntries = 0;
+
+    for (const entry of this.entries.values()) {
+      const age = now - entry.checkedAt;
+      maxAgeMs = Math.max(maxAgeMs, age);
+      totalAgeMs += age;
+      if (age > this.ttlMs) staleEntries++;
+    }
+
+    return {
+      entries: this.entries.size,
+      staleEntries,
+      maxAgeMs,
+      meanAgeMs: this.entries.size > 0 ? totalAgeMs / this.entries.size : 0,
+      ...this.counters,
+    };
+  }
+
+  private probe(url: string): Promise<boolean> {
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const promise = (async () => {
+      this.counters.probes++;
+      let healthy: boolean;
+      try {
+        const res = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+        healthy = res.ok;
+      } catch {
+        healthy = false;
+      }
+      if (!healthy) this.counters.probeFailures++;
+
+      const now = Date.now();
+      const previous = this.entries.get(url);
+      this.entries.set(url, {
+        healthy,
+        checkedAt: now,
+        lastRequestedAt: previous?.lastRequestedAt ?? now,
+      });
+      return healthy;
+    })().finally(() => this.inFlight.delete(url));
+
+    this.inFlight.set(url, promise);
+    return promise;
+  }
+}
@@ -28,17 +28,27 @@ export {
   ProvisionRequestSchema,
   ProvisionResponseSchema,
   CredentialHealthSchema,
+  CredentialPoolPolicySchema,
+  PoolMemberRefSchema,
+  CredentialProblemReportSchema,
   type ProjectConfig,
   type CredentialPushRequest,
   type ProjectCredential,
   type ProvisionRequest,
   type ProvisionResponse,
   type CredentialHealth,
+  type CredentialPoolPolicy,
+  type PoolMemberRef,
+  type CredentialProblemReport,
   // Implementation session types
   ImplementationSessionSchema,
   SessionQuestionSchema,
   type ImplementationSession,
   type SessionQuestion,
+  SessionHookEventSchema,
+  type SessionHookEvent,
+  ImplementerCapacitySchema,
+  type ImplementerCapacity,
   // Auth service constants
   AUTH_SERVICE_APP_ID,
   CREDENTIAL_REFRESHED_TOPIC,
@@ -46,10 +56,58 @@ export {
 } from "./types.js";
 
 // Registry
-export { AgentRegistry } from "./registry.js";
+export {
+  AgentRegistry,
+  IndexConflictError,
+  REGISTRY_EVENTS_TOPIC,
+  type AgentInstanceReport,
+  type AgentRegistryOptions,
+  type RegistryChangeEvent,
+  type RegistryChangeType,
+} from "./registry.js";
 
 // Scoring
-export { AgentScorer } from "./scoring.js";
+export { AgentScorer, type AgentScorerOptions, type ScoreOptions } from "./scoring.js";
+export {
+  DEFAULT_SCORING_STRATEGY,
+  baseFactors,
+  weightedSuccessStrategy,
+  latencyWeightedStrategy,
+  leastLoadedStrategy,
+  costAwareStrategy,
+  epsilonGreedyStrategy,
+  builtinStrategies,
+  loadScoringConfigFromEnv,
+  type ScoringStrategy,
+  type ScoringInput,
+  type ScoringConfig,
+  type StrategyScore,
+  type TaskHistorySample,
+} from "./scoring-strategies.js";
+export {
+  HealthProbeCache,
+  type HealthProbeOptions,
+  type HealthProbeStats,
+} from "./health-probe.js";
+
+// Capability versions & contracts
+export {
+  DEFAULT_CAPABILITY_VERSION,
+  parseSemver,
+  isValidSemver,
+  compareSemver,
+  satisfies,
+  parseCapabilityRef,
+  type SemVer,
+} from "./semver.js";
+export {
+  zodToJsonSchema,
+  validateJsonSchema,
+  capabilityVersion,
+  capabilityMatches,
+  resolveContract,
+  type JsonSchema,
+} from "./contracts.js";
 
 // Memory
 export {
@@ -88,12 +146,46 @@ export const DAPR_PUBSUB_NAME = "agent-pubsub";
 export const DAPR_STATE_STORE = "agent-statestore";
 export const TASK_RESULTS_TOPIC = "task-results";
 
+// Task control (cancellation, progress/lease renewal)
+export {
+  TASK_PROGRESS_TOPIC,
+  TASK_CONTROL_TOPIC_PREFIX,
+  taskControlTopic,
+  TaskProgressSchema,
+  TaskCancelMessageSchema,
+  TaskCancelledError,
+  CancelToken,
+  TaskCancellations,
+  publishTaskProgress,
+  startTaskProgress,
+  taskProgressIntervalMs,
+  type TaskProgress,
+  type TaskProgressOptions,
+  type TaskCancelMessage,
+} from "./task-control.js";
+
 // Event Log
 export {
   EventLog,
   type MeshEvent,
   type EventQueryOpts,
+  type StoredEvent,
+  type EmitResult,
+  type EmitBatchResult,
 } from "./events.js";
+export {
+  ProjectionRunner,
+  taskTimelineProjection,
+  agentStatsProjection,
+  issueLifecycleProjection,
+  builtinProjections,
+  type Projection,
+  type ProjectionStatus,
+  type ProjectionRunnerOptions,
+  type TaskTimelineState,
+  type AgentStatsState,
+  type IssueLifecycleState,
+} from "./projections.js";
 
 // LLM utility (replaces Vercel AI SDK)
 export {
@@ -101,6 +193,7 @@ export {
   chatCompletionWithSchema,
   tracedChatCompletion,
   tool,
+  toolDefinitions,
   LITELLM_BASE_URL,
   LITELLM_API_KEY,
   type ChatCompletionOpts,
@@ -108,12 +201,31 @@ export {
   type ChatCompletionWithSchemaOpts,
   type ChatCompletionWithSchemaResult,
   type TraceContext,
+  type ToolExecuteOpts,
 } from "./llm.js";
 
+// LLM response cache
+export {
+  LLMCache,
+  InMemoryLLMCacheStore,
+  PgLLMCacheStore,
+  ollamaEmbedder,
+  cosineSimilarity,
+  type LLMCacheStore,
+  type LLMCacheEntry,
+  type LLMCacheOptions,
+  type LLMCacheRequest,
+  type LLMCacheInvalidation,
+  type LLMCacheMatch,
+  type LLMCacheHit,
+  type Embedder,
+} from "./llm-cache.js";
+
 // Claude Code CLI auth & config
 export {
   preloadClaudeConfig,
   detectAuthFailure,
+  detectRateLimit,
   checkAuthEnvironment,
   ClaudeAuthError,
 } from "./claude.js";
@@ -126,7 +238,21 @@ export {
   KNOWN_DIALOGS,
   DIALOG_ANALYSIS_PROMPT,
   ClaudeDialogError,
+  DialogRuleRegistry,
+  DialogRuleError,
+  InMemoryDialogRuleStore,
+  PgDialogRuleStore,
+  builtinDialogRules,
+  parseDialogRules,
+  deriveDialogRule,
   type DialogResponse,
+  type DialogRule,
+  type DialogRuleStatus,
+  type DialogRuleSource,
+  type DialogRuleMatch,
+  type DialogRuleHits,
+  type DialogRuleEdits,
+  type DialogRuleStore,
 } from "./dialog-handler.js";
 
 // Credential utilities (Claude CLI auth file helpers)
@@ -156,19 +282,35 @@ export {
   LLM_ACTOR_TYPE,
   LLM_CONFIG_KEYS,
   ChatMessageSchema,
+  ToolCallSchema,
+  ToolDefinitionSchema,
+  ToolChoiceSchema,
   ChatCompletionRequestSchema,
   ChatCompletionResponseSchema,
+  ChatCompletionChunkSchema,
   ActorStatusSchema,
   ActorInfoSchema,
   LLMServiceStatusSchema,
   CLIHookEventSchema,
+  LLMSessionSchema,
+  LLMUsageGroupBySchema,
+  LLMUsageTotalsSchema,
+  LLMUsageSummarySchema,
   type ChatMessage,
+  type ToolCall,
+  type ToolDefinition,
+  type ToolChoice,
   type ChatCompletionRequest,
   type ChatCompletionResponse,
+  type ChatCompletionChunk,
   type ActorStatus,
   type ActorInfo,
   type LLMServiceStatus,
   type CLIHookEvent,
+  type LLMSession,
+  type LLMUsageGroupBy,
+  type LLMUsageTotals,
+  type LLMUsageSummary,
 } from "./llm-service.js";
 
 // PR and issue filtering
@@ -195,9 +337,13 @@ export {
   stashPop,
   getCurrentBranch,
   getLatestCommit,
+  snapshotWorktree,
+  restoreWorktreeSnapshot,
+  deleteRefs,
   GitError,
   type WorktreeInfo,
   type GitStatus,
+  type WorktreeSnapshot,
   type CloneOptions,
 } from "./git.js";
 
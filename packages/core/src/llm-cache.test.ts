@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import { LLMCache, InMemoryLLMCacheStore, cosineSimilarity } from "./llm-cache.js";
+import { chatCompletion } from "./llm.js";
+
+const request = (content: string, variant?: unknown) => ({
+  model: "gpt-4o",
+  messages: [{ role: "user", content }],
+  temperature: 0,
+  variant,
+});
+
+describe("LLMCache", () => {
+  it("only caches temperature 0 calls", () => {
+    expect(LLMCache.isCacheable({ temperature: 0 })).toBe(true);
+    expect(LLMCache.isCacheable({ temperature: 0.2 })).toBe(false);
+    expect(LLMCache.isCacheable({})).toBe(false);
+  });
+
+  it("keys on model, messages and variant with stable key order", () => {
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "t", ttlMs: 60_000 });
+
+    expect(cache.keyFor(request("a", { x: 1, y: 2 }))).toBe(cache.keyFor(request("a", { y: 2, x: 1 })));
+    expect(cache.keyFor(request("a"))).not.toBe(cache.keyFor(request("b")));
+    expect(cache.keyFor(request("a"))).not.toBe(cache.keyFor(request("a", { maxTokens: 10 })));
+  });
+
+  it("returns exact hits until the entry expires", async () => {
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "t", ttlMs: 60_000 });
+
+    await cache.store(request("q"), { text: "answer" });
+    expect(await cache.lookup(request("q"))).toMatchObject({ match: "exact", response: { text: "answer" } });
+
+    await cache.store(request("short"), { text: "x" }, -1);
+    expect(await cache.lookup(request("short"))).toBeNull();
+  });
+
+  it("matches similar prompts only within the same variant", async () => {
+    const vectors: Record<string, number[]> = {
+      "user: capital of France?": [1, 0, 0],
+      "user: what is the capital of France?": [0.99, 0.05, 0],
+      "user: write a poem": [0, 1, 0],
+    };
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), {
+      namespace: "t",
+      ttlMs: 60_000,
+      embed: async (text) => vectors[text] ?? [0, 0, 1],
+      similarityThreshold: 0.95,
+    });
+    await cache.store(request("capital of France?"), { text: "Paris" }, undefined, "similar");
+
+    const hit = await cache.lookup(request("what is the capital of France?"), "similar");
+    expect(hit?.match).toBe("similar");
+    expect(hit?.response).toEqual({ text: "Paris" });
+
+    expect(await cache.lookup(request("what is the capital of France?"), "exact")).toBeNull();
+    expect(await cache.lookup(request("what is the capital of France?", { json: true }), "similar")).toBeNull();
+    expect(await cache.lookup(request("write a poem"), "similar")).toBeNull();
+  });
+
+  it("only embeds prompts in similarity mode", async () => {
+    const embedded: string[] = [];
+    const embed = async (text: string) => {
+      embedded.push(text);
+      return [1, 0];
+    };
+    const exact = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "t", ttlMs: 60_000, embed });
+    await exact.store(request("a"), { text: "1" });
+    await exact.lookup(request("b"));
+    expect(embedded).toEqual([]);
+
+    const similar = new LLMCache(new InMemoryLLMCacheStore(), {
+      namespace: "t",
+      ttlMs: 60_000,
+      embed,
+      defaultMode: "similar",
+    });
+    await similar.store(request("a"), { text: "1" });
+    expect(await similar.lookup(request("b"))).toMatchObject({ match: "similar" });
+    expect(embedded).toEqual(["user: a", "user: b"]);
+  });
+
+  it("purges expired entries", async () => {
+    const store = new InMemoryLLMCacheStore();
+    const cache = new LLMCache(store, { namespace: "t", ttlMs: 60_000 });
+    await cache.store(request("old"), { text: "1" }, -1);
+    await new LLMCache(store, { namespace: "other", ttlMs: -1 }).store(request("old"), { text: "2" });
+    await cache.store(request("fresh"), { text: "3" });
+
+    expect(await cache.purgeExpired()).toBe(2);
+    expect(await cache.lookup(request("fresh"))).toMatchObject({ match: "exact" });
+  });
+
+  it("invalidates by key or model", async () => {
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "t", ttlMs: 60_000 });
+    const key = await cache.store(request("a"), { text: "1" });
+    await cache.store(request("b"), { text: "2" });
+    await cache.store({ ...request("c"), model: "other" }, { text: "3" });
+
+    expect(await cache.invalidate({ key })).toBe(1);
+    expect(await cache.invalidate({ model: "gpt-4o" })).toBe(1);
+    expect(await cache.invalidate()).toBe(1);
+  });
+
+  it("computes cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1], [1, 0])).toBe(0);
+  });
+});
+
+describe("chatCompletion with a cache", () => {
+  afterEach(() => {
+    (globalThis.fetch as any).mockRestore?.();
+  });
+
+  it("serves repeat temperature 0 calls from the cache", async () => {
+    let calls = 0;
+    spyOn(globalThis, "fetch").mockImplementation((async () => {
+      calls++;
+      return new Response(
+        JSON.stringify({ choices: [{ message: { content: "hello" }, finish_reason: "stop" }] }),
+      );
+    }) as unknown as typeof fetch);
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "litellm", ttlMs: 60_000 });
+
+    const first = await chatCompletion({ model: "m", prompt: "hi", temperature: 0, cache });
+    const second = await chatCompletion({ model: "m", prompt: "hi", temperature: 0, cache });
+    await chatCompletion({ model: "m", prompt: "hi", temperature: 0.7, cache });
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ text: "hello", cached: true });
+    expect(calls).toBe(2);
+  });
+});
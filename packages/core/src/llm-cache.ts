@@ -0,0 +1,426 @@
+import { createHash } from "crypto";
+import type { Pool } from "pg";
+
+// ============================================================================
+// LLM RESPONSE CACHE
+// ============================================================================
+//
+// Opt-in cache for deterministic (temperature 0) completions, used by core
+// `chatCompletion` and by llm-service. Entries are keyed on a hash of the
+// model, the messages and the output contract (response format, tools, ...).
+// In similarity mode a miss on the exact key falls back to the nearest
+// cached prompt by embedding cosine similarity within the same model and
+// output contract.
+
+export interface LLMCacheEntry<T = unknown> {
+  key: string;
+  namespace: string;
+  model: string;
+  /** Hash of the non-message parameters; similar prompts only match within one variant */
+  variant: string;
+  response: T;
+  embedding?: number[];
+  hits: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LLMCacheInvalidation {
+  key?: string;
+  model?: string;
+}
+
+/** Storage backend for LLMCache */
+export interface LLMCacheStore {
+  get(key: string): Promise<LLMCacheEntry | null>;
+  set(entry: LLMCacheEntry): Promise<void>;
+  /** Unexpired entries with embeddings for one namespace/model/variant */
+  candidates(namespace: string, model: string, variant: string, limit: number): Promise<LLMCacheEntry[]>;
+  recordHit(key: string): Promise<void>;
+  /** Remove matching entries in a namespace; returns how many were removed */
+  invalidate(namespace: string, filter: LLMCacheInvalidation): Promise<number>;
+  /** Remove expired entries in every namespace; returns how many were removed */
+  purgeExpired(): Promise<number>;
+}
+
+export type Embedder = (text: string) => Promise<number[]>;
+
+export interface LLMCacheOptions {
+  /** Separates caches that store different response shapes (e.g. "litellm", "llm-service") */
+  namespace: string;
+  /** Default entry TTL */
+  ttlMs: number;
+  /** Enables similarity lookups */
+  embed?: Embedder;
+  /**
+   * Match mode when a call does not pass one (default "exact"). Prompts are
+   * only embedded in "similar" mode, so exact-only traffic never calls `embed`.
+   */
+  defaultMode?: LLMCacheMatch;
+  /** Minimum cosine similarity for a similar hit (default 0.97) */
+  similarityThreshold?: number;
+  /** How many recent entries to compare against (default 500) */
+  maxCandidates?: number;
+}
+
+export interface LLMCacheRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+  /** Anything else that shapes the output (response format, schema, tools, max tokens) */
+  variant?: unknown;
+}
+
+export type LLMCacheMatch = "exact" | "similar";
+
+export interface LLMCacheHit<T> {
+  response: T;
+  match: LLMCacheMatch;
+  key: string;
+  similarity?: number;
+}
+
+export class LLMCache {
+  private similarityThreshold: number;
+  private maxCandidates: number;
+
+  constructor(
+    private backend: LLMCacheStore,
+    private opts: LLMCacheOptions,
+  ) {
+    this.similarityThreshold = opts.similarityThreshold ?? 0.97;
+    this.maxCandidates = opts.maxCandidates ?? 500;
+  }
+
+  /** Only temperature 0 calls are deterministic enough to cache. */
+  static isCacheable(request: Pick<LLMCacheRequest, "temperature">): boolean {
+    return request.temperature === 0;
+  }
+
+  /** Exact-match key for a request. */
+  keyFor(request: LLMCacheRequest): string {
+    return sha256(
+      stableStringify({
+        namespace: this.opts.namespace,
+        model: request.model,
+        messages: request.messages.map((m) => [m.role, m.content]),
+        variant: request.variant ?? null,
+      }),
+    );
+  }
+
+  async lookup<T>(
+    request: LLMCacheRequest,
+    mode: LLMCacheMatch = this.opts.defaultMode ?? "exact",
+  ): Promise<LLMCacheHit<T> | null> {
+    const key = this.keyFor(request);
+    const exact = await this.backend.get(key);
+    if (exact && !isExpired(exact)) {
+      await this.backend.recordHit(key);
+      return { response: exact.response as T, match: "exact", key };
+    }
+
+    if (mode !== "similar" || !this.opts.embed) return null;
+
+    const embedding = await this.opts.embed(promptText(request));
+    const candidates = await this.backend.candidates(
+      this.opts.namespace,
+      request.model,
+      variantHash(request),
+      this.maxCandidates,
+    );
+
+    let best: { entry: LLMCacheEntry; similarity: number } | null = null;
+    for (const entry of candidates) {
+      if (!entry.embedding || isExpired(entry)) continue;
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+    if (!best) return null;
+
+    await this.backend.recordHit(best.entry.key);
+    return { response: best.entry.response as T, match: "similar", key: best.entry.key, similarity: best.similarity };
+  }
+
+  /**
+   * Store a response. The prompt is embedded only in "similar" mode, so the
+   * entry can serve later similarity lookups.
+   */
+  async store<T>(
+    request: LLMCacheRequest,
+    response: T,
+    ttlMs = this.opts.ttlMs,
+    mode: LLMCacheMatch = this.opts.defaultMode ?? "exact",
+  ): Promise<string> {
+    const key = this.keyFor(request);
+    const now = Date.now();
+
+    let embedding: number[] | undefined;
+    if (mode === "similar" && this.opts.embed) {
+      try {
+        embedding = await this.opts.embed(promptText(request));
+      } catch (err) {
+        console.warn(`[LLMCache] Embedding failed, storing exact-match only:`, err);
+      }
+    }
+
+    await this.backend.set({
+      key,
+      namespace: this.opts.namespace,
+      model: request.model,
+      variant: variantHash(request),
+      response,
+      embedding,
+      hits: 0,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    });
+    return key;
+  }
+
+  invalidate(filter: LLMCacheInvalidation = {}): Promise<number> {
+    return this.backend.invalidate(this.opts.namespace, filter);
+  }
+
+  /** Delete expired entries (all namespaces); run periodically by the owning service. */
+  purgeExpired(): Promise<number> {
+    return this.backend.purgeExpired();
+  }
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/** Process-local store, bounded to `maxEntries` (oldest evicted first). */
+export class InMemoryLLMCacheStore implements LLMCacheStore {
+  private entries = new Map<string, LLMCacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string): Promise<LLMCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (entry && isExpired(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry ?? null;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async candidates(namespace: string, model: string, variant: string, limit: number): Promise<LLMCacheEntry[]> {
+    return [...this.entries.values()]
+      .filter((e) => e.namespace === namespace && e.model === model && e.variant === variant && e.embedding)
+      .slice(-limit);
+  }
+
+  async recordHit(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) entry.hits++;
+  }
+
+  async invalidate(namespace: string, filter: LLMCacheInvalidation): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.namespace !== namespace) continue;
+      if (filter.key && key !== filter.key) continue;
+      if (filter.model && entry.model !== filter.model) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  async purgeExpired(): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!isExpired(entry)) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+}
+
+/** Postgres store (`llm_response_cache`), shared across pods and restarts. */
+export class PgLLMCacheStore implements LLMCacheStore {
+  constructor(private pool: Pool) {}
+
+  async get(key: string): Promise<LLMCacheEntry | null> {
+    const { rows } = await this.pool.query<LLMCacheRow>(
+      `SELECT * FROM llm_response_cache WHERE key = $1 AND expires_at > NOW()`,
+      [key],
+    );
+    return rows[0] ? mapRow(rows[0]) : null;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO llm_response_cache
+         (key, namespace, model, variant, response, embedding, hits, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 0, $7, $8)
+       ON CONFLICT (key) DO UPDATE SET
+         response = EXCLUDED.response,
+         embedding = EXCLUDED.embedding,
+         created_at = EXCLUDED.created_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        entry.key,
+        entry.namespace,
+        entry.model,
+        entry.variant,
+        JSON.stringify(entry.response),
+        entry.embedding ?? null,
+        entry.createdAt,
+        entry.expiresAt,
+      ],
+    );
+  }
+
+  async candidates(namespace: string, model: string, variant: string, limit: number): Promise<LLMCacheEntry[]> {
+    const { rows } = await this.pool.query<LLMCacheRow>(
+      `SELECT * FROM llm_response_cache
+       WHERE namespace = $1 AND model = $2 AND variant = $3
+         AND embedding IS NOT NULL AND expires_at > NOW()
+       ORDER BY created_at DESC
+       LIMIT $4`,
+      [namespace, model, variant, limit],
+    );
+    return rows.map(mapRow);
+  }
+
+  async recordHit(key: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE llm_response_cache SET hits = hits + 1, last_hit_at = NOW() WHERE key = $1`,
+      [key],
+    );
+  }
+
+  async invalidate(namespace: string, filter: LLMCacheInvalidation): Promise<number> {
+    const conditions = ["namespace = $1"];
+    const params: unknown[] = [namespace];
+    if (filter.key) {
+      params.push(filter.key);
+      conditions.push(`key = $${params.length}`);
+    }
+    if (filter.model) {
+      params.push(filter.model);
+      conditions.push(`model = $${params.length}`);
+    }
+
+    const result = await this.pool.query(
+      `DELETE FROM llm_response_cache WHERE ${conditions.join(" AND ")}`,
+      params,
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM llm_response_cache WHERE expires_at <= NOW()`);
+    return result.rowCount ?? 0;
+  }
+}
+
+// ============================================================================
+// EMBEDDINGS
+// ============================================================================
+
+/** Embedder backed by Ollama's `/api/embeddings` (the same model as agent memory). */
+export function ollamaEmbedder(
+  url = process.env.OLLAMA_URL || "http://localhost:11434",
+  model = process.env.OLLAMA_MODEL_EMBED || "mxbai-embed",
+): Embedder {
+  return async (text: string) => {
+    const response = await fetch(`${url.replace(/\/$/, "")}/api/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, prompt: text }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings failed (${response.status}): ${await response.text()}`);
+    }
+    const json = (await response.json()) as { embedding: number[] };
+    return json.embedding;
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// --- Internal helpers ---
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function variantHash(request: LLMCacheRequest): string {
+  return sha256(stableStringify(request.variant ?? null)).slice(0, 16);
+}
+
+function promptText(request: LLMCacheRequest): string {
+  return request.messages.map((m) => `${m.role}: ${m.content}`).join("\n\n");
+}
+
+function isExpired(entry: LLMCacheEntry): boolean {
+  return new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+/** JSON.stringify with sorted object keys, so equal values hash equally. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+interface LLMCacheRow {
+  key: string;
+  namespace: string;
+  model: string;
+  variant: string;
+  response: LLMCacheEntry["response"];
+  embedding: number[] | null;
+  hits: number | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+function mapRow(row: LLMCacheRow): LLMCacheEntry {
+  return {
+    key: row.key,
+    namespace: row.namespace,
+    model: row.model,
+    variant: row.variant,
+    response: row.response,
+    embedding: row.embedding ?? undefined,
+    hits: Number(row.hits ?? 0),
+    createdAt: new Date(row.created_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+  };
+}
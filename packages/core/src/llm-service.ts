@@ -12,9 +12,50 @@ export const LLM_ACTOR_TYPE = "ClaudeCLIActor";
 // OPENAI-COMPATIBLE REQUEST/RESPONSE SCHEMAS
 // ============================================================================
 
+export const ToolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string(),
+    /** JSON-encoded arguments, as in the OpenAI API */
+    arguments: z.string(),
+  }),
+});
+
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+export const ToolDefinitionSchema = z.object({
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+    description: z.string().optional(),
+    /** JSON Schema for the arguments object */
+    parameters: z.record(z.string(), z.unknown()).optional(),
+  }),
+});
+
+export type ToolDefinition = z.infer<typeof ToolDefinitionSchema>;
+
+export const ToolChoiceSchema = z.union([
+  z.enum(["none", "auto", "required"]),
+  z.object({
+    type: z.literal("function"),
+    function: z.object({ name: z.string() }),
+  }),
+]);
+
+export type ToolChoice = z.infer<typeof ToolChoiceSchema>;
+
 export const ChatMessageSchema = z.object({
-  role: z.enum(["system", "user", "assistant"]),
-  content: z.string(),
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  /** Null/absent is accepted for assistant messages that only carry tool_calls */
+  content: z.string().nullish().transform((c) => c ?? ""),
+  /** Assistant turn: tools the model asked to call */
+  tool_calls: z.array(ToolCallSchema).optional(),
+  /** Tool turn: the call this message answers */
+  tool_call_id: z.string().optional(),
+  /** Tool turn: name of the function that produced the result */
+  name: z.string().optional(),
 });
 
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
@@ -28,8 +69,18 @@ export const ChatCompletionRequestSchema = z.object({
   session_id: z.string().optional(),
   /** Optional: persist the session for later resumption */
   persist_session: z.boolean().optional(),
+  /** Optional: functions the model may call (OpenAI tool calling) */
+  tools: z.array(ToolDefinitionSchema).optional(),
+  /** Optional: "auto" (default with tools), "none", "required", or a specific function */
+  tool_choice: ToolChoiceSchema.optional(),
   /** Optional: request a specific actor by capability */
   capability: z.string().optional(),
+  /** Optional: wait-queue lane used when every actor is busy */
+  priority: z.enum(["high", "normal", "low"]).optional(),
+  /** Optional: stream the response as `chat.completion.chunk` server-sent events */
+  stream: z.boolean().optional(),
+  /** Optional: OpenAI stream options; include_usage adds a final usage chunk */
+  stream_options: z.object({ include_usage: z.boolean().optional() }).optional(),
   /** Optional: JSON schema for structured output (injected into prompt) */
   response_format: z
     .object({
@@ -37,6 +88,20 @@ export const ChatCompletionRequestSchema = z.object({
       schema: z.record(z.string(), z.unknown()).optional(),
     })
     .optional(),
+  /**
+   * Optional: serve from / store in the response cache. Only honoured for
+   * temperature 0 requests without a session. `mode: "similar"` also accepts
+   * the cached answer to a near-identical prompt.
+   */
+  cache: z
+    .union([
+      z.boolean(),
+      z.object({
+        ttl_seconds: z.number().positive().optional(),
+        mode: z.enum(["exact", "similar"]).optional(),
+      }),
+    ])
+    .optional(),
 });
 
 export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
@@ -51,26 +116,59 @@ export const ChatCompletionResponseSchema = z.object({
       index: z.number(),
       message: z.object({
         role: z.literal("assistant"),
-        content: z.string(),
+        /** Null when the model only returned tool_calls */
+        content: z.string().nullable(),
+        tool_calls: z.array(ToolCallSchema).optional(),
       }),
-      finish_reason: z.enum(["stop", "length", "error"]),
+      finish_reason: z.enum(["stop", "length", "tool_calls", "error"]),
     }),
   ),
   usage: z
     .object({
+      /** Includes cached and cache-creation input tokens, as in OpenAI usage */
       prompt_tokens: z.number(),
       completion_tokens: z.number(),
       total_tokens: z.number(),
+      prompt_tokens_details: z.object({ cached_tokens: z.number() }).optional(),
+      /** Input tokens written to the prompt cache (billed at a premium) */
+      cache_creation_tokens: z.number().optional(),
+      /** Cost reported by the Claude CLI for this completion */
+      cost_usd: z.number().optional(),
     })
     .optional(),
   /** Returned if persist_session was true */
   session_id: z.string().optional(),
+  /** Which provider served the completion ("claude-cli", or a fallback such as "litellm") */
+  provider: z.string().optional(),
+  /** Set when the request opted in to caching: true if served from the response cache */
+  cached: z.boolean().optional(),
 });
 
 export type ChatCompletionResponse = z.infer<
   typeof ChatCompletionResponseSchema
 >;
 
+export const ChatCompletionChunkSchema = z.object({
+  id: z.string(),
+  object: z.literal("chat.completion.chunk"),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(
+    z.object({
+      index: z.number(),
+      delta: z.object({
+        role: z.literal("assistant").optional(),
+        content: z.string().optional(),
+        tool_calls: z.array(ToolCallSchema.extend({ index: z.number() })).optional(),
+      }),
+      finish_reason: z.enum(["stop", "length", "tool_calls", "error"]).nullable(),
+    }),
+  ),
+  usage: ChatCompletionResponseSchema.shape.usage.nullable().optional(),
+});
+
+export type ChatCompletionChunk = z.infer<typeof ChatCompletionChunkSchema>;
+
 // ============================================================================
 // ACTOR TYPES
 // ============================================================================
@@ -107,10 +205,87 @@ export const LLMServiceStatusSchema = z.object({
   totalRequests: z.number(),
   totalErrors: z.number(),
   uptime: z.number(),
+  /** Wait queue for requests arriving while every actor is busy */
+  queue: z
+    .object({
+      depth: z.number(),
+      maxSize: z.number(),
+      maxWaitMs: z.number(),
+      byLane: z.record(z.string(), z.number()),
+      byCaller: z.record(z.string(), z.number()),
+      served: z.number(),
+      timedOut: z.number(),
+      rejected: z.number(),
+      meanWaitMs: z.number(),
+      p95WaitMs: z.number(),
+    })
+    .optional(),
+  /** Providers in the fallback chain with their circuit-breaker state */
+  providers: z
+    .array(
+      z.object({
+        provider: z.string(),
+        served: z.number(),
+        state: z.enum(["closed", "open", "half-open"]),
+        consecutiveFailures: z.number(),
+        openedAt: z.string().optional(),
+        lastFailure: z.string().optional(),
+      }),
+    )
+    .optional(),
 });
 
 export type LLMServiceStatus = z.infer<typeof LLMServiceStatusSchema>;
 
+// ============================================================================
+// SESSIONS (GET/DELETE /v1/sessions/:id)
+// ============================================================================
+
+export const LLMSessionSchema = z.object({
+  sessionId: z.string(),
+  /** Actor that owns the session's CLI state */
+  actorId: z.string(),
+  credentialId: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  turns: z.number(),
+  model: z.string().optional(),
+  caller: z.string().optional(),
+  /** Previous owners, oldest first, when the session moved off an unhealthy actor */
+  migratedFrom: z.array(z.string()).default([]),
+});
+
+export type LLMSession = z.infer<typeof LLMSessionSchema>;
+
+// ============================================================================
+// USAGE ACCOUNTING (GET /v1/usage)
+// ============================================================================
+
+export const LLMUsageGroupBySchema = z.enum(["actor", "credential", "caller", "model", "day"]);
+
+export type LLMUsageGroupBy = z.infer<typeof LLMUsageGroupBySchema>;
+
+export const LLMUsageTotalsSchema = z.object({
+  requests: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheReadTokens: z.number(),
+  cacheCreationTokens: z.number(),
+  costUsd: z.number(),
+});
+
+export type LLMUsageTotals = z.infer<typeof LLMUsageTotalsSchema>;
+
+export const LLMUsageSummarySchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  groupBy: LLMUsageGroupBySchema.optional(),
+  totals: LLMUsageTotalsSchema,
+  groups: z.array(LLMUsageTotalsSchema.extend({ key: z.string() })),
+});
+
+export type LLMUsageSummary = z.infer<typeof LLMUsageSummarySchema>;
+
 // ============================================================================
 // HOOK EVENTS (published to Dapr pub/sub by the hook script)
 // ============================================================================
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import { z } from "zod";
+import { chatCompletion, chatCompletionWithSchema, tool, toolDefinitions, type ChatMessage } from "./llm.js";
+import { LLMCache, InMemoryLLMCacheStore } from "./llm-cache.js";
+
+describe("chatCompletion with tools", () => {
+  afterEach(() => {
+    (globalThis.fetch as any).mockRestore?.();
+  });
+
+  it("sends tools and returns the model's tool calls", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    spyOn(globalThis, "fetch").mockImplementation((async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string));
+      return new Response(
+        JSON.stringify({
+          choices: [{
+            message: {
+              content: null,
+              tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: "{\"q\":\"x\"}" } }],
+            },
+            finish_reason: "tool_calls",
+          }],
+        }),
+      );
+    }) as unknown as typeof fetch);
+
+    const tools = toolDefinitions({
+      lookup: tool({
+        description: "Look something up",
+        parameters: z.object({ q: z.string() }),
+        execute: async () => "found",
+      }),
+    });
+    const result = await chatCompletion({ model: "m", prompt: "find x", tools, toolChoice: "auto" });
+
+    expect(bodies[0]).toMatchObject({ tools, tool_choice: "auto" });
+    expect(result.text).toBe("");
+    expect(result.finishReason).toBe("tool_calls");
+    expect(result.toolCalls).toEqual([
+      { id: "call_1", type: "function", function: { name: "lookup", arguments: "{\"q\":\"x\"}" } },
+    ]);
+  });
+
+  it("passes tool turns through for multi-turn loops", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    spyOn(globalThis, "fetch").mockImplementation((async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string));
+      return new Response(JSON.stringify({ choices: [{ message: { content: "x is found" }, finish_reason: "stop" }] }));
+    }) as unknown as typeof fetch);
+
+    const messages: ChatMessage[] = [
+      { role: "user", content: "find x" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: "{}" } }],
+      },
+      { role: "tool", content: "found", tool_call_id: "call_1", name: "lookup" },
+    ];
+    const result = await chatCompletion({ model: "m", messages });
+
+    expect(bodies[0]?.messages).toEqual(messages);
+    expect(bodies[0]).not.toHaveProperty("tools");
+    expect(result).toMatchObject({ text: "x is found", toolCalls: undefined });
+  });
+
+  it("keys cached tool turns on their call arguments", async () => {
+    let calls = 0;
+    spyOn(globalThis, "fetch").mockImplementation((async () => {
+      calls++;
+      return new Response(JSON.stringify({ choices: [{ message: { content: "done" }, finish_reason: "stop" }] }));
+    }) as unknown as typeof fetch);
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "litellm", ttlMs: 60_000 });
+    const turns = (args: string): ChatMessage[] => [
+      { role: "user", content: "find x" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: args } }],
+      },
+      { role: "tool", content: "found", tool_call_id: "call_1" },
+    ];
+
+    await chatCompletion({ model: "m", messages: turns("{\"q\":\"x\"}"), temperature: 0, cache });
+    const repeat = await chatCompletion({ model: "m", messages: turns("{\"q\":\"x\"}"), temperature: 0, cache });
+    const other = await chatCompletion({ model: "m", messages: turns("{\"q\":\"y\"}"), temperature: 0, cache });
+
+    expect(repeat.cached).toBe(true);
+    expect(other.cached).toBe(false);
+    expect(calls).toBe(2);
+  });
+
+  it("passes the abort signal to the request", async () => {
+    let seen: AbortSignal | null | undefined;
+    spyOn(globalThis, "fetch").mockImplementation((async (_url: string, init: RequestInit) => {
+      seen = init.signal;
+      init.signal?.throwIfAborted();
+      return new Response(JSON.stringify({ choices: [{ message: { content: "ok" }, finish_reason: "stop" }] }));
+    }) as unknown as typeof fetch);
+
+    const controller = new AbortController();
+    await chatCompletion({ model: "m", prompt: "hi", signal: controller.signal });
+    expect(seen).toBe(controller.signal);
+
+    controller.abort(new Error("cancelled"));
+    await expect(chatCompletion({ model: "m", prompt: "hi", signal: controller.signal })).rejects.toThrow("cancelled");
+  });
+});
+
+describe("chatCompletionWithSchema", () => {
+  afterEach(() => {
+    (globalThis.fetch as any).mockRestore?.();
+  });
+
+  it("caches only responses that match the schema", async () => {
+    const replies = ['{"n":"not a number"}', '{"n":1}', '{"n":2}'];
+    spyOn(globalThis, "fetch").mockImplementation((async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: replies.shift() }, finish_reason: "stop" }] }))
+    ) as unknown as typeof fetch);
+    const cache = new LLMCache(new InMemoryLLMCacheStore(), { namespace: "litellm", ttlMs: 60_000 });
+    const opts = { model: "m", prompt: "count", temperature: 0, cache, schema: z.object({ n: z.number() }) };
+
+    await expect(chatCompletionWithSchema(opts)).rejects.toThrow();
+    const first = await chatCompletionWithSchema(opts);
+    const second = await chatCompletionWithSchema(opts);
+
+    expect(first).toMatchObject({ object: { n: 1 }, cached: false });
+    expect(second).toMatchObject({ object: { n: 1 }, cached: true });
+  });
+});
@@ -1,6 +1,8 @@
 import { z } from "zod";
-import type { ChatMessage } from "./llm-service.js";
+import type { ChatMessage, ToolCall, ToolChoice, ToolDefinition } from "./llm-service.js";
 import type { EventLog } from "./events.js";
+import { zodToJsonSchema } from "./contracts.js";
+import { LLMCache, type LLMCacheMatch } from "./llm-cache.js";
 
 // Re-export ChatMessage for convenience
 export type { ChatMessage };
@@ -24,6 +26,17 @@ export interface ChatCompletionOpts {
   maxTokens?: number;
   /** LiteLLM metadata for tag routing */
   metadata?: Record<string, string>;
+  /** Response cache; only consulted when temperature is 0 */
+  cache?: LLMCache;
+  /** Per-entry TTL override (defaults to the cache's TTL) */
+  cacheTtlMs?: number;
+  /** "similar" also accepts a cached response for a near-identical prompt */
+  cacheMode?: LLMCacheMatch;
+  /** OpenAI-style function tools the model may call, e.g. `toolDefinitions(tools)` */
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /** Aborts the request, e.g. a task's `CancelToken.signal` */
+  signal?: AbortSignal;
 }
 
 export interface ChatCompletionResult {
@@ -34,6 +47,10 @@ export interface ChatCompletionResult {
     completionTokens: number;
     totalTokens: number;
   };
+  /** True when served from the response cache */
+  cached?: boolean;
+  /** Calls the model asked for; answer each with a `role: "tool"` message */
+  toolCalls?: ToolCall[];
 }
 
 export interface ChatCompletionWithSchemaOpts<S extends z.ZodTypeAny = z.ZodTypeAny> extends ChatCompletionOpts {
@@ -128,46 +145,111 @@ function describeZodType(schema: z.ZodType<unknown>): unknown {
   }
 }
 
+/**
+ * Serve a completion from `opts.cache` when the call is cacheable, otherwise
+ * run it and store the result. `variant` is everything besides the messages
+ * that shapes the output. `validate` runs before the result is stored, so a
+ * response it rejects is thrown without being cached. Cache failures never
+ * fail the call.
+ */
+async function withCache(
+  opts: ChatCompletionOpts,
+  messages: ChatMessage[],
+  variant: Record<string, unknown>,
+  run: () => Promise<ChatCompletionResult>,
+  validate: (result: ChatCompletionResult) => void = () => {},
+): Promise<ChatCompletionResult> {
+  const cache = opts.cache;
+  if (!cache || !LLMCache.isCacheable(opts)) {
+    const result = await run();
+    validate(result);
+    return result;
+  }
+
+  const request = {
+    model: opts.model,
+    // The key hashes role and content only, so fold tool turns into the content
+    messages: messages.map((m) => ({
+      role: m.role,
+      content: m.tool_calls?.length
+        ? `${m.content}\n${JSON.stringify(m.tool_calls)}`
+        : m.tool_call_id
+          ? `[${m.tool_call_id}] ${m.content}`
+          : m.content,
+    })),
+    temperature: opts.temperature,
+    variant: { ...variant, maxTokens: opts.maxTokens },
+  };
+
+  try {
+    const hit = await cache.lookup<ChatCompletionResult>(request, opts.cacheMode);
+    if (hit) return { ...hit.response, cached: true };
+  } catch (err) {
+    console.warn(`[llm] Cache lookup failed:`, err);
+  }
+
+  const result = await run();
+  validate(result);
+  if (result.finishReason !== "error") {
+    await cache.store(request, result, opts.cacheTtlMs, opts.cacheMode).catch((err) => {
+      console.warn(`[llm] Cache store failed:`, err);
+    });
+  }
+  return { ...result, cached: false };
+}
+
 // --- Tool helper ---
 
+export interface ToolExecuteOpts {
+  toolCallId: string;
+  messages: ChatMessage[];
+  /** Aborts the tool's own requests when the calling task is cancelled */
+  signal?: AbortSignal;
+}
+
 /**
  * Define a tool with description, Zod parameters, and an execute function.
  * Replaces `tool()` from Vercel AI SDK.
  *
- * Note: Tool calling via the LLM is not supported in this implementation.
- * Tools are used for direct invocation via their `.execute()` method.
+ * Tools are invoked directly via their `.execute()` method. To let the model
+ * call them through llm-service, pass `toolDefinitions(tools)` as `tools`.
  */
 export function tool<TParams extends z.ZodType, TResult>(config: {
   description: string;
   parameters: TParams;
-  execute: (params: z.infer<TParams>, opts: { toolCallId: string; messages: ChatMessage[] }) => Promise<TResult>;
+  execute: (params: z.infer<TParams>, opts: ToolExecuteOpts) => Promise<TResult>;
 }): {
   description: string;
   parameters: TParams;
-  execute: (params: z.infer<TParams>, opts: { toolCallId: string; messages: ChatMessage[] }) => Promise<TResult>;
+  execute: (params: z.infer<TParams>, opts: ToolExecuteOpts) => Promise<TResult>;
 } {
   return config;
 }
 
-// --- Core functions ---
-
 /**
- * Send a chat completion request to LiteLLM.
- * Replaces `generateText()` from Vercel AI SDK.
+ * Convert a record of `tool()` definitions into OpenAI-style function tools
+ * (the record key is the function name).
  */
-export async function chatCompletion(
-  opts: ChatCompletionOpts,
-): Promise<ChatCompletionResult> {
-  const messages = buildMessages(opts);
+export function toolDefinitions(
+  tools: Record<string, { description: string; parameters: z.ZodTypeAny }>,
+): ToolDefinition[] {
+  return Object.entries(tools).map(([name, t]) => ({
+    type: "function",
+    function: {
+      name,
+      description: t.description,
+      parameters: zodToJsonSchema(t.parameters) as Record<string, unknown>,
+    },
+  }));
+}
 
-  const body: Record<string, unknown> = {
-    model: opts.model,
-    messages,
-  };
-  if (opts.temperature !== undefined) body.temperature = opts.temperature;
-  if (opts.maxTokens !== undefined) body.max_tokens = opts.maxTokens;
-  if (opts.metadata) body.metadata = opts.metadata;
+// --- Core functions ---
 
+/** POST a chat completion body to LiteLLM and normalize the first choice. */
+async function requestCompletion(
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<ChatCompletionResult> {
   const response = await fetch(`${LITELLM_BASE_URL}/chat/completions`, {
     method: "POST",
     headers: {
@@ -175,6 +257,7 @@ export async function chatCompletion(
       Authorization: `Bearer ${LITELLM_API_KEY}`,
     },
     body: JSON.stringify(body),
+    signal,
   });
 
   if (!response.ok) {
@@ -186,7 +269,7 @@ export async function chatCompletion(
 
   const json = (await response.json()) as {
     choices: Array<{
-      message: { content: string };
+      message: { content: string | null; tool_calls?: ToolCall[] };
       finish_reason: string;
     }>;
     usage?: {
@@ -202,8 +285,9 @@ export async function chatCompletion(
   }
 
   return {
-    text: choice.message.content,
+    text: choice.message.content ?? "",
     finishReason: choice.finish_reason,
+    toolCalls: choice.message.tool_calls?.length ? choice.message.tool_calls : undefined,
     usage: json.usage
       ? {
           promptTokens: json.usage.prompt_tokens,
@@ -214,6 +298,28 @@ export async function chatCompletion(
   };
 }
 
+/**
+ * Send a chat completion request to LiteLLM.
+ * Replaces `generateText()` from Vercel AI SDK.
+ */
+export async function chatCompletion(
+  opts: ChatCompletionOpts,
+): Promise<ChatCompletionResult> {
+  const messages = buildMessages(opts);
+
+  const body: Record<string, unknown> = {
+    model: opts.model,
+    messages,
+  };
+  if (opts.temperature !== undefined) body.temperature = opts.temperature;
+  if (opts.maxTokens !== undefined) body.max_tokens = opts.maxTokens;
+  if (opts.metadata) body.metadata = opts.metadata;
+  if (opts.tools?.length) body.tools = opts.tools;
+  if (opts.toolChoice !== undefined) body.tool_choice = opts.toolChoice;
+
+  return withCache(opts, messages, { tools: opts.tools, toolChoice: opts.toolChoice }, () => requestCompletion(body, opts.signal));
+}
+
 /**
  * Send a chat completion request with a Zod schema for structured output.
  * Replaces `generateObject()` from Vercel AI SDK.
@@ -258,41 +364,25 @@ export async function chatCompletionWithSchema<S extends z.ZodTypeAny>(
   if (opts.maxTokens !== undefined) body.max_tokens = opts.maxTokens;
   if (opts.metadata) body.metadata = opts.metadata;
 
-  const response = await fetch(`${LITELLM_BASE_URL}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${LITELLM_API_KEY}`,
+  // The prompt only carries a summary of the schema, so key on the full one.
+  // Only a response that parses against the schema is cached
+  let object: z.infer<S> | undefined;
+  const result = await withCache(
+    opts,
+    messages,
+    { responseFormat: "json_object", schema: zodToJsonSchema(opts.schema) },
+    () => requestCompletion(body, opts.signal),
+    (r) => {
+      object = parseStructured(r.text, opts.schema);
     },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `LiteLLM request failed (${response.status}): ${errorBody}`,
-    );
-  }
-
-  const json = (await response.json()) as {
-    choices: Array<{
-      message: { content: string };
-      finish_reason: string;
-    }>;
-    usage?: {
-      prompt_tokens: number;
-      completion_tokens: number;
-      total_tokens: number;
-    };
-  };
-
-  const choice = json.choices?.[0];
-  if (!choice) {
-    throw new Error("LiteLLM returned no choices");
-  }
+  );
+  object ??= parseStructured(result.text, opts.schema);
 
-  const text = choice.message.content;
+  return { object, ...result };
+}
 
+/** Extract the JSON object from a structured response and validate it. */
+function parseStructured<S extends z.ZodTypeAny>(text: string, schema: S): z.infer<S> {
   // Extract JSON from the response (handle markdown code blocks)
   let jsonStr = text.trim();
   const fenceMatch = jsonStr.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
@@ -309,20 +399,7 @@ export async function chatCompletionWithSchema<S extends z.ZodTypeAny>(
     );
   }
 
-  const object = opts.schema.parse(parsed);
-
-  return {
-    object,
-    text,
-    finishReason: choice.finish_reason,
-    usage: json.usage
-      ? {
-          promptTokens: json.usage.prompt_tokens,
-          completionTokens: json.usage.completion_tokens,
-          totalTokens: json.usage.total_tokens,
-        }
-      : undefined,
-  };
+  return schema.parse(parsed);
 }
 
 /**
@@ -367,6 +444,7 @@ export async function tracedChatCompletion(
       durationMs: Date.now() - startTime,
       responseLength: result.text.length,
       finishReason: result.finishReason,
+      toolCalls: result.toolCalls?.length ?? 0,
       ...(ctx.logFullPayload ? { response: result.text } : {}),
     },
   });
@@ -0,0 +1,221 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  ProjectionRunner,
+  taskTimelineProjection,
+  agentStatsProjection,
+  issueLifecycleProjection,
+  type Projection,
+} from "./projections.js";
+import type { EventLog, StoredEvent } from "./events.js";
+
+let nextSeq = 1;
+function makeEvent(overrides: Partial<StoredEvent> = {}): StoredEvent {
+  return {
+    seq: nextSeq++,
+    timestamp: "2026-10-19T00:00:00.000Z",
+    traceId: "trace-1",
+    agentId: "agent-1",
+    eventType: "test.event",
+    payload: {},
+    ...overrides,
+  };
+}
+
+/**
+ * In-memory stand-in for the projection tables: answers the handful of
+ * statements ProjectionRunner issues.
+ */
+function createStore(events: StoredEvent[]) {
+  const checkpoints = new Map<string, { last_seq: number; version: number }>();
+  const state = new Map<string, { state: unknown; last_seq: number }>();
+
+  const query = mock(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith("SELECT last_seq, version FROM mesh_six_projection_checkpoints")) {
+      const row = checkpoints.get(params[0]);
+      return { rows: row ? [row] : [] };
+    }
+    if (sql.includes("INSERT INTO mesh_six_projection_checkpoints")) {
+      // rebuild resets to 0 with [name, version]; batches write [name, lastSeq, version]
+      const reset = sql.includes("VALUES ($1, 0, $2");
+      checkpoints.set(params[0], reset ? { last_seq: 0, version: params[1] } : { last_seq: params[1], version: params[2] });
+      return { rows: [] };
+    }
+    if (sql.startsWith("SELECT key, state, last_seq FROM mesh_six_projection_state") && sql.includes("ANY")) {
+      const rows = (params[1] as string[])
+        .filter((k) => state.has(`${params[0]}/${k}`))
+        .map((k) => ({ key: k, ...state.get(`${params[0]}/${k}`)! }));
+      return { rows };
+    }
+    if (sql.includes("INSERT INTO mesh_six_projection_state")) {
+      state.set(`${params[0]}/${params[1]}`, { state: JSON.parse(params[2]), last_seq: params[3] });
+      return { rows: [] };
+    }
+    if (sql.startsWith("DELETE FROM mesh_six_projection_state")) {
+      for (const key of [...state.keys()]) if (key.startsWith(`${params[0]}/`)) state.delete(key);
+      return { rows: [] };
+    }
+    if (sql.startsWith("SELECT state, last_seq FROM mesh_six_projection_state")) {
+      const row = state.get(`${params[0]}/${params[1]}`);
+      return { rows: row ? [row] : [] };
+    }
+    if (sql.startsWith("SELECT MAX(seq)")) {
+      return { rows: [{ head: events.length ? events[events.length - 1].seq : null }] };
+    }
+    return { rows: [] };
+  });
+
+  const pool = {
+    query,
+    connect: async () => ({ query, release: () => {} }),
+  } as any;
+
+  const eventLog = {
+    readAfter: mock(async (afterSeq: number, opts: { limit?: number; eventTypes?: string[]; untilSeq?: number } = {}) =>
+      events
+        .filter((e) => e.seq > afterSeq)
+        .filter((e) => !opts.eventTypes || opts.eventTypes.includes(e.eventType))
+        .filter((e) => opts.untilSeq == null || e.seq <= opts.untilSeq)
+        .slice(0, opts.limit ?? 500)
+    ),
+  } as unknown as EventLog;
+
+  return { pool, eventLog, checkpoints, state };
+}
+
+const counter: Projection<{ count: number }> = {
+  name: "counter",
+  key: (e) => e.agentId,
+  reduce: (s) => ({ count: (s?.count ?? 0) + 1 }),
+};
+
+describe("ProjectionRunner", () => {
+  it("applies events in batches and advances the checkpoint", async () => {
+    const events = [makeEvent(), makeEvent(), makeEvent({ agentId: "agent-2" })];
+    const { pool, eventLog, checkpoints, state } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog, { batchSize: 2 }).register(counter);
+
+    expect(await runner.catchUp("counter")).toBe(3);
+    expect(state.get("counter/agent-1")?.state).toEqual({ count: 2 });
+    expect(state.get("counter/agent-2")?.state).toEqual({ count: 1 });
+    expect(checkpoints.get("counter")?.last_seq).toBe(events[2].seq);
+  });
+
+  it("resumes from the checkpoint", async () => {
+    const events = [makeEvent(), makeEvent()];
+    const { pool, eventLog, state } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+
+    await runner.catchUp("counter");
+    events.push(makeEvent());
+    expect(await runner.catchUp("counter")).toBe(1);
+    expect(state.get("counter/agent-1")?.state).toEqual({ count: 3 });
+  });
+
+  it("rebuild drops state and replays from zero", async () => {
+    const events = [makeEvent(), makeEvent()];
+    const { pool, eventLog, state } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+
+    await runner.catchUp("counter");
+    state.set("counter/stale", { state: { count: 99 }, last_seq: 1 });
+
+    expect(await runner.rebuild("counter")).toBe(2);
+    expect(state.has("counter/stale")).toBe(false);
+    expect(state.get("counter/agent-1")?.state).toEqual({ count: 2 });
+  });
+
+  it("holds the projection as running for the whole rebuild", async () => {
+    const events = [makeEvent(), makeEvent()];
+    const { pool, eventLog, checkpoints } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+    await runner.catchUp("counter");
+
+    const rebuild = runner.rebuild("counter");
+    expect(runner.isRunning("counter")).toBe(true);
+    // A concurrent catch-up is skipped instead of racing the reset
+    expect(await runner.catchUp("counter")).toBe(0);
+    expect(await rebuild).toBe(2);
+    expect(runner.isRunning("counter")).toBe(false);
+    expect(checkpoints.get("counter")?.last_seq).toBe(events[1].seq);
+  });
+
+  it("reads with the configured settle window", async () => {
+    const { pool, eventLog } = createStore([makeEvent()]);
+    const runner = new ProjectionRunner(pool, eventLog, { settleMs: 3000 }).register(counter);
+
+    await runner.catchUp("counter");
+    expect((eventLog.readAfter as any).mock.calls[0][1]).toMatchObject({ settleMs: 3000 });
+  });
+
+  it("replays a range in memory without writing state", async () => {
+    const events = [makeEvent(), makeEvent(), makeEvent()];
+    const { pool, eventLog, state } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+
+    const replayed = await runner.replay<{ count: number }>("counter", {
+      fromSeq: events[0].seq,
+      toSeq: events[1].seq,
+    });
+    expect(replayed.get("agent-1")).toEqual({ count: 1 });
+    expect(state.size).toBe(0);
+  });
+
+  it("rejects unknown and duplicate projections", async () => {
+    const { pool, eventLog } = createStore([]);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+
+    expect(() => runner.register(counter)).toThrow("already registered");
+    await expect(runner.catchUp("nope")).rejects.toThrow("Unknown projection");
+  });
+
+  it("reports lag per projection", async () => {
+    const events = [makeEvent(), makeEvent()];
+    const { pool, eventLog } = createStore(events);
+    const runner = new ProjectionRunner(pool, eventLog).register(counter);
+
+    expect((await runner.status())[0].lagEvents).toBe(events[1].seq);
+    await runner.catchUp("counter");
+    expect((await runner.status())[0].lagEvents).toBe(0);
+  });
+});
+
+describe("built-in projections", () => {
+  it("builds a task timeline", () => {
+    const events = [
+      makeEvent({ taskId: "t1", eventType: "task.dispatched", payload: { capability: "deploy", dispatchedTo: "a1" } }),
+      makeEvent({ taskId: "t1", eventType: "task.retry", payload: { newAgent: "a2" } }),
+      makeEvent({ taskId: "t1", agentId: "a2", eventType: "task.result", payload: { durationMs: 1200 } }),
+    ];
+    const state = events.reduce(taskTimelineProjection.reduce, undefined)!;
+    expect(state).toMatchObject({
+      taskId: "t1",
+      capability: "deploy",
+      status: "completed",
+      agentId: "a2",
+      attempts: 2,
+      durationMs: 1200,
+    });
+    expect(state.events.map((e) => e.eventType)).toEqual(["task.dispatched", "task.retry", "task.result"]);
+  });
+
+  it("counts agent outcomes", () => {
+    const events = [
+      makeEvent({ eventType: "task.result", payload: { durationMs: 100 } }),
+      makeEvent({ eventType: "task.result.failure", payload: { durationMs: 300 } }),
+    ];
+    const state = events.reduce(agentStatsProjection.reduce, undefined)!;
+    expect(state).toMatchObject({ completed: 1, failed: 1, meanDurationMs: 200 });
+    expect(agentStatsProjection.key(makeEvent({ agentId: "unknown" }))).toBeNull();
+  });
+
+  it("tracks an issue workflow through its phases", () => {
+    const events = [
+      makeEvent({ traceId: "wf-1", eventType: "workflow.started", payload: { issueNumber: 7, repoOwner: "o", repoName: "r", phase: "PLANNING" } }),
+      makeEvent({ traceId: "wf-1", eventType: "workflow.phase", payload: { phase: "IMPLEMENTATION" } }),
+      makeEvent({ traceId: "wf-1", eventType: "workflow.failed", payload: { reason: "qa" } }),
+    ];
+    const state = events.reduce(issueLifecycleProjection.reduce, undefined)!;
+    expect(state).toMatchObject({ issueNumber: 7, repo: "o/r", status: "failed", failureReason: "qa" });
+    expect(state.transitions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,528 @@
+import type { Pool } from "pg";
+import type { EventLog, StoredEvent } from "./events.js";
+
+/**
+ * A projection folds events from `mesh_six_events` into keyed read models
+ * (one JSON document per task, agent, workflow, ...).
+ *
+ * Reducers must be pure: the runner may replay any range of the log through
+ * them, and rebuilds start from an empty state.
+ */
+export interface Projection<S = unknown> {
+  name: string;
+  /** Bump when the reducer changes shape; stored state is rebuilt on mismatch */
+  version?: number;
+  /** Only these event types are read from the log (all types when omitted) */
+  eventTypes?: string[];
+  /** Which read model an event belongs to; null skips the event */
+  key(event: StoredEvent): string | null;
+  /** Fold one event into the current state (undefined for a new key) */
+  reduce(state: S | undefined, event: StoredEvent): S;
+}
+
+export interface ProjectionStatus {
+  name: string;
+  version: number;
+  lastSeq: number;
+  lagEvents: number | null;
+  running: boolean;
+  lastError: string | null;
+}
+
+export interface ProjectionRunnerOptions {
+  /** Events read per batch (default 500) */
+  batchSize?: number;
+  /** Poll interval for the background loop (default 2s) */
+  pollIntervalMs?: number;
+  /**
+   * Events appended within this window are not read yet (default 5s), so an
+   * event whose transaction commits after a later seq is not skipped. Must
+   * exceed the longest transaction that appends events.
+   */
+  settleMs?: number;
+}
+
+interface RegisteredProjection {
+  projection: Projection<any>;
+  version: number;
+  running: boolean;
+  lastError: string | null;
+}
+
+/**
+ * Runs registered projections against the event log, persisting per-key
+ * state and a checkpoint (last applied seq) in one transaction per batch.
+ */
+export class ProjectionRunner {
+  private projections = new Map<string, RegisteredProjection>();
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private settleMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private pool: Pool,
+    private eventLog: EventLog,
+    opts: ProjectionRunnerOptions = {}
+  ) {
+    this.batchSize = opts.batchSize ?? 500;
+    this.pollIntervalMs = opts.pollIntervalMs ?? 2000;
+    this.settleMs = opts.settleMs ?? 5000;
+  }
+
+  register<S>(projection: Projection<S>): this {
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection already registered: ${projection.name}`);
+    }
+    this.projections.set(projection.name, {
+      projection,
+      version: projection.version ?? 1,
+      running: false,
+      lastError: null,
+    });
+    return this;
+  }
+
+  names(): string[] {
+    return [...this.projections.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.projections.has(name);
+  }
+
+  /** Whether a catch-up or rebuild of the projection is in progress. */
+  isRunning(name: string): boolean {
+    return this.require(name).running;
+  }
+
+  /**
+   * Rebuild projections whose stored version differs from the registered
+   * one, then start the background catch-up loop.
+   */
+  async start(): Promise<void> {
+    for (const entry of this.projections.values()) {
+      const checkpoint = await this.loadCheckpoint(entry.projection.name);
+      if (checkpoint && checkpoint.version !== entry.version) {
+        console.log(
+          `[projections] ${entry.projection.name} version ${checkpoint.version} → ${entry.version}, rebuilding`
+        );
+        await this.rebuild(entry.projection.name);
+      }
+    }
+
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.catchUpAll().catch((err) => console.warn("[projections] Catch-up failed:", err));
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Apply every pending event to every projection. */
+  async catchUpAll(): Promise<void> {
+    for (const name of this.projections.keys()) {
+      await this.catchUp(name);
+    }
+  }
+
+  /**
+   * Apply events after the projection's checkpoint until the log is drained.
+   * Returns the number of events applied. Concurrent calls for the same
+   * projection are skipped rather than queued.
+   */
+  async catchUp(name: string): Promise<number> {
+    const entry = this.require(name);
+    if (entry.running) return 0;
+
+    entry.running = true;
+    try {
+      return await this.drain(entry);
+    } finally {
+      entry.running = false;
+    }
+  }
+
+  /**
+   * Drop all state for a projection and replay the whole log into it. The
+   * projection counts as running throughout, so a concurrent catch-up cannot
+   * write its old checkpoint back over the reset.
+   */
+  async rebuild(name: string): Promise<number> {
+    const entry = this.require(name);
+    if (entry.running) {
+      throw new Error(`Projection ${name} is busy; try again shortly`);
+    }
+
+    entry.running = true;
+    try {
+      const client = await this.pool.connect();
+      try {
+        await client.query("BEGIN");
+        await client.query(`DELETE FROM mesh_six_projection_state WHERE projection = $1`, [name]);
+        await client.query(
+          `INSERT INTO mesh_six_projection_checkpoints (projection, last_seq, version, updated_at)
+           VALUES ($1, 0, $2, NOW())
+           ON CONFLICT (projection) DO UPDATE SET last_seq = 0, version = $2, updated_at = NOW()`,
+          [name, entry.version]
+        );
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
+      }
+
+      console.log(`[projections] Rebuilding ${name} from seq 0`);
+      return await this.drain(entry);
+    } finally {
+      entry.running = false;
+    }
+  }
+
+  /**
+   * Fold a range of the log through a projection in memory, without touching
+   * stored state. Useful for point-in-time views and debugging reducers.
+   */
+  async replay<S = unknown>(
+    name: string,
+    opts: { fromSeq?: number; toSeq?: number; key?: string } = {}
+  ): Promise<Map<string, S>> {
+    const { projection } = this.require(name);
+    const states = new Map<string, S>();
+    let lastSeq = opts.fromSeq ?? 0;
+
+    for (;;) {
+      const events = await this.eventLog.readAfter(lastSeq, {
+        limit: this.batchSize,
+        eventTypes: projection.eventTypes,
+        untilSeq: opts.toSeq,
+      });
+      for (const event of events) {
+        const key = projection.key(event);
+        if (key === null || (opts.key !== undefined && key !== opts.key)) continue;
+        states.set(key, projection.reduce(states.get(key), event) as S);
+      }
+      const last = events[events.length - 1];
+      if (!last || events.length < this.batchSize) break;
+      lastSeq = last.seq;
+    }
+    return states;
+  }
+
+  /** Read one projected document. */
+  async get<S = unknown>(name: string, key: string): Promise<{ state: S; lastSeq: number } | null> {
+    this.require(name);
+    const { rows } = await this.pool.query<{ state: S; last_seq: string | number }>(
+      `SELECT state, last_seq FROM mesh_six_projection_state WHERE projection = $1 AND key = $2`,
+      [name, key]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return { state: row.state, lastSeq: Number(row.last_seq) };
+  }
+
+  /** List projected documents, most recently updated first. */
+  async list<S = unknown>(
+    name: string,
+    opts: { limit?: number; offset?: number } = {}
+  ): Promise<{ key: string; state: S; lastSeq: number }[]> {
+    this.require(name);
+    const { rows } = await this.pool.query<{ key: string; state: S; last_seq: string | number }>(
+      `SELECT key, state, last_seq FROM mesh_six_projection_state
+       WHERE projection = $1
+       ORDER BY updated_at DESC
+       LIMIT $2 OFFSET $3`,
+      [name, opts.limit ?? 100, opts.offset ?? 0]
+    );
+    return rows.map((r) => ({ key: r.key, state: r.state, lastSeq: Number(r.last_seq) }));
+  }
+
+  /** Checkpoint, lag and error state for every registered projection. */
+  async status(): Promise<ProjectionStatus[]> {
+    const { rows } = await this.pool.query<{ head: string | number | null }>(
+      `SELECT MAX(seq) AS head FROM mesh_six_events`
+    );
+    const head = rows[0]?.head != null ? Number(rows[0].head) : null;
+
+    const result: ProjectionStatus[] = [];
+    for (const entry of this.projections.values()) {
+      const lastSeq = (await this.loadCheckpoint(entry.projection.name))?.lastSeq ?? 0;
+      result.push({
+        name: entry.projection.name,
+        version: entry.version,
+        lastSeq,
+        lagEvents: head === null ? null : Math.max(0, head - lastSeq),
+        running: entry.running,
+        lastError: entry.lastError,
+      });
+    }
+    return result;
+  }
+
+  // --- internals ---
+
+  private require(name: string): RegisteredProjection {
+    const entry = this.projections.get(name);
+    if (!entry) throw new Error(`Unknown projection: ${name}`);
+    return entry;
+  }
+
+  private async loadCheckpoint(name: string): Promise<{ lastSeq: number; version: number } | null> {
+    const { rows } = await this.pool.query<{ last_seq: string | number; version: number }>(
+      `SELECT last_seq, version FROM mesh_six_projection_checkpoints WHERE projection = $1`,
+      [name]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return { lastSeq: Number(row.last_seq), version: row.version };
+  }
+
+  /** Apply settled events after the checkpoint until the log is drained. Caller holds `running`. */
+  private async drain(entry: RegisteredProjection): Promise<number> {
+    let applied = 0;
+    try {
+      let lastSeq = (await this.loadCheckpoint(entry.projection.name))?.lastSeq ?? 0;
+      for (;;) {
+        const events = await this.eventLog.readAfter(lastSeq, {
+          limit: this.batchSize,
+          eventTypes: entry.projection.eventTypes,
+          settleMs: this.settleMs,
+        });
+        const last = events[events.length - 1];
+        if (!last) break;
+
+        await this.applyBatch(entry, events, last.seq);
+        lastSeq = last.seq;
+        applied += events.length;
+        if (events.length < this.batchSize) break;
+      }
+      entry.lastError = null;
+    } catch (err) {
+      entry.lastError = err instanceof Error ? err.message : String(err);
+      throw err;
+    }
+    return applied;
+  }
+
+  private async applyBatch(entry: RegisteredProjection, events: StoredEvent[], lastSeq: number): Promise<void> {
+    const { projection } = entry;
+
+    const keyed = events
+      .map((event) => ({ event, key: projection.key(event) }))
+      .filter((e): e is { event: StoredEvent; key: string } => e.key !== null);
+    const keys = [...new Set(keyed.map((e) => e.key))];
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const states = new Map<string, { state: unknown; lastSeq: number }>();
+      if (keys.length > 0) {
+        const { rows } = await client.query<{ key: string; state: unknown; last_seq: string | number }>(
+          `SELECT key, state, last_seq FROM mesh_six_projection_state
+           WHERE projection = $1 AND key = ANY($2)
+           FOR UPDATE`,
+          [projection.name, keys]
+        );
+        for (const r of rows) states.set(r.key, { state: r.state, lastSeq: Number(r.last_seq) });
+      }
+
+      const touched = new Map<string, { state: unknown; lastSeq: number }>();
+      for (const { event, key } of keyed) {
+        const current = touched.get(key) ?? states.get(key);
+        // Never apply an event twice to the same document
+        if (current && event.seq <= current.lastSeq) continue;
+        touched.set(key, { state: projection.reduce(current?.state, event), lastSeq: event.seq });
+      }
+
+      for (const [key, { state, lastSeq: seq }] of touched) {
+        await client.query(
+          `INSERT INTO mesh_six_projection_state (projection, key, state, last_seq, updated_at)
+           VALUES ($1, $2, $3, $4, NOW())
+           ON CONFLICT (projection, key) DO UPDATE SET
+             state = EXCLUDED.state, last_seq = EXCLUDED.last_seq, updated_at = NOW()`,
+          [projection.name, key, JSON.stringify(state), seq]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO mesh_six_projection_checkpoints (projection, last_seq, version, updated_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (projection) DO UPDATE SET last_seq = $2, version = $3, updated_at = NOW()`,
+        [projection.name, lastSeq, entry.version]
+      );
+
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// --- Built-in projections ---
+
+export interface TaskTimelineState {
+  taskId: string;
+  capability: string | null;
+  status: string;
+  agentId: string | null;
+  attempts: number;
+  startedAt: string;
+  updatedAt: string;
+  durationMs: number | null;
+  events: { seq: number; eventType: string; agentId: string; at: string }[];
+}
+
+const TASK_STATUS_BY_EVENT: Record<string, string> = {
+  "task.queued": "pending",
+  "task.dispatched": "dispatched",
+  "task.progress": "running",
+  "task.retry": "dispatched",
+  "task.timeout": "timeout",
+  "task.cancelled": "cancelled",
+  "task.result": "completed",
+  "task.result.failure": "failed",
+};
+
+/** Per-task timeline: every lifecycle event plus the latest status. */
+export const taskTimelineProjection: Projection<TaskTimelineState> = {
+  name: "task-timeline",
+  version: 1,
+  eventTypes: Object.keys(TASK_STATUS_BY_EVENT),
+  key: (event) => event.taskId ?? null,
+  reduce(state, event) {
+    const payload = event.payload ?? {};
+    const next: TaskTimelineState = state
+      ? { ...state, events: [...state.events] }
+      : {
+          taskId: event.taskId!,
+          capability: null,
+          status: "pending",
+          agentId: null,
+          attempts: 0,
+          startedAt: event.timestamp,
+          updatedAt: event.timestamp,
+          durationMs: null,
+          events: [],
+        };
+
+    next.status = TASK_STATUS_BY_EVENT[event.eventType] ?? next.status;
+    next.updatedAt = event.timestamp;
+    if (typeof payload.capability === "string") next.capability = payload.capability;
+    if (event.eventType === "task.dispatched" || event.eventType === "task.retry") {
+      next.attempts += 1;
+      const to = payload.dispatchedTo ?? payload.newAgent;
+      if (typeof to === "string") next.agentId = to;
+    }
+    if (typeof payload.durationMs === "number") next.durationMs = payload.durationMs;
+
+    next.events.push({ seq: event.seq, eventType: event.eventType, agentId: event.agentId, at: event.timestamp });
+    return next;
+  },
+};
+
+export interface AgentStatsState {
+  agentId: string;
+  completed: number;
+  failed: number;
+  totalDurationMs: number;
+  meanDurationMs: number;
+  lastResultAt: string;
+}
+
+/** Per-agent task outcome counters, from task result events. */
+export const agentStatsProjection: Projection<AgentStatsState> = {
+  name: "agent-stats",
+  version: 2,
+  eventTypes: ["task.result", "task.result.failure"],
+  key: (event) => (event.agentId && event.agentId !== "unknown" ? event.agentId : null),
+  reduce(state, event) {
+    const payload = event.payload ?? {};
+    const next: AgentStatsState = state
+      ? { ...state }
+      : {
+          agentId: event.agentId,
+          completed: 0,
+          failed: 0,
+          totalDurationMs: 0,
+          meanDurationMs: 0,
+          lastResultAt: event.timestamp,
+        };
+
+    const success = event.eventType === "task.result";
+    if (success) next.completed += 1;
+    else next.failed += 1;
+
+    if (typeof payload.durationMs === "number") next.totalDurationMs += payload.durationMs;
+    next.meanDurationMs = next.totalDurationMs / (next.completed + next.failed);
+
+    next.lastResultAt = event.timestamp;
+    return next;
+  },
+};
+
+export interface IssueLifecycleState {
+  workflowId: string;
+  issueNumber: number | null;
+  repo: string | null;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  failureReason: string | null;
+  transitions: { seq: number; eventType: string; at: string }[];
+}
+
+/** Per-workflow issue lifecycle, from project-manager workflow events. */
+export const issueLifecycleProjection: Projection<IssueLifecycleState> = {
+  name: "issue-lifecycle",
+  version: 1,
+  eventTypes: ["workflow.started", "workflow.phase", "workflow.completed", "workflow.failed"],
+  key: (event) => event.traceId,
+  reduce(state, event) {
+    const payload = event.payload ?? {};
+    const next: IssueLifecycleState = state
+      ? { ...state, transitions: [...state.transitions] }
+      : {
+          workflowId: event.traceId,
+          issueNumber: null,
+          repo: null,
+          status: "active",
+          startedAt: event.timestamp,
+          completedAt: null,
+          failureReason: null,
+          transitions: [],
+        };
+
+    if (typeof payload.issueNumber === "number") next.issueNumber = payload.issueNumber;
+    if (typeof payload.repoOwner === "string" && typeof payload.repoName === "string") {
+      next.repo = `${payload.repoOwner}/${payload.repoName}`;
+    }
+    if (typeof payload.phase === "string") next.status = payload.phase;
+    if (event.eventType === "workflow.completed") {
+      next.status = "completed";
+      next.completedAt = event.timestamp;
+    }
+    if (event.eventType === "workflow.failed") {
+      next.status = "failed";
+      next.completedAt = event.timestamp;
+      next.failureReason = typeof payload.reason === "string" ? payload.reason : null;
+    }
+
+    next.transitions.push({ seq: event.seq, eventType: event.eventType, at: event.timestamp });
+    return next;
+  },
+};
+
+export const builtinProjections: Projection<any>[] = [
+  taskTimelineProjection,
+  agentStatsProjection,
+  issueLifecycleProjection,
+];
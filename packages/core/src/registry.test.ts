@@ -1,5 +1,5 @@
 import { describe, it, expect, mock, beforeEach } from "bun:test";
-import { AgentRegistry } from "./registry.js";
+import { AgentRegistry, IndexConflictError, REGISTRY_EVENTS_TOPIC } from "./registry.js";
 import type { AgentRegistration } from "./types.js";
 
 const STATE_STORE = "agent-statestore";
@@ -9,7 +9,7 @@ const INDEX_KEY = "agent:_index";
 function createMockDapr(stateStore: Record<string, any> = {}) {
   const store = { ...stateStore };
 
-  const saveMock = mock((_storeName: string, items: Array<{ key: string; value: any }>) => {
+  const saveMock = mock((_storeName: string, items: Array<{ key: string; value: any; etag?: string }>) => {
     for (const item of items) {
       store[item.key] = item.value;
     }
@@ -25,14 +25,25 @@ function createMockDapr(stateStore: Record<string, any> = {}) {
     return Promise.resolve();
   });
 
+  const getBulkMock = mock((_storeName: string, keys: string[]) => {
+    return Promise.resolve(
+      keys.map((key) => ({ key, data: store[key] ?? "", etag: store[key] ? "1" : "" }))
+    );
+  });
+
+  const publishMock = mock((_pubsub: string, _topic: string, _data: any) => Promise.resolve());
+
   return {
     dapr: {
-      state: { save: saveMock, get: getMock, delete: deleteMock },
+      state: { save: saveMock, get: getMock, delete: deleteMock, getBulk: getBulkMock },
+      pubsub: { publish: publishMock },
     } as any,
     store,
     saveMock,
     getMock,
     deleteMock,
+    getBulkMock,
+    publishMock,
   };
 }
 
@@ -131,6 +142,63 @@ describe("AgentRegistry", () => {
       await registry.heartbeat("nonexistent");
       expect(saveMock).not.toHaveBeenCalled();
     });
+
+    it("merges metadata into the registration", async () => {
+      const reg = { ...makeRegistration("agent-1"), metadata: { region: "a", "capacity:pod-0": { active: 1 } } };
+      const { dapr, store } = createMockDapr({ [`${REGISTRY_PREFIX}agent-1`]: reg });
+      const registry = new AgentRegistry(dapr);
+
+      await registry.heartbeat("agent-1", { "capacity:pod-0": { active: 2 } });
+
+      expect(store[`${REGISTRY_PREFIX}agent-1`].metadata).toEqual({
+        region: "a",
+        "capacity:pod-0": { active: 2 },
+      });
+    });
+  });
+
+  describe("instance reports", () => {
+    it("keeps each replica's report under its own key, untouched by register", async () => {
+      const { dapr, saveMock } = createMockDapr();
+      const registry = new AgentRegistry(dapr);
+
+      await registry.reportInstance("implementer", "pod-0", { activeSessions: 1 });
+      await registry.reportInstance("implementer", "pod-1", { activeSessions: 3 });
+      await registry.register(makeRegistration("implementer"));
+      await registry.reportInstance("implementer", "pod-0", { activeSessions: 2 });
+
+      const reports = await registry.listInstances("implementer");
+      expect(reports.map((r) => [r.instanceId, r.data])).toEqual([
+        ["pod-0", { activeSessions: 2 }],
+        ["pod-1", { activeSessions: 3 }],
+      ]);
+      const reportSave = saveMock.mock.calls.find((call) => call[1][0].key === `${REGISTRY_PREFIX}implementer:instance:pod-0`)!;
+      expect((reportSave[1][0] as any).metadata).toEqual({ ttlInSeconds: "600" });
+    });
+
+    it("drops expired reports from the instance index", async () => {
+      const { dapr, store } = createMockDapr();
+      const registry = new AgentRegistry(dapr);
+      await registry.reportInstance("implementer", "pod-0", {});
+      await registry.reportInstance("implementer", "pod-1", {});
+      // The state store expired pod-0's report
+      delete store[`${REGISTRY_PREFIX}implementer:instance:pod-0`];
+
+      const reports = await registry.listInstances("implementer");
+
+      expect(reports.map((r) => r.instanceId)).toEqual(["pod-1"]);
+      expect(store[`${REGISTRY_PREFIX}implementer:instances`]).toEqual(["pod-1"]);
+    });
+
+    it("removes a replica's report", async () => {
+      const { dapr } = createMockDapr();
+      const registry = new AgentRegistry(dapr);
+      await registry.reportInstance("implementer", "pod-0", {});
+
+      await registry.removeInstance("implementer", "pod-0");
+
+      expect(await registry.listInstances("implementer")).toEqual([]);
+    });
   });
 
   describe("deregister", () => {
@@ -189,6 +257,25 @@ describe("AgentRegistry", () => {
       const result = await registry.findByCapability("code-review");
       expect(result).toHaveLength(0);
     });
+
+    it("filters by version range when given a versioned reference", async () => {
+      const v1 = makeRegistration("a1", "online", [
+        { name: "code-review", weight: 0.8, preferred: false, requirements: [] },
+      ]);
+      const v2 = makeRegistration("a2", "online", [
+        { name: "code-review", weight: 0.8, preferred: false, requirements: [], version: "2.2.0" },
+      ]);
+      const { dapr } = createMockDapr({
+        [INDEX_KEY]: ["a1", "a2"],
+        [`${REGISTRY_PREFIX}a1`]: v1,
+        [`${REGISTRY_PREFIX}a2`]: v2,
+      });
+      const registry = new AgentRegistry(dapr);
+
+      expect((await registry.findByCapability("code-review@^2")).map((a) => a.appId)).toEqual(["a2"]);
+      expect((await registry.findByCapability("code-review@^1")).map((a) => a.appId)).toEqual(["a1"]);
+      expect(await registry.findByCapability("code-review")).toHaveLength(2);
+    });
   });
 
   describe("listAll", () => {
@@ -268,4 +355,156 @@ describe("AgentRegistry", () => {
       expect(saveMock).not.toHaveBeenCalled();
     });
   });
+
+  describe("optimistic concurrency", () => {
+    it("saves the index with the ETag it read", async () => {
+      const { dapr, saveMock } = createMockDapr({ [INDEX_KEY]: ["agent-0"] });
+      const registry = new AgentRegistry(dapr);
+
+      await registry.register(makeRegistration("agent-1"));
+
+      const indexSave = saveMock.mock.calls.find((call) => call[1][0].key === INDEX_KEY)!;
+      expect(indexSave[1][0].etag).toBe("1");
+      expect(indexSave[1][0].value).toEqual(["agent-0", "agent-1"]);
+    });
+
+    it("retries when a concurrent writer wins, keeping both entries", async () => {
+      const { dapr, store, saveMock } = createMockDapr({ [INDEX_KEY]: ["agent-0"] });
+      let conflicted = false;
+      const realSave = saveMock.getMockImplementation()!;
+      dapr.state.save = mock((storeName: string, items: Array<{ key: string; value: any }>) => {
+        if (items[0].key === INDEX_KEY && !conflicted) {
+          // Another registration lands between our read and write
+          conflicted = true;
+          store[INDEX_KEY] = [...store[INDEX_KEY], "agent-2"];
+          return Promise.resolve({ error: new Error("etag mismatch") });
+        }
+        return realSave(storeName, items);
+      });
+      const registry = new AgentRegistry(dapr);
+
+      await registry.register(makeRegistration("agent-1"));
+
+      expect(store[INDEX_KEY]).toEqual(["agent-0", "agent-2", "agent-1"]);
+    });
+
+    it("retries a heartbeat that races another replica's", async () => {
+      const key = `${REGISTRY_PREFIX}agent-1`;
+      const { dapr, store, saveMock } = createMockDapr({
+        [key]: { ...makeRegistration("agent-1"), metadata: { region: "a" } },
+      });
+      let conflicted = false;
+      const realSave = saveMock.getMockImplementation()!;
+      dapr.state.save = mock((storeName: string, items: Array<{ key: string; value: any; etag?: string }>) => {
+        if (items[0].key === key && !conflicted) {
+          conflicted = true;
+          store[key] = { ...store[key], metadata: { region: "a", zone: "z" } };
+          return Promise.resolve({ error: new Error("etag mismatch") });
+        }
+        return realSave(storeName, items);
+      });
+      const registry = new AgentRegistry(dapr);
+
+      await registry.heartbeat("agent-1", { build: "2" });
+
+      expect(store[key].metadata).toEqual({ region: "a", zone: "z", build: "2" });
+    });
+
+    it("gives up after repeated conflicts", async () => {
+      const { dapr } = createMockDapr();
+      dapr.state.save = mock(() => Promise.resolve({ error: new Error("etag mismatch") }));
+      const registry = new AgentRegistry(dapr);
+
+      await expect(registry.register(makeRegistration("agent-1"))).rejects.toThrow(IndexConflictError);
+    });
+
+    it("rethrows save errors that are not ETag conflicts", async () => {
+      const { dapr } = createMockDapr();
+      const realSave = dapr.state.save.getMockImplementation()!;
+      const saveMock = mock((storeName: string, items: Array<{ key: string; value: any }>) => {
+        if (items[0].key === INDEX_KEY) return Promise.resolve({ error: new Error("connection refused") });
+        return realSave(storeName, items);
+      });
+      dapr.state.save = saveMock;
+      const registry = new AgentRegistry(dapr);
+
+      await expect(registry.register(makeRegistration("agent-1"))).rejects.toThrow("connection refused");
+      // Not retried
+      expect(saveMock.mock.calls.filter((call) => call[1][0].key === INDEX_KEY)).toHaveLength(1);
+    });
+  });
+
+  describe("getBulk", () => {
+    it("fetches all agents in one call, in request order", async () => {
+      const { dapr, getBulkMock, getMock } = createMockDapr({
+        [INDEX_KEY]: ["a2", "a1"],
+        [`${REGISTRY_PREFIX}a1`]: makeRegistration("a1"),
+        [`${REGISTRY_PREFIX}a2`]: makeRegistration("a2"),
+      });
+      const registry = new AgentRegistry(dapr);
+
+      const agents = await registry.listAll();
+
+      expect(agents.map((a) => a.appId)).toEqual(["a2", "a1"]);
+      // One bulk read for the index, one for the agents; no per-agent reads
+      expect(getBulkMock).toHaveBeenCalledTimes(2);
+      expect(getMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("change feed", () => {
+    it("publishes registered and deregistered events", async () => {
+      const { dapr, publishMock } = createMockDapr();
+      const registry = new AgentRegistry(dapr);
+
+      await registry.register(makeRegistration("agent-1"));
+      await registry.deregister("agent-1");
+
+      const events = publishMock.mock.calls.map((call) => call[2]);
+      expect(publishMock.mock.calls[0][1]).toBe(REGISTRY_EVENTS_TOPIC);
+      expect(events.map((e: any) => e.type)).toEqual(["agent.registered", "agent.deregistered"]);
+      expect(events[0].agent.appId).toBe("agent-1");
+    });
+
+    it("publishes agent.online only when an agent comes back", async () => {
+      const { dapr, publishMock } = createMockDapr({
+        [`${REGISTRY_PREFIX}fresh`]: makeRegistration("fresh"),
+        [`${REGISTRY_PREFIX}back`]: makeRegistration("back", "offline"),
+      });
+      const registry = new AgentRegistry(dapr);
+
+      await registry.heartbeat("fresh");
+      await registry.heartbeat("back");
+
+      expect(publishMock).toHaveBeenCalledTimes(1);
+      expect(publishMock.mock.calls[0][2]).toMatchObject({ type: "agent.online", appId: "back" });
+    });
+
+    it("can be disabled", async () => {
+      const { dapr, publishMock } = createMockDapr();
+      const registry = new AgentRegistry(dapr, { publishChanges: false });
+
+      await registry.register(makeRegistration("agent-1"));
+      expect(publishMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pruneOffline", () => {
+    it("removes agents whose heartbeat is older than the TTL", async () => {
+      const old = new Date(Date.now() - 3_600_000).toISOString();
+      const { dapr, store, publishMock } = createMockDapr({
+        [INDEX_KEY]: ["stale", "live"],
+        [`${REGISTRY_PREFIX}stale`]: makeRegistration("stale", "offline", [], old),
+        [`${REGISTRY_PREFIX}live`]: makeRegistration("live"),
+      });
+      const registry = new AgentRegistry(dapr);
+
+      const pruned = await registry.pruneOffline(600_000);
+
+      expect(pruned).toEqual(["stale"]);
+      expect(store[INDEX_KEY]).toEqual(["live"]);
+      expect(store[`${REGISTRY_PREFIX}stale`]).toBeUndefined();
+      expect(publishMock.mock.calls[0][2]).toMatchObject({ type: "agent.pruned", appId: "stale" });
+    });
+  });
 });
@@ -1,12 +1,68 @@
-import { DaprClient } from "@dapr/dapr";
+import { DaprClient, StateConcurrencyEnum, StateConsistencyEnum } from "@dapr/dapr";
 import type { AgentRegistration } from "./types.js";
+import { parseCapabilityRef } from "./semver.js";
+import { capabilityMatches } from "./contracts.js";
 
 const STATE_STORE = "agent-statestore";
+const PUBSUB_NAME = "agent-pubsub";
 const REGISTRY_PREFIX = "agent:";
 const INDEX_KEY = "agent:_index";
+const INDEX_MAX_RETRIES = 5;
+/** Instance reports expire in the state store once their pod stops refreshing them */
+const INSTANCE_TTL_SECONDS = 600;
+const DEGRADED_AFTER_MS = 60_000;
+const OFFLINE_AFTER_MS = 120_000;
+
+/** Topic the registry publishes membership changes on. */
+export const REGISTRY_EVENTS_TOPIC = "agent-registry";
+
+export type RegistryChangeType =
+  | "agent.registered"
+  | "agent.online"
+  | "agent.offline"
+  | "agent.deregistered"
+  | "agent.pruned";
+
+export interface RegistryChangeEvent {
+  type: RegistryChangeType;
+  appId: string;
+  /** Registration after the change (absent for deregistered/pruned) */
+  agent?: AgentRegistration;
+  timestamp: string;
+}
+
+/** Live state reported by one replica (e.g. one pod's session capacity). */
+export interface AgentInstanceReport {
+  appId: string;
+  instanceId: string;
+  data: Record<string, unknown>;
+  updatedAt: string;
+}
+
+export interface AgentRegistryOptions {
+  /** Publish change events on REGISTRY_EVENTS_TOPIC (default true) */
+  publishChanges?: boolean;
+}
+
+/** Whether a Dapr state save failed because another writer changed the ETag. */
+function isEtagConflict(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /etag|409|conflict/i.test(message);
+}
+
+export class IndexConflictError extends Error {
+  constructor(attempts: number, key = INDEX_KEY) {
+    super(`Registry update of ${key} failed after ${attempts} concurrent-write conflicts`);
+    this.name = "IndexConflictError";
+  }
+}
 
 export class AgentRegistry {
-  constructor(private dapr: DaprClient) {}
+  private publishChanges: boolean;
+
+  constructor(private dapr: DaprClient, options: AgentRegistryOptions = {}) {
+    this.publishChanges = options.publishChanges ?? true;
+  }
 
   /**
    * Register an agent in the registry
@@ -23,20 +79,89 @@ export class AgentRegistry {
     await this.addToIndex(registration.appId);
 
     console.log(`[Registry] Registered agent: ${registration.appId}`);
+    await this.publish("agent.registered", registration.appId, registration);
   }
 
   /**
-   * Update agent heartbeat and status
+   * Update agent heartbeat and status. `metadata` is shallow-merged into the
+   * registration's metadata. Replicas of one app share the registration, so
+   * the write is ETag-guarded; per-replica figures belong in `reportInstance`.
    */
-  async heartbeat(appId: string): Promise<void> {
-    const agent = await this.get(appId);
-    if (agent) {
-      agent.lastHeartbeat = new Date().toISOString();
-      agent.status = "online";
-      await this.dapr.state.save(STATE_STORE, [
-        { key: `${REGISTRY_PREFIX}${appId}`, value: agent },
-      ]);
+  async heartbeat(appId: string, metadata?: Record<string, unknown>): Promise<void> {
+    let cameBack: AgentRegistration | null = null;
+    await this.updateState<AgentRegistration>(`${REGISTRY_PREFIX}${appId}`, (agent) => {
+      if (!agent) return null;
+
+      // Announce agents coming back from offline/degraded, not every heartbeat
+      const wasAvailable =
+        agent.status === "online" &&
+        Date.now() - new Date(agent.lastHeartbeat).getTime() <= DEGRADED_AFTER_MS;
+
+      const next: AgentRegistration = {
+        ...agent,
+        ...(metadata ? { metadata: { ...agent.metadata, ...metadata } } : {}),
+        lastHeartbeat: new Date().toISOString(),
+        status: "online",
+      };
+      cameBack = wasAvailable ? null : next;
+      return next;
+    });
+
+    if (cameBack) await this.publish("agent.online", appId, cameBack);
+  }
+
+  /**
+   * Store one replica's live state under its own key, so replicas never
+   * overwrite each other's reports and `register()` leaves them alone.
+   * Reports expire after INSTANCE_TTL_SECONDS without a refresh.
+   */
+  async reportInstance(appId: string, instanceId: string, data: Record<string, unknown>): Promise<void> {
+    const report: AgentInstanceReport = { appId, instanceId, data, updatedAt: new Date().toISOString() };
+    await this.dapr.state.save(STATE_STORE, [
+      {
+        key: instanceKey(appId, instanceId),
+        value: report,
+        metadata: { ttlInSeconds: String(INSTANCE_TTL_SECONDS) },
+      },
+    ]);
+    await this.updateState<string[]>(instanceIndexKey(appId), (ids) =>
+      ids?.includes(instanceId) ? null : [...(ids ?? []), instanceId]
+    );
+  }
+
+  /**
+   * Current replica reports for an app. Expired reports are dropped from the
+   * app's instance index as they are found.
+   */
+  async listInstances(appId: string): Promise<AgentInstanceReport[]> {
+    const { value: ids } = await this.getState<string[]>(instanceIndexKey(appId));
+    if (!ids?.length) return [];
+
+    const items = await this.dapr.state.getBulk(STATE_STORE, ids.map((id) => instanceKey(appId, id)));
+    const byKey = new Map(items.map((item) => [item.key, item.data as AgentInstanceReport | ""]));
+    const reports: AgentInstanceReport[] = [];
+    const expired: string[] = [];
+    for (const id of ids) {
+      const report = byKey.get(instanceKey(appId, id));
+      if (report) reports.push(report);
+      else expired.push(id);
     }
+
+    if (expired.length > 0) {
+      await this.updateState<string[]>(instanceIndexKey(appId), (current) => {
+        const next = (current ?? []).filter((id) => !expired.includes(id));
+        return next.length === current?.length ? null : next;
+      }).catch((err) => console.warn(`[Registry] Failed to prune instance index for ${appId}:`, err));
+    }
+    return reports;
+  }
+
+  /** Remove a replica's report (graceful shutdown). */
+  async removeInstance(appId: string, instanceId: string): Promise<void> {
+    await this.dapr.state.delete(STATE_STORE, instanceKey(appId, instanceId));
+    await this.updateState<string[]>(instanceIndexKey(appId), (ids) =>
+      ids?.includes(instanceId) ? ids.filter((id) => id !== instanceId) : null
+    );
   }
 
   /**
@@ -51,14 +176,34 @@ export class AgentRegistry {
   }
 
   /**
-   * Find agents by capability (filters out offline agents)
+   * Get several agents in one state-store round trip. Unknown IDs are skipped.
    */
-  async findByCapability(capability: string): Promise<AgentRegistration[]> {
+  async getBulk(appIds: string[]): Promise<AgentRegistration[]> {
+    if (appIds.length === 0) return [];
+
+    const items = await this.dapr.state.getBulk(
+      STATE_STORE,
+      appIds.map((id) => `${REGISTRY_PREFIX}${id}`)
+    );
+    const byKey = new Map(items.map((item) => [item.key, item.data as AgentRegistration]));
+
+    // Preserve index order
+    return appIds
+      .map((id) => byKey.get(`${REGISTRY_PREFIX}${id}`))
+      .filter((agent): agent is AgentRegistration => Boolean(agent));
+  }
+
+  /**
+   * Find agents by capability (filters out offline agents). Accepts a
+   * versioned reference such as `code-review@^2`.
+   */
+  async findByCapability(capabilityRef: string): Promise<AgentRegistration[]> {
+    const { name, range } = parseCapabilityRef(capabilityRef);
     const agents = await this.listAll();
     return agents.filter(
       (a) =>
         a.status !== "offline" &&
-        a.capabilities.some((c) => c.name === capability)
+        a.capabilities.some((c) => capabilityMatches(c, name, range))
     );
   }
 
@@ -66,21 +211,16 @@ export class AgentRegistry {
    * List all registered agents
    */
   async listAll(): Promise<AgentRegistration[]> {
-    const index = await this.getIndex();
-    const agents: AgentRegistration[] = [];
-
-    for (const appId of index) {
-      const agent = await this.get(appId);
-      if (agent) {
-        // Check for stale heartbeats (>60s = degraded, >120s = offline)
-        const heartbeatAge =
-          Date.now() - new Date(agent.lastHeartbeat).getTime();
-        if (heartbeatAge > 120_000) {
-          agent.status = "offline";
-        } else if (heartbeatAge > 60_000) {
-          agent.status = "degraded";
-        }
-        agents.push(agent);
+    const { ids } = await this.getIndex();
+    const agents = await this.getBulk(ids);
+
+    for (const agent of agents) {
+      // Check for stale heartbeats (>60s = degraded, >120s = offline)
+      const heartbeatAge = Date.now() - new Date(agent.lastHeartbeat).getTime();
+      if (heartbeatAge > OFFLINE_AFTER_MS) {
+        agent.status = "offline";
+      } else if (heartbeatAge > DEGRADED_AFTER_MS) {
+        agent.status = "degraded";
       }
     }
 
@@ -94,6 +234,7 @@ export class AgentRegistry {
     await this.dapr.state.delete(STATE_STORE, `${REGISTRY_PREFIX}${appId}`);
     await this.removeFromIndex(appId);
     console.log(`[Registry] Deregistered agent: ${appId}`);
+    await this.publish("agent.deregistered", appId);
   }
 
   /**
@@ -107,27 +248,131 @@ export class AgentRegistry {
         { key: `${REGISTRY_PREFIX}${appId}`, value: agent },
       ]);
       console.log(`[Registry] Marked agent offline: ${appId}`);
+      await this.publish("agent.offline", appId, agent);
+    }
+  }
+
+  /**
+   * Remove agents whose last heartbeat is older than `ttlMs`.
+   * Returns the pruned app IDs.
+   */
+  async pruneOffline(ttlMs: number): Promise<string[]> {
+    const agents = await this.listAll();
+    const pruned: string[] = [];
+
+    for (const agent of agents) {
+      const heartbeatAge = Date.now() - new Date(agent.lastHeartbeat).getTime();
+      if (heartbeatAge <= ttlMs) continue;
+
+      await this.dapr.state.delete(STATE_STORE, `${REGISTRY_PREFIX}${agent.appId}`);
+      pruned.push(agent.appId);
+    }
+
+    if (pruned.length > 0) {
+      await this.updateIndex((ids) => ids.filter((id) => !pruned.includes(id)));
+      for (const appId of pruned) {
+        console.log(`[Registry] Pruned offline agent: ${appId}`);
+        await this.publish("agent.pruned", appId);
+      }
+    }
+
+    return pruned;
+  }
+
+  // --- Change Feed ---
+
+  private async publish(
+    type: RegistryChangeType,
+    appId: string,
+    agent?: AgentRegistration
+  ): Promise<void> {
+    if (!this.publishChanges) return;
+
+    const event: RegistryChangeEvent = {
+      type,
+      appId,
+      agent,
+      timestamp: new Date().toISOString(),
+    };
+    try {
+      await this.dapr.pubsub.publish(PUBSUB_NAME, REGISTRY_EVENTS_TOPIC, event);
+    } catch (err) {
+      console.warn(`[Registry] Failed to publish ${type} for ${appId}:`, err);
     }
   }
 
   // --- Index Management ---
 
-  private async getIndex(): Promise<string[]> {
-    const result = await this.dapr.state.get(STATE_STORE, INDEX_KEY);
-    return (result as string[]) || [];
+  private async getIndex(): Promise<{ ids: string[]; etag?: string }> {
+    const { value, etag } = await this.getState<string[]>(INDEX_KEY);
+    return { ids: value ?? [], etag };
   }
 
-  private async addToIndex(appId: string): Promise<void> {
-    const index = await this.getIndex();
-    if (!index.includes(appId)) {
-      index.push(appId);
-      await this.dapr.state.save(STATE_STORE, [{ key: INDEX_KEY, value: index }]);
+  /** Read a key together with its ETag (getBulk returns both). */
+  private async getState<T>(key: string): Promise<{ value: T | null; etag?: string }> {
+    const [item] = await this.dapr.state.getBulk(STATE_STORE, [key]);
+    return {
+      value: (item?.data as T) || null,
+      etag: item?.etag || undefined,
+    };
+  }
+
+  private async updateIndex(mutate: (ids: string[]) => string[] | null): Promise<void> {
+    await this.updateState<string[]>(INDEX_KEY, (ids) => mutate([...(ids ?? [])]));
+  }
+
+  /**
+   * Read-modify-write a key with ETag optimistic concurrency, retrying when
+   * another writer got there first. `mutate` returns null for no change.
+   */
+  private async updateState<T>(key: string, mutate: (current: T | null) => T | null): Promise<void> {
+    for (let attempt = 1; attempt <= INDEX_MAX_RETRIES; attempt++) {
+      const { value, etag } = await this.getState<T>(key);
+      const next = mutate(value);
+      if (next === null) return;
+
+      let error: unknown;
+      try {
+        const result = await this.dapr.state.save(STATE_STORE, [
+          {
+            key,
+            value: next,
+            etag,
+            options: {
+              concurrency: StateConcurrencyEnum.CONCURRENCY_FIRST_WRITE,
+              consistency: StateConsistencyEnum.CONSISTENCY_STRONG,
+            },
+          },
+        ]);
+        error = result?.error;
+      } catch (err) {
+        error = err;
+      }
+
+      if (!error) return;
+      // Only a lost ETag race is retried; store outages and the like surface as-is
+      if (!isEtagConflict(error)) throw error;
+      await Bun.sleep(Math.random() * 50 * attempt);
     }
+
+    throw new IndexConflictError(INDEX_MAX_RETRIES, key);
+  }
+
+  private async addToIndex(appId: string): Promise<void> {
+    await this.updateIndex((ids) => (ids.includes(appId) ? null : [...ids, appId]));
   }
 
   private async removeFromIndex(appId: string): Promise<void> {
-    const index = await this.getIndex();
-    const filtered = index.filter((id) => id !== appId);
-    await this.dapr.state.save(STATE_STORE, [{ key: INDEX_KEY, value: filtered }]);
+    await this.updateIndex((ids) =>
+      ids.includes(appId) ? ids.filter((id) => id !== appId) : null
+    );
   }
 }
+
+function instanceKey(appId: string, instanceId: string): string {
+  return `${REGISTRY_PREFIX}${appId}:instance:${instanceId}`;
+}
+
+function instanceIndexKey(appId: string): string {
+  return `${REGISTRY_PREFIX}${appId}:instances`;
+}
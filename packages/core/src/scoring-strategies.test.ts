@@ -0,0 +1,206 @@
+import { describe, it, expect, mock, afterEach } from "bun:test";
+import {
+  weightedSuccessStrategy,
+  latencyWeightedStrategy,
+  leastLoadedStrategy,
+  costAwareStrategy,
+  epsilonGreedyStrategy,
+  loadScoringConfigFromEnv,
+  type ScoringInput,
+} from "./scoring-strategies.js";
+import { AgentScorer } from "./scoring.js";
+import type { AgentCapability, AgentRegistration, AgentScoreCard } from "./types.js";
+
+function makeInput(overrides: Partial<ScoringInput> = {}, cap: Partial<AgentCapability> = {}): ScoringInput {
+  const capability: AgentCapability = {
+    name: "test",
+    weight: 1.0,
+    preferred: false,
+    requirements: [],
+    ...cap,
+  };
+  return {
+    agent: {
+      name: "a1",
+      appId: "a1",
+      capabilities: [capability],
+      status: "online",
+      healthChecks: {},
+      lastHeartbeat: new Date().toISOString(),
+    },
+    capability,
+    dependencyHealth: 1,
+    history: [],
+    inFlight: 0,
+    ...overrides,
+  };
+}
+
+function card(agentId: string, finalScore: number): AgentScoreCard {
+  return {
+    agentId,
+    capability: "test",
+    baseWeight: 1,
+    dependencyHealth: 1,
+    rollingSuccessRate: 1,
+    recencyBoost: 1,
+    finalScore,
+    factors: {},
+  };
+}
+
+describe("scoring strategies", () => {
+  it("weighted-success multiplies the base factors", () => {
+    const result = weightedSuccessStrategy.score(makeInput({}, { weight: 0.8, preferred: true }));
+    expect(result.finalScore).toBeCloseTo(0.84, 10);
+    expect(result.factors).toEqual({
+      baseWeight: 0.8,
+      dependencyHealth: 1,
+      rollingSuccessRate: 1,
+      recencyBoost: 1,
+      preferredBonus: 1.05,
+    });
+  });
+
+  it("latency-weighted penalizes slow successful runs", () => {
+    const strategy = latencyWeightedStrategy(1000);
+    const fast = strategy.score(
+      makeInput({ history: [{ success: true, durationMs: 0, createdAt: new Date() }] })
+    );
+    const slow = strategy.score(
+      makeInput({ history: [{ success: true, durationMs: 1000, createdAt: new Date() }] })
+    );
+    expect(fast.factors.latencyFactor).toBe(1);
+    expect(slow.factors.latencyFactor).toBe(0.5);
+    expect(slow.finalScore).toBeLessThan(fast.finalScore);
+  });
+
+  it("latency-weighted ignores failed runs and missing durations", () => {
+    const result = latencyWeightedStrategy(1000).score(
+      makeInput({
+        history: [
+          { success: false, durationMs: 120000, createdAt: new Date() },
+          { success: true, durationMs: null, createdAt: new Date() },
+        ],
+      })
+    );
+    expect(result.factors.latencyFactor).toBe(1);
+  });
+
+  it("least-loaded divides by in-flight count", () => {
+    expect(leastLoadedStrategy.score(makeInput({ inFlight: 0 })).factors.loadFactor).toBe(1);
+    expect(leastLoadedStrategy.score(makeInput({ inFlight: 3 })).factors.loadFactor).toBe(0.25);
+  });
+
+  it("cost-aware prefers cheaper capabilities", () => {
+    expect(costAwareStrategy.score(makeInput()).factors.costFactor).toBe(1);
+    expect(costAwareStrategy.score(makeInput({}, { cost: 1 })).factors.costFactor).toBe(0.5);
+  });
+
+  it("epsilon-greedy keeps the order when not exploring", () => {
+    const strategy = epsilonGreedyStrategy({ epsilon: 0.1, random: () => 0.5 });
+    const scores = [card("a", 0.9), card("b", 0.5)];
+    expect(strategy.rank!(scores).map((s) => s.agentId)).toEqual(["a", "b"]);
+  });
+
+  it("epsilon-greedy promotes a random non-top agent when exploring", () => {
+    const rolls = [0.05, 0.99];
+    const strategy = epsilonGreedyStrategy({ epsilon: 0.1, random: () => rolls.shift()! });
+    const ranked = strategy.rank!([card("a", 0.9), card("b", 0.5), card("c", 0.1)]);
+    expect(ranked.map((s) => s.agentId)).toEqual(["c", "a", "b"]);
+    expect(ranked[0].factors?.explored).toBe(1);
+  });
+
+  it("epsilon-greedy promotes the last agent when random() returns 1", () => {
+    const rolls = [0.05, 1];
+    const strategy = epsilonGreedyStrategy({ epsilon: 0.1, random: () => rolls.shift()! });
+    const ranked = strategy.rank!([card("a", 0.9), card("b", 0.5)]);
+    expect(ranked.map((s) => s.agentId)).toEqual(["b", "a"]);
+  });
+
+  it("epsilon-greedy never promotes a zero-score agent", () => {
+    const rolls = [0.05, 0.99];
+    const strategy = epsilonGreedyStrategy({ epsilon: 0.1, random: () => rolls.shift()! });
+    const ranked = strategy.rank!([card("a", 0.9), card("b", 0.5), card("c", 0)]);
+    expect(ranked.map((s) => s.agentId)).toEqual(["b", "a", "c"]);
+
+    const stuck = epsilonGreedyStrategy({ epsilon: 0.1, random: () => 0.05 });
+    expect(stuck.rank!([card("a", 0.9), card("b", 0)]).map((s) => s.agentId)).toEqual(["a", "b"]);
+  });
+});
+
+describe("AgentScorer strategy selection", () => {
+  const pool = { query: mock(() => Promise.resolve({ rows: [] })) } as any;
+  const cap = (weight: number): AgentRegistration["capabilities"] => [
+    { name: "deploy", weight, preferred: false, requirements: [] },
+  ];
+  const agents: AgentRegistration[] = ["busy", "idle"].map((appId, i) => ({
+    name: appId,
+    appId,
+    capabilities: cap(i === 0 ? 1.0 : 0.8),
+    status: "online",
+    healthChecks: {},
+    lastHeartbeat: new Date().toISOString(),
+  }));
+
+  it("uses the per-capability strategy from config", async () => {
+    const scorer = new AgentScorer(pool, {
+      config: { defaultStrategy: "weighted-success", capabilities: { deploy: "least-loaded" } },
+    });
+    const scores = await scorer.scoreAgents(agents, "deploy", { inFlight: { busy: 2 } });
+    expect(scores[0].agentId).toBe("idle");
+    expect(scores[0].strategy).toBe("least-loaded");
+  });
+
+  it("falls back to the default strategy for unknown names", () => {
+    const scorer = new AgentScorer(pool, {
+      config: { defaultStrategy: "weighted-success", capabilities: { deploy: "nope" } },
+    });
+    expect(scorer.strategyFor("deploy").name).toBe("weighted-success");
+  });
+
+  it("explains scores under every strategy", async () => {
+    const scorer = new AgentScorer(pool);
+    const explained = await scorer.explainScores(agents, "deploy", { inFlight: { busy: 2 } });
+    expect(explained.selected).toBe("weighted-success");
+    expect(Object.keys(explained.strategies).sort()).toEqual([
+      "cost-aware",
+      "epsilon-greedy",
+      "latency-weighted",
+      "least-loaded",
+      "weighted-success",
+    ]);
+    expect(explained.strategies["weighted-success"][0].agentId).toBe("busy");
+    expect(explained.strategies["least-loaded"][0].factors?.loadFactor).toBe(1);
+  });
+});
+
+describe("loadScoringConfigFromEnv", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("parses default, per-capability overrides and epsilon", () => {
+    process.env.SCORING_STRATEGY = "latency-weighted";
+    process.env.SCORING_STRATEGIES = "deploy-service=least-loaded, general-query = cost-aware";
+    process.env.SCORING_EPSILON = "0.2";
+
+    expect(loadScoringConfigFromEnv()).toEqual({
+      defaultStrategy: "latency-weighted",
+      capabilities: { "deploy-service": "least-loaded", "general-query": "cost-aware" },
+      epsilon: 0.2,
+    });
+  });
+
+  it("defaults to weighted-success", () => {
+    delete process.env.SCORING_STRATEGY;
+    delete process.env.SCORING_STRATEGIES;
+    delete process.env.SCORING_EPSILON;
+    expect(loadScoringConfigFromEnv()).toEqual({
+      defaultStrategy: "weighted-success",
+      capabilities: {},
+      epsilon: undefined,
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import type { AgentCapability, AgentRegistration, AgentScoreCard } from "./types.js";
+
+const RECENCY_DECAY = 0.95;
+const PREFERRED_BONUS = 1.05;
+const RECOVERY_BOOST = 1.1;
+const DEFAULT_LATENCY_REFERENCE_MS = 30_000;
+const DEFAULT_EPSILON = 0.1;
+
+export const DEFAULT_SCORING_STRATEGY = "weighted-success";
+
+/** One row of agent_task_history, newest first. */
+export interface TaskHistorySample {
+  success: boolean;
+  durationMs: number | null;
+  createdAt: Date;
+}
+
+/** Everything a strategy may use to score one agent for one capability. */
+export interface ScoringInput {
+  agent: AgentRegistration;
+  capability: AgentCapability;
+  /** 1 if every requirement's health check passed, else 0 */
+  dependencyHealth: number;
+  history: TaskHistorySample[];
+  /** Tasks currently dispatched to this agent and not yet settled */
+  inFlight: number;
+}
+
+export interface StrategyScore {
+  finalScore: number;
+  /** Per-factor breakdown; the product of the factors is the final score */
+  factors: Record<string, number>;
+}
+
+export interface ScoringStrategy {
+  readonly name: string;
+  score(input: ScoringInput): StrategyScore;
+  /** Optional pass over the sorted score cards (e.g. exploration). */
+  rank?(scores: AgentScoreCard[]): AgentScoreCard[];
+}
+
+export interface ScoringConfig {
+  /** Strategy used for capabilities without an override */
+  defaultStrategy: string;
+  /** capability → strategy name */
+  capabilities: Record<string, string>;
+  /** Exploration rate for the epsilon-greedy strategy */
+  epsilon?: number;
+}
+
+/**
+ * Factors shared by every built-in strategy: weight × dependencyHealth ×
+ * rollingSuccessRate × recencyBoost × preferred bonus.
+ */
+export function baseFactors(input: ScoringInput): {
+  baseWeight: number;
+  dependencyHealth: number;
+  rollingSuccessRate: number;
+  recencyBoost: number;
+  preferredBonus: number;
+} {
+  const { history } = input;
+  let rollingSuccessRate = 1.0; // default if no history
+  let recencyBoost = 1.0;
+
+  if (history.length > 0) {
+    let weightedSuccess = 0;
+    let totalWeight = 0;
+    history.forEach((row, i) => {
+      const weight = Math.pow(RECENCY_DECAY, i); // newer = higher weight
+      weightedSuccess += row.success ? weight : 0;
+      totalWeight += weight;
+    });
+    rollingSuccessRate = weightedSuccess / totalWeight;
+
+    // Boost if last 3 tasks were all successful (agent recovered)
+    const recent3 = history.slice(0, 3);
+    if (recent3.length >= 3 && recent3.every((r) => r.success)) {
+      recencyBoost = RECOVERY_BOOST;
+    }
+  }
+
+  return {
+    baseWeight: input.capability.weight,
+    dependencyHealth: input.dependencyHealth,
+    rollingSuccessRate,
+    recencyBoost,
+    preferredBonus: input.capability.preferred ? PREFERRED_BONUS : 1.0,
+  };
+}
+
+function fromFactors(factors: Record<string, number>): StrategyScore {
+  const finalScore = Object.values(factors).reduce((acc, f) => acc * f, 1);
+  return { finalScore, factors };
+}
+
+// --- Built-in Strategies ---
+
+/** The original formula: weight × health × recency-weighted success × boosts. */
+export const weightedSuccessStrategy: ScoringStrategy = {
+  name: DEFAULT_SCORING_STRATEGY,
+  score: (input) => fromFactors(baseFactors(input)),
+};
+
+/**
+ * Penalizes slow agents using the mean `duration_ms` of recent successful
+ * tasks: factor = 1 / (1 + meanMs / referenceMs).
+ */
+export function latencyWeightedStrategy(
+  referenceMs: number = DEFAULT_LATENCY_REFERENCE_MS
+): ScoringStrategy {
+  return {
+    name: "latency-weighted",
+    score(input) {
+      const durations = input.history
+        .filter((h) => h.success && h.durationMs !== null && h.durationMs !== undefined)
+        .map((h) => h.durationMs!);
+      const meanMs =
+        durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0;
+      return fromFactors({
+        ...baseFactors(input),
+        latencyFactor: 1 / (1 + meanMs / referenceMs),
+      });
+    },
+  };
+}
+
+/** Prefers agents with fewer in-flight tasks: factor = 1 / (1 + inFlight). */
+export const leastLoadedStrategy: ScoringStrategy = {
+  name: "least-loaded",
+  score: (input) =>
+    fromFactors({
+      ...baseFactors(input),
+      loadFactor: 1 / (1 + Math.max(0, input.inFlight)),
+    }),
+};
+
+/** Prefers cheaper capabilities: factor = 1 / (1 + capability.cost). */
+export const costAwareStrategy: ScoringStrategy = {
+  name: "cost-aware",
+  score: (input) =>
+    fromFactors({
+      ...baseFactors(input),
+      costFactor: 1 / (1 + Math.max(0, input.capability.cost ?? 0)),
+    }),
+};
+
+/**
+ * Scores like `base`, but with probability `epsilon` promotes a random
+ * non-top agent to first place so that under-used agents keep building
+ * history. Only agents with a positive score are explored; a zero score means
+ * the agent is unhealthy or cannot take the task. The promoted card gets an
+ * `explored: 1` factor.
+ */
+export function epsilonGreedyStrategy(opts: {
+  epsilon?: number;
+  base?: ScoringStrategy;
+  random?: () => number;
+} = {}): ScoringStrategy {
+  const epsilon = opts.epsilon ?? DEFAULT_EPSILON;
+  const base = opts.base ?? weightedSuccessStrategy;
+  const random = opts.random ?? Math.random;
+
+  return {
+    name: "epsilon-greedy",
+    score: (input) => base.score(input),
+    rank(scores) {
+      if (scores.length < 2 || random() >= epsilon) return scores;
+      const candidates = scores.flatMap((s, i) => (i > 0 && s.finalScore > 0 ? [i] : []));
+      if (candidates.length === 0) return scores;
+      // Clamped so an injected random() of 1 still picks an existing card
+      const index = candidates[Math.min(candidates.length - 1, Math.floor(random() * candidates.length))];
+      const picked = index === undefined ? undefined : scores[index];
+      if (index === undefined || !picked) return scores;
+      const explored = {
+        ...picked,
+        factors: { ...picked.factors, explored: 1 },
+      };
+      return [explored, ...scores.slice(0, index), ...scores.slice(index + 1)];
+    },
+  };
+}
+
+/** All built-in strategies, keyed by name. */
+export function builtinStrategies(config?: Pick<ScoringConfig, "epsilon">): ScoringStrategy[] {
+  return [
+    weightedSuccessStrategy,
+    latencyWeightedStrategy(),
+    leastLoadedStrategy,
+    costAwareStrategy,
+    epsilonGreedyStrategy({ epsilon: config?.epsilon }),
+  ];
+}
+
+/**
+ * Load per-capability strategy selection from the environment:
+ * - `SCORING_STRATEGY`: default strategy name
+ * - `SCORING_STRATEGIES`: `capability=strategy` pairs, comma-separated
+ * - `SCORING_EPSILON`: exploration rate for epsilon-greedy
+ */
+export function loadScoringConfigFromEnv(): ScoringConfig {
+  const capabilities: Record<string, string> = {};
+  for (const pair of process.env.SCORING_STRATEGIES?.split(",") ?? []) {
+    const [capability, strategy] = pair.split("=").map((s) => s.trim());
+    if (capability && strategy) capabilities[capability] = strategy;
+  }
+
+  const epsilon = Number(process.env.SCORING_EPSILON);
+  return {
+    defaultStrategy: process.env.SCORING_STRATEGY?.trim() || DEFAULT_SCORING_STRATEGY,
+    capabilities,
+    epsilon: Number.isFinite(epsilon) && process.env.SCORING_EPSILON ? epsilon : undefined,
+  };
+}
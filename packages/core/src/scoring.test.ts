@@ -61,11 +61,11 @@ describe("AgentScorer", () => {
       const decay = 0.95;
       // 5 tasks: success, success, fail, success, fail (newest first)
       const history = [
-        { success: true, created_at: new Date() },
-        { success: true, created_at: new Date() },
-        { success: false, created_at: new Date() },
-        { success: true, created_at: new Date() },
-        { success: false, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
       ];
       const pool = createMockPool(mock(() => Promise.resolve({ rows: history })));
       const scorer = new AgentScorer(pool);
@@ -90,10 +90,10 @@ describe("AgentScorer", () => {
 
     it("applies recency boost when last 3 tasks all successful", async () => {
       const history = [
-        { success: true, created_at: new Date() },
-        { success: true, created_at: new Date() },
-        { success: true, created_at: new Date() },
-        { success: false, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
       ];
       const pool = createMockPool(mock(() => Promise.resolve({ rows: history })));
       const scorer = new AgentScorer(pool);
@@ -107,8 +107,8 @@ describe("AgentScorer", () => {
 
     it("no recency boost when fewer than 3 tasks in history", async () => {
       const history = [
-        { success: true, created_at: new Date() },
-        { success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
       ];
       const pool = createMockPool(mock(() => Promise.resolve({ rows: history })));
       const scorer = new AgentScorer(pool);
@@ -122,9 +122,9 @@ describe("AgentScorer", () => {
 
     it("no recency boost when one of last 3 failed", async () => {
       const history = [
-        { success: true, created_at: new Date() },
-        { success: false, created_at: new Date() },
-        { success: true, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
+        { agent_id: "a1", success: true, created_at: new Date() },
       ];
       const pool = createMockPool(mock(() => Promise.resolve({ rows: history })));
       const scorer = new AgentScorer(pool);
@@ -189,9 +189,9 @@ describe("AgentScorer", () => {
 
     it("all failures yields rollingSuccessRate of 0", async () => {
       const history = [
-        { success: false, created_at: new Date() },
-        { success: false, created_at: new Date() },
-        { success: false, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
+        { agent_id: "a1", success: false, created_at: new Date() },
       ];
       const pool = createMockPool(mock(() => Promise.resolve({ rows: history })));
       const scorer = new AgentScorer(pool);
@@ -218,6 +218,50 @@ describe("AgentScorer", () => {
       expect(scores[1].agentId).toBe("a1");
       expect(scores[0].finalScore).toBeGreaterThan(scores[1].finalScore);
     });
+
+    it("loads history for all agents in a single query", async () => {
+      const queryMock = mock((_sql: string, _params: any[]) =>
+        Promise.resolve({
+          rows: [
+            { agent_id: "a2", success: false, created_at: new Date() },
+            { agent_id: "a1", success: true, created_at: new Date() },
+          ],
+        })
+      );
+      const scorer = new AgentScorer(createMockPool(queryMock));
+      const agents = [
+        makeAgent("a1", [{ name: "test", weight: 1.0, preferred: false, requirements: [] }]),
+        makeAgent("a2", [{ name: "test", weight: 1.0, preferred: false, requirements: [] }]),
+      ];
+
+      const scores = await scorer.scoreAgents(agents, "test");
+
+      expect(queryMock).toHaveBeenCalledTimes(1);
+      const [, params] = queryMock.mock.calls[0]!;
+      expect(params).toEqual(["test", ["a1", "a2"], 20]);
+      expect(scores.find((s) => s.agentId === "a1")!.rollingSuccessRate).toBe(1);
+      expect(scores.find((s) => s.agentId === "a2")!.rollingSuccessRate).toBe(0);
+    });
+
+    it("probes a shared health URL once and reuses the cached result", async () => {
+      const fetchMock = mock(() => Promise.resolve({ ok: true } as Response));
+      globalThis.fetch = fetchMock as any;
+
+      const scorer = new AgentScorer(createMockPool());
+      const agents = ["a1", "a2"].map((id) =>
+        makeAgent(
+          id,
+          [{ name: "test", weight: 1.0, preferred: false, requirements: ["db"] }],
+          { db: "http://db/health" }
+        )
+      );
+
+      await scorer.scoreAgents(agents, "test");
+      await scorer.scoreAgents(agents, "test");
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(scorer.healthStats().entries).toBe(1);
+    });
   });
 
   describe("recordTaskResult", () => {
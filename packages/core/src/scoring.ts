@@ -1,95 +1,211 @@
 import type { Pool } from "pg";
 import type { AgentRegistration, AgentScoreCard, TaskResult } from "./types.js";
+import {
+  DEFAULT_SCORING_STRATEGY,
+  baseFactors,
+  builtinStrategies,
+  type ScoringConfig,
+  type ScoringInput,
+  type ScoringStrategy,
+  type TaskHistorySample,
+} from "./scoring-strategies.js";
+import { HealthProbeCache, type HealthProbeStats } from "./health-probe.js";
+import { parseCapabilityRef } from "./semver.js";
+import { capabilityMatches } from "./contracts.js";
 
 const ROLLING_WINDOW = 20;
-const RECENCY_DECAY = 0.95;
-const HEALTH_CHECK_TIMEOUT = 3000;
+
+export interface AgentScorerOptions {
+  /** Strategy selection; defaults to the original weighted-success formula everywhere */
+  config?: ScoringConfig;
+  /** Additional (or replacement) strategies, registered by name */
+  strategies?: ScoringStrategy[];
+  /** Dependency health cache; share one across scorers to share probe results */
+  healthCache?: HealthProbeCache;
+}
+
+export interface ScoreOptions {
+  /** In-flight task counts per agent ID (used by least-loaded) */
+  inFlight?: Record<string, number>;
+  /** Override the configured strategy for this call */
+  strategy?: string;
+}
 
 export class AgentScorer {
-  constructor(private pool: Pool) {}
+  private strategies = new Map<string, ScoringStrategy>();
+  private config: ScoringConfig;
+  readonly healthCache: HealthProbeCache;
+
+  constructor(private pool: Pool, options: AgentScorerOptions = {}) {
+    this.healthCache = options.healthCache ?? new HealthProbeCache();
+    this.config = options.config ?? {
+      defaultStrategy: DEFAULT_SCORING_STRATEGY,
+      capabilities: {},
+    };
+    for (const strategy of [...builtinStrategies(this.config), ...(options.strategies ?? [])]) {
+      this.registerStrategy(strategy);
+    }
+  }
+
+  registerStrategy(strategy: ScoringStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  listStrategies(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  /** Strategy configured for a capability (falls back to the default if unknown). */
+  strategyFor(capability: string): ScoringStrategy {
+    const name = this.config.capabilities[capability] ?? this.config.defaultStrategy;
+    return (
+      this.strategies.get(name) ?? this.strategies.get(DEFAULT_SCORING_STRATEGY)!
+    );
+  }
 
   /**
-   * Score agents for a given capability.
-   * Returns agents sorted by final score (highest first).
+   * Score agents for a given capability. Accepts a versioned reference
+   * (`code-review@^2`); agents whose declared version falls outside the range
+   * are skipped. Returns agents sorted by final score (highest first).
    */
   async scoreAgents(
     agents: AgentRegistration[],
-    capability: string
+    capabilityRef: string,
+    opts: ScoreOptions = {}
   ): Promise<AgentScoreCard[]> {
-    const scores: AgentScoreCard[] = [];
+    const { name: capability, range } = parseCapabilityRef(capabilityRef);
+    const strategy =
+      (opts.strategy && this.strategies.get(opts.strategy)) || this.strategyFor(capability);
+    const inputs = await this.collectInputs(agents, capability, range, opts.inFlight ?? {});
+    return this.applyStrategy(strategy, inputs, capability);
+  }
 
-    for (const agent of agents) {
-      const cap = agent.capabilities.find((c) => c.name === capability);
-      if (!cap) continue;
+  /**
+   * Score agents under every registered strategy, with per-factor breakdowns.
+   * Inputs (health checks, history) are gathered once and shared.
+   */
+  async explainScores(
+    agents: AgentRegistration[],
+    capabilityRef: string,
+    opts: Pick<ScoreOptions, "inFlight"> = {}
+  ): Promise<{ selected: string; strategies: Record<string, AgentScoreCard[]> }> {
+    const { name: capability, range } = parseCapabilityRef(capabilityRef);
+    const inputs = await this.collectInputs(agents, capability, range, opts.inFlight ?? {});
+    const strategies: Record<string, AgentScoreCard[]> = {};
+    for (const strategy of this.strategies.values()) {
+      strategies[strategy.name] = this.applyStrategy(strategy, inputs, capability);
+    }
+    return { selected: this.strategyFor(capability).name, strategies };
+  }
 
-      // Check dependency health
-      let dependencyHealth = 1;
-      for (const req of cap.requirements) {
-        const url = agent.healthChecks[req];
-        if (url) {
-          try {
-            const res = await fetch(url, {
-              signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT),
-            });
-            if (!res.ok) dependencyHealth = 0;
-          } catch {
-            dependencyHealth = 0;
-          }
-        }
-      }
-
-      // Rolling success rate with recency weighting
-      const { rows: history } = await this.pool.query<{
-        success: boolean;
-        created_at: Date;
-      }>(
-        `SELECT success, created_at
-         FROM agent_task_history
-         WHERE agent_id = $1 AND capability = $2
-         ORDER BY created_at DESC
-         LIMIT $3`,
-        [agent.appId, capability, ROLLING_WINDOW]
-      );
-
-      let rollingSuccessRate = 1.0; // default if no history
-      let recencyBoost = 1.0;
-
-      if (history.length > 0) {
-        let weightedSuccess = 0;
-        let totalWeight = 0;
-        history.forEach((row, i) => {
-          const weight = Math.pow(RECENCY_DECAY, i); // newer = higher weight
-          weightedSuccess += row.success ? weight : 0;
-          totalWeight += weight;
-        });
-        rollingSuccessRate = weightedSuccess / totalWeight;
-
-        // Boost if last 3 tasks were all successful (agent recovered)
-        const recent3 = history.slice(0, 3);
-        if (recent3.length >= 3 && recent3.every((r) => r.success)) {
-          recencyBoost = 1.1;
-        }
-      }
-
-      const finalScore =
-        cap.weight *
-        dependencyHealth *
-        rollingSuccessRate *
-        recencyBoost *
-        (cap.preferred ? 1.05 : 1.0); // slight preferred bonus
-
-      scores.push({
-        agentId: agent.appId,
+  private applyStrategy(
+    strategy: ScoringStrategy,
+    inputs: ScoringInput[],
+    capability: string
+  ): AgentScoreCard[] {
+    const scores: AgentScoreCard[] = inputs.map((input) => {
+      const base = baseFactors(input);
+      const { finalScore, factors } = strategy.score(input);
+      return {
+        agentId: input.agent.appId,
         capability,
-        baseWeight: cap.weight,
-        dependencyHealth,
-        rollingSuccessRate,
-        recencyBoost,
+        baseWeight: base.baseWeight,
+        dependencyHealth: base.dependencyHealth,
+        rollingSuccessRate: base.rollingSuccessRate,
+        recencyBoost: base.recencyBoost,
         finalScore,
+        strategy: strategy.name,
+        factors,
+      };
+    });
+
+    const sorted = scores.sort((a, b) => b.finalScore - a.finalScore);
+    return strategy.rank ? strategy.rank(sorted) : sorted;
+  }
+
+  private async collectInputs(
+    agents: AgentRegistration[],
+    capability: string,
+    range: string | null,
+    inFlight: Record<string, number>
+  ): Promise<ScoringInput[]> {
+    const candidates = agents.flatMap((agent) => {
+      const cap = agent.capabilities.find((c) => capabilityMatches(c, capability, range));
+      return cap ? [{ agent, cap }] : [];
+    });
+    if (candidates.length === 0) return [];
+
+    // Probe every requirement's health URL concurrently (served from cache when fresh)
+    const urls = candidates.flatMap(({ agent, cap }) =>
+      cap.requirements
+        .map((req) => agent.healthChecks[req])
+        .filter((url): url is string => Boolean(url))
+    );
+    const [health, history] = await Promise.all([
+      this.healthCache.checkAll(urls),
+      this.loadHistory(
+        candidates.map(({ agent }) => agent.appId),
+        capability
+      ),
+    ]);
+
+    return candidates.map(({ agent, cap }) => {
+      const dependencyHealth = cap.requirements.every((req) => {
+        const url = agent.healthChecks[req];
+        return !url || health.get(url) === true;
+      })
+        ? 1
+        : 0;
+
+      return {
+        agent,
+        capability: cap,
+        dependencyHealth,
+        history: history.get(agent.appId) ?? [],
+        inFlight: inFlight[agent.appId] ?? 0,
+      };
+    });
+  }
+
+  /** Recent history for all candidate agents in one query, newest first per agent. */
+  private async loadHistory(
+    agentIds: string[],
+    capability: string
+  ): Promise<Map<string, TaskHistorySample[]>> {
+    const { rows } = await this.pool.query<{
+      agent_id: string;
+      success: boolean;
+      duration_ms: number | null;
+      created_at: Date;
+    }>(
+      `SELECT agent_id, success, duration_ms, created_at
+       FROM (
+         SELECT agent_id, success, duration_ms, created_at,
+                ROW_NUMBER() OVER (PARTITION BY agent_id ORDER BY created_at DESC) AS rn
+         FROM agent_task_history
+         WHERE capability = $1 AND agent_id = ANY($2)
+       ) recent
+       WHERE rn <= $3
+       ORDER BY agent_id, created_at DESC`,
+      [capability, agentIds, ROLLING_WINDOW]
+    );
+
+    const byAgent = new Map<string, TaskHistorySample[]>();
+    for (const r of rows) {
+      const samples = byAgent.get(r.agent_id) ?? [];
+      samples.push({
+        success: r.success,
+        durationMs: r.duration_ms ?? null,
+        createdAt: r.created_at,
       });
+      byAgent.set(r.agent_id, samples);
     }
+    return byAgent;
+  }
 
-    return scores.sort((a, b) => b.finalScore - a.finalScore);
+  /** Freshness of cached dependency health data. */
+  healthStats(): HealthProbeStats {
+    return this.healthCache.stats();
   }
 
   /**
@@ -97,8 +213,10 @@ export class AgentScorer {
    */
   async recordTaskResult(
     result: TaskResult,
-    capability: string
+    capabilityRef: string
   ): Promise<void> {
+    // History is kept per capability name, across versions
+    const { name: capability } = parseCapabilityRef(capabilityRef);
     await this.pool.query(
       `INSERT INTO agent_task_history (
         id, agent_id, capability, success, duration_ms, error_type, created_at
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import { parseSemver, satisfies, parseCapabilityRef, isValidSemver } from "./semver.js";
+
+describe("parseSemver", () => {
+  it("parses full and partial versions", () => {
+    expect(parseSemver("2.1.3")).toEqual({ major: 2, minor: 1, patch: 3 });
+    expect(parseSemver("v2")).toEqual({ major: 2, minor: 0, patch: 0 });
+    expect(parseSemver("2.x")).toEqual({ major: 2, minor: 0, patch: 0 });
+    expect(parseSemver("latest")).toBeNull();
+  });
+
+  it("validates strict versions", () => {
+    expect(isValidSemver("1.2.3")).toBe(true);
+    expect(isValidSemver("1.2")).toBe(false);
+  });
+});
+
+describe("satisfies", () => {
+  const cases: Array<[string, string, boolean]> = [
+    ["2.3.1", "^2", true],
+    ["3.0.0", "^2", false],
+    ["2.0.0", "^2.1", false],
+    ["2.1.5", "^2.1", true],
+    ["0.2.5", "^0.2.1", true],
+    ["0.3.0", "^0.2.1", false],
+    ["2.1.9", "~2.1", true],
+    ["2.2.0", "~2.1", false],
+    ["2.0.0", ">=2.0.0 <3", true],
+    ["3.0.0", ">=2.0.0 <3", false],
+    ["1.4.0", "*", true],
+    ["1.4.0", "1.x", true],
+    ["1.4.0", "1", true],
+    ["1.4.0", "1.4.0", true],
+    ["1.4.1", "1.4.0", false],
+    ["1.4.0", "nonsense", false],
+  ];
+
+  for (const [version, range, expected] of cases) {
+    it(`${version} ${expected ? "satisfies" : "does not satisfy"} ${range}`, () => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+  }
+});
+
+describe("parseCapabilityRef", () => {
+  it("splits name and range", () => {
+    expect(parseCapabilityRef("code-review@^2")).toEqual({ name: "code-review", range: "^2" });
+  });
+
+  it("treats a bare name as any version", () => {
+    expect(parseCapabilityRef("code-review")).toEqual({ name: "code-review", range: null });
+    expect(parseCapabilityRef("code-review@")).toEqual({ name: "code-review", range: null });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Minimal semver support for capability versions.
+ *
+ * Versions are `MAJOR.MINOR.PATCH` (missing parts default to 0). Ranges
+ * support exact (`2.1.0`), caret (`^2`, `^2.1`), tilde (`~2.1`), comparison
+ * (`>=2.0.0`, `<3`), wildcards (`*`, `2.x`) and space-separated conjunctions
+ * (`>=2.1.0 <3`).
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/** Version assumed for capabilities that do not declare one. */
+export const DEFAULT_CAPABILITY_VERSION = "1.0.0";
+
+const VERSION_RE = /^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/;
+
+export function parseSemver(version: string): SemVer | null {
+  const match = VERSION_RE.exec(version.trim());
+  if (!match) return null;
+  const part = (p: string | undefined) => (p === undefined || p === "x" || p === "*" ? 0 : Number(p));
+  const [, major = "0", minor, patch] = match;
+  return { major: Number(major), minor: part(minor), patch: part(patch) };
+}
+
+export function isValidSemver(version: string): boolean {
+  return /^v?\d+\.\d+\.\d+$/.test(version.trim());
+}
+
+export function compareSemver(a: SemVer, b: SemVer): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/** Does `version` satisfy `range`? Invalid versions or ranges never match. */
+export function satisfies(version: string, range: string): boolean {
+  const v = parseSemver(version);
+  if (!v) return false;
+
+  const comparators = range.trim().split(/\s+/).filter(Boolean);
+  if (comparators.length === 0) return true;
+  return comparators.every((c) => matchComparator(v, c));
+}
+
+function matchComparator(v: SemVer, comparator: string): boolean {
+  if (comparator === "*" || comparator === "x") return true;
+
+  const [, operator = "", target = ""] = /^(\^|~|>=|<=|>|<|=)?(.*)$/.exec(comparator) ?? [];
+  const t = parseSemver(target);
+  if (!t) return false;
+
+  // Number of explicit (non-wildcard) parts, e.g. "2" → 1, "2.1" → 2
+  const parts = target.replace(/^v/, "").split(".").filter((p) => p !== "x" && p !== "*").length;
+  const cmp = compareSemver(v, t);
+
+  switch (operator) {
+    case ">=":
+      return cmp >= 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case "<":
+      return cmp < 0;
+    case "^":
+      if (cmp < 0) return false;
+      // ^0.x.y locks the minor; ^0.0.z locks the patch
+      if (t.major > 0 || parts === 1) return v.major === t.major;
+      if (t.minor > 0 || parts === 2) return v.major === 0 && v.minor === t.minor;
+      return v.major === 0 && v.minor === 0 && v.patch === t.patch;
+    case "~":
+      if (cmp < 0) return false;
+      if (parts === 1) return v.major === t.major;
+      return v.major === t.major && v.minor === t.minor;
+    default:
+      // Bare "2" or "2.1" behave like wildcards ("2.x", "2.1.x")
+      if (parts === 1) return v.major === t.major;
+      if (parts === 2) return v.major === t.major && v.minor === t.minor;
+      return cmp === 0;
+  }
+}
+
+/**
+ * Split a capability reference such as `code-review@^2` into its name and
+ * version range. A bare name has no range (any version matches).
+ */
+export function parseCapabilityRef(ref: string): { name: string; range: string | null } {
+  const at = ref.indexOf("@");
+  if (at <= 0) return { name: ref, range: null };
+  const range = ref.slice(at + 1).trim();
+  return { name: ref.slice(0, at), range: range || null };
+}
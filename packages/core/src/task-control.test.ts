@@ -0,0 +1,147 @@
+import { describe, it, expect, jest } from "bun:test";
+import {
+  CancelToken,
+  TaskCancellations,
+  TaskCancelledError,
+  taskControlTopic,
+  startTaskProgress,
+  taskProgressIntervalMs,
+  TASK_PROGRESS_TOPIC,
+} from "./task-control.js";
+import type { DaprClient } from "@dapr/dapr";
+
+const TASK_ID = "00000000-0000-4000-8000-000000000001";
+
+describe("taskControlTopic", () => {
+  it("builds a per-agent topic", () => {
+    expect(taskControlTopic("simple-agent")).toBe("control.simple-agent");
+  });
+});
+
+describe("CancelToken", () => {
+  it("starts uncancelled", () => {
+    const token = new CancelToken(TASK_ID);
+    expect(token.cancelled).toBe(false);
+    expect(token.signal.aborted).toBe(false);
+    expect(() => token.throwIfCancelled()).not.toThrow();
+  });
+
+  it("aborts its signal and throws once cancelled", () => {
+    const token = new CancelToken(TASK_ID);
+    token.cancel("user request");
+
+    expect(token.cancelled).toBe(true);
+    expect(token.reason).toBe("user request");
+    expect(token.signal.aborted).toBe(true);
+    expect(() => token.throwIfCancelled()).toThrow(TaskCancelledError);
+  });
+
+  it("keeps the first reason", () => {
+    const token = new CancelToken(TASK_ID);
+    token.cancel("first");
+    token.cancel("second");
+    expect(token.reason).toBe("first");
+  });
+});
+
+describe("TaskCancellations", () => {
+  it("cancels an in-flight task", () => {
+    const cancellations = new TaskCancellations();
+    const token = cancellations.begin(TASK_ID);
+
+    expect(cancellations.cancel(TASK_ID, "lease_expired")).toBe(true);
+    expect(token.cancelled).toBe(true);
+  });
+
+  it("applies cancellations that arrive before the task", () => {
+    const cancellations = new TaskCancellations();
+    expect(cancellations.cancel(TASK_ID, "user request")).toBe(false);
+
+    const token = cancellations.begin(TASK_ID);
+    expect(token.cancelled).toBe(true);
+    expect(token.reason).toBe("user request");
+  });
+
+  it("returns the same token for a redelivered task", () => {
+    const cancellations = new TaskCancellations();
+    expect(cancellations.begin(TASK_ID)).toBe(cancellations.begin(TASK_ID));
+    cancellations.end(TASK_ID);
+    expect(cancellations.size).toBe(0);
+  });
+
+  it("handles valid control messages and ignores others", () => {
+    const cancellations = new TaskCancellations();
+    const token = cancellations.begin(TASK_ID);
+
+    expect(cancellations.handleControlMessage({ type: "pause", taskId: TASK_ID })).toBeNull();
+    expect(token.cancelled).toBe(false);
+
+    const msg = cancellations.handleControlMessage({
+      type: "cancel",
+      taskId: TASK_ID,
+      reason: "user request",
+      requestedBy: "orchestrator",
+      cancelledAt: new Date().toISOString(),
+    });
+    expect(msg?.taskId).toBe(TASK_ID);
+    expect(token.cancelled).toBe(true);
+  });
+});
+
+describe("taskProgressIntervalMs", () => {
+  it("beats three times per lease, within bounds", () => {
+    expect(taskProgressIntervalMs(120)).toBe(40_000);
+    expect(taskProgressIntervalMs(3)).toBe(5_000);
+    expect(taskProgressIntervalMs(3600)).toBe(60_000);
+  });
+});
+
+describe("startTaskProgress", () => {
+  it("publishes immediately and stops when asked", async () => {
+    const published: Array<{ topic: string; data: unknown }> = [];
+    const dapr = {
+      pubsub: {
+        publish: async (_pubsub: string, topic: string, data: unknown) => {
+          published.push({ topic, data });
+        },
+      },
+    } as unknown as DaprClient;
+
+    const stop = startTaskProgress(dapr, { id: TASK_ID, timeout: 120 }, "simple-agent");
+    stop();
+    await Promise.resolve();
+
+    expect(published).toEqual([
+      { topic: TASK_PROGRESS_TOPIC, data: { taskId: TASK_ID, agentId: "simple-agent", status: "running" } },
+    ]);
+  });
+
+  it("flags interval beats as heartbeats and stops renewing at the lease cap", async () => {
+    const published: unknown[] = [];
+    const dapr = {
+      pubsub: {
+        publish: async (_pubsub: string, _topic: string, data: unknown) => {
+          published.push(data);
+        },
+      },
+    } as unknown as DaprClient;
+
+    jest.useFakeTimers();
+    try {
+      const stop = startTaskProgress(dapr, { id: TASK_ID, timeout: 30 }, "simple-agent", { maxLeaseMs: 25_000 });
+      jest.advanceTimersByTime(10_000);
+      jest.advanceTimersByTime(10_000);
+      jest.advanceTimersByTime(30_000);
+      stop();
+      await Promise.resolve();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(published).toEqual([
+      { taskId: TASK_ID, agentId: "simple-agent", status: "running" },
+      { taskId: TASK_ID, agentId: "simple-agent", status: "running", heartbeat: true },
+      { taskId: TASK_ID, agentId: "simple-agent", status: "running", heartbeat: true },
+    ]);
+  });
+});
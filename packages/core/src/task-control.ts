@@ -0,0 +1,201 @@
+import { z } from "zod";
+import type { DaprClient } from "@dapr/dapr";
+import type { TaskRequest } from "./types.js";
+
+// Topic constants
+export const TASK_PROGRESS_TOPIC = "task-progress";
+export const TASK_CONTROL_TOPIC_PREFIX = "control";
+
+const PUBSUB_NAME = "agent-pubsub";
+const MAX_EARLY_CANCELLATIONS = 1000;
+const MIN_PROGRESS_INTERVAL_MS = 5_000;
+const MAX_PROGRESS_INTERVAL_MS = 60_000;
+
+/** Per-agent control topic the orchestrator publishes cancellations on. */
+export function taskControlTopic(agentId: string): string {
+  return `${TASK_CONTROL_TOPIC_PREFIX}.${agentId}`;
+}
+
+// --- Task Progress (published by agents; renews the task lease) ---
+export const TaskProgressSchema = z.object({
+  taskId: z.string().uuid(),
+  agentId: z.string(),
+  status: z.string(),
+  details: z.record(z.string(), z.unknown()).optional(),
+  traceId: z.string().optional(),
+  /** Periodic lease renewal with no new information; not written to the event log */
+  heartbeat: z.boolean().optional(),
+});
+export type TaskProgress = z.infer<typeof TaskProgressSchema>;
+
+// --- Control Messages (published by the orchestrator) ---
+export const TaskCancelMessageSchema = z.object({
+  type: z.literal("cancel"),
+  taskId: z.string().uuid(),
+  reason: z.string(),
+  requestedBy: z.string(),
+  cancelledAt: z.string(),
+});
+export type TaskCancelMessage = z.infer<typeof TaskCancelMessageSchema>;
+
+export class TaskCancelledError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly reason: string
+  ) {
+    super(`Task ${taskId} cancelled: ${reason}`);
+    this.name = "TaskCancelledError";
+  }
+}
+
+/**
+ * Cancellation state for a single task. Handlers check `cancelled` (or call
+ * `throwIfCancelled`) between steps and pass `signal` to fetch/LLM calls.
+ */
+export class CancelToken {
+  private controller = new AbortController();
+  private _reason: string | null = null;
+
+  constructor(public readonly taskId: string) {}
+
+  get cancelled(): boolean {
+    return this._reason !== null;
+  }
+
+  get reason(): string | null {
+    return this._reason;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  cancel(reason: string): void {
+    if (this._reason !== null) return;
+    this._reason = reason;
+    this.controller.abort(new TaskCancelledError(this.taskId, reason));
+  }
+
+  throwIfCancelled(): void {
+    if (this._reason !== null) {
+      throw new TaskCancelledError(this.taskId, this._reason);
+    }
+  }
+}
+
+/**
+ * Tracks cancel tokens for an agent's in-flight tasks and applies control
+ * messages received on `taskControlTopic(agentId)`.
+ *
+ * Cancellations that arrive before the task does are remembered, so a
+ * redelivered or late task is cancelled as soon as its token is created.
+ */
+export class TaskCancellations {
+  private tokens = new Map<string, CancelToken>();
+  private early = new Map<string, string>();
+
+  /** Create (or return) the token for a task. Call at the start of a `/tasks` handler. */
+  begin(taskId: string): CancelToken {
+    const existing = this.tokens.get(taskId);
+    if (existing) return existing;
+
+    const token = new CancelToken(taskId);
+    const earlyReason = this.early.get(taskId);
+    if (earlyReason) {
+      this.early.delete(taskId);
+      token.cancel(earlyReason);
+    }
+    this.tokens.set(taskId, token);
+    return token;
+  }
+
+  /** Drop the token once the task has finished. */
+  end(taskId: string): void {
+    this.tokens.delete(taskId);
+  }
+
+  /** Cancel a task. Returns true if it was in flight. */
+  cancel(taskId: string, reason: string): boolean {
+    const token = this.tokens.get(taskId);
+    if (!token) {
+      this.early.set(taskId, reason);
+      if (this.early.size > MAX_EARLY_CANCELLATIONS) {
+        this.early.delete(this.early.keys().next().value!);
+      }
+      return false;
+    }
+    token.cancel(reason);
+    return true;
+  }
+
+  /**
+   * Apply a control message (the `data` of a Dapr pub/sub envelope).
+   * Returns the parsed message, or null if it was not a valid control message.
+   */
+  handleControlMessage(data: unknown): TaskCancelMessage | null {
+    const parsed = TaskCancelMessageSchema.safeParse(data);
+    if (!parsed.success) return null;
+    this.cancel(parsed.data.taskId, parsed.data.reason);
+    return parsed.data;
+  }
+
+  get size(): number {
+    return this.tokens.size;
+  }
+}
+
+// --- Lease renewal (task-progress heartbeat) ---
+
+/** Publish a task-progress event. The orchestrator renews the task's lease on each one. */
+export async function publishTaskProgress(dapr: DaprClient, progress: TaskProgress): Promise<void> {
+  await dapr.pubsub.publish(PUBSUB_NAME, TASK_PROGRESS_TOPIC, TaskProgressSchema.parse(progress));
+}
+
+/**
+ * Heartbeat interval for a task: a third of its lease (the task timeout), so two
+ * lost heartbeats still leave the lease alive.
+ */
+export function taskProgressIntervalMs(timeoutSeconds: number): number {
+  return Math.min(MAX_PROGRESS_INTERVAL_MS, Math.max(MIN_PROGRESS_INTERVAL_MS, (timeoutSeconds * 1000) / 3));
+}
+
+export interface TaskProgressOptions {
+  status?: string;
+  /**
+   * Stop renewing the lease after this long, so a hung handler still times out
+   * at the orchestrator. Defaults to the task timeout.
+   */
+  maxLeaseMs?: number;
+}
+
+/**
+ * Publish task-progress for `task` right away and then on an interval until the
+ * returned stop function is called or `maxLeaseMs` has passed. Call at the start
+ * of a `/tasks` handler and stop in its `finally`. Interval beats are flagged as
+ * heartbeats. Publish failures are logged, never thrown.
+ */
+export function startTaskProgress(
+  dapr: DaprClient,
+  task: Pick<TaskRequest, "id" | "timeout">,
+  agentId: string,
+  opts: TaskProgressOptions = {}
+): () => void {
+  const { status = "running", maxLeaseMs = task.timeout * 1000 } = opts;
+  const deadline = Date.now() + maxLeaseMs;
+
+  const beat = (heartbeat: boolean) =>
+    publishTaskProgress(dapr, { taskId: task.id, agentId, status, ...(heartbeat ? { heartbeat } : {}) }).catch((err) =>
+      console.warn(`[${agentId}] Failed to publish task-progress for ${task.id}:`, err)
+    );
+
+  void beat(false);
+  const timer = setInterval(() => {
+    if (Date.now() >= deadline) {
+      clearInterval(timer);
+      console.warn(`[${agentId}] Task ${task.id} passed its lease cap; no longer renewing`);
+      return;
+    }
+    void beat(true);
+  }, taskProgressIntervalMs(task.timeout));
+  return () => clearInterval(timer);
+}
@@ -364,6 +364,26 @@ describe("Auth types", () => {
     expect(result.hasValidCredential).toBe(true);
   });
 
+  it("parses ProvisionResponse with a pool member", () => {
+    const result = ProvisionResponseSchema.parse({
+      status: "provisioned",
+      bundleId: "b-1",
+      poolMember: { id: "m-1", label: "team-a", rateLimitTier: "default_claude_max_5x" },
+    });
+    expect(result.poolMember?.label).toBe("team-a");
+  });
+
+  it("rejects CredentialHealth with an unknown pool policy", () => {
+    expect(() =>
+      CredentialHealthSchema.parse({
+        projectId: "mesh-six",
+        hasValidCredential: true,
+        hasRefreshToken: true,
+        poolPolicy: "random",
+      })
+    ).toThrow();
+  });
+
   it("parses ImplementationSession", () => {
     const result = ImplementationSessionSchema.parse({
       id: "sess-1",
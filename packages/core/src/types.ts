@@ -9,6 +9,14 @@ export const AgentCapabilitySchema = z.object({
   async: z.boolean().optional(),
   estimatedDuration: z.string().optional(),
   platforms: z.array(z.string()).optional(),
+  /** Relative cost per task (e.g. USD); used by the cost-aware scoring strategy */
+  cost: z.number().nonnegative().optional(),
+  /** Semver of this capability's contract; treated as 1.0.0 when omitted */
+  version: z.string().optional(),
+  /** JSON Schema (see contracts.ts) the task payload must satisfy */
+  inputSchema: z.record(z.string(), z.unknown()).optional(),
+  /** JSON Schema describing the task result */
+  outputSchema: z.record(z.string(), z.unknown()).optional(),
 });
 
 export type AgentCapability = z.infer<typeof AgentCapabilitySchema>;
@@ -30,6 +38,8 @@ export type AgentRegistration = z.infer<typeof AgentRegistrationSchema>;
 export const TaskRequestSchema = z.object({
   id: z.string().uuid(),
   capability: z.string(),
+  /** Version range the requester asked for (e.g. "^2"), when one was given */
+  capabilityVersion: z.string().optional(),
   payload: z.record(z.string(), z.unknown()),
   priority: z.number().min(0).max(10).default(5),
   timeout: z.number().positive().default(120),
@@ -66,6 +76,8 @@ export const AgentScoreCardSchema = z.object({
   rollingSuccessRate: z.number().min(0).max(1),
   recencyBoost: z.number(),
   finalScore: z.number(),
+  strategy: z.string().optional(),
+  factors: z.record(z.string(), z.number()).optional(),
 });
 
 export type AgentScoreCard = z.infer<typeof AgentScoreCardSchema>;
@@ -76,7 +88,7 @@ export const TaskStatusSchema = z.object({
   capability: z.string(),
   dispatchedTo: z.string().nullable(),
   dispatchedAt: z.string().nullable(),
-  status: z.enum(["pending", "dispatched", "completed", "failed", "timeout"]),
+  status: z.enum(["pending", "dispatched", "completed", "failed", "timeout", "cancelled"]),
   attempts: z.number().default(0),
   result: TaskResultSchema.optional(),
 });
@@ -179,6 +191,8 @@ export const CredentialPushRequestSchema = z.object({
   scopes: z.array(z.string()).optional(),
   subscriptionType: z.string().optional(),
   rateLimitTier: z.string().optional(),
+  /** Pool member (account) this credential belongs to; defaults to accountUuid, then emailAddress */
+  poolMember: z.string().optional(),
 });
 export type CredentialPushRequest = z.infer<typeof CredentialPushRequestSchema>;
 
@@ -196,6 +210,7 @@ export const ProjectCredentialSchema = z.object({
   scopes: z.array(z.string()).optional(),
   subscriptionType: z.string().optional(),
   rateLimitTier: z.string().optional(),
+  poolMemberId: z.string().optional(),
   source: z.enum(["push", "refresh", "import"]),
   pushedBy: z.string().optional(),
   createdAt: z.string().datetime(),
@@ -209,10 +224,25 @@ export const ProvisionRequestSchema = z.object({
 });
 export type ProvisionRequest = z.infer<typeof ProvisionRequestSchema>;
 
+/** Credential pool selection policies for projects with several Claude accounts */
+export const CredentialPoolPolicySchema = z.enum(["round_robin", "least_recently_rate_limited", "tier_aware"]);
+export type CredentialPoolPolicy = z.infer<typeof CredentialPoolPolicySchema>;
+
+/** The pool member (account) a provisioned bundle belongs to */
+export const PoolMemberRefSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  rateLimitTier: z.string().optional(),
+});
+export type PoolMemberRef = z.infer<typeof PoolMemberRefSchema>;
+
 export const ProvisionResponseSchema = z.object({
   status: z.enum(["current", "provisioned", "no_credentials"]),
   bundleId: z.string().optional(),
   credentialExpiresAt: z.string().datetime().optional(),
+  poolMember: PoolMemberRefSchema.optional(),
+  /** With no_credentials: when the earliest cooling-down member becomes available */
+  retryAfterMs: z.number().int().positive().optional(),
   message: z.string().optional(),
 });
 export type ProvisionResponse = z.infer<typeof ProvisionResponseSchema>;
@@ -225,9 +255,31 @@ export const CredentialHealthSchema = z.object({
   hasRefreshToken: z.boolean(),
   lastRefreshAt: z.string().datetime().optional(),
   activeBundleId: z.string().optional(),
+  poolPolicy: CredentialPoolPolicySchema.optional(),
+  poolMembers: z
+    .array(
+      PoolMemberRefSchema.extend({
+        enabled: z.boolean(),
+        hasValidCredential: z.boolean(),
+        expiresAt: z.string().datetime().optional(),
+        cooldownUntil: z.string().datetime().optional(),
+        lastRateLimitedAt: z.string().datetime().optional(),
+      })
+    )
+    .optional(),
 });
 export type CredentialHealth = z.infer<typeof CredentialHealthSchema>;
 
+/** A consumer reporting that its pool member's credential hit a problem */
+export const CredentialProblemReportSchema = z.object({
+  bundleId: z.string(),
+  problem: z.enum(["rate_limited", "auth_failure"]),
+  /** From a Retry-After or the CLI's reset time, when known */
+  retryAfterMs: z.number().int().positive().optional(),
+  reportedBy: z.string().optional(),
+});
+export type CredentialProblemReport = z.infer<typeof CredentialProblemReportSchema>;
+
 // ---------------------------------------------------------------------------
 // Implementation session types
 // ---------------------------------------------------------------------------
@@ -257,6 +309,59 @@ export const SessionQuestionSchema = z.object({
 });
 export type SessionQuestion = z.infer<typeof SessionQuestionSchema>;
 
+/**
+ * Session capacity of one implementer pod, published as the data of the pod's
+ * registry instance report (`AgentRegistry.reportInstance`, keyed by pod name).
+ */
+export const ImplementerCapacitySchema = z.object({
+  podName: z.string(),
+  maxSessions: z.number(),
+  activeSessions: z.number(),
+  queuedActivations: z.number(),
+  maxQueued: z.number(),
+  freeDiskBytes: z.number(),
+  minFreeDiskBytes: z.number(),
+  /** Disk under WORKTREE_BASE_DIR is below the headroom threshold */
+  diskLow: z.boolean(),
+  /** A new activation would be admitted or queued rather than rejected */
+  acceptingWork: z.boolean(),
+  updatedAt: z.string(),
+});
+export type ImplementerCapacity = z.infer<typeof ImplementerCapacitySchema>;
+
+/**
+ * Claude CLI hook events from implementer sessions. The session hook script
+ * posts them to the implementer pod running the session.
+ */
+export const SessionHookEventSchema = z.object({
+  /** mesh-six implementation session ID */
+  sessionId: z.string(),
+  /** Claude CLI session ID (usable with --resume) */
+  claudeSessionId: z.string().optional(),
+  /** SessionStart, PreToolUse, PostToolUse, Notification, Stop, SessionEnd */
+  hookEvent: z.string(),
+  timestamp: z.string(),
+  toolName: z.string().optional(),
+  toolUseId: z.string().optional(),
+  toolInput: z.record(z.string(), z.unknown()).optional(),
+  toolResponse: z.unknown().optional(),
+  notification: z
+    .object({
+      message: z.string(),
+      title: z.string().optional(),
+      /** e.g. permission_prompt, idle_prompt */
+      type: z.string().optional(),
+    })
+    .optional(),
+  /** Stop: final assistant text, read from the transcript (truncated) */
+  lastAssistantMessage: z.string().optional(),
+  /** Stop: set when that message is an API error the CLI wrote in place of a reply */
+  apiError: z.boolean().optional(),
+  /** SessionEnd: why the CLI exited */
+  reason: z.string().optional(),
+});
+export type SessionHookEvent = z.infer<typeof SessionHookEventSchema>;
+
 // ---------------------------------------------------------------------------
 // Auth service constants
 // ---------------------------------------------------------------------------
@@ -12,6 +12,7 @@
  *   --dry-run              Print what would be done without executing
  *   --retention-days N     Days to retain sessions (default: 7)
  *   --log-retention-days N Days to retain logs/checkpoints (default: 30)
+ *   --event-key-retention-days N Days to retain event idempotency keys (default: 7)
  */
 
 import { parseArgs } from "util";
@@ -25,6 +26,7 @@ const { values } = parseArgs({
     "dry-run": { type: "boolean", default: false },
     "retention-days": { type: "string", default: "7" },
     "log-retention-days": { type: "string", default: "30" },
+    "event-key-retention-days": { type: "string", default: "7" },
     help: { type: "boolean", short: "h" },
   },
 });
@@ -36,6 +38,8 @@ Options:
   --dry-run              Print what would be done without executing
   --retention-days N     Days to retain completed/failed sessions (default: 7)
   --log-retention-days N Days to retain checkpoints and activity logs (default: 30)
+  --event-key-retention-days N
+                         Days to retain event idempotency keys (default: 7)
   -h, --help             Show this help
 `);
   process.exit(0);
@@ -44,6 +48,7 @@ Options:
 const dryRun = values["dry-run"] ?? false;
 const retentionDays = parseInt(values["retention-days"] ?? "7", 10);
 const logRetentionDays = parseInt(values["log-retention-days"] ?? "30", 10);
+const eventKeyRetentionDays = parseInt(values["event-key-retention-days"] ?? "7", 10);
 
 if (isNaN(retentionDays) || retentionDays < 1) {
   console.error("Error: --retention-days must be a positive integer");
@@ -53,6 +58,10 @@ if (isNaN(logRetentionDays) || logRetentionDays < 1) {
   console.error("Error: --log-retention-days must be a positive integer");
   process.exit(1);
 }
+if (isNaN(eventKeyRetentionDays) || eventKeyRetentionDays < 1) {
+  console.error("Error: --event-key-retention-days must be a positive integer");
+  process.exit(1);
+}
 
 const databaseUrl = process.env.DATABASE_URL || process.env.PG_PRIMARY_URL;
 if (!databaseUrl) {
@@ -170,11 +179,28 @@ async function cleanup() {
     `);
   }
 
+  // --- 4. Prune event idempotency keys past the redelivery window ---
+  let eventKeyCount = 0;
+  if (dryRun) {
+    const { rows } = await pool.query<{ count: string }>(`
+      SELECT COUNT(*) AS count FROM mesh_six_event_keys
+      WHERE created_at < now() - interval '${eventKeyRetentionDays} days'
+    `);
+    eventKeyCount = parseInt(rows[0]?.count ?? "0", 10);
+  } else {
+    const { rows } = await pool.query<{ removed: string }>(
+      `SELECT prune_mesh_six_event_keys(interval '${eventKeyRetentionDays} days') AS removed`
+    );
+    eventKeyCount = parseInt(rows[0]?.removed ?? "0", 10);
+  }
+  console.log(`${prefix}Pruned ${eventKeyCount} event idempotency key(s) older than ${eventKeyRetentionDays} days`);
+
   // --- Summary ---
   console.log(`\n--- Summary ${dryRun ? "(DRY RUN — no changes made)" : ""} ---`);
   console.log(`  Sessions cleaned:        ${sessionsRemoved}`);
   console.log(`  Checkpoints deleted:     ${checkpointCount}`);
   console.log(`  Activity log entries:    ${logCount}`);
+  console.log(`  Event keys pruned:       ${eventKeyCount}`);
 
   await pool.end();
 }
@@ -5,6 +5,9 @@
  * Exports all auth_credentials rows to a timestamped JSON file and
  * uploads to MinIO via the `mc` CLI. Prunes backups older than 30 days.
  *
+ * Tokens are exported as stored, i.e. encrypted by auth-service. The wrapped
+ * data keys are exported alongside them; restoring needs the master key too.
+ *
  * Usage:
  *   bun run scripts/credential-backup.ts
  *
@@ -39,8 +42,9 @@ interface CredentialRow {
   invalidated_at: string | null;
   source: string;
   pushed_by: string | null;
+  member_id: string | null;
   created_at: string;
-  // Sensitive fields are included — backup should be stored encrypted/restricted
+  // Encrypted by auth-service (legacy rows may still be plaintext until rotate-keys runs)
   access_token: string;
   refresh_token: string | null;
   account_uuid: string | null;
@@ -78,18 +82,46 @@ async function run(): Promise<void> {
       c.rate_limit_tier,
       c.source,
       c.pushed_by,
+      c.member_id,
       c.created_at
     FROM auth_credentials c
     ORDER BY c.created_at ASC
   `);
 
-  console.log(`Backing up ${credentials.length} credential(s)...`);
+  // Wrapped data keys — useless without the master key, needed to decrypt the tokens
+  const { rows: dataKeys } = await pool.query<{
+    project_id: string;
+    version: number;
+    wrapped_key: string;
+    master_key_id: string;
+    retired_at: string | null;
+  }>(`
+    SELECT project_id, version, encode(wrapped_key, 'base64') AS wrapped_key, master_key_id, retired_at
+    FROM auth_data_keys
+    ORDER BY project_id, version
+  `);
+
+  // Credential pool members the credentials belong to
+  const { rows: poolMembers } = await pool.query<{
+    id: string;
+    project_id: string;
+    label: string;
+    enabled: boolean;
+  }>(`
+    SELECT id, project_id, label, enabled
+    FROM auth_pool_members
+    ORDER BY project_id, created_at
+  `);
+
+  console.log(`Backing up ${credentials.length} credential(s) and ${dataKeys.length} data key(s)...`);
 
   // --- 2. Write to temp file ---
   const payload = {
     exportedAt: new Date().toISOString(),
     count: credentials.length,
     credentials,
+    dataKeys,
+    poolMembers,
   };
   await mkdir(tmpdir(), { recursive: true });
   await writeFile(localPath, JSON.stringify(payload, null, 2), "utf-8");